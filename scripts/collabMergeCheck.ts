@@ -0,0 +1,105 @@
+/**
+ * ========================================
+ * 协同编辑合并检查
+ * ========================================
+ *
+ * 模拟协同编辑房间与 REST 接口保存同时修改文档，检查合并进房间的结果（mergeIntoText）：
+ * - 两侧修改不同的行：服务端的修改合并进房间，编辑者的修改保留
+ * - 两侧修改同一行：保留房间中的内容，不写入冲突标记
+ * - 合并产生的修改通过 Yjs 同步给已连接的编辑者
+ *
+ * 运行：npm run collab:merge-check
+ * 房间与编辑者各使用一个 Y.Doc，互相转发增量更新，不需要 Durable Object 或 Supabase
+ */
+
+import * as Y from 'yjs';
+import { mergeIntoText } from '../src/utils/collabUtils';
+
+/**
+ * 检查条件，不满足时抛出错误
+ */
+const check = (condition: unknown, message: string): void => {
+  if (!condition) throw new Error(`检查失败：${message}`);
+};
+
+/**
+ * 创建内容为 content 的房间，以及一个已同步的编辑者
+ * 两个文档的增量更新互相转发，模拟 WebSocket 连接
+ */
+const createRoom = (content: string) => {
+  const room = new Y.Doc();
+  const editor = new Y.Doc();
+
+  room.getText('content').insert(0, content);
+  Y.applyUpdate(editor, Y.encodeStateAsUpdate(room), 'room');
+
+  room.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin !== 'editor') Y.applyUpdate(editor, update, 'room');
+  });
+  editor.on('update', (update: Uint8Array, origin: unknown) => {
+    if (origin !== 'room') Y.applyUpdate(room, update, 'editor');
+  });
+
+  return { room: room.getText('content'), editor: editor.getText('content') };
+};
+
+/**
+ * 把 Y.Text 中第一次出现的 search 替换为 replacement
+ */
+const replaceIn = (text: Y.Text, search: string, replacement: string): void => {
+  const index = text.toString().indexOf(search);
+  check(index >= 0, `找到要替换的内容 ${search}`);
+  text.doc!.transact(() => {
+    text.delete(index, search.length);
+    text.insert(index, replacement);
+  });
+};
+
+const BASE = '# 标题\n第一段\n第二段\n第三段\n';
+
+const checks: Array<[string, () => void]> = [];
+const step = (name: string, run: () => void) => checks.push([name, run]);
+
+step('两侧修改不同的行', () => {
+  const { room, editor } = createRoom(BASE);
+  replaceIn(editor, '第一段', '第一段（编辑者）');
+
+  const server = BASE.replace('第三段', '第三段（REST 保存）');
+  const result = mergeIntoText(room, BASE, server, 'server');
+
+  const expected = '# 标题\n第一段（编辑者）\n第二段\n第三段（REST 保存）\n';
+  check(result.clean && result.conflicts === 0, '没有冲突');
+  check(room.toString() === expected, `房间内容为两侧修改的合并结果，实际为 ${JSON.stringify(room.toString())}`);
+  check(editor.toString() === expected, '合并结果同步给编辑者');
+});
+
+step('两侧修改同一行', () => {
+  const { room, editor } = createRoom(BASE);
+  replaceIn(editor, '第二段', '第二段（编辑者）');
+
+  const server = BASE.replace('第二段', '第二段（REST 保存）').replace('# 标题', '# 新标题');
+  const result = mergeIntoText(room, BASE, server, 'server');
+
+  const expected = '# 新标题\n第一段\n第二段（编辑者）\n第三段\n';
+  check(!result.clean && result.conflicts === 1, '记录一个冲突块');
+  check(!room.toString().includes('<<<<<<<') && !room.toString().includes('>>>>>>>'), '房间内容不包含冲突标记');
+  check(room.toString() === expected, `冲突行保留房间内容，其他修改正常合并，实际为 ${JSON.stringify(room.toString())}`);
+  check(result.content === room.toString(), '返回的合并结果与房间内容一致');
+  check(editor.toString() === expected, '合并结果同步给编辑者');
+});
+
+step('服务端内容没有变化', () => {
+  const { room } = createRoom(BASE);
+  let updates = 0;
+  room.doc!.on('update', () => updates++);
+
+  const result = mergeIntoText(room, BASE, BASE, 'server');
+  check(result.clean && room.toString() === BASE && updates === 0, '不修改房间');
+});
+
+for (const [name, run] of checks) {
+  run();
+  console.log(`✓ ${name}`);
+}
+
+console.log(`全部 ${checks.length} 项检查通过`);
@@ -0,0 +1,200 @@
+/**
+ * ========================================
+ * 模拟 WordPress REST 服务
+ * ========================================
+ *
+ * 本文件实现 WordPress 发布功能用到的 REST API 子集（/wp-json/wp/v2），数据只保存在内存中：
+ * - GET  /users/me：校验应用程序密码
+ * - POST /media：上传图片到媒体库
+ * - POST /posts、POST /posts/:id：创建和更新文章
+ * - GET  /posts/:id、DELETE /posts/:id：查看文章，模拟在 WordPress 后台删除文章
+ *
+ * 认证失败、文章不存在和参数错误时返回与 WordPress 相同格式的错误（{ code, message, data: { status } }）
+ *
+ * 用法：
+ * - 在脚本中调用 createMockWordPress 创建实例，把请求交给 app.fetch 处理（见 wordpressIntegration.ts）
+ * - 作为本地服务运行：npm run wordpress:mock，之后在编辑器中登记站点 http://localhost:8788，
+ *   用户名 editor，应用程序密码 abcd efgh ijkl mnop qrst uvwx
+ */
+
+import { Hono, Context } from "hono";
+
+/** 允许的文章状态 */
+const POST_STATUSES = ['draft', 'publish', 'pending', 'private'];
+
+/**
+ * 模拟站点中的文章
+ */
+export interface MockPost {
+  id: number;
+  title: string;
+  content: string;
+  status: string;
+  link: string;
+}
+
+/**
+ * 模拟站点媒体库中的文件
+ */
+export interface MockMedia {
+  id: number;
+  file: string;
+  mime_type: string;
+  size: number;
+  source_url: string;
+}
+
+/**
+ * 返回 WordPress 格式的错误
+ */
+const wordpressError = (c: Context, status: number, code: string, message: string) => {
+  return c.json({ code, message, data: { status } }, status as 400);
+};
+
+/**
+ * 创建模拟 WordPress 站点
+ *
+ * @param options.username - WordPress 用户名
+ * @param options.password - 应用程序密码（与 WordPress 一样忽略其中的空格）
+ * @returns Hono 应用和站点中的数据；failNext 让下一次接口调用返回指定的错误
+ */
+export const createMockWordPress = (options: { username: string; password: string }) => {
+  const posts = new Map<number, MockPost>();
+  const media = new Map<number, MockMedia>();
+  let nextId = 1;
+  let pendingFailure: { status: number; code: string; message: string } | null = null;
+
+  const app = new Hono();
+  const api = new Hono();
+
+  // 应用程序密码认证（HTTP Basic）
+  api.use('*', async (c, next) => {
+    const header = c.req.header('Authorization') || '';
+    if (!header.startsWith('Basic ')) {
+      return wordpressError(c, 401, 'rest_not_logged_in', 'You are not currently logged in.');
+    }
+
+    const decoded = new TextDecoder().decode(Uint8Array.from(atob(header.slice(6)), char => char.charCodeAt(0)));
+    const separator = decoded.indexOf(':');
+    const username = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1).replace(/\s+/g, '');
+
+    if (username !== options.username) {
+      return wordpressError(c, 401, 'invalid_username', 'Unknown username. Check again or try your email address.');
+    }
+    if (password !== options.password.replace(/\s+/g, '')) {
+      return wordpressError(c, 401, 'incorrect_password', 'The provided password is an invalid application password.');
+    }
+
+    if (pendingFailure) {
+      const failure = pendingFailure;
+      pendingFailure = null;
+      return wordpressError(c, failure.status, failure.code, failure.message);
+    }
+
+    await next();
+  });
+
+  api.get('/users/me', (c) => {
+    return c.json({ id: 1, name: options.username, slug: options.username.toLowerCase() });
+  });
+
+  api.post('/media', async (c) => {
+    const disposition = c.req.header('Content-Disposition') || '';
+    const file = /filename="?([^";]+)"?/.exec(disposition)?.[1];
+    if (!file) {
+      return wordpressError(c, 400, 'rest_upload_no_content_disposition', 'No Content-Disposition supplied.');
+    }
+
+    const body = new Uint8Array(await c.req.arrayBuffer());
+    if (body.length === 0) {
+      return wordpressError(c, 400, 'rest_upload_no_data', 'No data supplied.');
+    }
+
+    const item: MockMedia = {
+      id: nextId++,
+      file,
+      mime_type: c.req.header('Content-Type') || 'application/octet-stream',
+      size: body.length,
+      source_url: `${new URL(c.req.url).origin}/wp-content/uploads/${encodeURIComponent(file)}`
+    };
+    media.set(item.id, item);
+
+    return c.json(item, 201);
+  });
+
+  /**
+   * 创建或更新文章；postId 为 null 时创建
+   */
+  const savePost = async (c: Context, postId: number | null) => {
+    const existing = postId === null ? null : posts.get(postId);
+    if (postId !== null && !existing) {
+      return wordpressError(c, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+    }
+
+    const body = await c.req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return wordpressError(c, 400, 'rest_invalid_json', 'Invalid JSON body passed.');
+    }
+    if (body.status !== undefined && !POST_STATUSES.includes(body.status)) {
+      return wordpressError(c, 400, 'rest_invalid_param', 'Invalid parameter(s): status');
+    }
+
+    const id = existing ? existing.id : nextId++;
+    const post: MockPost = {
+      id,
+      title: typeof body.title === 'string' ? body.title : existing?.title || '',
+      content: typeof body.content === 'string' ? body.content : existing?.content || '',
+      status: body.status || existing?.status || 'draft',
+      link: `${new URL(c.req.url).origin}/?p=${id}`
+    };
+    posts.set(id, post);
+
+    return c.json({
+      id: post.id,
+      link: post.link,
+      status: post.status,
+      title: { raw: post.title, rendered: post.title },
+      content: { raw: post.content, rendered: post.content }
+    }, existing ? 200 : 201);
+  };
+
+  api.post('/posts', (c) => savePost(c, null));
+  api.post('/posts/:id{[0-9]+}', (c) => savePost(c, Number(c.req.param('id'))));
+
+  api.get('/posts/:id{[0-9]+}', (c) => {
+    const post = posts.get(Number(c.req.param('id')));
+    return post ? c.json(post) : wordpressError(c, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+  });
+
+  api.delete('/posts/:id{[0-9]+}', (c) => {
+    const id = Number(c.req.param('id'));
+    const post = posts.get(id);
+    if (!post) {
+      return wordpressError(c, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+    }
+    posts.delete(id);
+    return c.json({ deleted: true, previous: post });
+  });
+
+  app.route('/wp-json/wp/v2', api);
+  app.notFound((c) => wordpressError(c, 404, 'rest_no_route', 'No route was found matching the URL and request method.'));
+
+  return {
+    app,
+    posts,
+    media,
+
+    /**
+     * 让下一次通过认证的接口调用返回指定的错误
+     */
+    failNext(status: number, code: string, message: string) {
+      pendingFailure = { status, code, message };
+    }
+  };
+};
+
+/**
+ * 作为本地服务运行时使用的站点（npm run wordpress:mock）
+ */
+export default createMockWordPress({ username: 'editor', password: 'abcd efgh ijkl mnop qrst uvwx' }).app;
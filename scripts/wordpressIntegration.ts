@@ -0,0 +1,161 @@
+/**
+ * ========================================
+ * WordPress 发布集成检查
+ * ========================================
+ *
+ * 使用模拟 WordPress REST 服务（mockWordPress.ts）运行发布流程，检查：
+ * - 凭据校验：正确的应用程序密码可以登录，错误的密码返回 WordPress 的错误代码
+ * - 首次发布：Markdown 转换为 HTML，站内图片上传到媒体库并替换为媒体库地址
+ * - 再次发布：更新同一篇文章，不重复上传图片；文章在后台被删除后重新创建
+ * - 错误映射：WordPress 报错、无法连接和返回非 JSON 内容时的状态码
+ *
+ * 运行：npm run wordpress:integration
+ * 请求通过替换全局 fetch 交给模拟服务处理，不需要网络、Supabase 或 R2
+ */
+
+import { createMockWordPress } from "./mockWordPress";
+import {
+  WordPressError,
+  WordPressMedia,
+  createWordPressClient,
+  getPublishErrorStatus,
+  publishWordPressPost
+} from "../src/utils/wordpressUtils";
+
+/** 模拟站点地址 */
+const SITE_URL = 'http://wordpress.test';
+
+/** 返回 HTML 页面而不是 REST 接口的站点地址 */
+const NOT_WORDPRESS_URL = 'http://not-wordpress.test';
+
+/** 无法连接的站点地址 */
+const UNREACHABLE_URL = 'http://unreachable.test';
+
+/** 本站地址 */
+const ORIGIN = 'https://editor.example.com';
+
+const credentials = { username: 'editor', password: 'abcd efgh ijkl mnop qrst uvwx' };
+const mock = createMockWordPress(credentials);
+
+// 把发往模拟站点的请求交给模拟服务处理
+globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+  const request = new Request(input, init);
+  const { origin } = new URL(request.url);
+
+  if (origin === SITE_URL) {
+    return mock.app.fetch(request);
+  }
+  if (origin === NOT_WORDPRESS_URL) {
+    return new Response('<!DOCTYPE html><html><body>Welcome</body></html>', {
+      headers: { 'Content-Type': 'text/html' }
+    });
+  }
+  throw new TypeError('fetch failed');
+};
+
+/**
+ * 只包含一张 PNG 图片的 R2 存储桶
+ */
+const IMAGE_KEY = '1700000000000-diagram.png';
+const bucket = {
+  async get(key: string) {
+    if (key !== IMAGE_KEY) return null;
+    const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    return { httpMetadata: { contentType: 'image/png' }, arrayBuffer: async () => data.buffer };
+  }
+} as unknown as R2Bucket;
+
+/**
+ * 检查条件，不满足时抛出错误
+ */
+const check = (condition: unknown, message: string): void => {
+  if (!condition) throw new Error(`检查失败：${message}`);
+};
+
+/**
+ * 执行调用并返回抛出的 WordPressError
+ */
+const expectWordPressError = async (run: () => Promise<unknown>): Promise<WordPressError> => {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof WordPressError) return error;
+    throw error;
+  }
+  throw new Error('检查失败：预期调用失败');
+};
+
+/**
+ * 依次运行检查项，输出每一项的结果
+ */
+const checks: Array<[string, () => Promise<void>]> = [];
+const step = (name: string, run: () => Promise<void>) => checks.push([name, run]);
+
+const client = createWordPressClient({ siteUrl: SITE_URL, ...credentials });
+const markdown = `# 发布说明\n\n正文包含**加粗**文字和[站内链接](/share/abc)。\n\n![架构图](/api/images/${IMAGE_KEY})\n`;
+let previous: { post_id: number; media: Record<string, WordPressMedia> } | null = null;
+
+step('校验应用程序密码', async () => {
+  const user = await client.getCurrentUser();
+  check(user.name === credentials.username, '返回当前用户');
+
+  const error = await expectWordPressError(() => createWordPressClient({ siteUrl: SITE_URL, username: 'editor', password: 'wrong' }).getCurrentUser());
+  check(error.status === 401 && error.code === 'incorrect_password', `错误的密码返回 401 incorrect_password，实际为 ${error.status} ${error.code}`);
+});
+
+step('首次发布为草稿', async () => {
+  const result = await publishWordPressPost({ bucket, client, title: '发布说明', markdown, status: 'draft', origin: ORIGIN, previous });
+  const post = mock.posts.get(result.post.id);
+
+  check(result.created, '新建文章');
+  check(post && post.status === 'draft', '文章状态为草稿');
+  check(post && post.content.includes('<strong>加粗</strong>'), 'Markdown 转换为 HTML');
+  check(post && post.content.includes(`href="${ORIGIN}/share/abc"`), '站内相对链接转换为绝对地址');
+  check(result.uploaded === 1 && mock.media.size === 1, '图片上传到媒体库');
+  check(post && post.content.includes(result.media[IMAGE_KEY].url), '图片地址替换为媒体库地址');
+
+  previous = { post_id: result.post.id, media: result.media };
+});
+
+step('再次发布更新同一篇文章', async () => {
+  const result = await publishWordPressPost({ bucket, client, title: '发布说明（修订）', markdown, status: 'publish', origin: ORIGIN, previous });
+
+  check(!result.created && result.post.id === previous!.post_id, '更新原文章');
+  check(mock.posts.size === 1, '没有创建重复的文章');
+  check(result.post.status === 'publish' && mock.posts.get(result.post.id)!.title === '发布说明（修订）', '更新标题和状态');
+  check(result.uploaded === 0 && mock.media.size === 1, '已上传的图片不重复上传');
+
+  previous = { post_id: result.post.id, media: result.media };
+});
+
+step('文章在后台被删除后重新创建', async () => {
+  mock.posts.delete(previous!.post_id);
+  const result = await publishWordPressPost({ bucket, client, title: '发布说明', markdown, status: 'publish', origin: ORIGIN, previous });
+
+  check(result.created && result.post.id !== previous!.post_id, '创建新文章');
+  check(mock.posts.size === 1, '站点中只有新文章');
+});
+
+step('错误映射', async () => {
+  mock.failNext(403, 'rest_cannot_create', 'Sorry, you are not allowed to create posts as this user.');
+  let error = await expectWordPressError(() => publishWordPressPost({ bucket, client, title: '标题', markdown: '正文', status: 'draft', origin: ORIGIN, previous: null }));
+  check(error.status === 403 && error.code === 'rest_cannot_create' && getPublishErrorStatus(error) === 502, 'WordPress 拒绝时返回 502 并保留错误代码');
+
+  error = await expectWordPressError(() => publishWordPressPost({ bucket, client, title: '标题', markdown: '正文', status: 'scheduled', origin: ORIGIN, previous: null }));
+  check(error.status === 400 && error.code === 'rest_invalid_param', '参数错误时保留 WordPress 的错误代码');
+
+  error = await expectWordPressError(() => createWordPressClient({ siteUrl: NOT_WORDPRESS_URL, ...credentials }).getCurrentUser());
+  check(error.status === 502, '返回非 JSON 内容时为 502');
+
+  error = await expectWordPressError(() => createWordPressClient({ siteUrl: UNREACHABLE_URL, ...credentials }).getCurrentUser());
+  check(error.status === 502 && getPublishErrorStatus(error) === 502, '无法连接时为 502');
+
+  check(getPublishErrorStatus(new WordPressError('WordPress 站点响应超时', 504)) === 504, '超时为 504');
+});
+
+for (const [name, run] of checks) {
+  await run();
+  console.log(`✓ ${name}`);
+}
+
+console.log(`全部 ${checks.length} 项检查通过`);
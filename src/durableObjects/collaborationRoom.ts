@@ -0,0 +1,814 @@
+/**
+ * ========================================
+ * 实时协同编辑房间 (Durable Object)
+ * ========================================
+ *
+ * 每篇文档对应一个 CollaborationRoom 实例（以文档ID命名）
+ * 房间内使用 Yjs CRDT 维护文档内容，编辑器通过 WebSocket 接入，
+ * 消息格式与 y-websocket 兼容：
+ * - 0 (sync): Yjs 同步协议（step1 / step2 / update）
+ * - 1 (awareness): 在线状态与光标位置
+ * - 3 (query awareness): 请求当前全部在线状态
+ *
+ * 持久化分为两层：
+ * - Yjs 增量更新实时写入 Durable Object 存储，房间被驱逐或休眠后可以完整恢复
+ * - 合并后的纯文本由定时闹钟（alarm）周期性写回 Supabase documents 表，
+ *   写入时基于 version 做乐观并发控制，期间通过 REST 接口产生的修改会先三方合并进房间
+ *
+ * 需要在 wrangler 配置中声明绑定和迁移（本地 `wrangler dev` 会自动模拟 Durable Object）：
+ *
+ * ```jsonc
+ * "durable_objects": {
+ *   "bindings": [{ "name": "COLLAB_ROOMS", "class_name": "CollaborationRoom" }]
+ * },
+ * "migrations": [{ "tag": "v1", "new_sqlite_classes": ["CollaborationRoom"] }]
+ * ```
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Env } from '../config';
+import { User } from '../types/context';
+import { createSupabaseClient } from '../utils/supabaseClient';
+import { buildDocumentMetadata } from '../utils/metadataUtils';
+import { getActiveLock } from '../utils/lockUtils';
+import { afterDocumentSaved } from '../utils/documentSaveUtils';
+import { buildDocumentEventData, dispatchWebhookEvent } from '../utils/webhookUtils';
+import { mergeIntoText } from '../utils/collabUtils';
+
+/** WebSocket 消息类型（与 y-websocket 保持一致） */
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+
+/** 存放文档内容的 Y.Text 名称，客户端需绑定同名字段 */
+export const COLLAB_TEXT_NAME = 'content';
+
+/** 写回 Supabase 的间隔（毫秒） */
+const PERSIST_INTERVAL_MS = 10 * 1000;
+
+/** 单条增量更新超过该大小时直接压缩为快照（Durable Object 单个值上限 128 KiB） */
+const MAX_UPDATE_BYTES = 64 * 1024;
+
+/** 快照分块大小 */
+const SNAPSHOT_CHUNK_BYTES = 100 * 1024;
+
+/** 累积的增量更新条数超过该值时在写回后压缩 */
+const MAX_STORED_UPDATES = 500;
+
+/** 写回 Supabase 时遇到版本冲突的最大重试次数 */
+const MAX_PERSIST_ATTEMPTS = 3;
+
+/** 文档不存在或已移入回收站时关闭连接使用的状态码 */
+export const CLOSE_DOCUMENT_GONE = 4404;
+
+/** 文档被其他会话签出锁定时关闭连接使用的状态码 */
+export const CLOSE_DOCUMENT_LOCKED = 4423;
+
+/**
+ * 连接附加信息
+ * 通过 serializeAttachment 保存在 WebSocket 上，休眠唤醒后依然可用
+ */
+export interface CollabConnection {
+  /** 用户ID */
+  userId: string;
+
+  /** 用户邮箱 */
+  email: string;
+
+  /** 文档ID */
+  documentId: string;
+
+  /** 该连接控制的 awareness 客户端ID */
+  clientIds: number[];
+
+  /** 建立连接时提供的锁令牌 */
+  lockToken: string | null;
+
+  /** 连接建立时间 */
+  connectedAt: string;
+}
+
+/**
+ * 房间元数据
+ * 保存在 Durable Object 存储的 meta 键下
+ */
+interface RoomMeta {
+  /** 文档ID */
+  documentId: string;
+
+  /** 房间内容所基于的 Supabase 文档版本号 */
+  baseVersion: number;
+
+  /** 基础版本对应的文档内容，用于三方合并 */
+  baseContent: string;
+
+  /** 是否有尚未写回 Supabase 的修改 */
+  dirty: boolean;
+
+  /** 是否有已写回但尚未生成修订记录的修改 */
+  revisionPending: boolean;
+
+  /** 最近一次编辑的用户，生成修订记录时作为作者 */
+  lastEditor: User | null;
+
+  /** 下一条增量更新的序号 */
+  nextUpdateSeq: number;
+}
+
+/**
+ * 文档不存在或已移入回收站
+ */
+class DocumentGoneError extends Error {}
+
+/**
+ * 生成增量更新的存储键（补零保证按字典序即按写入顺序排列）
+ */
+const updateKey = (seq: number): string => `update:${String(seq).padStart(12, '0')}`;
+
+/**
+ * 协同编辑房间
+ */
+export class CollaborationRoom extends DurableObject<Env> {
+  private doc: Y.Doc | null = null;
+  private awareness: awarenessProtocol.Awareness | null = null;
+  private meta: RoomMeta | null = null;
+
+  /** 内存中的修改计数，用于判断写回期间是否又产生了新修改 */
+  private changeCounter = 0;
+
+  /** 正在进行的写回操作，避免闹钟与最后一个连接关闭时并发写回 */
+  private persisting: Promise<void> | null = null;
+
+  /**
+   * ========================================
+   * HTTP 入口
+   * ========================================
+   */
+
+  /**
+   * 处理来自 Worker 的请求
+   *
+   * - WebSocket 升级请求：建立协同连接，用户信息由 Worker 通过 X-Collab-* 请求头传入
+   * - GET /participants：返回当前在线的用户列表
+   */
+  async fetch(request: Request): Promise<Response> {
+    const documentId = request.headers.get('X-Collab-Document-Id');
+    if (!documentId) {
+      return Response.json({ error: 'Missing document id' }, { status: 400 });
+    }
+
+    if (new URL(request.url).pathname.endsWith('/participants')) {
+      return Response.json({ participants: this.getParticipants() });
+    }
+
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return Response.json({ error: 'Expected WebSocket upgrade' }, { status: 426 });
+    }
+
+    try {
+      await this.ensureLoaded(documentId);
+    } catch (error) {
+      if (error instanceof DocumentGoneError) {
+        return Response.json({ error: 'Document not found' }, { status: 404 });
+      }
+      throw error;
+    }
+
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+
+    this.ctx.acceptWebSocket(server);
+    server.serializeAttachment({
+      userId: request.headers.get('X-Collab-User-Id') || '',
+      email: request.headers.get('X-Collab-User-Email') || '',
+      documentId,
+      clientIds: [],
+      lockToken: request.headers.get('X-Collab-Lock-Token') || null,
+      connectedAt: new Date().toISOString()
+    } satisfies CollabConnection);
+
+    // 主动发送 sync step1，客户端回复缺失的更新后再由 step2 补齐服务端状态
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, this.doc!);
+    server.send(encoding.toUint8Array(encoder));
+
+    // 发送当前其他编辑者的在线状态和光标
+    const states = this.awareness!.getStates();
+    if (states.size > 0) {
+      server.send(this.encodeAwareness(Array.from(states.keys())));
+    }
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * ========================================
+   * WebSocket 事件（支持休眠）
+   * ========================================
+   */
+
+  /**
+   * 处理客户端消息
+   */
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    // 协议只使用二进制消息
+    if (typeof message === 'string') {
+      return;
+    }
+
+    const connection = ws.deserializeAttachment() as CollabConnection;
+
+    try {
+      await this.ensureLoaded(connection.documentId);
+    } catch (error) {
+      if (error instanceof DocumentGoneError) {
+        ws.close(CLOSE_DOCUMENT_GONE, 'Document not found');
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const decoder = decoding.createDecoder(new Uint8Array(message));
+      const messageType = decoding.readVarUint(decoder);
+
+      switch (messageType) {
+        case MESSAGE_SYNC: {
+          const encoder = encoding.createEncoder();
+          encoding.writeVarUint(encoder, MESSAGE_SYNC);
+          // 以 WebSocket 作为事务来源，便于广播时跳过发送方并记录编辑者
+          syncProtocol.readSyncMessage(decoder, encoder, this.doc!, ws);
+          if (encoding.length(encoder) > 1) {
+            ws.send(encoding.toUint8Array(encoder));
+          }
+          break;
+        }
+
+        case MESSAGE_AWARENESS:
+          awarenessProtocol.applyAwarenessUpdate(this.awareness!, decoding.readVarUint8Array(decoder), ws);
+          break;
+
+        case MESSAGE_QUERY_AWARENESS:
+          ws.send(this.encodeAwareness(Array.from(this.awareness!.getStates().keys())));
+          break;
+      }
+    } catch (error) {
+      console.error('Collaboration message failed:', error);
+      ws.close(1003, 'Invalid message');
+    }
+  }
+
+  /**
+   * 处理连接关闭
+   * 清理该连接的在线状态；最后一个编辑者离开时立即写回并生成修订记录
+   */
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    const connection = ws.deserializeAttachment() as CollabConnection;
+
+    try {
+      // 1005 / 1006 为保留状态码，不能主动发送
+      ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch {
+      // 连接已关闭
+    }
+
+    if (this.awareness && connection.clientIds.length > 0) {
+      awarenessProtocol.removeAwarenessStates(this.awareness, connection.clientIds, null);
+    }
+
+    if (this.getOpenSockets(ws).length === 0) {
+      await this.persistSafely(true);
+    }
+  }
+
+  /**
+   * 处理连接错误，与关闭同样处理
+   */
+  async webSocketError(ws: WebSocket): Promise<void> {
+    await this.webSocketClose(ws, 1011, 'Connection error');
+  }
+
+  /**
+   * 定时写回闹钟
+   */
+  async alarm(): Promise<void> {
+    await this.persistSafely(this.getOpenSockets().length === 0);
+  }
+
+  /**
+   * ========================================
+   * 房间状态加载
+   * ========================================
+   */
+
+  /**
+   * 确保房间状态已加载到内存
+   * Durable Object 被驱逐或从休眠中唤醒后，内存状态会丢失，需要从存储恢复
+   */
+  private async ensureLoaded(documentId: string): Promise<void> {
+    if (this.doc) {
+      return;
+    }
+
+    await this.ctx.blockConcurrencyWhile(async () => {
+      if (!this.doc) {
+        await this.load(documentId);
+      }
+    });
+  }
+
+  /**
+   * 从 Durable Object 存储和 Supabase 加载房间状态
+   *
+   * - 存储中的状态与 Supabase 版本一致：直接恢复 Yjs 状态
+   * - 没有在线连接且版本不一致（房间空闲期间文档被修改）：以 Supabase 内容重新初始化
+   * - 有在线连接且版本不一致（休眠期间文档被修改）：恢复 Yjs 状态后把外部修改三方合并进来
+   */
+  private async load(documentId: string): Promise<void> {
+    const supabase = this.createServiceClient();
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id, content, version')
+      .eq('id', documentId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!document) {
+      throw new DocumentGoneError();
+    }
+
+    const storedMeta = await this.ctx.storage.get<RoomMeta>('meta');
+    const doc = new Y.Doc();
+    const serverContent: string = document.content || '';
+
+    const canRestore = storedMeta?.documentId === documentId &&
+      (storedMeta.baseVersion === document.version || this.getOpenSockets().length > 0);
+
+    if (storedMeta && canRestore) {
+      await this.restoreState(doc);
+      this.meta = storedMeta;
+    } else {
+      doc.getText(COLLAB_TEXT_NAME).insert(0, serverContent);
+      this.meta = {
+        documentId,
+        baseVersion: document.version,
+        baseContent: serverContent,
+        dirty: false,
+        revisionPending: false,
+        lastEditor: null,
+        nextUpdateSeq: 0
+      };
+    }
+
+    this.doc = doc;
+    this.awareness = this.createAwareness(doc);
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      this.handleUpdate(update, origin);
+    });
+
+    if (!storedMeta || !canRestore) {
+      await this.compact();
+    } else if (storedMeta.baseVersion !== document.version) {
+      this.applyServerChange(serverContent, document.version);
+      await this.ctx.storage.put('meta', this.meta);
+    }
+  }
+
+  /**
+   * 从存储中的快照分块和增量更新恢复 Yjs 文档
+   */
+  private async restoreState(doc: Y.Doc): Promise<void> {
+    const snapshotChunks = await this.ctx.storage.list<Uint8Array>({ prefix: 'snapshot:' });
+    if (snapshotChunks.size > 0) {
+      const parts = Array.from(snapshotChunks.values());
+      const snapshot = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+      let offset = 0;
+      for (const part of parts) {
+        snapshot.set(part, offset);
+        offset += part.length;
+      }
+      Y.applyUpdate(doc, snapshot);
+    }
+
+    const updates = await this.ctx.storage.list<Uint8Array>({ prefix: 'update:' });
+    for (const update of updates.values()) {
+      Y.applyUpdate(doc, update);
+    }
+  }
+
+  /**
+   * 创建 awareness 实例
+   * 在线状态变化时广播给所有连接，并记录每个连接控制的客户端ID
+   */
+  private createAwareness(doc: Y.Doc): awarenessProtocol.Awareness {
+    const awareness = new awarenessProtocol.Awareness(doc);
+
+    // Awareness 内置的过期检查定时器会阻止 Durable Object 休眠，连接关闭时会主动清理对应状态，因此不需要该定时器。
+    // destroy() 清除定时器和房间自身的本地状态，但不影响之后接收和广播客户端的状态，因此在注册监听之前调用
+    awareness.destroy();
+
+    awareness.on('update', (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin instanceof WebSocket) {
+        const connection = origin.deserializeAttachment() as CollabConnection;
+        const clientIds = new Set(connection.clientIds);
+        added.forEach(id => clientIds.add(id));
+        removed.forEach(id => clientIds.delete(id));
+        origin.serializeAttachment({ ...connection, clientIds: Array.from(clientIds) });
+      }
+
+      this.broadcast(this.encodeAwareness([...added, ...updated, ...removed]));
+    });
+
+    return awareness;
+  }
+
+  /**
+   * ========================================
+   * 更新处理与广播
+   * ========================================
+   */
+
+  /**
+   * 处理 Yjs 文档更新
+   * 广播给其他连接，写入增量更新并安排写回闹钟
+   */
+  private handleUpdate(update: Uint8Array, origin: unknown): void {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    this.broadcast(encoding.toUint8Array(encoder), origin instanceof WebSocket ? origin : null);
+
+    const meta = this.meta!;
+    meta.dirty = true;
+    this.changeCounter++;
+
+    if (origin instanceof WebSocket) {
+      const connection = origin.deserializeAttachment() as CollabConnection;
+      meta.lastEditor = { id: connection.userId, email: connection.email };
+    }
+
+    if (update.length > MAX_UPDATE_BYTES) {
+      this.ctx.waitUntil(this.compact());
+    } else {
+      this.ctx.storage.put(updateKey(meta.nextUpdateSeq++), update);
+      this.ctx.storage.put('meta', meta);
+    }
+
+    this.ctx.waitUntil(this.scheduleAlarm());
+  }
+
+  /**
+   * 尚未安排闹钟时安排一次写回
+   */
+  private async scheduleAlarm(): Promise<void> {
+    if (await this.ctx.storage.getAlarm() === null) {
+      await this.ctx.storage.setAlarm(Date.now() + PERSIST_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 向所有连接广播消息
+   *
+   * @param message - 二进制消息
+   * @param exclude - 需要跳过的连接（通常是消息发送方）
+   */
+  private broadcast(message: Uint8Array, exclude: WebSocket | null = null): void {
+    for (const ws of this.getOpenSockets(exclude)) {
+      try {
+        ws.send(message);
+      } catch {
+        // 连接正在关闭，由 webSocketClose 清理
+      }
+    }
+  }
+
+  /**
+   * 编码 awareness 消息
+   */
+  private encodeAwareness(clientIds: number[]): Uint8Array {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness!, clientIds));
+    return encoding.toUint8Array(encoder);
+  }
+
+  /**
+   * 获取所有处于打开状态的连接
+   *
+   * @param exclude - 需要排除的连接
+   */
+  private getOpenSockets(exclude: WebSocket | null = null): WebSocket[] {
+    return this.ctx.getWebSockets().filter(ws => ws !== exclude && ws.readyState === WebSocket.OPEN);
+  }
+
+  /**
+   * 获取在线用户列表（同一用户的多个连接合并为一项）
+   */
+  private getParticipants(): { user_id: string; email: string; connections: number; connected_at: string }[] {
+    const participants = new Map<string, { user_id: string; email: string; connections: number; connected_at: string }>();
+
+    for (const ws of this.getOpenSockets()) {
+      const connection = ws.deserializeAttachment() as CollabConnection;
+      const existing = participants.get(connection.userId);
+      if (existing) {
+        existing.connections++;
+        if (connection.connectedAt < existing.connected_at) {
+          existing.connected_at = connection.connectedAt;
+        }
+      } else {
+        participants.set(connection.userId, {
+          user_id: connection.userId,
+          email: connection.email,
+          connections: 1,
+          connected_at: connection.connectedAt
+        });
+      }
+    }
+
+    return Array.from(participants.values());
+  }
+
+  /**
+   * ========================================
+   * 持久化
+   * ========================================
+   */
+
+  /**
+   * 将完整 Yjs 状态压缩为快照分块，并清除旧的快照和增量更新
+   */
+  private async compact(): Promise<void> {
+    const state = Y.encodeStateAsUpdate(this.doc!);
+    const meta = this.meta!;
+
+    await this.ctx.storage.transaction(async (txn) => {
+      const oldKeys = [
+        ...(await txn.list({ prefix: 'snapshot:' })).keys(),
+        ...(await txn.list({ prefix: 'update:' })).keys()
+      ];
+      // 单次 delete 最多 128 个键
+      for (let i = 0; i < oldKeys.length; i += 128) {
+        await txn.delete(oldKeys.slice(i, i + 128));
+      }
+
+      for (let offset = 0, index = 0; offset < state.length || index === 0; offset += SNAPSHOT_CHUNK_BYTES, index++) {
+        await txn.put(`snapshot:${String(index).padStart(6, '0')}`, state.slice(offset, offset + SNAPSHOT_CHUNK_BYTES));
+      }
+
+      meta.nextUpdateSeq = 0;
+      await txn.put('meta', meta);
+    });
+  }
+
+  /**
+   * 写回 Supabase，错误时记录日志并在仍有连接时重新安排闹钟
+   *
+   * @param final - 是否为最后一个编辑者离开后的写回（会生成修订记录）
+   */
+  private async persistSafely(final: boolean): Promise<void> {
+    // 等待正在进行的写回结束，避免基于同一版本重复写入
+    while (this.persisting) {
+      await this.persisting;
+    }
+
+    this.persisting = (async () => {
+      try {
+        const storedMeta = this.meta || await this.ctx.storage.get<RoomMeta>('meta');
+        if (!storedMeta) {
+          return;
+        }
+        await this.ensureLoaded(storedMeta.documentId);
+        await this.persist(final);
+      } catch (error) {
+        if (error instanceof DocumentGoneError) {
+          await this.closeRoom();
+          return;
+        }
+        console.error('Collaboration persist failed:', error);
+        await this.scheduleAlarm();
+      }
+    })();
+
+    try {
+      await this.persisting;
+    } finally {
+      this.persisting = null;
+    }
+  }
+
+  /**
+   * 将房间内容写回 Supabase
+   *
+   * 仅在文档版本等于房间的基础版本时写入；版本不一致说明期间通过 REST 接口保存过，
+   * 此时先把服务端内容三方合并进房间（合并结果会广播给所有编辑者），再基于新版本重试
+   *
+   * @param final - 是否生成修订记录
+   */
+  private async persist(final: boolean): Promise<void> {
+    const meta = this.meta!;
+    const supabase = this.createServiceClient();
+
+    // 每次写回前检查文档锁，文档被房间外的会话锁定时不再写回
+    const writable = await this.enforceLock(supabase);
+
+    if (writable && meta.dirty) {
+      for (let attempt = 0; attempt < MAX_PERSIST_ATTEMPTS; attempt++) {
+        const changeCounter = this.changeCounter;
+        const content = this.getText().toString();
+
+        const { data, error } = await supabase
+          .from('documents')
+          .update({ content, metadata: buildDocumentMetadata(content), updated_at: new Date().toISOString() })
+          .eq('id', meta.documentId)
+          .eq('version', meta.baseVersion)
+          .is('deleted_at', null)
+          .select('id, user_id, title, folder_id, version, created_at, updated_at');
+
+        if (error) {
+          throw new Error(error.message);
+        }
+
+        if (data.length > 0) {
+          meta.baseVersion = data[0].version;
+          meta.baseContent = content;
+          meta.revisionPending = true;
+          // 写回期间又产生的修改留给下一次写回
+          meta.dirty = this.changeCounter !== changeCounter;
+
+          // 每次写回都通知订阅了 document.updated 的 Webhook
+          await dispatchWebhookEvent(supabase, this.env.WEBHOOK_QUEUE, data[0].user_id, 'document.updated', {
+            ...buildDocumentEventData(data[0]),
+            changes: ['content']
+          });
+          break;
+        }
+
+        // 版本冲突或文档已不存在
+        const { data: current, error: currentError } = await supabase
+          .from('documents')
+          .select('content, version')
+          .eq('id', meta.documentId)
+          .is('deleted_at', null)
+          .maybeSingle();
+
+        if (currentError) {
+          throw new Error(currentError.message);
+        }
+        if (!current) {
+          throw new DocumentGoneError();
+        }
+
+        this.applyServerChange(current.content || '', current.version);
+        if (!meta.dirty) {
+          break;
+        }
+      }
+
+      await this.ctx.storage.put('meta', meta);
+      if (meta.dirty) {
+        await this.scheduleAlarm();
+      }
+    }
+
+    // 已写回的内容在关闭房间前同样生成修订记录
+    if ((final || !writable) && meta.revisionPending && meta.lastEditor) {
+      const { data: document } = await supabase
+        .from('documents')
+        .select('id, user_id, folder_id, title, content, version')
+        .eq('id', meta.documentId)
+        .maybeSingle();
+
+      if (document) {
+        // 编辑会话结束时按最终内容写入修订记录，重建出链和资源引用记录，并使站点缓存失效；
+        // Webhook 已在每次写回时通知
+        const { revision, error } = await afterDocumentSaved(supabase, this.env, meta.lastEditor, document, {
+          event: 'document.updated',
+          changes: ['content'],
+          dispatchEvent: false,
+          executionCtx: this.ctx
+        });
+        if (error || !revision) {
+          throw new Error(error?.message || 'Failed to record revision');
+        }
+      }
+
+      meta.revisionPending = false;
+      await this.ctx.storage.put('meta', meta);
+    }
+
+    if (!writable) {
+      await this.closeRoom(CLOSE_DOCUMENT_LOCKED, 'Document locked');
+      return;
+    }
+
+    if (meta.nextUpdateSeq > MAX_STORED_UPDATES) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * 检查文档锁
+   *
+   * 房间只在建立连接时校验锁，连接之后文档可能被其他会话签出。文档被锁定时：
+   * - 房间中有携带该锁令牌的连接：关闭其他连接，房间继续由持有锁的会话编辑
+   * - 房间中没有持有锁的连接：返回 false，由调用方关闭房间并丢弃尚未写回的修改
+   *
+   * @returns 房间是否可以写回
+   */
+  private async enforceLock(supabase: SupabaseClient): Promise<boolean> {
+    const { data: lock, error } = await getActiveLock(supabase, this.meta!.documentId);
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!lock) {
+      return true;
+    }
+
+    const sockets = this.getOpenSockets();
+    const holders = sockets.filter(ws => (ws.deserializeAttachment() as CollabConnection).lockToken === lock.token);
+    if (holders.length === 0) {
+      return false;
+    }
+
+    for (const ws of sockets) {
+      if (!holders.includes(ws)) {
+        ws.close(CLOSE_DOCUMENT_LOCKED, 'Document locked');
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 把 Supabase 上被外部修改的内容合并进房间
+   *
+   * 合并方式见 mergeIntoText：两侧修改同一段内容时保留房间中的内容
+   *
+   * @param serverContent - 服务端当前内容
+   * @param serverVersion - 服务端当前版本号
+   */
+  private applyServerChange(serverContent: string, serverVersion: number): void {
+    const meta = this.meta!;
+    const { content, conflicts } = mergeIntoText(this.getText(), meta.baseContent, serverContent, 'server');
+
+    if (conflicts > 0) {
+      console.warn(`Collaboration merge kept room content for ${conflicts} conflicting hunk(s) in document ${meta.documentId}`);
+    }
+
+    meta.baseVersion = serverVersion;
+    meta.baseContent = serverContent;
+    // 合并结果与服务端内容不同时需要写回
+    meta.dirty = content !== serverContent;
+  }
+
+  /**
+   * 文档已被删除或被房间外的会话锁定：关闭所有连接并清空房间存储
+   *
+   * @param code - 关闭连接使用的状态码
+   * @param reason - 关闭原因
+   */
+  private async closeRoom(code: number = CLOSE_DOCUMENT_GONE, reason: string = 'Document not found'): Promise<void> {
+    for (const ws of this.getOpenSockets()) {
+      ws.close(code, reason);
+    }
+
+    this.doc?.destroy();
+    this.doc = null;
+    this.awareness = null;
+    this.meta = null;
+
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+  }
+
+  /**
+   * 获取存放文档内容的 Y.Text
+   */
+  private getText(): Y.Text {
+    return this.doc!.getText(COLLAB_TEXT_NAME);
+  }
+
+  /**
+   * 创建服务角色客户端
+   * 房间内的写回没有用户会话，访问权限由 Worker 在建立连接时校验
+   */
+  private createServiceClient() {
+    return createSupabaseClient(
+      this.env.SUPABASE_URL,
+      this.env.SUPABASE_SERVICE_ROLE_KEY || this.env.SUPABASE_ANON_KEY
+    );
+  }
+}
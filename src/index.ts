@@ -11,10 +11,35 @@ import { Hono } from "hono";
 import { AppContext } from "./types/context";
 import auth from "./routes/auth";
 import documents from "./routes/documents";
+import revisions from "./routes/revisions";
+import shares from "./routes/shares";
+import sharedView from "./routes/sharedView";
+import documentExports from "./routes/exports";
+import imports from "./routes/imports";
+import bulk from "./routes/bulk";
+import replace from "./routes/replace";
+import splitMerge from "./routes/splitMerge";
+import collaboration from "./routes/collaboration";
+import comments from "./routes/comments";
+import locks from "./routes/locks";
+import links from "./routes/links";
+import drafts from "./routes/drafts";
 import folders from "./routes/folders";
 import images from "./routes/images";
 import files from "./routes/files";
+import assets from "./routes/assets";
+import trash from "./routes/trash";
+import tags from "./routes/tags";
+import templates from "./routes/templates";
+import ai from "./routes/ai";
+import wordpress from "./routes/wordpress";
+import sites from "./routes/sites";
+import siteView from "./routes/siteView";
+import webhooks from "./routes/webhooks";
 import { authMiddleware } from "./middleware/authMiddleware";
+import { Env } from "./config";
+import { purgeExpiredTrash } from "./utils/trashUtils";
+import { handleWebhookQueue } from "./utils/webhookUtils";
 
 /**
  * 创建 Hono 应用实例
@@ -58,6 +83,22 @@ app.get("/api/message", (c) => {
  */
 app.route("/api/auth", auth);
 
+/**
+ * 分享链接公开访问路由 (无需认证)
+ * 通过分享令牌以只读方式查看文档
+ * 路径前缀: /s
+ * 包含: 渲染后的分享页面、密码验证、JSON 内容、文档内引用的图片和文件
+ */
+app.route("/s", sharedView);
+
+/**
+ * 公开站点访问路由 (无需认证)
+ * 由文件夹发布的公开博客，页面缓存在 R2 中
+ * 路径前缀: /blog/:slug
+ * 包含: 站点首页、文章页、标签页、sitemap.xml、RSS 订阅、文章内引用的图片和文件
+ */
+app.route("/blog", siteView);
+
 /**
  * ========================================
  * 受保护的路由配置
@@ -65,15 +106,118 @@ app.route("/api/auth", auth);
  * 以下路由需要用户认证才能访问
  */
 
+/**
+ * 文档相关路由的认证中间件
+ * /api/documents 下的所有路由都需要用户认证
+ */
+app.use("/api/documents/*", authMiddleware);
+
+/**
+ * 文档链接路由 (受认证保护)
+ * 查询文档之间的 [[维基链接]] 和编辑器链接关系
+ * 路径前缀: /api/documents/graph、/api/documents/:id/backlinks、/api/documents/:id/outgoing
+ * 包含: 链接关系图、反向链接、出链
+ * 需要在文档管理路由之前挂载，避免 /graph 被 GET /:id 匹配
+ */
+app.route("/api/documents", links);
+
+/**
+ * 文档草稿路由 (受认证保护)
+ * 处理编辑器自动保存的草稿，发布前不影响文档正文
+ * 路径前缀: /api/documents/drafts、/api/documents/:id/draft
+ * 包含: 草稿列表（崩溃恢复）、保存草稿、查看草稿、丢弃草稿、发布草稿
+ * 需要在文档管理路由之前挂载，避免 /drafts 被 GET /:id 匹配
+ */
+app.route("/api/documents", drafts);
+
 /**
  * 文档管理路由 (受认证保护)
  * 处理文档的增删改查操作
  * 路径前缀: /api/documents
  * 包含: 获取文档列表、创建文档、更新文档、删除文档等
  */
-app.use("/api/documents/*", authMiddleware);
 app.route("/api/documents", documents);
 
+/**
+ * 文档修订历史路由 (受认证保护)
+ * 处理文档修订的查看、比较和恢复
+ * 路径前缀: /api/documents/:id/revisions
+ * 包含: 修订列表、修订详情、修订差异、恢复修订等
+ */
+app.route("/api/documents", revisions);
+
+/**
+ * 文档分享链接管理路由 (受认证保护)
+ * 处理文档只读分享链接的创建、查看和撤销
+ * 路径前缀: /api/documents/:id/shares
+ * 包含: 分享列表、创建分享（过期时间/密码/固定修订）、撤销分享等
+ */
+app.route("/api/documents", shares);
+
+/**
+ * 文档导出路由 (受认证保护)
+ * 将文档导出为可离线查看的文件
+ * 路径前缀: /api/documents/:id/export
+ * 包含: 独立 HTML、DOCX、EPUB、带 YAML front matter 的 Markdown
+ */
+app.route("/api/documents", documentExports);
+
+/**
+ * 文档批量导入路由 (受认证保护)
+ * 将 Markdown、文本、HTML、DOCX 文件或 zip 压缩包批量导入为文档
+ * 路径前缀: /api/documents/import
+ * 包含: 格式转换、标题识别、目录结构重建、图片上传与链接改写
+ */
+app.route("/api/documents", imports);
+
+/**
+ * 文档批量操作路由 (受认证保护)
+ * 对多篇文档执行同一操作，全部校验通过后在单个事务中执行
+ * 路径前缀: /api/documents/bulk
+ * 包含: 批量移动、删除、复制、修改标签、设置字段
+ */
+app.route("/api/documents", bulk);
+
+/**
+ * 文档查找替换路由 (受认证保护)
+ * 在全部文档或某个文件夹子树中查找替换正文，先预览再执行，执行结果可撤销
+ * 路径前缀: /api/documents/replace
+ * 包含: 预览匹配、执行替换、替换记录列表与详情、撤销替换
+ */
+app.route("/api/documents", replace);
+
+/**
+ * 文档拆分与合并路由 (受认证保护)
+ * 按标题把一篇文档拆分为多篇，或把多篇文档按顺序合并为一篇
+ * 路径前缀: /api/documents/:id/split, /api/documents/merge
+ * 包含: 按标题级别拆分（可留下索引）、合并文档（可删除原文档并改写链接）
+ */
+app.route("/api/documents", splitMerge);
+
+/**
+ * 实时协同编辑路由 (受认证保护)
+ * 将编辑器的 WebSocket 连接转发到文档对应的协同编辑房间
+ * 路径前缀: /api/documents/:id/collab
+ * 包含: Yjs 同步、在线状态与光标广播、在线用户列表
+ */
+app.route("/api/documents", collaboration);
+
+/**
+ * 文档评论路由 (受认证保护)
+ * 处理锚定到文档文本的评论讨论串
+ * 路径前缀: /api/documents/:id/comments
+ * 包含: 讨论串列表（按状态/孤立/提及过滤）、发起讨论、回复、解决/重新打开、删除等
+ */
+app.route("/api/documents", comments);
+
+/**
+ * 文档锁路由 (受认证保护)
+ * 签出文档以独占编辑，锁有效期内拒绝其他会话的写入
+ * 路径前缀: /api/documents/:id/lock
+ * 包含: 查询锁状态、获取锁、心跳续期、释放和强制解除
+ */
+app.route("/api/documents", locks);
+
 /**
  * 文件夹管理路由 (受认证保护)
  * 处理文件夹的增删改查操作
@@ -87,7 +231,7 @@ app.route("/api/folders", folders);
  * 图片处理路由 (受认证保护)
  * 处理图片上传和访问
  * 路径前缀: /api/images
- * 包含: 图片上传、图片访问、图片列表、删除图片等
+ * 包含: 图片上传、图片访问、图片列表、删除图片（仍被文档引用时需 force=true）等
  */
 app.use("/api/images/*", authMiddleware);
 app.route("/api/images", images);
@@ -96,13 +240,113 @@ app.route("/api/images", images);
  * 文件处理路由 (受认证保护)
  * 处理文件上传、下载、管理等完整功能
  * 路径前缀: /api/files
- * 包含: 文件上传、下载、删除、重命名、文件夹管理等
+ * 包含: 文件上传、下载、删除（仍被文档引用时需 force=true）、重命名、文件夹管理等
  */
 app.use("/api/files/*", authMiddleware);
 app.route("/api/files", files);
 
 /**
- * 导出应用实例
+ * 资源引用路由 (受认证保护)
+ * 查询图片和文件被哪些文档引用，以及可以清理的未引用资源
+ * 路径前缀: /api/assets
+ * 包含: 资源引用情况、未引用资源列表
+ */
+app.use("/api/assets/*", authMiddleware);
+app.route("/api/assets", assets);
+
+/**
+ * 回收站路由 (受认证保护)
+ * 处理已删除文档和文件夹的查看、恢复和永久删除
+ * 路径前缀: /api/trash
+ * 包含: 回收站列表、恢复文档/文件夹、永久删除、清空回收站等
+ */
+app.use("/api/trash/*", authMiddleware);
+app.route("/api/trash", trash);
+
+/**
+ * 标签管理路由 (受认证保护)
+ * 处理文档标签的增删改查操作
+ * 路径前缀: /api/tags
+ * 包含: 标签列表（含文档数量）、创建标签、更新标签、删除标签等
+ */
+app.use("/api/tags/*", authMiddleware);
+app.route("/api/tags", tags);
+
+/**
+ * 文档模板管理路由 (受认证保护)
+ * 处理个人模板和共享模板的增删改查操作
+ * 路径前缀: /api/templates
+ * 包含: 模板列表、创建模板、更新模板、删除模板等（从模板创建文档见 /api/documents/from-template）
+ */
+app.use("/api/templates/*", authMiddleware);
+app.route("/api/templates", templates);
+
+/**
+ * AI 写作助手路由 (受认证保护)
+ * 为编辑器提供校对、润色和扩写功能，按用户限流并统计 token 用量
+ * 路径前缀: /api/ai
+ * 包含: 校对建议、润色、扩写、用量查询
+ */
+app.use("/api/ai/*", authMiddleware);
+app.route("/api/ai", ai);
+
+/**
+ * WordPress 发布路由 (受认证保护)
+ * 管理用户登记的 WordPress 站点，并将文档发布为 WordPress 文章
+ * 路径前缀: /api/wordpress
+ * 包含: 站点列表、登记站点、更新站点、删除站点、发布文章、查看文档的已发布文章
+ */
+app.use("/api/wordpress/*", authMiddleware);
+app.route("/api/wordpress", wordpress);
+
+/**
+ * 公开站点管理路由 (受认证保护)
+ * 将文件夹子树发布为公开博客，访问地址为 /blog/:slug
+ * 路径前缀: /api/sites
+ * 包含: 站点列表、发布站点、更新站点（标识/标题/主题/文件夹）、取消发布
+ */
+app.use("/api/sites/*", authMiddleware);
+app.route("/api/sites", sites);
+
+/**
+ * Webhook 路由 (受认证保护)
+ * 文档、文件夹和文件发生变化时向用户登记的地址推送签名的事件
+ * 路径前缀: /api/webhooks
+ * 包含: Webhook 列表、创建、更新（含重新生成密钥）、删除、推送记录、测试推送、重新推送
+ */
+app.use("/api/webhooks/*", authMiddleware);
+app.route("/api/webhooks", webhooks);
+
+/**
+ * 导出协同编辑房间 Durable Object 类
+ * 需要在 wrangler 配置的 durable_objects.bindings 中绑定为 COLLAB_ROOMS
+ */
+export { CollaborationRoom } from "./durableObjects/collaborationRoom";
+
+/**
+ * 导出 Worker 处理器
  * 供 Cloudflare Workers 部署使用
+ *
+ * - fetch: 处理 HTTP 请求
+ * - scheduled: 处理定时触发器，需要在 wrangler 配置的 triggers.crons 中启用（例如每天一次）
+ * - queue: 处理 Webhook 推送队列，需要在 wrangler 配置的 queues 中将 WEBHOOK_QUEUE 绑定为生产者和消费者
  */
-export default app;
\ No newline at end of file
+export default {
+  fetch: app.fetch,
+
+  /**
+   * 定时任务处理器
+   * 永久删除超过保留期限的回收站内容
+   */
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(purgeExpiredTrash(env));
+  },
+
+  /**
+   * 队列消费者
+   * 推送 Webhook 事件，失败时按退避延迟重试
+   */
+  async queue(batch: MessageBatch<{ delivery_id: string }>, env: Env) {
+    await handleWebhookQueue(batch, env);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,222 @@
+/**
+ * ========================================
+ * AI 写作助手路由模块
+ * ========================================
+ *
+ * 本文件提供编辑器使用的 AI 校对、润色和扩写接口
+ * 实际调用的服务提供方由环境变量决定（见 aiProviders），
+ * 每次调用前按用户检查请求频率和当天的 token 用量并预留用量，调用后按实际结果更新
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { AIProviderError, AITask, createAIProvider, estimateTokens } from "../utils/aiProviders";
+import {
+  MAX_AI_CONTENT_LENGTH,
+  buildDiffSuggestions,
+  checkAILimits,
+  getAILimits,
+  getAIUsageSummary,
+  parseProofreadSuggestions,
+  reserveAIUsage,
+  settleAIUsage,
+  unwrapMarkdownOutput
+} from "../utils/aiUtils";
+
+/**
+ * 创建 AI 写作助手路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const ai = new Hono<AppContext>();
+
+/**
+ * ========================================
+ * AI 写作助手路由
+ * ========================================
+ */
+
+/**
+ * 查询 AI 用量路由
+ *
+ * 路由：GET /api/ai/usage
+ *
+ * 功能：返回当前使用的服务提供方、用量限制以及当前用户最近一分钟的请求次数和当天（UTC）的 token 用量
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "provider": "openai",
+ *   "model": "gpt-4o-mini",
+ *   "limits": { "requests_per_minute": 10, "daily_tokens": 200000 },
+ *   "usage": { "requests_last_minute": 1, "tokens_today": 5230, "remaining_tokens_today": 194770 }
+ * }
+ * ```
+ */
+ai.get("/usage", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const provider = createAIProvider(c.env);
+  const limits = getAILimits(c.env);
+
+  const { data: usage, error } = await getAIUsageSummary(supabase, user.id);
+  if (error || !usage) {
+    return c.json({ error: error?.message || '无法查询 AI 用量' }, 500);
+  }
+
+  return c.json({
+    provider: provider ? provider.name : null,
+    model: provider ? provider.model : null,
+    limits,
+    usage: {
+      ...usage,
+      remaining_tokens_today: Math.max(0, limits.daily_tokens - usage.tokens_today)
+    }
+  });
+});
+
+/**
+ * AI 校对、润色、扩写路由
+ *
+ * 路由：
+ * - POST /api/ai/proofread：校对，返回逐处修改建议，不修改正文
+ * - POST /api/ai/polish：润色，返回润色后的全文以及相对原文的逐处修改
+ * - POST /api/ai/expand：扩写，返回扩写后的全文
+ *
+ * 功能：
+ * - 建议中的 start / end 为原文片段在提交正文中的字符区间 [start, end)
+ * - 超出每分钟请求次数或当天 token 用量时返回 429，并通过 Retry-After 响应头给出等待秒数
+ * - 调用前按预估的 token 数预留用量，并发请求不会同时通过检查；调用结束后更新为实际用量
+ * - AI 服务调用失败时返回 502（超时为 504），计入请求次数，不计入 token 用量
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "title": "文档标题",
+ *   "content": "文档内容（Markdown）"
+ * }
+ * ```
+ *
+ * 校对响应：
+ * ```json
+ * {
+ *   "suggestions": [
+ *     {
+ *       "id": 1,
+ *       "type": "typo",
+ *       "start": 12,
+ *       "end": 14,
+ *       "original": "的的",
+ *       "replacement": "的",
+ *       "message": "重复的字「的」"
+ *     }
+ *   ],
+ *   "provider": "local",
+ *   "model": "rules-v1",
+ *   "usage": { "prompt_tokens": 120, "completion_tokens": 40, "total_tokens": 160 }
+ * }
+ * ```
+ *
+ * 润色响应：{ "polishedContent": "润色后的全文", "suggestions": [...], "provider", "model", "usage" }
+ *
+ * 扩写响应：{ "expandedContent": "扩写后的全文", "provider", "model", "usage" }
+ */
+ai.post("/:task{proofread|polish|expand}", async (c) => {
+  const task = c.req.param('task') as AITask;
+  const { title, content } = await c.req.json();
+
+  // 验证请求内容
+  if (typeof content !== 'string' || content.trim() === '') {
+    return c.json({ error: '文档内容不能为空' }, 400);
+  }
+
+  if (content.length > MAX_AI_CONTENT_LENGTH) {
+    return c.json({ error: `文档内容过长，单次最多处理 ${MAX_AI_CONTENT_LENGTH} 个字符` }, 400);
+  }
+
+  const provider = createAIProvider(c.env);
+  if (!provider) {
+    return c.json({ error: 'AI 服务未配置' }, 503);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const input = { task, title: typeof title === 'string' ? title : '', content };
+  const limits = getAILimits(c.env);
+
+  // 检查用户的请求频率和当天 token 用量并预留本次用量（按输出与输入等长预估 token 数）
+  const { data: reservation, error: reserveError } = await reserveAIUsage(supabase, {
+    userId: user.id,
+    task,
+    provider: provider.name,
+    model: provider.model,
+    estimatedTokens: estimateTokens(input.title + input.content) * 2
+  }, limits);
+  if (reserveError || !reservation) {
+    return c.json({ error: reserveError?.message || '无法查询 AI 用量' }, 500);
+  }
+
+  // 没有预留成功时，预留前的用量必然超出了其中一项限制
+  if (!reservation.id) {
+    const limited = checkAILimits(reservation.usage, limits)!;
+    c.header('Retry-After', String(limited.retryAfter));
+    return c.json({ error: limited.error, code: limited.code }, 429);
+  }
+
+  // 调用 AI 服务；失败的调用保留预留记录计入请求次数，token 用量清零
+  let output;
+  try {
+    output = await provider.run(input);
+  } catch (error) {
+    await settleAIUsage(supabase, reservation.id, null);
+    if (error instanceof AIProviderError) {
+      return c.json({ error: error.message }, error.status === 504 ? 504 : 502);
+    }
+    throw error;
+  }
+
+  // 成功调用即按实际用量计入（包括输出无法解析的情况）
+  const { error: settleError } = await settleAIUsage(supabase, reservation.id, output.usage);
+  if (settleError) {
+    return c.json({ error: settleError.message }, 500);
+  }
+
+  const meta = { provider: provider.name, model: provider.model, usage: output.usage };
+
+  if (task === 'proofread') {
+    const suggestions = parseProofreadSuggestions(output.text, content);
+    if (!suggestions) {
+      return c.json({ error: 'AI 服务返回了无法解析的结果' }, 502);
+    }
+    return c.json({ suggestions, ...meta });
+  }
+
+  const revised = unwrapMarkdownOutput(output.text);
+
+  if (task === 'polish') {
+    return c.json({
+      polishedContent: revised,
+      suggestions: buildDiffSuggestions(content, revised, 'polish'),
+      ...meta
+    });
+  }
+
+  return c.json({ expandedContent: revised, ...meta });
+});
+
+export default ai;
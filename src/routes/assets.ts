@@ -0,0 +1,137 @@
+/**
+ * ========================================
+ * 资源引用路由模块
+ * ========================================
+ *
+ * 本文件提供图片和文件引用情况的查询功能：单个资源被哪些文档引用，以及未被引用、可以清理的资源
+ * 引用记录在保存文档时由 assetUtils 解析正文生成；删除仍被引用的资源会被图片和文件路由拒绝
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { findOrphanAssets, getAssetUsage } from "../utils/assetUtils";
+
+/**
+ * 创建资源引用路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const assets = new Hono<AppContext>();
+
+/** 默认不列出最近多少小时内上传的资源 */
+const DEFAULT_ORPHAN_MIN_AGE_HOURS = 24;
+
+/**
+ * ========================================
+ * 资源引用路由
+ * ========================================
+ */
+
+/**
+ * 获取资源引用情况路由
+ *
+ * 路由：GET /api/assets/usage
+ *
+ * 查询参数：
+ * - key: 对象键，即 /api/images/ 或 /api/files/ 之后的部分
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "key": "1672531200000-image.jpg",
+ *   "used_by": [
+ *     { "id": "doc_id", "title": "文档标题", "deleted_at": null }
+ *   ],
+ *   "reference_count": 1
+ * }
+ * ```
+ *
+ * used_by 只包含当前用户的文档（回收站中的文档 deleted_at 不为空）；
+ * reference_count 统计所有用户的文档，存储桶由所有用户共享
+ */
+assets.get("/usage", async (c) => {
+  const key = c.req.query("key");
+  if (!key) {
+    return c.json({ error: '请指定资源的对象键' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: usage, error } = await getAssetUsage(supabase, user.id, [key]);
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ key, ...(usage.get(key) || { used_by: [], reference_count: 0 }) });
+});
+
+/**
+ * 获取未被引用的资源列表路由
+ *
+ * 路由：GET /api/assets/orphans
+ *
+ * 功能：
+ * - 列出存储桶中没有任何文档（包括回收站中的文档）引用的图片和文件，供清理使用
+ * - 默认跳过最近 24 小时内上传的资源，它们可能只出现在尚未保存的草稿中
+ * - 确认后可通过 DELETE /api/images/:fileName 或 DELETE /api/files/:fileName 删除
+ *
+ * 查询参数：
+ * - min_age_hours: 只列出上传超过指定小时数的资源（可选，默认 24，0 表示不限）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "orphans": [
+ *     {
+ *       "key": "1672531200000-image.jpg",
+ *       "size": 1024000,
+ *       "url": "/api/files/1672531200000-image.jpg",
+ *       "uploaded_at": "2023-01-01T00:00:00.000Z"
+ *     }
+ *   ],
+ *   "total": 1,
+ *   "total_size": 1024000
+ * }
+ * ```
+ */
+assets.get("/orphans", async (c) => {
+  const minAgeParam = c.req.query("min_age_hours");
+  const minAgeHours = minAgeParam === undefined ? DEFAULT_ORPHAN_MIN_AGE_HOURS : Number(minAgeParam);
+  if (!Number.isFinite(minAgeHours) || minAgeHours < 0) {
+    return c.json({ error: 'min_age_hours 必须是非负数' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  const { data: orphans, error } = await findOrphanAssets(supabase, c.env.R2_BUCKET, {
+    uploadedBefore: new Date(Date.now() - minAgeHours * 60 * 60 * 1000)
+  });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    orphans,
+    total: orphans.length,
+    total_size: orphans.reduce((sum, orphan) => sum + orphan.size, 0)
+  });
+});
+
+/**
+ * 导出资源引用路由模块
+ * 供主应用文件挂载使用
+ */
+export default assets;
@@ -0,0 +1,313 @@
+/**
+ * ========================================
+ * 文档批量操作路由模块
+ * ========================================
+ *
+ * 本文件提供对多篇文档执行同一操作的接口：移动、删除、复制、修改标签和设置字段
+ * 所有文档的归属校验与单篇文档路由一致（属于当前用户且不在回收站中），
+ * 任何一篇文档校验失败时整个请求都不会执行；变更通过数据库函数在单个事务中完成
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { validateTagIds } from "../utils/tagUtils";
+import { afterDocumentsChanged, afterDocumentsDeleted } from "../utils/documentSaveUtils";
+import { LOCK_TOKEN_HEADER, findBlockingLocks, formatLock } from "../utils/lockUtils";
+
+/**
+ * 创建批量操作路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const bulk = new Hono<AppContext>();
+
+/** 单次批量操作最多处理的文档数量 */
+const MAX_BULK_DOCUMENTS = 500;
+
+/** 支持的批量操作 */
+const BULK_ACTIONS = ['move', 'delete', 'duplicate', 'tag', 'set'] as const;
+
+/** set 操作允许设置的字段 */
+const BULK_SET_FIELDS = ['folder_id', 'tag_ids'];
+
+/** 复制文档时追加在标题后的后缀 */
+const DUPLICATE_TITLE_SUFFIX = ' (副本)';
+
+/**
+ * 单篇文档的处理结果
+ */
+interface BulkItemResult {
+  id: string;
+  status: 'ok' | 'not_found' | 'locked' | 'skipped';
+  error?: string;
+  document?: { id: string; title: string; folder_id: string | null; version: number };
+  lock?: ReturnType<typeof formatLock>;
+}
+
+/**
+ * ========================================
+ * 批量操作路由
+ * ========================================
+ */
+
+/**
+ * 批量操作文档路由
+ *
+ * 路由：POST /api/documents/bulk
+ *
+ * 功能：
+ * - move：移动到指定文件夹（folder_id 为 null 表示移出文件夹）
+ * - delete：移入回收站
+ * - duplicate：复制文档及其标签，可选复制到指定文件夹
+ * - tag：为文档添加和/或移除标签
+ * - set：设置字段，支持 folder_id 和 tag_ids（替换全部标签）
+ *
+ * 全部文档都通过校验后才会执行，执行过程在单个事务中完成；
+ * 有文档不存在、不属于当前用户或已在回收站中时返回 404，并在 results 中标出这些文档，其余文档标记为 skipped；
+ * 除 duplicate 外，有文档被其他会话签出锁定时返回 423（code 为 DOCUMENT_LOCKED），被锁定的文档标记为 locked；
+ * 执行后为每篇文档通知 Webhook：delete 为 document.deleted，duplicate 为新文档的 document.created，其余为 document.updated
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "ids": ["doc_id_1", "doc_id_2"],
+ *   "action": "move",
+ *   "folder_id": "文件夹ID（move / duplicate）",
+ *   "add_tag_ids": ["标签ID（tag）"],
+ *   "remove_tag_ids": ["标签ID（tag）"],
+ *   "fields": { "folder_id": "文件夹ID", "tag_ids": ["标签ID"] }
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "action": "duplicate",
+ *   "summary": { "total": 2, "succeeded": 2, "failed": 0 },
+ *   "results": [
+ *     {
+ *       "id": "doc_id_1",
+ *       "status": "ok",
+ *       "document": { "id": "new_doc_id", "title": "周报 (副本)", "folder_id": null, "version": 1 }
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+bulk.post("/bulk", async (c) => {
+  const body = await c.req.json();
+  const { ids, action } = body;
+
+  // 校验文档ID列表
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string' || !id)) {
+    return c.json({ error: 'ids 必须是非空的文档ID数组' }, 400);
+  }
+
+  const documentIds: string[] = [...new Set(ids as string[])];
+  if (documentIds.length > MAX_BULK_DOCUMENTS) {
+    return c.json({ error: `单次最多操作 ${MAX_BULK_DOCUMENTS} 篇文档` }, 400);
+  }
+
+  if (!BULK_ACTIONS.includes(action)) {
+    return c.json({ error: `action 只能是 ${BULK_ACTIONS.join('、')}` }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 整理各操作的参数
+  const fields = action === 'set' ? body.fields : undefined;
+  if (action === 'set') {
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields) || Object.keys(fields).length === 0) {
+      return c.json({ error: 'fields 必须是非空对象' }, 400);
+    }
+    const unknownFields = Object.keys(fields).filter(field => !BULK_SET_FIELDS.includes(field));
+    if (unknownFields.length > 0) {
+      return c.json({ error: `不支持批量设置的字段：${unknownFields.join(', ')}` }, 400);
+    }
+  }
+
+  const setFolder = action === 'move' || (action === 'duplicate' && body.folder_id !== undefined) ||
+    (action === 'set' && fields.folder_id !== undefined);
+  const folderId: string | null = (action === 'set' ? fields.folder_id : body.folder_id) || null;
+
+  if (action === 'move' && body.folder_id === undefined) {
+    return c.json({ error: '缺少 folder_id 参数' }, 400);
+  }
+
+  const addTagIds: string[] = action === 'tag' ? (body.add_tag_ids || []) : action === 'set' ? (fields.tag_ids || []) : [];
+  const removeTagIds: string[] = action === 'tag' ? (body.remove_tag_ids || []) : [];
+  const replaceTags = action === 'set' && fields.tag_ids !== undefined;
+
+  if (action === 'tag' && body.add_tag_ids === undefined && body.remove_tag_ids === undefined) {
+    return c.json({ error: '缺少 add_tag_ids 或 remove_tag_ids 参数' }, 400);
+  }
+
+  // 如果指定了目标文件夹，验证文件夹是否存在且属于当前用户
+  if (setFolder && folderId) {
+    const { data: folder } = await supabase
+      .from('folders')
+      .select('id')
+      .eq('id', folderId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!folder) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+  }
+
+  // 验证标签是否都属于当前用户
+  for (const tagIds of [addTagIds, removeTagIds]) {
+    const tagError = await validateTagIds(supabase, user.id, tagIds);
+    if (tagError) {
+      return c.json({ error: tagError }, 400);
+    }
+  }
+
+  // 校验全部文档的归属：必须属于当前用户且不在回收站中
+  const { data: owned, error: ownedError } = await supabase
+    .from('documents')
+    .select('id, folder_id')
+    .in('id', documentIds)
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+
+  if (ownedError) {
+    return c.json({ error: ownedError.message }, 500);
+  }
+
+  const ownedIds = new Set((owned || []).map(document => document.id));
+  if (ownedIds.size !== documentIds.length) {
+    const results: BulkItemResult[] = documentIds.map(id => ownedIds.has(id)
+      ? { id, status: 'skipped' }
+      : { id, status: 'not_found', error: 'Document not found or unauthorized' });
+
+    return c.json({
+      error: '部分文档不存在或无权限访问，未执行任何操作',
+      action,
+      summary: { total: documentIds.length, succeeded: 0, failed: documentIds.length - ownedIds.size },
+      results
+    }, 404);
+  }
+
+  // 复制不修改原文档；其他操作在有文档被其他会话锁定时整体拒绝
+  if (action !== 'duplicate') {
+    const { data: locks, error: lockError } = await findBlockingLocks(supabase, documentIds, c.req.header(LOCK_TOKEN_HEADER));
+    if (lockError) {
+      return c.json({ error: lockError.message }, 500);
+    }
+
+    if (locks.size > 0) {
+      const results: BulkItemResult[] = documentIds.map(id => locks.has(id)
+        ? { id, status: 'locked', error: '文档已被其他会话锁定', lock: formatLock(locks.get(id)!) }
+        : { id, status: 'skipped' });
+
+      return c.json({
+        error: '部分文档已被其他会话锁定，未执行任何操作',
+        code: 'DOCUMENT_LOCKED',
+        action,
+        summary: { total: documentIds.length, succeeded: 0, failed: locks.size },
+        results
+      }, 423);
+    }
+  }
+
+  // 在单个事务中执行变更
+  let results: BulkItemResult[];
+
+  if (action === 'duplicate') {
+    const { data, error } = await supabase.rpc('bulk_duplicate_documents', {
+      p_user_id: user.id,
+      p_document_ids: documentIds,
+      p_set_folder: setFolder,
+      p_folder_id: folderId,
+      p_title_suffix: DUPLICATE_TITLE_SUFFIX,
+      p_author_email: user.email || null
+    });
+
+    if (error) {
+      // 校验后文档被并发删除，事务已整体回滚
+      if (error.code === 'P0002') {
+        return c.json({ error: '部分文档已被删除，未执行任何操作' }, 409);
+      }
+      return c.json({ error: error.message }, 500);
+    }
+
+    const copies = new Map<string, any>((data || []).map((row: any) => [row.source_id, row]));
+    results = documentIds.map(id => {
+      const copy = copies.get(id);
+      return {
+        id,
+        status: 'ok',
+        document: {
+          id: copy.document_id,
+          title: copy.document_title,
+          folder_id: copy.document_folder_id,
+          version: copy.document_version
+        }
+      };
+    });
+  } else {
+    const { error } = await supabase.rpc('bulk_update_documents', {
+      p_user_id: user.id,
+      p_document_ids: documentIds,
+      p_set_folder: setFolder,
+      p_folder_id: folderId,
+      p_trash: action === 'delete',
+      p_add_tag_ids: [...new Set(addTagIds)],
+      p_remove_tag_ids: [...new Set(removeTagIds)],
+      p_replace_tags: replaceTags
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return c.json({ error: '部分文档已被删除，未执行任何操作' }, 409);
+      }
+      return c.json({ error: error.message }, 500);
+    }
+
+    results = documentIds.map(id => ({ id, status: 'ok' }));
+  }
+
+  // 读取变更后的文档（复制时为新文档），使涉及的文件夹所在的站点缓存失效并通知 Webhook
+  const affectedFolderIds = (owned || []).map(document => document.folder_id);
+  const changedIds = action === 'duplicate' ? results.map(result => result.document!.id) : documentIds;
+  const { data: changed } = await supabase
+    .from('documents')
+    .select('id, title, folder_id, version, created_at, updated_at, deleted_at')
+    .in('id', changedIds);
+
+  if (action === 'delete') {
+    await afterDocumentsDeleted(supabase, c.env, user.id, changed || [], changed?.[0]?.deleted_at, {
+      executionCtx: c.executionCtx
+    });
+  } else if (action === 'duplicate') {
+    await afterDocumentsChanged(supabase, c.env, user.id, 'document.created', changed || [], {
+      executionCtx: c.executionCtx
+    });
+  } else {
+    const changes = action === 'move' ? ['folder_id'] : action === 'tag' ? ['tags'] :
+      Object.keys(fields).map(field => field === 'tag_ids' ? 'tags' : field);
+    await afterDocumentsChanged(supabase, c.env, user.id, 'document.updated', changed || [], {
+      changes,
+      previousFolderIds: affectedFolderIds,
+      executionCtx: c.executionCtx
+    });
+  }
+
+  return c.json({
+    action,
+    summary: { total: documentIds.length, succeeded: documentIds.length, failed: 0 },
+    results
+  });
+});
+
+export default bulk;
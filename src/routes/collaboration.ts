@@ -0,0 +1,182 @@
+/**
+ * ========================================
+ * 实时协同编辑路由模块
+ * ========================================
+ *
+ * 本文件负责把编辑器的 WebSocket 连接转发到文档对应的协同编辑房间（Durable Object）
+ * 路由挂载在 /api/documents 下，浏览器发起 WebSocket 握手时会携带会话 Cookie，
+ * 因此与其他接口一样由 authMiddleware 完成认证，房间本身不再校验会话
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { LOCK_TOKEN_HEADER, checkDocumentLock, buildLockedPayload } from "../utils/lockUtils";
+
+/**
+ * 创建协同编辑路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const collaboration = new Hono<AppContext>();
+
+/**
+ * 构造转发给协同编辑房间的请求头
+ * 用认证后的用户信息覆盖客户端可能伪造的 X-Collab-* 请求头
+ *
+ * @param source - 原始请求头
+ * @param documentId - 文档ID
+ * @param user - 当前用户
+ * @param lockToken - 连接时提供的锁令牌，房间据此判断该连接是否持有文档锁
+ * @returns 转发用的请求头
+ */
+const buildRoomHeaders = (
+  source: Headers,
+  documentId: string,
+  user: { id: string; email?: string },
+  lockToken?: string
+): Headers => {
+  const headers = new Headers(source);
+  headers.set('X-Collab-Document-Id', documentId);
+  headers.set('X-Collab-User-Id', user.id);
+  headers.set('X-Collab-User-Email', user.email || '');
+  headers.set('X-Collab-Lock-Token', lockToken || '');
+  return headers;
+};
+
+/**
+ * ========================================
+ * 协同编辑路由
+ * ========================================
+ */
+
+/**
+ * 建立协同编辑连接路由
+ *
+ * 路由：GET /api/documents/:id/collab
+ *
+ * 功能：
+ * - 校验文档归属后，将 WebSocket 连接转发给该文档的协同编辑房间
+ * - 消息格式与 y-websocket 兼容，客户端使用 Yjs 并绑定名为 "content" 的 Y.Text
+ * - 房间会广播编辑、在线状态和光标，并每隔数秒把合并后的内容写回文档
+ * - 最后一个编辑者离开时生成一条修订记录
+ * - 文档被删除时连接以 4404 状态码关闭
+ * - 文档被其他会话签出锁定时返回 423；持有锁的会话通过 lock_token 查询参数加入
+ * - 连接建立后文档被房间外的会话签出锁定时，房间停止写回并以 4423 状态码关闭全部连接，
+ *   尚未写回的修改被丢弃；持有锁的会话在房间中时，只关闭未携带锁令牌的连接
+ *
+ * 请求头：
+ * - Upgrade: websocket
+ *
+ * 查询参数：
+ * - lock_token: 锁令牌（可选，也可使用 X-Lock-Token 请求头）
+ *
+ * 客户端示例：
+ * ```typescript
+ * const provider = new WebsocketProvider(`wss://${location.host}/api/documents`, `${id}/collab`, ydoc);
+ * ```
+ */
+collaboration.get("/:id/collab", async (c) => {
+  const id = c.req.param("id");
+
+  if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+    return c.json({ error: '请使用 WebSocket 连接' }, 426);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 确认文档存在、属于当前用户且不在回收站中
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  // 文档被其他会话锁定时拒绝加入协同编辑；浏览器的 WebSocket 无法设置请求头，锁令牌也可通过查询参数提供
+  const lockToken = c.req.header(LOCK_TOKEN_HEADER) || c.req.query('lock_token');
+  const { data: lock, error: lockError } = await checkDocumentLock(supabase, id, lockToken);
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+  if (lock) {
+    return c.json(buildLockedPayload(lock, user.id), 423);
+  }
+
+  const room = c.env.COLLAB_ROOMS.get(c.env.COLLAB_ROOMS.idFromName(id));
+  return room.fetch(new Request(c.req.url, {
+    headers: buildRoomHeaders(c.req.raw.headers, id, user, lockToken)
+  }));
+});
+
+/**
+ * 获取协同编辑在线用户路由
+ *
+ * 路由：GET /api/documents/:id/collab/participants
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "participants": [
+ *     {
+ *       "user_id": "user_id",
+ *       "email": "user@example.com",
+ *       "connections": 2,
+ *       "connected_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+collaboration.get("/:id/collab/participants", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const room = c.env.COLLAB_ROOMS.get(c.env.COLLAB_ROOMS.idFromName(id));
+  const response = await room.fetch(new Request(new URL('/participants', c.req.url), {
+    headers: buildRoomHeaders(new Headers(), id, user)
+  }));
+
+  return c.json(await response.json());
+});
+
+export default collaboration;
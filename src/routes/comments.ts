@@ -0,0 +1,512 @@
+/**
+ * ========================================
+ * 文档评论路由模块
+ * ========================================
+ *
+ * 本文件提供锚定到文档文本的评论讨论串功能
+ * 包含讨论串的创建、回复、解决/重新打开、删除，以及 @ 提及协作者
+ * 文档内容变化后读取评论时会重新定位锚点，锚定文本消失的讨论串标记为孤立（orphaned）
+ */
+
+import { Hono } from "hono";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { createAnchor, extractMentions, normalizeCommentBody, reanchorThreads } from "../utils/commentUtils";
+
+/**
+ * 创建评论路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const comments = new Hono<AppContext>();
+
+/** 讨论串查询字段，嵌入其下的全部评论 */
+const THREAD_SELECT = '*, document_comments(*)';
+
+/**
+ * 获取当前用户的文档（不包含回收站中的文档）
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param documentId - 文档ID
+ * @returns 文档的内容和版本号
+ */
+const getOwnedDocument = async (supabase: SupabaseClient, userId: string, documentId: string) => {
+  return await supabase
+    .from('documents')
+    .select('id, content, version')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+};
+
+/**
+ * 将查询结果中嵌套的 document_comments 转换为按时间排序的 comments 数组
+ *
+ * @param thread - 包含 document_comments 嵌套数据的讨论串
+ * @returns 带 comments 字段的讨论串
+ */
+const toThreadResponse = (thread: any) => {
+  const { document_comments, ...rest } = thread;
+  const threadComments = [...(document_comments || [])].sort(
+    (a: any, b: any) => a.created_at.localeCompare(b.created_at)
+  );
+
+  return {
+    ...rest,
+    comments: threadComments,
+    reply_count: Math.max(0, threadComments.length - 1)
+  };
+};
+
+/**
+ * ========================================
+ * 评论路由
+ * ========================================
+ */
+
+/**
+ * 获取文档评论列表路由
+ *
+ * 路由：GET /api/documents/:id/comments
+ *
+ * 功能：
+ * - 返回文档的全部讨论串及其评论，按创建时间排序
+ * - 文档内容在上次定位后发生变化时，先重新定位锚点再返回
+ *
+ * 查询参数：
+ * - status: open | resolved | all（可选，默认 all）
+ * - orphaned: true | false（可选，按是否孤立过滤）
+ * - mentioned: me 或邮箱（可选，只返回提及该协作者的讨论串）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "threads": [
+ *     {
+ *       "id": "thread_id",
+ *       "document_id": "doc_id",
+ *       "anchor_start": 10,
+ *       "anchor_end": 24,
+ *       "anchor_text": "被评论的文本",
+ *       "orphaned": false,
+ *       "status": "open",
+ *       "resolved_at": null,
+ *       "resolved_by": null,
+ *       "created_by": "user@example.com",
+ *       "reply_count": 1,
+ *       "comments": [
+ *         {
+ *           "id": "comment_id",
+ *           "author_email": "user@example.com",
+ *           "body": "这里需要补充数据 @alice@example.com",
+ *           "mentions": ["alice@example.com"],
+ *           "created_at": "2023-01-01T00:00:00Z"
+ *         }
+ *       ]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+comments.get("/:id/comments", async (c) => {
+  const id = c.req.param("id");
+  const status = c.req.query('status') || 'all';
+  const orphaned = c.req.query('orphaned');
+  const mentioned = c.req.query('mentioned');
+
+  if (!['open', 'resolved', 'all'].includes(status)) {
+    return c.json({ error: 'status 只能是 open、resolved 或 all' }, 400);
+  }
+  if (orphaned !== undefined && orphaned !== 'true' && orphaned !== 'false') {
+    return c.json({ error: 'orphaned 只能是 true 或 false' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document, error: documentError } = await getOwnedDocument(supabase, user.id, id);
+  if (documentError) {
+    return c.json({ error: documentError.message }, 500);
+  }
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  let query = supabase
+    .from('comment_threads')
+    .select(THREAD_SELECT)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  // 按提及的协作者过滤：先找出包含提及的讨论串
+  if (mentioned) {
+    const email = (mentioned === 'me' ? user.email : mentioned).toLowerCase();
+    const { data: mentionRows, error: mentionError } = await supabase
+      .from('document_comments')
+      .select('thread_id')
+      .eq('document_id', id)
+      .contains('mentions', [email]);
+
+    if (mentionError) {
+      return c.json({ error: mentionError.message }, 500);
+    }
+
+    const threadIds = [...new Set((mentionRows || []).map(row => row.thread_id))];
+    if (threadIds.length === 0) {
+      return c.json({ threads: [] });
+    }
+    query = query.in('id', threadIds);
+  }
+
+  const { data: threads, error } = await query;
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 锚点重新定位后再按孤立状态过滤，保证过滤结果基于当前内容
+  const { data: anchored, error: anchorError } = await reanchorThreads(supabase, document, threads || []);
+  if (anchorError) {
+    return c.json({ error: anchorError.message }, 500);
+  }
+
+  const result = orphaned === undefined
+    ? anchored
+    : anchored.filter(thread => thread.orphaned === (orphaned === 'true'));
+
+  return c.json({ threads: result.map(toThreadResponse) });
+});
+
+/**
+ * 创建评论讨论串路由
+ *
+ * 路由：POST /api/documents/:id/comments
+ *
+ * 功能：
+ * - 在文档的一段文本上发起讨论串，并写入第一条评论
+ * - 锚点位置为文档当前内容中的字符偏移量
+ * - 评论中以 "@邮箱" 形式提及的协作者会记录在 mentions 中
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "anchor_start": 10,
+ *   "anchor_end": 24,
+ *   "body": "这里需要补充数据 @alice@example.com"
+ * }
+ * ```
+ *
+ * 响应：新建的讨论串（格式同列表中的单项），状态码 201
+ */
+comments.post("/:id/comments", async (c) => {
+  const id = c.req.param("id");
+  const { anchor_start, anchor_end, body } = await c.req.json();
+
+  const normalized = normalizeCommentBody(body);
+  if ('error' in normalized) {
+    return c.json({ error: normalized.error }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document, error: documentError } = await getOwnedDocument(supabase, user.id, id);
+  if (documentError) {
+    return c.json({ error: documentError.message }, 500);
+  }
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  // 校验选区：必须是文档当前内容中的非空范围
+  const content = document.content || '';
+  if (
+    !Number.isInteger(anchor_start) || !Number.isInteger(anchor_end) ||
+    anchor_start < 0 || anchor_end > content.length || anchor_start >= anchor_end
+  ) {
+    return c.json({ error: '锚点范围无效，应为文档内容中的非空选区' }, 400);
+  }
+
+  const { data: thread, error: threadError } = await supabase
+    .from('comment_threads')
+    .insert([
+      {
+        document_id: id,
+        user_id: user.id,
+        ...createAnchor(content, anchor_start, anchor_end),
+        anchor_version: document.version,
+        orphaned: false,
+        status: 'open',
+        created_by: user.email
+      }
+    ])
+    .select()
+    .single();
+
+  if (threadError) {
+    return c.json({ error: threadError.message }, 500);
+  }
+
+  const { data: comment, error: commentError } = await supabase
+    .from('document_comments')
+    .insert([
+      {
+        thread_id: thread.id,
+        document_id: id,
+        user_id: user.id,
+        author_email: user.email,
+        body: normalized.body,
+        mentions: extractMentions(normalized.body)
+      }
+    ])
+    .select()
+    .single();
+
+  if (commentError) {
+    // 第一条评论写入失败时删除空的讨论串
+    await supabase.from('comment_threads').delete().eq('id', thread.id);
+    return c.json({ error: commentError.message }, 500);
+  }
+
+  return c.json(toThreadResponse({ ...thread, document_comments: [comment] }), 201);
+});
+
+/**
+ * 获取单个讨论串路由
+ *
+ * 路由：GET /api/documents/:id/comments/:threadId
+ *
+ * 响应：讨论串（格式同列表中的单项），锚点已定位到文档当前内容
+ */
+comments.get("/:id/comments/:threadId", async (c) => {
+  const id = c.req.param("id");
+  const threadId = c.req.param("threadId");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document, error: documentError } = await getOwnedDocument(supabase, user.id, id);
+  if (documentError) {
+    return c.json({ error: documentError.message }, 500);
+  }
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const { data: thread, error } = await supabase
+    .from('comment_threads')
+    .select(THREAD_SELECT)
+    .eq('id', threadId)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+  if (!thread) {
+    return c.json({ error: '评论不存在' }, 404);
+  }
+
+  const { data: anchored, error: anchorError } = await reanchorThreads(supabase, document, [thread]);
+  if (anchorError) {
+    return c.json({ error: anchorError.message }, 500);
+  }
+
+  return c.json(toThreadResponse(anchored[0]));
+});
+
+/**
+ * 回复讨论串路由
+ *
+ * 路由：POST /api/documents/:id/comments/:threadId/replies
+ *
+ * 功能：
+ * - 在讨论串中追加一条回复，孤立或已解决的讨论串同样可以回复
+ * - 回复中以 "@邮箱" 形式提及的协作者会记录在 mentions 中
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "body": "已补充，@bob@example.com 请复核"
+ * }
+ * ```
+ *
+ * 响应：新建的评论，状态码 201
+ */
+comments.post("/:id/comments/:threadId/replies", async (c) => {
+  const id = c.req.param("id");
+  const threadId = c.req.param("threadId");
+  const { body } = await c.req.json();
+
+  const normalized = normalizeCommentBody(body);
+  if ('error' in normalized) {
+    return c.json({ error: normalized.error }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: thread, error: threadError } = await supabase
+    .from('comment_threads')
+    .select('id')
+    .eq('id', threadId)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (threadError) {
+    return c.json({ error: threadError.message }, 500);
+  }
+  if (!thread) {
+    return c.json({ error: '评论不存在' }, 404);
+  }
+
+  const { data: comment, error } = await supabase
+    .from('document_comments')
+    .insert([
+      {
+        thread_id: threadId,
+        document_id: id,
+        user_id: user.id,
+        author_email: user.email,
+        body: normalized.body,
+        mentions: extractMentions(normalized.body)
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 更新讨论串的活动时间
+  await supabase
+    .from('comment_threads')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', threadId);
+
+  return c.json(comment, 201);
+});
+
+/**
+ * 解决 / 重新打开讨论串路由
+ *
+ * 路由：
+ * - POST /api/documents/:id/comments/:threadId/resolve
+ * - POST /api/documents/:id/comments/:threadId/reopen
+ *
+ * 功能：
+ * - resolve：标记为已解决，并记录解决时间和解决人
+ * - reopen：重新打开已解决的讨论串
+ *
+ * 响应：更新后的讨论串
+ */
+comments.post("/:id/comments/:threadId/:action{resolve|reopen}", async (c) => {
+  const id = c.req.param("id");
+  const threadId = c.req.param("threadId");
+  const status = c.req.param("action") === 'resolve' ? 'resolved' : 'open';
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('comment_threads')
+    .update({
+      status,
+      resolved_at: status === 'resolved' ? now : null,
+      resolved_by: status === 'resolved' ? user.email : null,
+      updated_at: now
+    })
+    .eq('id', threadId)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .select(THREAD_SELECT);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+  if (data.length === 0) {
+    return c.json({ error: '评论不存在' }, 404);
+  }
+
+  return c.json(toThreadResponse(data[0]));
+});
+
+/**
+ * 删除讨论串路由
+ *
+ * 路由：DELETE /api/documents/:id/comments/:threadId
+ *
+ * 功能：删除讨论串及其全部评论
+ */
+comments.delete("/:id/comments/:threadId", async (c) => {
+  const id = c.req.param("id");
+  const threadId = c.req.param("threadId");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('comment_threads')
+    .delete()
+    .eq('id', threadId)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+  if (data.length === 0) {
+    return c.json({ error: '评论不存在' }, 404);
+  }
+
+  return c.json({ message: `Comment thread ${threadId} deleted` });
+});
+
+export default comments;
@@ -11,6 +11,44 @@
 import { Hono } from "hono";
 import { createSupabaseClient } from "../utils/supabaseClient";
 import { AppContext } from "../types/context";
+import { getFolderSubtreeIds } from "../utils/folderUtils";
+import {
+  DOCUMENT_TAGS_SELECT,
+  flattenDocumentTags,
+  parseTagIdList,
+  validateTagIds,
+  setDocumentTags,
+  getDocumentTags,
+  findOrCreateTagsByName,
+  MAX_FILTER_TAGS,
+  buildTagFilters,
+  buildTagFilterSelect,
+  applyTagFilters,
+  omitTagFilterFields
+} from "../utils/tagUtils";
+import {
+  buildTemplateContext,
+  isValidTimeZone,
+  renderTemplate,
+  resolveTemplateValues
+} from "../utils/templateUtils";
+import { parseListFields, parseListSort, buildCursorFilter, encodeListCursor } from "../utils/listUtils";
+import { rewriteInboundLinks } from "../utils/linkUtils";
+import { buildDocumentMetadata } from "../utils/metadataUtils";
+import { formatETag, parseBaseVersion, buildConflictPayload } from "../utils/versionUtils";
+import { getDraftStatus } from "../utils/draftUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+import { afterDocumentSaved, afterDocumentsDeleted } from "../utils/documentSaveUtils";
+import { LOCK_TOKEN_HEADER, checkOwnedDocumentLock, getActiveLock, formatLock, buildLockedPayload } from "../utils/lockUtils";
+import {
+  PropertyDefinition,
+  PropertyValues,
+  PROPERTY_PARAM_PREFIX,
+  mergePropertyValues,
+  parsePropertyFilters,
+  applyPropertyFilters,
+  parsePropertySort
+} from "../utils/propertyUtils";
 
 /**
  * 创建文档管理路由实例
@@ -33,13 +71,29 @@ const documents = new Hono<AppContext>();
  * 查询参数：
  * - page: 页码（从1开始，默认为1）
  * - limit: 每页记录数（默认为12，最大为50）
+ * - cursor: 游标（可选，提供时使用游标分页，首页传空字符串，之后传上一页返回的 nextCursor）
+ * - fields: 逗号分隔的返回字段（可选，见下文）
+ * - sort: 排序字段 title、created_at、updated_at（默认）、size 或 prop.<属性键>（按属性排序）
+ * - order: 排序方向 asc 或 desc（可选，默认标题升序，其余降序）
  * - folder_id: 文件夹ID（可选，null表示获取未分类文档）
+ * - tag: 标签ID（可选，获取带有该标签的文档）
+ * - tags_any: 逗号分隔的标签ID（可选，获取带有其中任一标签的文档）
+ * - tags_all: 逗号分隔的标签ID（可选，获取同时带有所有标签的文档）
+ * - prop.<属性键>: 按属性过滤（可选，可重复），格式为 <运算符>.<值>，例如 prop.status=eq.完成、
+ *   prop.due=lt.2024-07-01、prop.labels=has.紧急、prop.owner=empty
  *
  * 功能：
- * - 获取当前用户的文档
+ * - 获取当前用户的文档（不包含回收站中的文档）
  * - 支持按文件夹过滤
- * - 按更新时间降序排列
- * - 支持分页查询，每页最多12个记录
+ * - 支持按标签过滤，多个标签条件同时指定时取交集；最多指定 20 个标签，标签ID格式无效时返回 400
+ * - 支持按标题、创建时间、更新时间和正文大小排序，相同值按ID排序保证顺序稳定
+ * - 支持按文件夹属性定义中的属性过滤和排序，需要同时指定 folder_id；
+ *   按属性排序时没有该属性的文档排在最后，且不支持游标分页
+ * - 未指定 fields 时返回完整文档（含正文）；指定 fields 时只返回所选字段，
+ *   可选 id、title、folder_id、user_id、created_at、updated_at、version、excerpt（正文摘要）、
+ *   byte_size（正文字节数）、word_count（字数）、metadata（大纲和统计信息，见 GET /api/documents/:id/outline）、
+ *   properties（属性值）、content、tags；fields 为空字符串时返回除正文外的常用字段
+ * - 页码分页返回准确的总数；游标分页不统计总数，翻页期间文档变化不会导致跳过或重复
  *
  * 响应：
  * ```json
@@ -52,7 +106,8 @@ const documents = new Hono<AppContext>();
  *       "user_id": "user_id",
  *       "folder_id": "folder_id",
  *       "created_at": "2023-01-01T00:00:00Z",
- *       "updated_at": "2023-01-01T00:00:00Z"
+ *       "updated_at": "2023-01-01T00:00:00Z",
+ *       "tags": [{ "id": "tag_id", "name": "客户A", "color": "#ff8800" }]
  *     }
  *   ],
  *   "pagination": {
@@ -65,6 +120,18 @@ const documents = new Hono<AppContext>();
  *   }
  * }
  * ```
+ *
+ * 游标分页响应（GET /api/documents?cursor=&fields=id,title,excerpt&sort=title）：
+ * ```json
+ * {
+ *   "documents": [{ "id": "doc_id", "title": "文档标题", "excerpt": "正文摘要" }],
+ *   "pagination": {
+ *     "nextCursor": "eyJzIjoidGl0bGUi...",
+ *     "hasNextPage": true,
+ *     "limit": 12
+ *   }
+ * }
+ * ```
  */
 documents.get("/", async (c) => {
   // 创建 Supabase 客户端实例
@@ -80,6 +147,11 @@ documents.get("/", async (c) => {
   const pageParam = c.req.query('page');
   const limitParam = c.req.query('limit');
   const folderIdParam = c.req.query('folder_id');
+  const tagParam = parseTagIdList(c.req.query('tag'), 'tag');
+  const tagsAnyParam = parseTagIdList(c.req.query('tags_any'), 'tags_any');
+  const tagsAllParam = parseTagIdList(c.req.query('tags_all'), 'tags_all');
+
+  const cursorParam = c.req.query('cursor');
 
   // 设置默认值和限制
   const page = Math.max(1, parseInt(pageParam || '1') || 1); // 页码从1开始，最小为1
@@ -88,11 +160,65 @@ documents.get("/", async (c) => {
   // 计算偏移量
   const offset = (page - 1) * limit;
 
-  // 构建查询
+  // 解析排序方式和返回字段（游标分页需要查询排序列）
+  // 按属性排序时先按默认列解析排序方向，属性列在读取文件夹属性定义后确定
+  const sortParam = c.req.query('sort');
+  const sortsByProperty = sortParam?.startsWith(PROPERTY_PARAM_PREFIX) ?? false;
+  const sort = parseListSort(sortsByProperty ? undefined : sortParam, c.req.query('order'));
+  if ('error' in sort) {
+    return c.json({ error: sort.error }, 400);
+  }
+
+  const queries = c.req.queries();
+  const filtersByProperty = Object.keys(queries).some(param => param.startsWith(PROPERTY_PARAM_PREFIX));
+  if ((sortsByProperty || filtersByProperty) && (!folderIdParam || folderIdParam === 'null')) {
+    return c.json({ error: '按属性过滤或排序需要指定 folder_id' }, 400);
+  }
+  if (sortsByProperty && cursorParam !== undefined) {
+    return c.json({ error: '按属性排序时不支持游标分页' }, 400);
+  }
+
+  const fields = parseListFields(c.req.query('fields'), [sort.column]);
+  if ('error' in fields) {
+    return c.json({ error: fields.error }, 400);
+  }
+
+  // 解析标签过滤：每个条件对应文档查询中 document_tags 的内连接，多个条件取交集
+  const tagConditions: Array<{ ids: string[]; mode: 'any' | 'all' }> = [];
+  for (const [param, mode] of [[tagParam, 'all'], [tagsAnyParam, 'any'], [tagsAllParam, 'all']] as const) {
+    if ('error' in param) {
+      return c.json({ error: param.error }, 400);
+    }
+    if (param.ids.length > 0) tagConditions.push({ ids: param.ids, mode });
+  }
+  if (new Set(tagConditions.flatMap(condition => condition.ids)).size > MAX_FILTER_TAGS) {
+    return c.json({ error: `按标签过滤最多指定 ${MAX_FILTER_TAGS} 个标签` }, 400);
+  }
+
+  const tagFilters = buildTagFilters(tagConditions);
+  const tagFilterSelect = buildTagFilterSelect(tagFilters);
+
+  // 构建查询：页码分页使用 count: 'exact' 获取准确计数，游标分页不统计总数
   let query = supabase
     .from('documents')
-    .select('*', { count: 'exact' }) // 使用 count: 'exact' 获取准确计数
-    .eq('user_id', user.id);
+    .select(
+      tagFilterSelect ? `${fields.select}, ${tagFilterSelect}` : fields.select,
+      cursorParam === undefined ? { count: 'exact' } : undefined
+    )
+    .eq('user_id', user.id)
+    .is('deleted_at', null); // 排除回收站中的文档
+
+  // 游标分页：从上一页最后一条记录之后继续读取
+  if (cursorParam) {
+    const cursorFilter = buildCursorFilter(cursorParam, sort);
+    if (!cursorFilter) {
+      return c.json({ error: '游标无效或与排序方式不一致' }, 400);
+    }
+    query = query.or(cursorFilter);
+  }
+
+  // 处理标签过滤
+  query = applyTagFilters(query, tagFilters);
 
   // 处理文件夹过滤
   if (folderIdParam === 'null' || folderIdParam === '') {
@@ -101,9 +227,10 @@ documents.get("/", async (c) => {
     // 如果指定了文件夹，验证文件夹是否存在且属于当前用户
     const { data: folder } = await supabase
       .from('folders')
-      .select('id')
+      .select('id, property_schema')
       .eq('id', folderIdParam)
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .single();
 
     if (!folder) {
@@ -111,12 +238,60 @@ documents.get("/", async (c) => {
     }
 
     query = query.eq('folder_id', folderIdParam); // 获取指定文件夹中的文档
+
+    // 按文件夹的属性定义过滤
+    const propertyFilters = parsePropertyFilters(queries, folder.property_schema || []);
+    if ('error' in propertyFilters) {
+      return c.json({ error: propertyFilters.error }, 400);
+    }
+    query = applyPropertyFilters(query, propertyFilters.filters);
+
+    // 按属性排序，没有该属性的文档排在最后
+    if (sortsByProperty) {
+      const propertySort = parsePropertySort(sortParam!, folder.property_schema || []);
+      if ('error' in propertySort) {
+        return c.json({ error: propertySort.error }, 400);
+      }
+      query = query.order(propertySort.column, { ascending: sort.ascending, nullsFirst: false });
+    }
   }
   // 如果没有指定 folder_id，获取所有文档（包括已分类和未分类）
 
+  // 排序：相同排序值按ID排序，保证分页顺序稳定
+  if (!sortsByProperty) {
+    query = query.order(sort.column, { ascending: sort.ascending });
+  }
+  query = query.order('id', { ascending: sort.ascending });
+
+  const toListItem = (document: any) => {
+    const item = omitTagFilterFields(document);
+    return fields.includeTags ? flattenDocumentTags(item) : item;
+  };
+
+  // 游标分页：多取一条判断是否还有下一页
+  if (cursorParam !== undefined) {
+    const { data, error } = await query.limit(limit + 1);
+
+    if (error) {
+      return c.json({ error: error.message }, 500);
+    }
+
+    const rows: any[] = data || [];
+    const hasNextPage = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+
+    return c.json({
+      documents: pageRows.map(toListItem),
+      pagination: {
+        nextCursor: hasNextPage ? encodeListCursor(sort, pageRows[pageRows.length - 1]) : null,
+        hasNextPage,
+        limit
+      }
+    });
+  }
+
   // 执行查询
   const { data, error, count } = await query
-    .order('updated_at', { ascending: false })  // 按更新时间降序
     .range(offset, offset + limit - 1);  // 使用 range 进行分页
 
   // 处理数据库查询错误
@@ -134,7 +309,7 @@ documents.get("/", async (c) => {
 
   // 返回文档列表和分页信息
   return c.json({
-    documents: data || [],
+    documents: (data || []).map(toListItem),
     pagination: {
       currentPage: page,
       totalPages,
@@ -146,6 +321,147 @@ documents.get("/", async (c) => {
   });
 });
 
+/**
+ * 全文检索文档路由
+ *
+ * 路由：GET /api/documents/search
+ *
+ * 查询参数：
+ * - q: 检索关键词（必填，支持中文和英文，支持 OR、- 排除等查询语法）
+ * - folder_id: 文件夹ID（可选，检索该文件夹及其所有子文件夹；null表示仅检索未分类文档）
+ * - date_field: 日期过滤字段，updated_at（默认）或 created_at
+ * - from: 起始日期（可选，ISO 8601 格式）
+ * - to: 截止日期（可选，ISO 8601 格式）
+ * - page: 页码（从1开始，默认为1）
+ * - limit: 每页记录数（默认为12，最大为50）
+ *
+ * 功能：
+ * - 基于 PGroonga 全文索引检索标题和正文
+ * - 按相关度降序返回，标题匹配权重高于正文
+ * - 返回带 <span class="keyword"> 高亮的标题和正文摘要片段
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "documents": [
+ *     {
+ *       "id": "doc_id",
+ *       "title": "文档标题",
+ *       "folder_id": "folder_id",
+ *       "created_at": "2023-01-01T00:00:00Z",
+ *       "updated_at": "2023-01-01T00:00:00Z",
+ *       "score": 6,
+ *       "highlights": {
+ *         "title": "<span class=\"keyword\">文档</span>标题",
+ *         "snippets": ["...包含<span class=\"keyword\">关键词</span>的片段..."]
+ *       }
+ *     }
+ *   ],
+ *   "pagination": {
+ *     "currentPage": 1,
+ *     "totalPages": 1,
+ *     "totalRecords": 1,
+ *     "hasNextPage": false,
+ *     "hasPreviousPage": false,
+ *     "limit": 12
+ *   }
+ * }
+ * ```
+ */
+documents.get("/search", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 获取查询参数
+  const q = (c.req.query('q') || '').trim();
+  const folderIdParam = c.req.query('folder_id');
+  const dateField = c.req.query('date_field') || 'updated_at';
+  const fromParam = c.req.query('from');
+  const toParam = c.req.query('to');
+
+  if (!q) {
+    return c.json({ error: '检索关键词不能为空' }, 400);
+  }
+
+  if (dateField !== 'updated_at' && dateField !== 'created_at') {
+    return c.json({ error: 'date_field 只能是 updated_at 或 created_at' }, 400);
+  }
+
+  // 验证日期范围
+  const dateFrom = fromParam ? new Date(fromParam) : null;
+  const dateTo = toParam ? new Date(toParam) : null;
+  if ((dateFrom && isNaN(dateFrom.getTime())) || (dateTo && isNaN(dateTo.getTime()))) {
+    return c.json({ error: '日期格式无效' }, 400);
+  }
+
+  // 设置默认值和限制，与列表路由保持一致
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+  const limit = Math.min(50, Math.max(1, parseInt(c.req.query('limit') || '12') || 12));
+  const offset = (page - 1) * limit;
+
+  // 处理文件夹子树过滤
+  let folderIds: string[] | null = null;
+  const unfiledOnly = folderIdParam === 'null' || folderIdParam === '';
+  if (folderIdParam && !unfiledOnly) {
+    folderIds = await getFolderSubtreeIds(supabase, user.id, folderIdParam);
+    if (!folderIds) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+  }
+
+  // 调用数据库全文检索函数
+  const { data, error } = await supabase.rpc('search_documents', {
+    p_user_id: user.id,
+    p_query: q,
+    p_folder_ids: folderIds,
+    p_unfiled_only: unfiledOnly,
+    p_date_field: dateField,
+    p_date_from: dateFrom ? dateFrom.toISOString() : null,
+    p_date_to: dateTo ? dateTo.toISOString() : null,
+    p_limit: limit,
+    p_offset: offset
+  });
+
+  // 处理数据库查询错误
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  const rows: any[] = data || [];
+  const totalRecords = rows.length > 0 ? Number(rows[0].total_count) : 0;
+  const totalPages = Math.ceil(totalRecords / limit);
+
+  // 返回检索结果和分页信息
+  return c.json({
+    documents: rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      folder_id: row.folder_id,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      score: row.score,
+      highlights: {
+        title: row.title_highlight,
+        snippets: row.snippets || []
+      }
+    })),
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalRecords,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+      limit
+    }
+  });
+});
+
 /**
  * 获取单个文档详情路由
  *
@@ -154,6 +470,10 @@ documents.get("/", async (c) => {
  * 功能：
  * - 根据文档ID获取特定文档
  * - 验证文档归属权
+ * - 通过 ETag 响应头返回文档版本号，供后续更新时作为 If-Match 使用
+ * - content 始终为已发布的内容；当前用户有未发布的草稿时在 draft 中返回草稿概况，
+ *   草稿内容通过 GET /api/documents/:id/draft 获取
+ * - 文档被签出锁定时在 lock 中返回锁持有者和过期时间，未锁定时为 null
  *
  * 响应：
  * ```json
@@ -162,8 +482,23 @@ documents.get("/", async (c) => {
  *   "title": "文档标题",
  *   "content": "文档内容",
  *   "user_id": "user_id",
+ *   "version": 3,
  *   "created_at": "2023-01-01T00:00:00Z",
- *   "updated_at": "2023-01-01T00:00:00Z"
+ *   "updated_at": "2023-01-01T00:00:00Z",
+ *   "tags": [{ "id": "tag_id", "name": "客户A", "color": "#ff8800" }],
+ *   "draft": {
+ *     "id": "draft_id",
+ *     "base_version": 3,
+ *     "updated_at": "2023-01-01T12:00:00Z",
+ *     "newer_than_published": true,
+ *     "stale": false
+ *   },
+ *   "lock": {
+ *     "holder": { "user_id": "user_id", "email": "user@example.com", "client": "办公室电脑" },
+ *     "acquired_at": "2023-01-01T12:00:00Z",
+ *     "renewed_at": "2023-01-01T12:04:00Z",
+ *     "expires_at": "2023-01-01T12:09:00Z"
+ *   }
  * }
  * ```
  */
@@ -183,9 +518,10 @@ documents.get("/:id", async (c) => {
   // 查询指定ID的文档，确保只能查询当前用户的文档
   const { data, error } = await supabase
     .from('documents')
-    .select('*')
+    .select(`*, ${DOCUMENT_TAGS_SELECT}`)
     .eq('id', id)           // 匹配文档ID
     .eq('user_id', user.id) // 确保是当前用户的文档
+    .is('deleted_at', null)  // 回收站中的文档视为不存在
     .single();              // 返回单条记录
 
   // 处理数据库查询错误
@@ -198,8 +534,113 @@ documents.get("/:id", async (c) => {
     return c.json({ error: 'Document not found' }, 404);
   }
 
-  // 返回文档详情
-  return c.json(data);
+  // 查询当前用户未发布的草稿
+  const { data: draft } = await supabase
+    .from('document_drafts')
+    .select('id, base_version, updated_at')
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  // 查询当前有效的文档锁
+  const { data: lock } = await getActiveLock(supabase, id);
+
+  // 返回文档详情，并附带版本号 ETag
+  c.header('ETag', formatETag(data.version));
+  return c.json({
+    ...flattenDocumentTags(data),
+    draft: draft ? { ...draft, ...getDraftStatus(draft, data) } : null,
+    lock: lock ? formatLock(lock) : null
+  });
+});
+
+/**
+ * 获取文档大纲和元数据路由
+ *
+ * 路由：GET /api/documents/:id/outline
+ *
+ * 功能：
+ * - 返回保存正文时计算的标题大纲和统计信息，无需下载正文
+ * - 锚点与分享页面、公开站点中渲染的标题 id 一致
+ * - 元数据尚未计算（功能上线前保存的文档）时按当前正文计算并保存
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "id": "doc_id",
+ *   "title": "文档标题",
+ *   "version": 3,
+ *   "updated_at": "2023-01-01T00:00:00Z",
+ *   "outline": [
+ *     { "level": 1, "text": "概述", "anchor": "概述", "line": 1 },
+ *     { "level": 2, "text": "Getting Started", "anchor": "getting-started", "line": 12 }
+ *   ],
+ *   "word_count": 1250,
+ *   "char_count": 2380,
+ *   "reading_minutes": 4,
+ *   "link_count": 6,
+ *   "image_count": 2,
+ *   "code_block_count": 1,
+ *   "front_matter": { "status": "draft", "tags": ["工作"] }
+ * }
+ * ```
+ */
+documents.get("/:id/outline", async (c) => {
+  // 从路径参数中获取文档ID
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, title, version, updated_at, metadata')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!data) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+
+  let metadata = data.metadata;
+  if (!metadata) {
+    const { data: document } = await supabase
+      .from('documents')
+      .select('content')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    metadata = buildDocumentMetadata(document?.content ?? null);
+
+    // 只写入元数据，不改变版本号和更新时间
+    await supabase
+      .from('documents')
+      .update({ metadata })
+      .eq('id', id)
+      .eq('version', data.version);
+  }
+
+  c.header('ETag', formatETag(data.version));
+  return c.json({
+    id: data.id,
+    title: data.title,
+    version: data.version,
+    updated_at: data.updated_at,
+    ...metadata
+  });
 });
 
 /**
@@ -211,13 +652,18 @@ documents.get("/:id", async (c) => {
  * - 创建新的文档记录
  * - 自动关联当前用户
  * - 支持指定文件夹
+ * - 支持同时设置标签
+ * - 支持设置属性值，属性必须在所在文件夹的属性定义中
+ * - 写入初始修订记录
  *
  * 请求体：
  * ```json
  * {
  *   "title": "文档标题",
  *   "content": "文档内容（支持 Markdown）",
- *   "folder_id": "文件夹ID（可选）"
+ *   "folder_id": "文件夹ID（可选）",
+ *   "tag_ids": ["标签ID（可选）"],
+ *   "properties": { "status": "进行中", "due": "2024-07-01" }
  * }
  * ```
  *
@@ -236,7 +682,7 @@ documents.get("/:id", async (c) => {
  */
 documents.post("/", async (c) => {
   // 从请求体中获取文档数据
-  const { title, content, folder_id } = await c.req.json();
+  const { title, content, folder_id, tag_ids, properties } = await c.req.json();
 
   // 创建 Supabase 客户端实例
   const supabase = createSupabaseClient(
@@ -253,17 +699,34 @@ documents.post("/", async (c) => {
   }
 
   // 如果指定了文件夹，验证文件夹是否存在且属于当前用户
+  let propertySchema: PropertyDefinition[] = [];
   if (folder_id) {
     const { data: folder } = await supabase
       .from('folders')
-      .select('id')
+      .select('id, property_schema')
       .eq('id', folder_id)
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .single();
 
     if (!folder) {
       return c.json({ error: '文件夹不存在或无权限访问' }, 400);
     }
+    propertySchema = folder.property_schema || [];
+  }
+
+  // 如果指定了标签，验证标签是否都属于当前用户
+  if (tag_ids !== undefined) {
+    const tagError = await validateTagIds(supabase, user.id, tag_ids);
+    if (tagError) {
+      return c.json({ error: tagError }, 400);
+    }
+  }
+
+  // 按所在文件夹的属性定义校验属性值
+  const mergedProperties = properties !== undefined ? mergePropertyValues(propertySchema, {}, properties) : { properties: {} };
+  if ('error' in mergedProperties) {
+    return c.json({ error: mergedProperties.error }, 400);
   }
 
   // 插入新文档记录
@@ -273,7 +736,9 @@ documents.post("/", async (c) => {
       {
         title: title.trim(),        // 文档标题
         content,                    // 文档内容
+        metadata: buildDocumentMetadata(content), // 由正文计算的元数据
         folder_id: folder_id || null, // 文件夹ID（可为空）
+        properties: mergedProperties.properties, // 属性值
         user_id: user.id           // 关联当前用户ID
       }
     ])
@@ -284,8 +749,201 @@ documents.post("/", async (c) => {
     return c.json({ error: error.message }, 500);
   }
 
-  // 返回新创建的文档信息
-  return c.json(data[0]);
+  // 关联标签
+  const { data: tags, error: tagsError } = await setDocumentTags(supabase, user.id, data[0].id, tag_ids || []);
+  if (tagsError) {
+    return c.json({ error: tagsError.message }, 500);
+  }
+
+  // 写入初始修订记录，记录链接和资源引用，使站点缓存失效并通知 Webhook
+  const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, data[0], {
+    event: 'document.created',
+    executionCtx: c.executionCtx
+  });
+  if (saveError) {
+    return c.json({ error: saveError.message }, 500);
+  }
+
+  // 返回新创建的文档信息，并附带版本号 ETag
+  c.header('ETag', formatETag(data[0].version));
+  return c.json({ ...data[0], tags });
+});
+
+/**
+ * 从模板创建文档路由
+ *
+ * 路由：POST /api/documents/from-template
+ *
+ * 功能：
+ * - 使用当前用户的模板或共享模板创建新文档
+ * - 替换模板中的占位符：内置变量（标题、日期、用户等）和自定义变量
+ * - 未指定文件夹时使用模板的默认文件夹（仅模板创建者本人使用时生效）
+ * - 关联模板的默认标签（按名称匹配，不存在时自动创建）以及请求中的标签
+ * - 写入初始修订记录
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "template_id": "template_id",
+ *   "title": "文档标题（可选，默认按模板的标题模板生成）",
+ *   "variables": { "project": "SuperEditor" },
+ *   "folder_id": "文件夹ID（可选）",
+ *   "tag_ids": ["标签ID（可选）"],
+ *   "timezone": "Asia/Shanghai（可选，默认 UTC）"
+ * }
+ * ```
+ *
+ * 响应：新创建的文档（格式同创建文档），附带 template_id
+ *
+ * 必填变量缺失时返回 400：
+ * ```json
+ * {
+ *   "error": "缺少必填的模板变量",
+ *   "missing_variables": ["project"]
+ * }
+ * ```
+ */
+documents.post("/from-template", async (c) => {
+  const { template_id, title, variables, folder_id, tag_ids, timezone } = await c.req.json();
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  if (!template_id) {
+    return c.json({ error: '缺少 template_id 参数' }, 400);
+  }
+
+  const timeZone = timezone || 'UTC';
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    return c.json({ error: '时区无效' }, 400);
+  }
+
+  if (variables !== undefined && (typeof variables !== 'object' || variables === null || Array.isArray(variables))) {
+    return c.json({ error: 'variables 必须是对象' }, 400);
+  }
+
+  // 获取模板：自己的模板或共享模板
+  const { data: template, error: templateError } = await supabase
+    .from('document_templates')
+    .select('*')
+    .eq('id', template_id)
+    .or(`user_id.eq.${user.id},is_shared.eq.true`)
+    .maybeSingle();
+
+  if (templateError) {
+    return c.json({ error: templateError.message }, 500);
+  }
+
+  if (!template) {
+    return c.json({ error: '模板不存在或无权限访问' }, 404);
+  }
+
+  // 合并变量值，检查必填变量
+  const { values, missing } = resolveTemplateValues(template.variables || [], variables);
+  if (missing.length > 0) {
+    return c.json({ error: '缺少必填的模板变量', missing_variables: missing }, 400);
+  }
+
+  // 先生成标题，再以最终标题渲染正文中的 {{title}}
+  const now = new Date();
+  const documentTitle = typeof title === 'string' && title.trim()
+    ? title.trim()
+    : renderTemplate(template.title_template || template.name, buildTemplateContext({ user, values, timeZone, now })).trim();
+
+  if (!documentTitle) {
+    return c.json({ error: '文档标题不能为空' }, 400);
+  }
+
+  const content = renderTemplate(
+    template.content || '',
+    buildTemplateContext({ user, title: documentTitle, values, timeZone, now })
+  );
+
+  // 确定目标文件夹：请求中指定的文件夹必须有效；模板默认文件夹失效时忽略
+  let targetFolderId: string | null = null;
+  const candidateFolderId = folder_id || (template.user_id === user.id ? template.default_folder_id : null);
+
+  if (candidateFolderId) {
+    const { data: folder } = await supabase
+      .from('folders')
+      .select('id')
+      .eq('id', candidateFolderId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (folder) {
+      targetFolderId = folder.id;
+    } else if (folder_id) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+  }
+
+  // 如果指定了标签，验证标签是否都属于当前用户
+  if (tag_ids !== undefined) {
+    const tagError = await validateTagIds(supabase, user.id, tag_ids);
+    if (tagError) {
+      return c.json({ error: tagError }, 400);
+    }
+  }
+
+  // 模板默认标签按名称关联到当前用户的标签
+  const { data: defaultTagIds, error: defaultTagsError } = await findOrCreateTagsByName(
+    supabase,
+    user.id,
+    template.default_tags || []
+  );
+  if (defaultTagsError) {
+    return c.json({ error: defaultTagsError.message }, 500);
+  }
+
+  // 插入新文档记录
+  const { data, error } = await supabase
+    .from('documents')
+    .insert([
+      {
+        title: documentTitle,
+        content,
+        metadata: buildDocumentMetadata(content),
+        folder_id: targetFolderId,
+        user_id: user.id
+      }
+    ])
+    .select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 关联标签
+  const { data: tags, error: tagsError } = await setDocumentTags(
+    supabase,
+    user.id,
+    data[0].id,
+    [...(tag_ids || []), ...defaultTagIds]
+  );
+  if (tagsError) {
+    return c.json({ error: tagsError.message }, 500);
+  }
+
+  // 写入初始修订记录，记录链接和资源引用，使站点缓存失效并通知 Webhook
+  const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, data[0], {
+    event: 'document.created',
+    executionCtx: c.executionCtx
+  });
+  if (saveError) {
+    return c.json({ error: saveError.message }, 500);
+  }
+
+  // 返回新创建的文档信息，并附带版本号 ETag
+  c.header('ETag', formatETag(data[0].version));
+  return c.json({ ...data[0], tags, template_id: template.id });
 });
 
 /**
@@ -294,19 +952,36 @@ documents.post("/", async (c) => {
  * 路由：PUT /api/documents/:id
  *
  * 功能：
- * - 更新现有文档的标题、内容和文件夹
+ * - 更新现有文档的标题、内容、文件夹和属性值
  * - 自动更新修改时间
  * - 验证文档归属权
+ * - 标题或内容变更时写入一条修订记录
+ * - 支持乐观并发控制：通过 If-Match 请求头或 base_version 字段指定所基于的版本，
+ *   版本已过期时拒绝写入并返回 409，附带服务器当前版本和三方合并建议
+ * - 文档被其他会话签出锁定时拒绝写入并返回 423（code 为 DOCUMENT_LOCKED），附带锁持有者信息
+ *
+ * 请求头：
+ * - If-Match: 所基于的文档版本 ETag（可选，例如 "3"）
+ * - X-Lock-Token: 锁令牌（文档被当前会话锁定时必填）
  *
  * 请求体：
  * ```json
  * {
  *   "title": "更新后的标题",
  *   "content": "更新后的内容",
- *   "folder_id": "新的文件夹ID（可选）"
+ *   "folder_id": "新的文件夹ID（可选）",
+ *   "tag_ids": ["标签ID（可选，提供时替换文档的全部标签）"],
+ *   "properties": { "status": "完成", "due": null },
+ *   "base_version": 3,
+ *   "rewrite_links": true
  * }
  * ```
  *
+ * properties 只修改其中列出的属性，值为 null 时清除该属性；属性必须在文档（移动后）所在文件夹的属性定义中
+ *
+ * rewrite_links 为 true 且标题发生变化时，其他文档中指向旧标题的 [[维基链接]] 会改写为新标题，
+ * 结果在 rewritten_links 中返回；期间被其他会话修改或被签出锁定的文档会跳过，列在 skipped 中
+ *
  * 响应：
  * ```json
  * {
@@ -316,7 +991,30 @@ documents.post("/", async (c) => {
  *   "folder_id": "新的文件夹ID",
  *   "user_id": "user_id",
  *   "created_at": "2023-01-01T00:00:00Z",
- *   "updated_at": "2023-01-01T12:00:00Z"
+ *   "updated_at": "2023-01-01T12:00:00Z",
+ *   "rewritten_links": {
+ *     "rewritten": [{ "id": "source_id", "title": "周报", "links": 2 }],
+ *     "skipped": []
+ *   }
+ * }
+ * ```
+ *
+ * 版本冲突响应（409）：
+ * ```json
+ * {
+ *   "error": "文档已在其他会话中被修改，请合并后重新提交",
+ *   "code": "VERSION_CONFLICT",
+ *   "base_version": 3,
+ *   "current_version": 5,
+ *   "current": { "id": "doc_id", "title": "...", "content": "...", "version": 5 },
+ *   "merge": {
+ *     "base_version": 3,
+ *     "title": "合并后的标题",
+ *     "title_conflict": false,
+ *     "content": "合并后的内容（冲突处带有冲突标记）",
+ *     "clean": false,
+ *     "conflicts": 1
+ *   }
  * }
  * ```
  */
@@ -325,7 +1023,13 @@ documents.put("/:id", async (c) => {
   const id = c.req.param("id");
 
   // 从请求体中获取更新后的数据
-  const { title, content, folder_id } = await c.req.json();
+  const { title, content, folder_id, tag_ids, properties, base_version, rewrite_links } = await c.req.json();
+
+  // 解析客户端所基于的版本号
+  const baseVersion = parseBaseVersion(c.req.header('If-Match'), base_version);
+  if (baseVersion !== null && Number.isNaN(baseVersion)) {
+    return c.json({ error: 'If-Match 或 base_version 格式无效' }, 400);
+  }
 
   // 创建 Supabase 客户端实例
   const supabase = createSupabaseClient(
@@ -342,17 +1046,83 @@ documents.put("/:id", async (c) => {
   }
 
   // 如果指定了新的文件夹，验证文件夹是否存在且属于当前用户
+  let targetFolder: { id: string; property_schema: PropertyDefinition[] } | null = null;
   if (folder_id) {
     const { data: folder } = await supabase
       .from('folders')
-      .select('id')
+      .select('id, property_schema')
       .eq('id', folder_id)
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .single();
 
     if (!folder) {
       return c.json({ error: '文件夹不存在或无权限访问' }, 400);
     }
+    targetFolder = folder;
+  }
+
+  // 如果指定了标签，验证标签是否都属于当前用户
+  if (tag_ids !== undefined) {
+    const tagError = await validateTagIds(supabase, user.id, tag_ids);
+    if (tagError) {
+      return c.json({ error: tagError }, 400);
+    }
+  }
+
+  // 确认文档属于当前用户后，文档被其他会话锁定时拒绝写入
+  const { found, data: lock, error: lockError } = await checkOwnedDocumentLock(supabase, user.id, id, c.req.header(LOCK_TOKEN_HEADER));
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+  if (!found) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+  if (lock) {
+    return c.json(buildLockedPayload(lock, user.id), 423);
+  }
+
+  // 需要改写入链、移动文件夹或修改属性时，先读取旧标题、原文件夹和已有属性
+  const shouldRewriteLinks = rewrite_links === true && title !== undefined;
+  let previous: { title: string; folder_id: string | null; properties: PropertyValues } | null = null;
+  if (shouldRewriteLinks || folder_id !== undefined || properties !== undefined) {
+    const { data: current } = await supabase
+      .from('documents')
+      .select('title, folder_id, properties')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    previous = current;
+  }
+  const previousTitle = shouldRewriteLinks && previous ? previous.title : null;
+
+  // 按文档（移动后）所在文件夹的属性定义校验属性值，并与已有属性合并
+  let mergedProperties: PropertyValues | undefined;
+  if (properties !== undefined) {
+    if (!previous) {
+      return c.json({ error: 'Document not found or unauthorized' }, 404);
+    }
+
+    let propertySchema: PropertyDefinition[] = [];
+    if (folder_id !== undefined) {
+      propertySchema = targetFolder?.property_schema || [];
+    } else if (previous.folder_id) {
+      const { data: folder } = await supabase
+        .from('folders')
+        .select('property_schema')
+        .eq('id', previous.folder_id)
+        .single();
+
+      propertySchema = folder?.property_schema || [];
+    }
+
+    const merged = mergePropertyValues(propertySchema, previous.properties, properties);
+    if ('error' in merged) {
+      return c.json({ error: merged.error }, 400);
+    }
+    mergedProperties = merged.properties;
   }
 
   // 构建更新对象
@@ -366,47 +1136,123 @@ documents.put("/:id", async (c) => {
 
   if (content !== undefined) {
     updateData.content = content;
+    updateData.metadata = buildDocumentMetadata(content);
   }
 
   if (folder_id !== undefined) {
     updateData.folder_id = folder_id || null; // 允许设置为 null（移出文件夹）
   }
 
+  if (mergedProperties !== undefined) {
+    updateData.properties = mergedProperties;
+  }
+
   // 更新文档记录
-  const { data, error } = await supabase
+  let updateQuery = supabase
     .from('documents')
     .update(updateData)
     .eq('id', id)           // 匹配文档ID
     .eq('user_id', user.id) // 确保只能更新当前用户的文档
-    .select();              // 返回更新后的完整记录
+    .is('deleted_at', null); // 回收站中的文档不可编辑
+
+  // 指定了基础版本时，仅在版本未变化时写入
+  if (baseVersion !== null) {
+    updateQuery = updateQuery.eq('version', baseVersion);
+  }
+
+  const { data, error } = await updateQuery.select(); // 返回更新后的完整记录
 
   // 处理数据库更新错误
   if (error) {
     return c.json({ error: error.message }, 500);
   }
 
-  // 检查是否有记录被更新（可能文档不存在或不属于当前用户）
+  // 检查是否有记录被更新（可能文档不存在、不属于当前用户或版本已过期）
   if (data.length === 0) {
+    if (baseVersion !== null) {
+      const { data: current } = await supabase
+        .from('documents')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (current) {
+        c.header('ETag', formatETag(current.version));
+        return c.json(await buildConflictPayload(supabase, current, baseVersion, { title, content }), 409);
+      }
+    }
+
     return c.json({ error: 'Document not found or unauthorized' }, 404);
   }
 
-  // 返回更新后的文档信息
-  return c.json(data[0]);
+  // 提供了 tag_ids 时替换文档标签，否则保持原有标签
+  const { data: tags, error: tagsError } = tag_ids !== undefined
+    ? await setDocumentTags(supabase, user.id, id, tag_ids)
+    : await getDocumentTags(supabase, id);
+  if (tagsError) {
+    return c.json({ error: tagsError.message }, 500);
+  }
+
+  // 标题或内容变化时写入修订记录并更新链接和资源引用（仅移动文件夹不产生修订），
+  // 使所在（或移出）文件夹的站点缓存失效，并通知 Webhook；changes 列出本次修改的字段
+  const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, data[0], {
+    event: 'document.updated',
+    changes: Object.entries({ title, content, folder_id, tags: tag_ids, properties })
+      .filter(([, value]) => value !== undefined)
+      .map(([field]) => field),
+    previousFolderId: previous?.folder_id,
+    executionCtx: c.executionCtx
+  });
+  if (saveError) {
+    return c.json({ error: saveError.message }, 500);
+  }
+
+  // 标题变化时按需改写其他文档中的入链
+  if (previousTitle !== null && previousTitle !== data[0].title) {
+    const { data: rewrittenLinks, error: rewriteError } = await rewriteInboundLinks(
+      supabase,
+      c.env,
+      user,
+      id,
+      previousTitle,
+      data[0].title
+    );
+    if (rewriteError) {
+      return c.json({ error: rewriteError.message }, 500);
+    }
+
+    // 被改写的文档可能属于任意站点
+    if (rewrittenLinks.rewritten.length > 0) {
+      c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id));
+    }
+
+    c.header('ETag', formatETag(data[0].version));
+    return c.json({ ...data[0], tags, rewritten_links: rewrittenLinks });
+  }
+
+  // 返回更新后的文档信息，并附带新的版本号 ETag
+  c.header('ETag', formatETag(data[0].version));
+  return c.json({ ...data[0], tags });
 });
 
 /**
- * 删除文档路由
+ * 删除文档路由（移入回收站）
  *
  * 路由：DELETE /api/documents/:id
  *
  * 功能：
- * - 删除指定ID的文档
+ * - 将指定ID的文档移入回收站（软删除）
+ * - 保留原文件夹位置，便于从回收站恢复
  * - 验证文档归属权
+ * - 文档被其他会话签出锁定时返回 423，持有锁的会话需要提供 X-Lock-Token 请求头
  *
  * 响应：
  * ```json
  * {
- *   "message": "Document doc_id deleted"
+ *   "message": "Document doc_id moved to trash",
+ *   "deleted_at": "2023-01-01T00:00:00Z"
  * }
  * ```
  */
@@ -423,20 +1269,47 @@ documents.delete("/:id", async (c) => {
   // 从认证中间件设置的上下文中获取用户信息
   const user = c.get('user');
 
-  // 删除文档记录，确保只能删除当前用户的文档
-  const { error } = await supabase
+  // 确认文档属于当前用户后，文档被其他会话锁定时拒绝写入
+  const { found, data: lock, error: lockError } = await checkOwnedDocumentLock(supabase, user.id, id, c.req.header(LOCK_TOKEN_HEADER));
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+  if (!found) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+  if (lock) {
+    return c.json(buildLockedPayload(lock, user.id), 423);
+  }
+
+  const deletedAt = new Date().toISOString();
+
+  // 标记文档为已删除，确保只能删除当前用户的文档
+  const { data, error } = await supabase
     .from('documents')
-    .delete()
+    .update({
+      deleted_at: deletedAt,
+      trashed_with_folder_id: null
+    })
     .eq('id', id)           // 匹配文档ID
-    .eq('user_id', user.id); // 确保只能删除当前用户的文档
+    .eq('user_id', user.id) // 确保只能删除当前用户的文档
+    .is('deleted_at', null)
+    .select('id, folder_id');
 
-  // 处理数据库删除错误
+  // 处理数据库更新错误
   if (error) {
     return c.json({ error: error.message }, 500);
   }
 
+  // 检查文档是否存在
+  if (data.length === 0) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  // 从公开站点中移除该文档，并通知订阅了该事件的 Webhook
+  await afterDocumentsDeleted(supabase, c.env, user.id, data, deletedAt, { executionCtx: c.executionCtx });
+
   // 返回删除成功消息
-  return c.json({ message: `Document ${id} deleted` });
+  return c.json({ message: `Document ${id} moved to trash`, deleted_at: deletedAt });
 });
 
 /**
@@ -0,0 +1,413 @@
+/**
+ * ========================================
+ * 文档草稿路由模块
+ * ========================================
+ *
+ * 本文件提供文档草稿的自动保存、查看、丢弃和发布功能
+ * 编辑器的自动保存写入草稿，不修改文档正文、不生成修订；
+ * 用户显式发布时草稿才会写入文档，分享和导出始终只使用已发布的内容
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { getDocumentTags } from "../utils/tagUtils";
+import { buildDocumentMetadata } from "../utils/metadataUtils";
+import { formatETag, parseBaseVersion, buildConflictPayload } from "../utils/versionUtils";
+import { getDraftStatus } from "../utils/draftUtils";
+import { afterDocumentSaved } from "../utils/documentSaveUtils";
+import { LOCK_TOKEN_HEADER, checkOwnedDocumentLock, buildLockedPayload } from "../utils/lockUtils";
+
+/**
+ * 创建文档草稿路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const drafts = new Hono<AppContext>();
+
+/**
+ * ========================================
+ * 文档草稿路由
+ * ========================================
+ */
+
+/**
+ * 获取当前用户的草稿列表路由
+ *
+ * 路由：GET /api/documents/drafts
+ *
+ * 功能：
+ * - 列出当前用户所有未发布的草稿（不包含回收站中文档的草稿），按保存时间降序
+ * - 用于浏览器崩溃或关闭后恢复未发布的编辑
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "drafts": [
+ *     {
+ *       "id": "draft_id",
+ *       "document_id": "doc_id",
+ *       "title": "草稿标题",
+ *       "base_version": 3,
+ *       "updated_at": "2023-01-01T12:00:00Z",
+ *       "document": { "id": "doc_id", "title": "已发布标题", "version": 3, "updated_at": "2023-01-01T00:00:00Z" },
+ *       "newer_than_published": true,
+ *       "stale": false
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+drafts.get("/drafts", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('document_drafts')
+    .select('id, document_id, title, base_version, updated_at, document:documents!inner(id, title, version, updated_at, deleted_at)')
+    .eq('user_id', user.id)
+    .is('document.deleted_at', null)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    drafts: ((data || []) as any[]).map(({ document: { deleted_at, ...document }, ...draft }) => ({
+      ...draft,
+      title: draft.title ?? document.title,
+      document,
+      ...getDraftStatus(draft, document)
+    }))
+  });
+});
+
+/**
+ * 获取文档草稿路由
+ *
+ * 路由：GET /api/documents/:id/draft
+ *
+ * 功能：获取当前用户在该文档上的草稿，并与已发布的文档比较
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "id": "draft_id",
+ *   "document_id": "doc_id",
+ *   "title": "草稿标题",
+ *   "content": "草稿内容",
+ *   "base_version": 3,
+ *   "created_at": "2023-01-01T10:00:00Z",
+ *   "updated_at": "2023-01-01T12:00:00Z",
+ *   "published": { "title": "已发布标题", "version": 3, "updated_at": "2023-01-01T00:00:00Z" },
+ *   "newer_than_published": true,
+ *   "stale": false
+ * }
+ * ```
+ */
+drafts.get("/:id/draft", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('title, version, updated_at')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const { data: draft, error } = await supabase
+    .from('document_drafts')
+    .select('*')
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!draft) {
+    return c.json({ error: '草稿不存在' }, 404);
+  }
+
+  return c.json({
+    ...draft,
+    title: draft.title ?? document.title,
+    published: document,
+    ...getDraftStatus(draft, document)
+  });
+});
+
+/**
+ * 保存文档草稿路由（自动保存）
+ *
+ * 路由：PUT /api/documents/:id/draft
+ *
+ * 功能：
+ * - 创建或覆盖当前用户在该文档上的草稿，不修改文档、不生成修订
+ * - 首次保存时以文档当前版本作为草稿的基础版本，之后保持不变；
+ *   也可以通过 If-Match 请求头或 base_version 字段指定（例如合并冲突后）
+ * - 省略 title 时保留草稿原有标题（未设置过则发布时沿用文档标题）
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "content": "草稿内容",
+ *   "title": "草稿标题（可选）",
+ *   "base_version": 3
+ * }
+ * ```
+ *
+ * 响应（不包含正文，减少自动保存的流量）：
+ * ```json
+ * {
+ *   "id": "draft_id",
+ *   "document_id": "doc_id",
+ *   "base_version": 3,
+ *   "updated_at": "2023-01-01T12:00:00Z"
+ * }
+ * ```
+ */
+drafts.put("/:id/draft", async (c) => {
+  const id = c.req.param("id");
+  const { title, content, base_version } = await c.req.json();
+
+  if (typeof content !== 'string') {
+    return c.json({ error: '草稿内容必须是字符串' }, 400);
+  }
+
+  if (title !== undefined && title !== null && (typeof title !== 'string' || title.trim() === '')) {
+    return c.json({ error: '文档标题不能为空' }, 400);
+  }
+
+  const baseVersion = parseBaseVersion(c.req.header('If-Match'), base_version);
+  if (baseVersion !== null && Number.isNaN(baseVersion)) {
+    return c.json({ error: 'If-Match 或 base_version 格式无效' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 归属校验和写入在同一个数据库函数中完成
+  const { data, error } = await supabase.rpc('save_document_draft', {
+    p_user_id: user.id,
+    p_document_id: id,
+    p_content: content,
+    p_title: title ? title.trim() : null,
+    p_base_version: baseVersion
+  });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!data || data.length === 0) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const { id: draftId, document_id, base_version: savedBaseVersion, updated_at } = data[0];
+  return c.json({ id: draftId, document_id, base_version: savedBaseVersion, updated_at });
+});
+
+/**
+ * 丢弃文档草稿路由
+ *
+ * 路由：DELETE /api/documents/:id/draft
+ *
+ * 功能：删除当前用户在该文档上的草稿，文档保持已发布的内容
+ */
+drafts.delete("/:id/draft", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('document_drafts')
+    .delete()
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '草稿不存在' }, 404);
+  }
+
+  return c.json({ message: `Draft ${data[0].id} deleted` });
+});
+
+/**
+ * 发布文档草稿路由
+ *
+ * 路由：POST /api/documents/:id/draft/publish
+ *
+ * 查询参数：
+ * - force: 为 true 时忽略版本冲突，直接用草稿覆盖文档（可选）
+ *
+ * 功能：
+ * - 将草稿的标题和内容写入文档，写入修订记录并更新链接，然后删除草稿
+ * - 草稿开始编辑后文档又被发布过时返回 409，附带服务器当前版本和三方合并建议（格式同更新文档）；
+ *   客户端可将合并结果以新的 base_version 保存为草稿后再次发布
+ * - 发布期间草稿又被自动保存时保留较新的草稿，并将其基础版本更新为刚发布的版本
+ * - 文档被其他会话签出锁定时返回 423，持有锁的会话需要提供 X-Lock-Token 请求头；草稿本身的保存不受锁限制
+ *
+ * 响应：发布后的文档（格式同更新文档），附带新的版本号 ETag
+ */
+drafts.post("/:id/draft/publish", async (c) => {
+  const id = c.req.param("id");
+  const force = c.req.query('force') === 'true';
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: draft } = await supabase
+    .from('document_drafts')
+    .select('*')
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!draft) {
+    return c.json({ error: '草稿不存在' }, 404);
+  }
+
+  // 确认文档属于当前用户后，文档被其他会话锁定时拒绝写入
+  const { found, data: lock, error: lockError } = await checkOwnedDocumentLock(supabase, user.id, id, c.req.header(LOCK_TOKEN_HEADER));
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+  if (!found) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+  if (lock) {
+    return c.json(buildLockedPayload(lock, user.id), 423);
+  }
+
+  // 草稿未设置标题时沿用文档标题
+  const updateData: any = {
+    content: draft.content,
+    metadata: buildDocumentMetadata(draft.content),
+    updated_at: new Date().toISOString()
+  };
+  if (draft.title !== null) {
+    updateData.title = draft.title;
+  }
+
+  let updateQuery = supabase
+    .from('documents')
+    .update(updateData)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+
+  if (!force) {
+    updateQuery = updateQuery.eq('version', draft.base_version);
+  }
+
+  const { data, error } = await updateQuery.select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    const { data: current } = await supabase
+      .from('documents')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (current && !force) {
+      c.header('ETag', formatETag(current.version));
+      return c.json(await buildConflictPayload(supabase, current, draft.base_version, {
+        title: draft.title ?? undefined,
+        content: draft.content
+      }), 409);
+    }
+
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  // 写入修订记录，更新链接和资源引用记录，使站点缓存失效并通知 Webhook
+  const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, data[0], {
+    event: 'document.updated',
+    changes: draft.title !== null ? ['title', 'content'] : ['content'],
+    executionCtx: c.executionCtx
+  });
+  if (saveError) {
+    return c.json({ error: saveError.message }, 500);
+  }
+
+  // 删除已发布的草稿；发布期间又被自动保存的草稿保留，并以刚发布的版本为基础
+  const { data: removed, error: removeError } = await supabase
+    .from('document_drafts')
+    .delete()
+    .eq('id', draft.id)
+    .eq('updated_at', draft.updated_at)
+    .select('id');
+
+  if (removeError) {
+    return c.json({ error: removeError.message }, 500);
+  }
+
+  if (removed.length === 0) {
+    await supabase
+      .from('document_drafts')
+      .update({ base_version: data[0].version })
+      .eq('id', draft.id);
+  }
+
+  const { data: tags, error: tagsError } = await getDocumentTags(supabase, id);
+  if (tagsError) {
+    return c.json({ error: tagsError.message }, 500);
+  }
+
+  c.header('ETag', formatETag(data[0].version));
+  return c.json({ ...data[0], tags });
+});
+
+export default drafts;
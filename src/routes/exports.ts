@@ -0,0 +1,139 @@
+/**
+ * ========================================
+ * 文档导出路由模块
+ * ========================================
+ *
+ * 本文件提供将文档导出为多种格式的 HTTP 路由处理
+ * 支持独立 HTML、DOCX、EPUB 和带 YAML front matter 的 Markdown
+ * 所有路由都需要用户认证，确保用户只能导出自己的文档
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { getFolderPath } from "../utils/folderUtils";
+import { getDocumentTags } from "../utils/tagUtils";
+import {
+  ExportDocument,
+  buildContentDisposition,
+  collectDocumentAssets,
+  exportEpub,
+  exportHtml,
+  exportMarkdown
+} from "../utils/exportUtils";
+import { exportDocx } from "../utils/docxUtils";
+
+/**
+ * 创建文档导出路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const documentExports = new Hono<AppContext>();
+
+/** 支持的导出格式及其文件扩展名和 MIME 类型 */
+const EXPORT_FORMATS: Record<string, { extension: string; contentType: string }> = {
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  docx: { extension: 'docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  epub: { extension: 'epub', contentType: 'application/epub+zip' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' }
+};
+
+/**
+ * 导出文档路由
+ *
+ * 路由：GET /api/documents/:id/export?format=html|docx|epub|markdown
+ *
+ * 查询参数：
+ * - format: 导出格式，默认为 html（md 可作为 markdown 的别名）
+ *
+ * 功能：
+ * - html: 带内嵌样式的独立页面，图片以 data URI 内嵌
+ * - docx: Word 文档，图片打包在文档内
+ * - epub: EPUB 3 电子书，图片打包在电子书内
+ * - markdown: 带 YAML front matter（标题、创建/更新时间、文件夹路径、标签）的 Markdown，图片以 data URI 内嵌
+ *
+ * 响应：
+ * - 以附件形式返回导出的文件，文件名为文档标题
+ */
+documentExports.get("/:id/export", async (c) => {
+  const id = c.req.param("id");
+  const requestedFormat = (c.req.query("format") || 'html').toLowerCase();
+  const format = requestedFormat === 'md' ? 'markdown' : requestedFormat;
+
+  if (!EXPORT_FORMATS[format]) {
+    return c.json({ error: `不支持的导出格式，可选值：${Object.keys(EXPORT_FORMATS).join(', ')}` }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, title, content, folder_id, created_at, updated_at')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+
+  const [folderPath, { data: tags }] = await Promise.all([
+    getFolderPath(supabase, user.id, document.folder_id),
+    getDocumentTags(supabase, document.id)
+  ]);
+
+  const exportDocument: ExportDocument = {
+    id: document.id,
+    title: document.title,
+    content: document.content || '',
+    created_at: document.created_at,
+    updated_at: document.updated_at,
+    folderPath,
+    tags: tags.map(tag => tag.name)
+  };
+
+  // 读取文档引用的站内图片，使导出结果可以离线查看
+  const assets = await collectDocumentAssets(c.env.R2_BUCKET, exportDocument.content);
+
+  let body: string | Uint8Array;
+  switch (format) {
+    case 'docx':
+      body = exportDocx(exportDocument, assets, new URL(c.req.url).origin);
+      break;
+    case 'epub':
+      body = exportEpub(exportDocument, assets);
+      break;
+    case 'markdown':
+      body = exportMarkdown(exportDocument, assets);
+      break;
+    default:
+      body = exportHtml(exportDocument, assets);
+  }
+
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': buildContentDisposition(exportDocument.title, extension),
+      'Cache-Control': 'no-store'
+    }
+  });
+});
+
+/**
+ * 导出文档导出路由模块
+ * 供主应用文件挂载使用
+ */
+export default documentExports;
@@ -11,6 +11,10 @@
 
 import { Hono } from "hono";
 import { AppContext } from "../types/context";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { dispatchWebhookEvent } from "../utils/webhookUtils";
+import { getAssetUsage } from "../utils/assetUtils";
+import { SITE_CACHE_PREFIX } from "../utils/siteUtils";
 
 /**
  * 创建文件处理路由实例
@@ -19,6 +23,14 @@ import { AppContext } from "../types/context";
  */
 const files = new Hono<AppContext>();
 
+/**
+ * 判断对象键是否属于公开站点的页面缓存
+ * 页面缓存与文件存放在同一个存储桶中，文件管理接口需要跳过这些对象
+ */
+const isSiteCacheKey = (key: string): boolean => {
+  return key.replace(/^\/+/, '').startsWith(SITE_CACHE_PREFIX);
+};
+
 /**
  * ========================================
  * 文件处理路由
@@ -33,7 +45,7 @@ const files = new Hono<AppContext>();
  * 功能：
  * - 列出用户的所有文件
  * - 支持分页和搜索
- * - 返回文件基本信息
+ * - 返回文件基本信息，以及引用每个文件的文档（used_by）
  *
  * 查询参数：
  * - page: 页码（从1开始，默认为1）
@@ -52,7 +64,9 @@ const files = new Hono<AppContext>();
  *       "type": "application/pdf",
  *       "url": "/api/files/1672531200000-document.pdf",
  *       "created_at": "2023-01-01T00:00:00.000Z",
- *       "updated_at": "2023-01-01T00:00:00.000Z"
+ *       "updated_at": "2023-01-01T00:00:00.000Z",
+ *       "used_by": [{ "id": "doc_id", "title": "文档标题", "deleted_at": null }],
+ *       "reference_count": 1
  *     }
  *   ],
  *   "folders": [
@@ -80,6 +94,15 @@ const files = new Hono<AppContext>();
  */
 files.get("/", async (c) => {
   try {
+    // 创建 Supabase 客户端实例
+    const supabase = createSupabaseClient(
+      c.env.SUPABASE_URL,
+      c.env.SUPABASE_ANON_KEY
+    );
+
+    // 从认证中间件设置的上下文中获取用户信息
+    const user = c.get('user');
+
     // 获取分页参数，参考 documents.ts 的实现
     const pageParam = c.req.query('page');
     const limitParam = c.req.query('limit');
@@ -104,8 +127,8 @@ files.get("/", async (c) => {
     // 首先获取所有文件来计算总数
     const allResult = await c.env.R2_BUCKET.list({});
 
-    // 处理文件列表，分离文件夹和文件
-    const allProcessedItems = allResult.objects.map(obj => {
+    // 处理文件列表，分离文件夹和文件（跳过公开站点的页面缓存）
+    const allProcessedItems = allResult.objects.filter(obj => !isSiteCacheKey(obj.key)).map(obj => {
       const key = obj.key;
 
       // 检查是否是文件夹（以 /.folder 结尾）
@@ -241,6 +264,17 @@ files.get("/", async (c) => {
       })
     );
 
+    // 附加引用当前页文件的文档
+    const { data: usage, error: usageError } = await getAssetUsage(supabase, user.id, filesWithMetadata.map(file => file.id));
+    if (usageError) {
+      return c.json({ error: usageError.message }, 500);
+    }
+    const filesWithUsage = filesWithMetadata.map(file => ({
+      ...file,
+      used_by: usage.get(file.id)?.used_by || [],
+      reference_count: usage.get(file.id)?.reference_count || 0
+    }));
+
     // 处理文件夹元数据
     const paginatedFolders = paginatedItems.filter(item => item.type === 'folder');
     const foldersWithMetadata = paginatedFolders.map(folder => ({
@@ -256,7 +290,7 @@ files.get("/", async (c) => {
     // 返回文件夹和文件信息，添加分页元数据
     // 注意：files 字段只包含文件，folders 字段只包含文件夹
     return c.json({
-      files: filesWithMetadata,
+      files: filesWithUsage,
       folders: foldersWithMetadata,
       pagination: {
         currentPage: page,
@@ -381,6 +415,10 @@ files.post("/upload", async (c) => {
       fullPath = `${cleanPath}/${fileName}`;
     }
 
+    if (isSiteCacheKey(fullPath)) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+
     // 设置文件元数据
     const customMetadata: any = {
       originalName: file.name,
@@ -420,6 +458,22 @@ files.post("/upload", async (c) => {
 
     console.log("File uploaded successfully:", fullPath);
 
+    // 创建 Supabase 客户端实例
+    const supabase = createSupabaseClient(
+      c.env.SUPABASE_URL,
+      c.env.SUPABASE_ANON_KEY
+    );
+
+    // 通知订阅了该事件的 Webhook
+    await dispatchWebhookEvent(supabase, c.env.WEBHOOK_QUEUE, user.id, 'file.uploaded', {
+      id: fullPath,
+      name: file.name,
+      size: file.size,
+      content_type: file.type || 'application/octet-stream',
+      url: `/api/files/${fullPath}`,
+      path: path
+    });
+
     // 返回上传成功响应，包含检测到的尺寸信息（如果是图片）
     const response: any = {
       message: "File uploaded successfully",
@@ -538,6 +592,19 @@ files.get("/:fileName", async (c) => {
  *
  * 功能：
  * - 从 R2 存储桶中删除文件
+ * - 文件仍被文档引用时拒绝删除并返回引用它的文档，确认删除需添加 force=true
+ *
+ * 查询参数：
+ * - force: 为 true 时即使仍被引用也删除
+ *
+ * 仍被引用时的响应（409）：
+ * ```json
+ * {
+ *   "error": "File is still referenced by documents",
+ *   "used_by": [{ "id": "doc_id", "title": "文档标题", "deleted_at": null }],
+ *   "reference_count": 1
+ * }
+ * ```
  */
 files.delete("/:fileName", async (c) => {
   try {
@@ -552,9 +619,37 @@ files.delete("/:fileName", async (c) => {
       return c.json({ error: "File not found" }, 404);
     }
 
+    // 创建 Supabase 客户端实例
+    const supabase = createSupabaseClient(
+      c.env.SUPABASE_URL,
+      c.env.SUPABASE_ANON_KEY
+    );
+
+    // 从认证中间件设置的上下文中获取用户信息
+    const user = c.get('user');
+
+    // 仍被文档引用时，除非强制删除，否则拒绝
+    if (c.req.query('force') !== 'true') {
+      const { data: usage, error: usageError } = await getAssetUsage(supabase, user.id, [fileName]);
+      if (usageError) {
+        return c.json({ error: usageError.message }, 500);
+      }
+
+      const references = usage.get(fileName);
+      if (references) {
+        return c.json({ error: "File is still referenced by documents", ...references }, 409);
+      }
+    }
+
     // 删除文件
     await c.env.R2_BUCKET.delete(fileName);
 
+    // 通知订阅了该事件的 Webhook
+    await dispatchWebhookEvent(supabase, c.env.WEBHOOK_QUEUE, user.id, 'file.deleted', {
+      id: fileName,
+      name: object.customMetadata?.originalName || fileName
+    });
+
     return c.json({
       message: "File deleted successfully",
       fileName: fileName
@@ -590,6 +685,10 @@ files.post("/rename", async (c) => {
       return c.json({ error: "fileId and newName are required" }, 400);
     }
 
+    if (isSiteCacheKey(fileId)) {
+      return c.json({ error: "File not found" }, 404);
+    }
+
     // 验证新名称
     if (newName.includes('/') || newName.includes('\\')) {
       return c.json({ error: "Invalid name. Cannot contain / or \\" }, 400);
@@ -717,6 +816,10 @@ files.post("/create-folder", async (c) => {
       `${cleanPath}/${timestamp}-${name}/.folder` :
       `${timestamp}-${name}/.folder`;
 
+    if (isSiteCacheKey(folderMarker)) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+
     await c.env.R2_BUCKET.put(folderMarker, "", {
       customMetadata: {
         type: "folder",
@@ -11,6 +11,12 @@
 import { Hono } from "hono";
 import { createSupabaseClient } from "../utils/supabaseClient";
 import { AppContext } from "../types/context";
+import { getFolderSubtreeIds } from "../utils/folderUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+import { dispatchWebhookEvent } from "../utils/webhookUtils";
+import { afterDocumentsDeleted } from "../utils/documentSaveUtils";
+import { LOCK_TOKEN_HEADER, findBlockingLocksInFolders, formatLock } from "../utils/lockUtils";
+import { PROPERTY_TYPES, parsePropertySchema } from "../utils/propertyUtils";
 
 /**
  * 创建文件夹管理路由实例
@@ -74,7 +80,9 @@ folders.get("/", async (c) => {
             *,
             documents:documents(count)
         `)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .is('deleted_at', null)           // 排除回收站中的文件夹
+        .is('documents.deleted_at', null); // 文档计数不包含回收站中的文档
 
     // 如果指定了父文件夹ID，添加过滤条件
     if (parentId === 'null' || parentId === '') {
@@ -153,6 +161,8 @@ folders.get("/tree", async (c) => {
             documents:documents(count)
         `)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .is('documents.deleted_at', null)
         .order('created_at', { ascending: true });
 
     // 处理数据库查询错误
@@ -237,6 +247,7 @@ folders.post("/", async (c) => {
             .select('id')
             .eq('id', parent_id)
             .eq('user_id', user.id)
+            .is('deleted_at', null)
             .single();
 
         if (parentError || !parentFolder) {
@@ -249,6 +260,7 @@ folders.post("/", async (c) => {
         .from('folders')
         .select('id')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('name', name.trim())
         .eq('parent_id', parent_id || null)
         .single();
@@ -323,6 +335,8 @@ folders.get("/:id", async (c) => {
         `)
         .eq('id', folderId)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .is('documents.deleted_at', null)
         .single();
 
     // 处理数据库查询错误
@@ -402,6 +416,7 @@ folders.put("/:id", async (c) => {
             .select('id')
             .eq('id', parent_id)
             .eq('user_id', user.id)
+            .is('deleted_at', null)
             .single();
 
         if (parentError || !parentFolder) {
@@ -443,6 +458,7 @@ folders.put("/:id", async (c) => {
         .from('folders')
         .select('id')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('name', name.trim())
         .eq('parent_id', parent_id || null)
         .neq('id', folderId) // 排除当前文件夹
@@ -452,6 +468,14 @@ folders.put("/:id", async (c) => {
         return c.json({ error: '同目录下已存在同名文件夹' }, 400);
     }
 
+    // 读取原父文件夹，移动后原位置所在的公开站点也需要使缓存失效
+    const { data: currentFolder } = await supabase
+        .from('folders')
+        .select('parent_id')
+        .eq('id', folderId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
     // 更新文件夹信息
     const { data, error } = await supabase
         .from('folders')
@@ -463,6 +487,7 @@ folders.put("/:id", async (c) => {
         })
         .eq('id', folderId)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .select();
 
     // 处理数据库更新错误
@@ -475,25 +500,145 @@ folders.put("/:id", async (c) => {
         return c.json({ error: '文件夹不存在或无权限访问' }, 404);
     }
 
+    // 移动文件夹时，原位置和新位置所在的公开站点缓存失效，并通知订阅了该事件的 Webhook
+    if ((currentFolder?.parent_id || null) !== data[0].parent_id) {
+        c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, [currentFolder?.parent_id, folderId]));
+        await dispatchWebhookEvent(supabase, c.env.WEBHOOK_QUEUE, user.id, 'folder.moved', {
+            id: folderId,
+            name: data[0].name,
+            from_parent_id: currentFolder?.parent_id || null,
+            to_parent_id: data[0].parent_id
+        });
+    }
+
     // 返回更新后的文件夹信息
     return c.json(data[0]);
 });
 
 /**
- * 删除文件夹路由
+ * 获取文件夹属性定义路由
+ *
+ * 路由：GET /api/folders/:id/properties
+ *
+ * 功能：返回文件夹中文档可填写的属性定义，以及支持的属性类型
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "folder_id": "folder_id",
+ *   "properties": [
+ *     { "key": "status", "name": "状态", "type": "select", "options": ["待办", "进行中", "完成"] },
+ *     { "key": "owner", "name": "负责人", "type": "user" },
+ *     { "key": "due", "name": "截止日期", "type": "date" }
+ *   ],
+ *   "types": ["text", "number", "date", "select", "multi_select", "user", "url"]
+ * }
+ * ```
+ */
+folders.get("/:id/properties", async (c) => {
+    // 创建 Supabase 客户端实例
+    const supabase = createSupabaseClient(
+        c.env.SUPABASE_URL,
+        c.env.SUPABASE_ANON_KEY
+    );
+
+    // 从认证中间件设置的上下文中获取用户信息
+    const user = c.get('user');
+    const folderId = c.req.param("id");
+
+    const { data: folder } = await supabase
+        .from('folders')
+        .select('id, property_schema')
+        .eq('id', folderId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+    if (!folder) {
+        return c.json({ error: '文件夹不存在' }, 404);
+    }
+
+    return c.json({ folder_id: folder.id, properties: folder.property_schema, types: PROPERTY_TYPES });
+});
+
+/**
+ * 更新文件夹属性定义路由
+ *
+ * 路由：PUT /api/folders/:id/properties
+ *
+ * 功能：
+ * - 整体替换文件夹的属性定义，只作用于直接位于该文件夹中的文档
+ * - 删除或修改属性定义不会改写文档中已有的值；已删除的属性不能再写入，也不能用于过滤和排序
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "properties": [
+ *     { "key": "status", "name": "状态", "type": "select", "options": ["待办", "进行中", "完成"] },
+ *     { "key": "client", "name": "客户", "type": "text" }
+ *   ]
+ * }
+ * ```
+ *
+ * 响应：同获取文件夹属性定义
+ */
+folders.put("/:id/properties", async (c) => {
+    // 创建 Supabase 客户端实例
+    const supabase = createSupabaseClient(
+        c.env.SUPABASE_URL,
+        c.env.SUPABASE_ANON_KEY
+    );
+
+    // 从认证中间件设置的上下文中获取用户信息
+    const user = c.get('user');
+    const folderId = c.req.param("id");
+    const body = await c.req.json();
+
+    const parsed = parsePropertySchema(body.properties);
+    if ('error' in parsed) {
+        return c.json({ error: parsed.error }, 400);
+    }
+
+    const { data, error } = await supabase
+        .from('folders')
+        .update({
+            property_schema: parsed.schema,
+            updated_at: new Date().toISOString()
+        })
+        .eq('id', folderId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .select('id, property_schema');
+
+    if (error) {
+        return c.json({ error: error.message }, 500);
+    }
+
+    if (data.length === 0) {
+        return c.json({ error: '文件夹不存在或无权限访问' }, 404);
+    }
+
+    return c.json({ folder_id: data[0].id, properties: data[0].property_schema, types: PROPERTY_TYPES });
+});
+
+/**
+ * 删除文件夹路由（移入回收站）
  *
  * 路由：DELETE /api/folders/:id
  *
  * 功能：
- * - 删除指定文件夹
- * - 自动删除子文件夹（CASCADE）
- * - 自动将文件夹内的文档移至根目录（SET NULL）
+ * - 将指定文件夹及其所有子文件夹移入回收站（软删除）
+ * - 子文件夹和其中的文档随顶层文件夹一起移入回收站，恢复时一并恢复
+ * - 保留原有层级和文件夹位置
  * - 验证文件夹归属权
+ * - 子树中有文档被其他会话签出锁定时返回 423，不执行任何操作；
+ *   持有锁的会话通过 X-Lock-Token 请求头提供锁令牌
  *
  * 响应：
  * ```json
  * {
- *   "message": "文件夹 folder_id 已删除",
+ *   "message": "文件夹 \"文件夹名称\" 已移入回收站",
+ *   "affected_folders": 2,
  *   "affected_documents": 5
  * }
  * ```
@@ -515,35 +660,91 @@ folders.delete("/:id", async (c) => {
         .select('id, name')
         .eq('id', folderId)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .single();
 
     if (checkError || !folder) {
         return c.json({ error: '文件夹不存在或无权限访问' }, 404);
     }
 
-    // 获取将要受影响的文档数量（包括子文件夹中的文档）
-    const { count: affectedDocuments } = await supabase
+    // 获取文件夹子树（包含自身）
+    const subtreeIds = await getFolderSubtreeIds(supabase, user.id, folderId);
+    if (!subtreeIds) {
+        return c.json({ error: '文件夹不存在或无权限访问' }, 404);
+    }
+
+    // 子树中有文档被其他会话锁定时整体拒绝
+    const { data: locks, error: lockError } = await findBlockingLocksInFolders(
+        supabase,
+        user.id,
+        subtreeIds,
+        c.req.header(LOCK_TOKEN_HEADER)
+    );
+
+    if (lockError) {
+        return c.json({ error: lockError.message }, 500);
+    }
+
+    if (locks.size > 0) {
+        return c.json({
+            error: '部分文档已被其他会话锁定，未执行任何操作',
+            code: 'DOCUMENT_LOCKED',
+            locked: [...locks].map(([id, lock]) => ({ id, lock: formatLock(lock) }))
+        }, 423);
+    }
+
+    const deletedAt = new Date().toISOString();
+    const descendantIds = subtreeIds.filter(id => id !== folderId);
+
+    // 子树中的文档随顶层文件夹一起移入回收站
+    const { data: trashedDocuments, error: documentsError } = await supabase
         .from('documents')
-        .select('*', { count: 'exact', head: true })
+        .update({ deleted_at: deletedAt, trashed_with_folder_id: folderId })
         .eq('user_id', user.id)
-        .or(`folder_id.eq.${folderId},parent_id.folder_id.eq.${folderId}`); // 这里需要更复杂的查询
+        .is('deleted_at', null)
+        .in('folder_id', subtreeIds)
+        .select('id, folder_id');
+
+    if (documentsError) {
+        return c.json({ error: documentsError.message }, 500);
+    }
+
+    // 子文件夹随顶层文件夹一起移入回收站
+    if (descendantIds.length > 0) {
+        const { error: descendantsError } = await supabase
+            .from('folders')
+            .update({ deleted_at: deletedAt, trashed_with_folder_id: folderId })
+            .eq('user_id', user.id)
+            .in('id', descendantIds);
 
-    // 删除文件夹（包括子文件夹，由于 CASCADE 约束）
+        if (descendantsError) {
+            return c.json({ error: descendantsError.message }, 500);
+        }
+    }
+
+    // 顶层文件夹作为独立的回收站条目
     const { error } = await supabase
         .from('folders')
-        .delete()
+        .update({ deleted_at: deletedAt, trashed_with_folder_id: null })
         .eq('id', folderId)
         .eq('user_id', user.id);
 
-    // 处理数据库删除错误
+    // 处理数据库更新错误
     if (error) {
         return c.json({ error: error.message }, 500);
     }
 
+    // 文件夹位于公开站点中，或子树中包含公开站点的根文件夹时，使站点缓存失效
+    c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, subtreeIds));
+
+    // 为随文件夹移入回收站的文档通知 Webhook
+    await afterDocumentsDeleted(supabase, c.env, user.id, trashedDocuments || [], deletedAt, { invalidateSites: false });
+
     // 返回删除成功消息
     return c.json({
-        message: `文件夹 "${folder.name}" 已删除`,
-        affected_documents: affectedDocuments || 0
+        message: `文件夹 "${folder.name}" 已移入回收站`,
+        affected_folders: subtreeIds.length,
+        affected_documents: trashedDocuments?.length || 0
     });
 });
 
@@ -11,6 +11,9 @@
 
 import { Hono } from "hono";
 import { AppContext } from "../types/context";
+import { getImageDimensions } from "../utils/imageUtils";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { getAssetUsage } from "../utils/assetUtils";
 
 /**
  * 创建图片处理路由实例
@@ -183,135 +186,6 @@ images.post("/upload", async (c) => {
   }
 });
 
-/**
- * 简单的图片尺寸检测函数
- * 支持 JPEG, PNG, GIF, WebP, BMP 格式
- */
-function getImageDimensions(data: Uint8Array, fileName: string): { width: number; height: number } | null {
-  const extension = fileName.toLowerCase().split('.').pop();
-
-  try {
-    switch (extension) {
-      case 'jpg':
-      case 'jpeg':
-        return getJpegDimensions(data);
-      case 'png':
-        return getPngDimensions(data);
-      case 'gif':
-        return getGifDimensions(data);
-      case 'webp':
-        return getWebpDimensions(data);
-      case 'bmp':
-        return getBmpDimensions(data);
-      default:
-        return null;
-    }
-  } catch (error) {
-    return null;
-  }
-}
-
-/**
- * 检测 JPEG 图片尺寸
- */
-function getJpegDimensions(data: Uint8Array): { width: number; height: number } | null {
-  // JPEG 文件格式解析
-  let i = 0;
-
-  // 查找 SOF 标记 (Start Of Frame)
-  while (i < data.length - 4) {
-    // 查找 0xFF
-    if (data[i] === 0xFF) {
-      const marker = data[i + 1];
-
-      // SOF0 (Baseline DCT) 或 SOF2 (Progressive DCT)
-      if (marker === 0xC0 || marker === 0xC2) {
-        const height = (data[i + 5] << 8) | data[i + 6];
-        const width = (data[i + 7] << 8) | data[i + 8];
-        return { width, height };
-      }
-    }
-    i++;
-  }
-
-  return null;
-}
-
-/**
- * 检测 PNG 图片尺寸
- */
-function getPngDimensions(data: Uint8Array): { width: number; height: number } | null {
-  // PNG 文件必须以 8 字节签名开头
-  if (data.length < 24 ||
-      data[0] !== 0x89 || data[1] !== 0x50 || data[2] !== 0x4E || data[3] !== 0x47 ||
-      data[4] !== 0x0D || data[5] !== 0x0A || data[6] !== 0x1A || data[7] !== 0x0A) {
-    return null;
-  }
-
-  // IHDR 块包含尺寸信息，从第 8 字节开始
-  const width = (data[16] << 24) | (data[17] << 16) | (data[18] << 8) | data[19];
-  const height = (data[20] << 24) | (data[21] << 16) | (data[22] << 8) | data[23];
-
-  return { width, height };
-}
-
-/**
- * 检测 GIF 图片尺寸
- */
-function getGifDimensions(data: Uint8Array): { width: number; height: number } | null {
-  // GIF 文件必须以 GIF87a 或 GIF89a 开头
-  if (data.length < 10 ||
-      data[0] !== 0x47 || data[1] !== 0x49 || data[2] !== 0x46) {
-    return null;
-  }
-
-  // 尺寸信息在第 6-9 字节
-  const width = data[6] | (data[7] << 8);
-  const height = data[8] | (data[9] << 8);
-
-  return { width, height };
-}
-
-/**
- * 检测 WebP 图片尺寸
- */
-function getWebpDimensions(data: Uint8Array): { width: number; height: number } | null {
-  // WebP 文件格式相对复杂，这里只处理 VP8 格式
-  if (data.length < 20) return null;
-
-  try {
-    // 查找 VP8 块
-    for (let i = 12; i < data.length - 10; i++) {
-      if (data[i] === 0x56 && data[i + 1] === 0x50 && data[i + 2] === 0x38) {
-        // VP8 格式，尺寸在块开始后的 6-7 和 8-9 字节
-        const width = (data[i + 7] & 0x3F) << 8 | data[i + 6];
-        const height = (data[i + 9] & 0x3F) << 8 | data[i + 8];
-        return { width: width & 0x3FFF, height: height & 0x3FFF };
-      }
-    }
-  } catch (error) {
-    // 解析失败
-  }
-
-  return null;
-}
-
-/**
- * 检测 BMP 图片尺寸
- */
-function getBmpDimensions(data: Uint8Array): { width: number; height: number } | null {
-  // BMP 文件以 'BM' 开头
-  if (data.length < 26 || data[0] !== 0x42 || data[1] !== 0x4D) {
-    return null;
-  }
-
-  // 尺寸信息在第 18-25 字节（小端序）
-  const width = data[18] | (data[19] << 8) | (data[20] << 16) | (data[21] << 24);
-  const height = data[22] | (data[23] << 8) | (data[24] << 16) | (data[25] << 24);
-
-  return { width, height };
-}
-
 /**
  * 图片访问路由
  *
@@ -381,7 +255,7 @@ images.get("/:fileName", async (c) => {
  * 功能：
  * - 列出用户的所有图片文件
  * - 支持分页和搜索
- * - 返回图片基本信息和尺寸
+ * - 返回图片基本信息和尺寸，以及引用每张图片的文档（used_by）
  *
  * 查询参数：
  * - page: 页码 (默认: 1)
@@ -399,7 +273,9 @@ images.get("/:fileName", async (c) => {
  *       "width": 1920,
  *       "height": 1080,
  *       "url": "/api/images/1672531200000-image.jpg",
- *       "created_at": "2023-01-01T00:00:00.000Z"
+ *       "created_at": "2023-01-01T00:00:00.000Z",
+ *       "used_by": [{ "id": "doc_id", "title": "文档标题", "deleted_at": null }],
+ *       "reference_count": 1
  *     }
  *   ],
  *   "pagination": {
@@ -415,6 +291,15 @@ images.get("/:fileName", async (c) => {
  */
 images.get("/", async (c) => {
   try {
+    // 创建 Supabase 客户端实例
+    const supabase = createSupabaseClient(
+      c.env.SUPABASE_URL,
+      c.env.SUPABASE_ANON_KEY
+    );
+
+    // 从认证中间件设置的上下文中获取用户信息
+    const user = c.get('user');
+
     const page = parseInt(c.req.query("page") || "1");
     const limit = parseInt(c.req.query("limit") || "12");
     const search = c.req.query("search") || "";
@@ -533,8 +418,18 @@ images.get("/", async (c) => {
       })
     );
 
+    // 附加引用当前页图片的文档
+    const { data: usage, error: usageError } = await getAssetUsage(supabase, user.id, imagesWithMetadata.map(image => image.id));
+    if (usageError) {
+      return c.json({ error: usageError.message }, 500);
+    }
+
     return c.json({
-      images: imagesWithMetadata,
+      images: imagesWithMetadata.map(image => ({
+        ...image,
+        used_by: usage.get(image.id)?.used_by || [],
+        reference_count: usage.get(image.id)?.reference_count || 0
+      })),
       pagination: {
         currentPage,
         totalPages,
@@ -557,6 +452,19 @@ images.get("/", async (c) => {
  *
  * 功能：
  * - 从 R2 存储桶中删除图片文件
+ * - 图片仍被文档引用时拒绝删除并返回引用它的文档，确认删除需添加 force=true
+ *
+ * 查询参数：
+ * - force: 为 true 时即使仍被引用也删除
+ *
+ * 仍被引用时的响应（409）：
+ * ```json
+ * {
+ *   "error": "Image is still referenced by documents",
+ *   "used_by": [{ "id": "doc_id", "title": "文档标题", "deleted_at": null }],
+ *   "reference_count": 1
+ * }
+ * ```
  *
  * 响应：
  * ```json
@@ -576,6 +484,28 @@ images.delete("/:fileName", async (c) => {
       return c.json({ error: "Image not found" }, 404);
     }
 
+    // 仍被文档引用时，除非强制删除，否则拒绝
+    if (c.req.query('force') !== 'true') {
+      // 创建 Supabase 客户端实例
+      const supabase = createSupabaseClient(
+        c.env.SUPABASE_URL,
+        c.env.SUPABASE_ANON_KEY
+      );
+
+      // 从认证中间件设置的上下文中获取用户信息
+      const user = c.get('user');
+
+      const { data: usage, error: usageError } = await getAssetUsage(supabase, user.id, [fileName]);
+      if (usageError) {
+        return c.json({ error: usageError.message }, 500);
+      }
+
+      const references = usage.get(fileName);
+      if (references) {
+        return c.json({ error: "Image is still referenced by documents", ...references }, 409);
+      }
+    }
+
     // 删除图片
     await c.env.R2_BUCKET.delete(fileName);
 
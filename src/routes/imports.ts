@@ -0,0 +1,452 @@
+/**
+ * ========================================
+ * 文档导入路由模块
+ * ========================================
+ *
+ * 本文件提供批量导入文档的 HTTP 路由处理
+ * 支持 Markdown、纯文本、HTML、DOCX 文件以及包含这些文件的 zip 压缩包
+ * 所有路由都需要用户认证，导入的文档归属于当前用户
+ */
+
+import { Hono } from "hono";
+import { unzipSync } from "fflate";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext, User } from "../types/context";
+import { afterDocumentSaved } from "../utils/documentSaveUtils";
+import { buildDocumentMetadata } from "../utils/metadataUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+import { findOrCreateTagsByName, setDocumentTags } from "../utils/tagUtils";
+import { htmlToMarkdown } from "../utils/markupUtils";
+import { docxToMarkdown } from "../utils/docxUtils";
+import {
+  IMPORT_LIMITS,
+  decodeDataImage,
+  decodeText,
+  getFrontMatterTags,
+  getImportFileKind,
+  isIgnoredArchiveEntry,
+  parseFrontMatter,
+  resolveImportTitle,
+  resolveRelativePath,
+  rewriteImageReferences,
+  splitImportPath,
+  uploadImportedImage
+} from "../utils/importUtils";
+
+/**
+ * 创建文档导入路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const imports = new Hono<AppContext>();
+
+/**
+ * 单个文件的导入结果
+ */
+interface ImportResult {
+  /** 文件路径（压缩包内文件为 压缩包名/内部路径） */
+  path: string;
+  status: 'imported' | 'skipped' | 'failed';
+  reason?: string;
+  document_id?: string;
+  title?: string;
+  folder_id?: string | null;
+  images?: number;
+}
+
+/**
+ * 一组待导入的文件
+ * 每个压缩包为一组，直接上传的文件合为一组；图片的相对路径在组内解析
+ */
+interface ImportSource {
+  /** 压缩包文件名，直接上传的文件为 null */
+  archive: string | null;
+  entries: Map<string, Uint8Array>;
+}
+
+/**
+ * ========================================
+ * 导入辅助函数
+ * ========================================
+ */
+
+/**
+ * 创建按路径查找或创建文件夹的函数
+ * 同一次导入中相同路径只会查询或创建一次
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param rootFolderId - 导入目标文件夹ID，为 null 表示根目录
+ * @returns 根据目录路径返回文件夹ID的函数
+ */
+const createFolderResolver = (
+  supabase: ReturnType<typeof createSupabaseClient>,
+  userId: string,
+  rootFolderId: string | null
+) => {
+  const cache = new Map<string, Promise<string | null>>([['', Promise.resolve(rootFolderId)]]);
+
+  const resolve = (dir: string): Promise<string | null> => {
+    const cached = cache.get(dir);
+    if (cached) return cached;
+
+    const promise = (async () => {
+      const index = dir.lastIndexOf('/');
+      const parentId = await resolve(index === -1 ? '' : dir.slice(0, index));
+      const name = dir.slice(index + 1);
+
+      let query = supabase
+        .from('folders')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('name', name)
+        .is('deleted_at', null);
+      query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null);
+
+      const { data: existing } = await query.limit(1).maybeSingle();
+      if (existing) return existing.id as string;
+
+      const { data, error } = await supabase
+        .from('folders')
+        .insert([{ name, parent_id: parentId, user_id: userId }])
+        .select('id')
+        .single();
+
+      if (error) throw new Error(`创建文件夹“${dir}”失败：${error.message}`);
+      return data.id as string;
+    })();
+
+    cache.set(dir, promise);
+    return promise;
+  };
+
+  return resolve;
+};
+
+/**
+ * 将一个文件转换为 Markdown 并解析标题和标签
+ *
+ * @returns 转换结果；返回字符串表示跳过原因
+ */
+const convertImportFile = (
+  path: string,
+  data: Uint8Array
+): { title: string; content: string; tags: string[]; dir: string; docxFiles?: Record<string, Uint8Array> } | string => {
+  const { dir, baseName } = splitImportPath(path);
+  const kind = getImportFileKind(path);
+
+  let markdown = '';
+  let metadataTitle = '';
+  let docxFiles: Record<string, Uint8Array> | undefined;
+
+  switch (kind) {
+    case 'markdown':
+      markdown = decodeText(data);
+      break;
+    case 'text':
+      // 纯文本不解析标题和 front matter，标题取文件名
+      return { title: baseName.slice(0, IMPORT_LIMITS.MAX_TITLE_LENGTH), content: decodeText(data), tags: [], dir };
+    case 'html': {
+      const converted = htmlToMarkdown(decodeText(data));
+      markdown = converted.markdown;
+      metadataTitle = converted.title;
+      break;
+    }
+    case 'docx': {
+      const converted = docxToMarkdown(data);
+      markdown = converted.markdown;
+      metadataTitle = converted.title;
+      docxFiles = converted.files;
+      break;
+    }
+    case 'zip':
+      return '不支持嵌套的压缩包';
+    default:
+      return '不支持的文件类型';
+  }
+
+  const { attributes, body } = parseFrontMatter(markdown);
+  const { title, content } = resolveImportTitle({ attributes, body, metadataTitle, fileName: baseName });
+
+  return { title, content, tags: getFrontMatterTags(attributes), dir, docxFiles };
+};
+
+/**
+ * ========================================
+ * 文档导入路由
+ * ========================================
+ */
+
+/**
+ * 批量导入文档路由
+ *
+ * 路由：POST /api/documents/import
+ *
+ * 请求：
+ * - Content-Type: multipart/form-data
+ * - files: 一个或多个文件（.md/.markdown/.txt/.html/.htm/.docx/.zip）
+ * - folder_id: 导入到的目标文件夹ID（可选，默认根目录）
+ *
+ * 功能：
+ * - HTML 和 DOCX 文件会转换为 Markdown
+ * - 标题依次取自 front matter 的 title、第一个标题、文件元数据标题、文件名
+ * - front matter 中的 tags 会关联到同名标签（不存在时自动创建）
+ * - zip 压缩包中的目录结构会在目标文件夹下重建为文件夹
+ * - 文档引用的本地图片（相对路径、data URI、DOCX 内嵌图片）会上传到 R2 并改写为站内地址
+ * - 单个文件失败不影响其他文件，响应中返回每个文件的处理结果
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "summary": { "total": 3, "imported": 2, "skipped": 1, "failed": 0 },
+ *   "results": [
+ *     {
+ *       "path": "notes.zip/工作/周报.md",
+ *       "status": "imported",
+ *       "document_id": "doc_id",
+ *       "title": "周报",
+ *       "folder_id": "folder_id",
+ *       "images": 2
+ *     },
+ *     { "path": "notes.zip/说明.pdf", "status": "skipped", "reason": "不支持的文件类型" }
+ *   ]
+ * }
+ * ```
+ */
+imports.post("/import", async (c) => {
+  const contentType = c.req.header("content-type");
+  if (!contentType || !contentType.includes('multipart/form-data')) {
+    return c.json({ error: '请使用 multipart/form-data 上传文件' }, 400);
+  }
+
+  const body = await c.req.parseBody({ all: true });
+  const uploaded = Object.entries(body)
+    .filter(([key]) => key === 'files' || key === 'files[]' || key === 'file')
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is File => value instanceof File);
+
+  if (uploaded.length === 0) {
+    return c.json({ error: '没有找到上传的文件' }, 400);
+  }
+
+  const totalBytes = uploaded.reduce((sum, file) => sum + file.size, 0);
+  if (totalBytes > IMPORT_LIMITS.MAX_UPLOAD_BYTES) {
+    return c.json({ error: `上传内容超过 ${IMPORT_LIMITS.MAX_UPLOAD_BYTES / 1024 / 1024}MB 限制` }, 413);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user: User = c.get('user');
+
+  // 验证目标文件夹
+  const folderId = typeof body.folder_id === 'string' && body.folder_id ? body.folder_id : null;
+  if (folderId) {
+    const { data: folder } = await supabase
+      .from('folders')
+      .select('id')
+      .eq('id', folderId)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!folder) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+  }
+
+  // 整理待导入的文件：每个压缩包为一组，其余文件合为一组
+  const results: ImportResult[] = [];
+  const sources: ImportSource[] = [];
+  const looseFiles: ImportSource = { archive: null, entries: new Map() };
+
+  for (const file of uploaded) {
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    if (getImportFileKind(file.name) !== 'zip') {
+      looseFiles.entries.set(file.name, data);
+      continue;
+    }
+
+    try {
+      const entries = new Map<string, Uint8Array>();
+      for (const [path, content] of Object.entries(unzipSync(data))) {
+        if (!isIgnoredArchiveEntry(path)) entries.set(path, content);
+      }
+      sources.push({ archive: file.name, entries });
+    } catch (error) {
+      results.push({ path: file.name, status: 'failed', reason: '压缩包无法解析' });
+    }
+  }
+  if (looseFiles.entries.size > 0) sources.push(looseFiles);
+
+  const fileCount = sources.reduce((sum, source) => sum + source.entries.size, 0);
+  if (fileCount > IMPORT_LIMITS.MAX_FILES) {
+    return c.json({ error: `单次最多导入 ${IMPORT_LIMITS.MAX_FILES} 个文件，当前为 ${fileCount} 个` }, 400);
+  }
+
+  const resolveFolder = createFolderResolver(supabase, user.id, folderId);
+
+  for (const source of sources) {
+    const displayPath = (path: string) => (source.archive ? `${source.archive}/${path}` : path);
+    const uploadedImages = new Map<string, Promise<string | null>>();
+    const referencedImages = new Set<string>();
+
+    // 同一组内多个文档引用同一张图片时只上传一次
+    const uploadOnce = (cacheKey: string, fileName: string, data: Uint8Array) => {
+      let upload = uploadedImages.get(cacheKey);
+      if (!upload) {
+        upload = uploadImportedImage(c.env.R2_BUCKET, fileName, data);
+        uploadedImages.set(cacheKey, upload);
+      }
+      return upload;
+    };
+
+    const documentPaths = [...source.entries.keys()]
+      .filter(path => getImportFileKind(path) !== 'image')
+      .sort();
+
+    for (const path of documentPaths) {
+      const data = source.entries.get(path)!;
+
+      if (data.length > IMPORT_LIMITS.MAX_FILE_BYTES) {
+        results.push({ path: displayPath(path), status: 'skipped', reason: `文件超过 ${IMPORT_LIMITS.MAX_FILE_BYTES / 1024 / 1024}MB 限制` });
+        continue;
+      }
+
+      try {
+        const converted = convertImportFile(path, data);
+        if (typeof converted === 'string') {
+          results.push({ path: displayPath(path), status: 'skipped', reason: converted });
+          continue;
+        }
+
+        if (!converted.content.trim() && !converted.title.trim()) {
+          results.push({ path: displayPath(path), status: 'skipped', reason: '文件内容为空' });
+          continue;
+        }
+
+        // 上传引用的图片并改写链接
+        let imageCount = 0;
+        const content = await rewriteImageReferences(converted.content, async (src) => {
+          const dataImage = decodeDataImage(src);
+          if (dataImage) {
+            const url = await uploadImportedImage(c.env.R2_BUCKET, dataImage.fileName, dataImage.data);
+            if (url) imageCount++;
+            return url;
+          }
+
+          // 外部链接和站内地址保持不变
+          if (/^([a-z][a-z0-9+.-]*:|\/\/|\/api\/)/i.test(src)) return null;
+
+          let relative = src.replace(/[?#].*$/, '');
+          try {
+            relative = decodeURIComponent(relative);
+          } catch {
+            // 保持原样
+          }
+
+          if (converted.docxFiles) {
+            const image = converted.docxFiles[relative];
+            if (!image) return null;
+            const url = await uploadOnce(`${path}:${relative}`, relative.split('/').pop()!, image);
+            if (url) imageCount++;
+            return url;
+          }
+
+          const imagePath = resolveRelativePath(converted.dir, relative);
+          const image = imagePath !== null ? source.entries.get(imagePath) : undefined;
+          if (!imagePath || !image) return null;
+
+          referencedImages.add(imagePath);
+          const url = await uploadOnce(imagePath, imagePath.split('/').pop()!, image);
+          if (url) imageCount++;
+          return url;
+        });
+
+        // 压缩包内的目录结构重建为文件夹，直接上传的文件放在目标文件夹下
+        const documentFolderId = source.archive ? await resolveFolder(converted.dir) : folderId;
+
+        const { data: inserted, error } = await supabase
+          .from('documents')
+          .insert([
+            {
+              title: converted.title.trim() || '无标题文档',
+              content,
+              metadata: buildDocumentMetadata(content),
+              folder_id: documentFolderId,
+              user_id: user.id
+            }
+          ])
+          .select();
+
+        if (error) {
+          results.push({ path: displayPath(path), status: 'failed', reason: error.message });
+          continue;
+        }
+
+        const document = inserted[0];
+
+        // 关联 front matter 中的标签
+        if (converted.tags.length > 0) {
+          const { data: tagIds, error: tagError } = await findOrCreateTagsByName(supabase, user.id, converted.tags);
+          if (!tagError) {
+            await setDocumentTags(supabase, user.id, document.id, tagIds);
+          }
+        }
+
+        // 写入初始修订记录，记录链接和引用的图片（包括导入时上传到 R2 的图片），并通知 Webhook；
+        // 同一批导入的文档互相引用时，后导入的文档会关联先前的悬空链接。站点缓存在全部导入后统一失效
+        const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, document, { event: 'document.created', invalidateSites: false });
+
+        results.push({
+          path: displayPath(path),
+          status: 'imported',
+          ...(saveError ? { reason: saveError.message } : {}),
+          document_id: document.id,
+          title: document.title,
+          folder_id: document.folder_id,
+          images: imageCount
+        });
+      } catch (error) {
+        results.push({
+          path: displayPath(path),
+          status: 'failed',
+          reason: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    // 没有被任何文档引用的图片不会单独导入
+    for (const path of source.entries.keys()) {
+      if (getImportFileKind(path) === 'image' && !referencedImages.has(path)) {
+        results.push({ path: displayPath(path), status: 'skipped', reason: '图片未被任何文档引用' });
+      }
+    }
+  }
+
+  // 导入到已发布为公开站点的文件夹时，使站点缓存失效
+  const importedFolderIds = results.filter(result => result.status === 'imported').map(result => result.folder_id);
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, importedFolderIds));
+
+  const count = (status: ImportResult['status']) => results.filter(result => result.status === status).length;
+
+  return c.json({
+    summary: {
+      total: results.length,
+      imported: count('imported'),
+      skipped: count('skipped'),
+      failed: count('failed')
+    },
+    results
+  });
+});
+
+/**
+ * 导出文档导入路由模块
+ * 供主应用文件挂载使用
+ */
+export default imports;
@@ -0,0 +1,292 @@
+/**
+ * ========================================
+ * 文档链接路由模块
+ * ========================================
+ *
+ * 本文件提供文档之间链接关系的查询功能：反向链接、出链和链接关系图
+ * 链接记录在保存文档时由 linkUtils 解析正文生成
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { getFolderSubtreeIds } from "../utils/folderUtils";
+
+/**
+ * 创建文档链接路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const links = new Hono<AppContext>();
+
+/** 关系图最多返回的文档节点数量 */
+const MAX_GRAPH_NODES = 2000;
+
+/**
+ * ========================================
+ * 文档链接路由
+ * ========================================
+ */
+
+/**
+ * 获取文档链接关系图路由
+ *
+ * 路由：GET /api/documents/graph
+ *
+ * 查询参数：
+ * - folder_id: 文件夹ID（可选，包含其所有子文件夹；null 表示仅未分类文档；不指定时为整个工作区）
+ * - include_dangling: 是否包含悬空链接节点（可选，默认 false）
+ *
+ * 功能：
+ * - 节点为范围内的文档，边为两端都在范围内的链接
+ * - include_dangling=true 时，指向不存在文档的维基链接以 missing 节点表示
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "nodes": [
+ *     { "id": "doc_id", "title": "项目概览", "folder_id": null, "updated_at": "2023-01-01T00:00:00Z", "inbound": 3, "outbound": 1 },
+ *     { "id": "missing:待写文档", "title": "待写文档", "missing": true, "inbound": 1, "outbound": 0 }
+ *   ],
+ *   "edges": [
+ *     { "source": "doc_id", "target": "other_doc_id", "type": "wiki", "count": 2 }
+ *   ],
+ *   "truncated": false
+ * }
+ * ```
+ */
+links.get("/graph", async (c) => {
+  const folderIdParam = c.req.query('folder_id');
+  const includeDangling = c.req.query('include_dangling') === 'true';
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  let documentsQuery = supabase
+    .from('documents')
+    .select('id, title, folder_id, updated_at')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .order('updated_at', { ascending: false })
+    .limit(MAX_GRAPH_NODES + 1);
+
+  // 处理文件夹范围
+  if (folderIdParam === 'null' || folderIdParam === '') {
+    documentsQuery = documentsQuery.is('folder_id', null);
+  } else if (folderIdParam) {
+    const folderIds = await getFolderSubtreeIds(supabase, user.id, folderIdParam);
+    if (!folderIds) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+    documentsQuery = documentsQuery.in('folder_id', folderIds);
+  }
+
+  const { data: documents, error: documentsError } = await documentsQuery;
+  if (documentsError) {
+    return c.json({ error: documentsError.message }, 500);
+  }
+
+  const truncated = (documents || []).length > MAX_GRAPH_NODES;
+  const nodeDocuments = (documents || []).slice(0, MAX_GRAPH_NODES);
+  const nodeIds = new Set(nodeDocuments.map(document => document.id));
+
+  // 读取用户的全部链接，在内存中筛选两端都在范围内的边
+  const { data: linkRows, error: linksError } = await supabase
+    .from('document_links')
+    .select('source_id, target_id, target_title, link_type, occurrences')
+    .eq('user_id', user.id);
+
+  if (linksError) {
+    return c.json({ error: linksError.message }, 500);
+  }
+
+  const edges: { source: string; target: string; type: string; count: number }[] = [];
+  const missingNodes = new Map<string, { id: string; title: string; missing: true }>();
+
+  for (const link of linkRows || []) {
+    if (!nodeIds.has(link.source_id)) continue;
+
+    if (link.target_id && nodeIds.has(link.target_id)) {
+      edges.push({ source: link.source_id, target: link.target_id, type: link.link_type, count: link.occurrences });
+    } else if (!link.target_id && includeDangling && link.target_title) {
+      const id = `missing:${link.target_title.trim().toLowerCase()}`;
+      if (!missingNodes.has(id)) {
+        missingNodes.set(id, { id, title: link.target_title, missing: true });
+      }
+      edges.push({ source: link.source_id, target: id, type: link.link_type, count: link.occurrences });
+    }
+  }
+
+  // 统计每个节点的入链和出链数量
+  const inbound = new Map<string, number>();
+  const outbound = new Map<string, number>();
+  for (const edge of edges) {
+    outbound.set(edge.source, (outbound.get(edge.source) || 0) + 1);
+    inbound.set(edge.target, (inbound.get(edge.target) || 0) + 1);
+  }
+
+  const nodes = [
+    ...nodeDocuments.map(document => ({ ...document, missing: false })),
+    ...missingNodes.values()
+  ].map(node => ({
+    ...node,
+    inbound: inbound.get(node.id) || 0,
+    outbound: outbound.get(node.id) || 0
+  }));
+
+  return c.json({ nodes, edges, truncated });
+});
+
+/**
+ * 获取文档反向链接路由
+ *
+ * 路由：GET /api/documents/:id/backlinks
+ *
+ * 功能：返回链接到该文档的其他文档（不包含回收站中的文档），按更新时间降序
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "backlinks": [
+ *     {
+ *       "document": { "id": "source_id", "title": "周报", "folder_id": null, "updated_at": "2023-01-01T00:00:00Z" },
+ *       "link_types": ["wiki"],
+ *       "count": 2
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+links.get("/:id/backlinks", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const { data, error } = await supabase
+    .from('document_links')
+    .select('link_type, occurrences, source:documents!document_links_source_id_fkey!inner(id, title, folder_id, updated_at, deleted_at)')
+    .eq('user_id', user.id)
+    .eq('target_id', id)
+    .is('source.deleted_at', null);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 同一来源文档的维基链接和编辑器链接合并为一项
+  const backlinks = new Map<string, { document: any; link_types: string[]; count: number }>();
+  for (const link of (data || []) as any[]) {
+    const { deleted_at, ...source } = link.source;
+    const entry = backlinks.get(source.id) || { document: source, link_types: [], count: 0 };
+    if (!entry.link_types.includes(link.link_type)) entry.link_types.push(link.link_type);
+    entry.count += link.occurrences;
+    backlinks.set(source.id, entry);
+  }
+
+  return c.json({
+    backlinks: [...backlinks.values()].sort(
+      (a, b) => (b.document.updated_at || '').localeCompare(a.document.updated_at || '')
+    )
+  });
+});
+
+/**
+ * 获取文档出链路由
+ *
+ * 路由：GET /api/documents/:id/outgoing
+ *
+ * 功能：
+ * - 返回该文档正文中链接到的文档
+ * - 找不到目标的维基链接 resolved 为 false；目标在回收站中时 deleted 为 true
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "links": [
+ *     {
+ *       "type": "wiki",
+ *       "target_title": "项目概览",
+ *       "count": 1,
+ *       "resolved": true,
+ *       "deleted": false,
+ *       "document": { "id": "target_id", "title": "项目概览", "folder_id": null, "updated_at": "2023-01-01T00:00:00Z" }
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+links.get("/:id/outgoing", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const { data, error } = await supabase
+    .from('document_links')
+    .select('link_type, target_title, occurrences, target:documents!document_links_target_id_fkey(id, title, folder_id, updated_at, deleted_at)')
+    .eq('user_id', user.id)
+    .eq('source_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    links: ((data || []) as any[]).map(link => {
+      const target = link.target;
+      return {
+        type: link.link_type,
+        target_title: link.target_title,
+        count: link.occurrences,
+        resolved: !!target,
+        deleted: !!target?.deleted_at,
+        document: target
+          ? { id: target.id, title: target.title, folder_id: target.folder_id, updated_at: target.updated_at }
+          : null
+      };
+    })
+  });
+});
+
+export default links;
@@ -0,0 +1,369 @@
+/**
+ * ========================================
+ * 文档锁路由模块
+ * ========================================
+ *
+ * 本文件提供文档签出锁的获取、心跳续期、释放和强制解除功能
+ * 锁用于需要独占编辑的文档（例如法律文本）：锁有效期内，未提供锁令牌的会话对文档的
+ * 修改、删除、恢复修订、发布草稿、查找替换和协同编辑都会被拒绝（423 DOCUMENT_LOCKED）
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { generateToken } from "../utils/cryptoUtils";
+import {
+  DocumentLock,
+  LOCK_TOKEN_HEADER,
+  LOCK_TTL_RANGE_MESSAGE,
+  parseLockTtl,
+  formatLock,
+  buildLockedPayload,
+  getActiveLock
+} from "../utils/lockUtils";
+
+/**
+ * 创建文档锁路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const locks = new Hono<AppContext>();
+
+/** 客户端说明的最大长度 */
+const MAX_CLIENT_LENGTH = 200;
+
+/**
+ * ========================================
+ * 文档锁路由
+ * ========================================
+ */
+
+/**
+ * 获取文档锁状态路由
+ *
+ * 路由：GET /api/documents/:id/lock
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "locked": true,
+ *   "held_by_you": false,
+ *   "lock": {
+ *     "holder": { "user_id": "user_id", "email": "user@example.com", "client": "办公室电脑" },
+ *     "acquired_at": "2024-01-01T00:00:00Z",
+ *     "renewed_at": "2024-01-01T00:04:00Z",
+ *     "expires_at": "2024-01-01T00:09:00Z"
+ *   }
+ * }
+ * ```
+ *
+ * 请求中提供 X-Lock-Token 且与锁令牌一致时 held_by_you 为 true
+ */
+locks.get("/:id/lock", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const { data: lock, error } = await getActiveLock(supabase, id);
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    locked: lock !== null,
+    held_by_you: lock !== null && lock.token === c.req.header(LOCK_TOKEN_HEADER),
+    lock: lock ? formatLock(lock) : null
+  });
+});
+
+/**
+ * 获取文档锁路由
+ *
+ * 路由：POST /api/documents/:id/lock
+ *
+ * 功能：
+ * - 签出文档，返回锁令牌；之后的写入请求需要通过 X-Lock-Token 请求头提供该令牌
+ * - 锁在 ttl_seconds 后过期，编辑期间应定期调用 PUT /api/documents/:id/lock 续期
+ * - 文档已被其他会话锁定时返回 423；请求中提供了当前锁的令牌时视为续期
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "ttl_seconds": 300,
+ *   "client": "办公室电脑（可选）"
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "lock_token": "Jx3...",
+ *   "lock": {
+ *     "holder": { "user_id": "user_id", "email": "user@example.com", "client": "办公室电脑" },
+ *     "acquired_at": "2024-01-01T00:00:00Z",
+ *     "renewed_at": "2024-01-01T00:00:00Z",
+ *     "expires_at": "2024-01-01T00:05:00Z"
+ *   }
+ * }
+ * ```
+ *
+ * 文档已被锁定（423）：
+ * ```json
+ * {
+ *   "error": "文档已被其他会话锁定，请等待锁释放或过期",
+ *   "code": "DOCUMENT_LOCKED",
+ *   "lock": { "holder": { ... }, "expires_at": "2024-01-01T00:05:00Z" }
+ * }
+ * ```
+ */
+locks.post("/:id/lock", async (c) => {
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+
+  const ttl = parseLockTtl(body.ttl_seconds);
+  if (ttl === null) {
+    return c.json({ error: LOCK_TTL_RANGE_MESSAGE }, 400);
+  }
+
+  if (body.client !== undefined && (typeof body.client !== 'string' || body.client.length > MAX_CLIENT_LENGTH)) {
+    return c.json({ error: `client 必须是不超过 ${MAX_CLIENT_LENGTH} 个字符的字符串` }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttl * 1000).toISOString();
+
+  // 清理已过期的锁
+  await supabase
+    .from('document_locks')
+    .delete()
+    .eq('document_id', id)
+    .lte('expires_at', now.toISOString());
+
+  // 提供了当前锁的令牌时续期
+  const token = c.req.header(LOCK_TOKEN_HEADER);
+  if (token) {
+    const { data: renewed, error: renewError } = await supabase
+      .from('document_locks')
+      .update({ renewed_at: now.toISOString(), expires_at: expiresAt })
+      .eq('document_id', id)
+      .eq('token', token)
+      .select();
+
+    if (renewError) {
+      return c.json({ error: renewError.message }, 500);
+    }
+
+    if (renewed.length > 0) {
+      return c.json({ lock_token: token, lock: formatLock(renewed[0]) });
+    }
+  }
+
+  const { data: lock, error } = await supabase
+    .from('document_locks')
+    .insert([
+      {
+        document_id: id,
+        user_id: user.id,
+        token: generateToken(),
+        user_email: user.email || null,
+        client: body.client?.trim() || null,
+        acquired_at: now.toISOString(),
+        renewed_at: now.toISOString(),
+        expires_at: expiresAt
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    // 主键冲突：文档已被其他会话锁定
+    if (error.code === '23505') {
+      const { data: current } = await getActiveLock(supabase, id);
+      if (current) {
+        return c.json(buildLockedPayload(current, user.id), 423);
+      }
+      return c.json({ error: '锁状态已变化，请重试' }, 409);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ lock_token: lock.token, lock: formatLock(lock) }, 201);
+});
+
+/**
+ * 续期文档锁路由（心跳）
+ *
+ * 路由：PUT /api/documents/:id/lock
+ *
+ * 功能：
+ * - 持有锁的会话定期调用，把过期时间延后 ttl_seconds（默认 300 秒）
+ * - 锁已过期、已被释放或强制解除时返回 409，客户端需要重新获取锁
+ *
+ * 请求头：
+ * - X-Lock-Token: 锁令牌
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "ttl_seconds": 300
+ * }
+ * ```
+ *
+ * 响应：同获取文档锁
+ */
+locks.put("/:id/lock", async (c) => {
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+
+  const token = c.req.header(LOCK_TOKEN_HEADER);
+  if (!token) {
+    return c.json({ error: `缺少 ${LOCK_TOKEN_HEADER} 请求头` }, 400);
+  }
+
+  const ttl = parseLockTtl(body.ttl_seconds);
+  if (ttl === null) {
+    return c.json({ error: LOCK_TTL_RANGE_MESSAGE }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('document_locks')
+    .update({
+      renewed_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttl * 1000).toISOString()
+    })
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .eq('token', token)
+    .gt('expires_at', now.toISOString())
+    .select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '锁已过期或已被解除，请重新获取', code: 'LOCK_NOT_HELD' }, 409);
+  }
+
+  return c.json({ lock_token: token, lock: formatLock(data[0] as DocumentLock) });
+});
+
+/**
+ * 释放文档锁路由
+ *
+ * 路由：DELETE /api/documents/:id/lock
+ *
+ * 功能：
+ * - 持有锁的会话通过 X-Lock-Token 释放锁
+ * - 查询参数 force=true 时由文档所有者强制解除其他会话持有的锁（例如会话崩溃后不想等待过期）
+ *
+ * 查询参数：
+ * - force: 是否强制解除（可选，默认 false）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "released": true,
+ *   "forced": false,
+ *   "lock": { "holder": { ... }, "expires_at": "2024-01-01T00:05:00Z" }
+ * }
+ * ```
+ */
+locks.delete("/:id/lock", async (c) => {
+  const id = c.req.param("id");
+  const force = c.req.query('force') === 'true';
+
+  const token = c.req.header(LOCK_TOKEN_HEADER);
+  if (!force && !token) {
+    return c.json({ error: `缺少 ${LOCK_TOKEN_HEADER} 请求头；强制解除请使用 force=true` }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  let query = supabase
+    .from('document_locks')
+    .delete()
+    .eq('document_id', id)
+    .eq('user_id', user.id); // 只有文档所有者的锁可以被解除
+
+  if (!force) {
+    query = query.eq('token', token!);
+  }
+
+  const { data, error } = await query.select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  const released = (data || []) as DocumentLock[];
+  if (released.length === 0) {
+    return force
+      ? c.json({ released: false, forced: true, lock: null })
+      : c.json({ error: '锁已过期或已被解除', code: 'LOCK_NOT_HELD' }, 409);
+  }
+
+  return c.json({ released: true, forced: force, lock: formatLock(released[0]) });
+});
+
+/**
+ * 导出文档锁路由模块
+ * 供主应用文件挂载使用
+ */
+export default locks;
@@ -0,0 +1,816 @@
+/**
+ * ========================================
+ * 文档查找替换路由模块
+ * ========================================
+ *
+ * 本文件提供跨文档的查找替换功能：先预览全部匹配及上下文，再对选中的文档和匹配执行替换
+ * 每次替换都会记录被修改文档替换前的正文，可以整体撤销；只查找和替换正文，不修改标题
+ *
+ * 每篇文档都基于预览时的版本号写入，期间被其他会话修改的文档会跳过；
+ * 替换和撤销产生的保存与手动保存一致：写入修订记录、更新链接和资源引用，并通知 Webhook
+ */
+
+import { Hono } from "hono";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext, User } from "../types/context";
+import { getFolderSubtreeIds } from "../utils/folderUtils";
+import { escapeLikePattern } from "../utils/listUtils";
+import { buildDocumentMetadata } from "../utils/metadataUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+import { afterDocumentSaved } from "../utils/documentSaveUtils";
+import { getByteSize } from "../utils/revisionUtils";
+import {
+  ReplaceOptions,
+  ReplaceMatch,
+  MAX_SCAN_DOCUMENTS,
+  MAX_SCAN_BYTES,
+  MAX_SCAN_MATCHES,
+  parseReplaceOptions,
+  findReplaceMatches,
+  applyReplaceMatches
+} from "../utils/replaceUtils";
+import { LOCK_TOKEN_HEADER, findBlockingLocks } from "../utils/lockUtils";
+
+/**
+ * 创建查找替换路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const replace = new Hono<AppContext>();
+
+/** 每次从数据库读取的文档数量 */
+const SCAN_BATCH_SIZE = 100;
+
+/** 预览最多列出的文档数量 */
+const MAX_PREVIEW_DOCUMENTS = 200;
+
+/** 预览中每篇文档最多列出的匹配数量 */
+const MAX_PREVIEW_MATCHES_PER_DOCUMENT = 50;
+
+/** 单次替换最多修改的文档数量 */
+const MAX_REPLACE_DOCUMENTS = 500;
+
+/**
+ * 参与查找替换的文档
+ */
+interface ReplaceCandidate {
+  id: string;
+  title: string;
+  content: string | null;
+  folder_id: string | null;
+  version: number;
+}
+
+/**
+ * 预览中的一篇文档
+ */
+interface PreviewDocument {
+  id: string;
+  title: string;
+  folder_id: string | null;
+  version: number;
+  match_count: number;
+  matches: ReplaceMatch[];
+}
+
+/**
+ * 单篇文档的替换或撤销结果
+ */
+interface ReplaceItemResult {
+  id: string;
+  title?: string;
+  status: 'replaced' | 'restored' | 'skipped' | 'not_found';
+  replacements?: number;
+  version?: number;
+  reason?: string;
+  truncated?: boolean;
+}
+
+/**
+ * ========================================
+ * 辅助函数
+ * ========================================
+ */
+
+/**
+ * 分批读取查找范围内的文档
+ *
+ * 查找时普通文本和全词模式先在数据库中按不区分大小写的包含条件筛选，正则模式需要读取范围内的全部文档；
+ * 指定了文档ID时不做筛选，以便区分文档不存在和已不包含匹配的情况；
+ * 读取的文档数量或正文字节数达到上限时停止，超出上限的文档不会交给 onBatch
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param options - 查找替换条件
+ * @param scope.folderIds - 限定的文件夹ID列表（为空时表示全部文档）
+ * @param scope.documentIds - 限定的文档ID列表（可选）
+ * @param onBatch - 处理每批文档，返回 false 时停止读取
+ * @returns 是否因达到扫描上限而停止；读取失败时返回错误
+ */
+const scanDocuments = async (
+  supabase: SupabaseClient,
+  userId: string,
+  options: ReplaceOptions,
+  scope: { folderIds: string[] | null; documentIds?: string[] },
+  onBatch: (documents: ReplaceCandidate[]) => boolean
+): Promise<{ limited: boolean; error: { message: string } | null }> => {
+  let scannedDocuments = 0;
+  let scannedBytes = 0;
+
+  for (let offset = 0; ; offset += SCAN_BATCH_SIZE) {
+    let query = supabase
+      .from('documents')
+      .select('id, title, content, folder_id, version')
+      .eq('user_id', userId)
+      .is('deleted_at', null); // 回收站中的文档不参与查找替换
+
+    if (scope.folderIds) query = query.in('folder_id', scope.folderIds);
+    if (scope.documentIds) query = query.in('id', scope.documentIds);
+    if (options.mode !== 'regex' && !scope.documentIds) {
+      query = query.ilike('content', `%${escapeLikePattern(options.query)}%`);
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + SCAN_BATCH_SIZE - 1);
+
+    if (error) return { limited: false, error };
+
+    const batch: ReplaceCandidate[] = [];
+    let limited = false;
+    for (const document of data || []) {
+      scannedBytes += getByteSize(document.content);
+      if (++scannedDocuments > MAX_SCAN_DOCUMENTS || scannedBytes > MAX_SCAN_BYTES) {
+        limited = true;
+        break;
+      }
+      batch.push(document);
+    }
+
+    if (!onBatch(batch)) break;
+    if (limited) return { limited: true, error: null };
+    if ((data || []).length < SCAN_BATCH_SIZE) break;
+  }
+
+  return { limited: false, error: null };
+};
+
+/**
+ * 解析限定的文件夹，展开为包含全部子文件夹的ID列表
+ *
+ * @returns 未指定文件夹时 folderIds 为 null；文件夹不存在或不属于当前用户时返回错误信息
+ */
+const resolveFolderScope = async (
+  supabase: SupabaseClient,
+  userId: string,
+  folderId: unknown
+): Promise<{ folderIds: string[] | null } | { error: string }> => {
+  if (folderId === undefined || folderId === null || folderId === '') {
+    return { folderIds: null };
+  }
+  if (typeof folderId !== 'string') {
+    return { error: 'folder_id 必须是字符串' };
+  }
+
+  const folderIds = await getFolderSubtreeIds(supabase, userId, folderId);
+  return folderIds ? { folderIds } : { error: '文件夹不存在或无权限访问' };
+};
+
+/**
+ * 保存替换或撤销后的正文
+ *
+ * 基于读取时的版本号写入，期间被其他会话修改时返回 null；
+ * 保存后写入修订记录、更新链接和资源引用，并通知订阅了 document.updated 的 Webhook
+ *
+ * @returns 保存后的文档；版本已变化时为 null
+ */
+const saveDocumentContent = async (
+  supabase: SupabaseClient,
+  env: AppContext['Bindings'],
+  user: User,
+  document: { id: string; version: number },
+  content: string | null
+): Promise<{ data: ReplaceCandidate | null; error: { message: string } | null }> => {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ content, metadata: buildDocumentMetadata(content), updated_at: new Date().toISOString() })
+    .eq('id', document.id)
+    .eq('user_id', user.id)
+    .eq('version', document.version)
+    .is('deleted_at', null)
+    .select('id, title, content, folder_id, version');
+
+  if (error) return { data: null, error };
+  if (data.length === 0) return { data: null, error: null };
+
+  // 站点缓存在全部文档保存后统一失效
+  const { error: saveError } = await afterDocumentSaved(supabase, env, user, data[0], {
+    event: 'document.updated',
+    changes: ['content'],
+    invalidateSites: false
+  });
+  if (saveError) return { data: null, error: saveError };
+
+  return { data: data[0], error: null };
+};
+
+/**
+ * ========================================
+ * 查找替换路由
+ * ========================================
+ */
+
+/**
+ * 预览查找替换路由
+ *
+ * 路由：POST /api/documents/replace/preview
+ *
+ * 功能：
+ * - 在当前用户的文档（不含回收站）中查找匹配，不修改任何文档
+ * - 可限定在某个文件夹及其所有子文件夹中
+ * - 返回每篇文档的匹配位置、上下文和替换后的文本；匹配序号用于在替换时选择匹配
+ * - 最多列出 200 篇文档，每篇最多列出 50 处匹配，match_count 始终为该文档的全部匹配数
+ * - 单次最多扫描 2000 篇文档、共 20MB 正文、10 万处匹配；达到上限时停止查找，truncated 为 true，可缩小文件夹范围后重试
+ * - 正则表达式中带重复量词的分组不能再包含量词或分支（例如 (a+)+、(a|b)*）
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "query": "SuperEditor",
+ *   "replacement": "HyperEditor",
+ *   "mode": "word",
+ *   "case_sensitive": false,
+ *   "folder_id": "文件夹ID（可选）"
+ * }
+ * ```
+ *
+ * mode 可选 text（默认）、word（全词匹配）或 regex（正则表达式，替换文本支持 $1、$<name> 等）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "summary": { "documents": 1, "matches": 2 },
+ *   "truncated": false,
+ *   "documents": [
+ *     {
+ *       "id": "doc_id",
+ *       "title": "产品介绍",
+ *       "folder_id": "folder_id",
+ *       "version": 7,
+ *       "match_count": 2,
+ *       "matches": [
+ *         {
+ *           "index": 0,
+ *           "line": 3,
+ *           "column": 5,
+ *           "text": "SuperEditor",
+ *           "replacement": "HyperEditor",
+ *           "before": "欢迎使用 ",
+ *           "after": "，一款 Markdown 编辑器"
+ *         }
+ *       ]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+replace.post("/replace/preview", async (c) => {
+  const body = await c.req.json();
+
+  const parsed = parseReplaceOptions(body);
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const scope = await resolveFolderScope(supabase, user.id, body.folder_id);
+  if ('error' in scope) {
+    return c.json({ error: scope.error }, 400);
+  }
+
+  const documents: PreviewDocument[] = [];
+  let matchCount = 0;
+  let truncated = false;
+
+  const { limited, error } = await scanDocuments(supabase, user.id, parsed.options, scope, batch => {
+    for (const document of batch) {
+      const { matches, total, limited: matchLimited } = findReplaceMatches(
+        document.content || '',
+        parsed.pattern,
+        parsed.options,
+        MAX_PREVIEW_MATCHES_PER_DOCUMENT,
+        MAX_SCAN_MATCHES - matchCount
+      );
+      if (total === 0) {
+        if (!matchLimited) continue;
+        truncated = true;
+        return false;
+      }
+
+      if (documents.length >= MAX_PREVIEW_DOCUMENTS) {
+        truncated = true;
+        return false;
+      }
+
+      documents.push({
+        id: document.id,
+        title: document.title,
+        folder_id: document.folder_id,
+        version: document.version,
+        match_count: total,
+        matches
+      });
+      matchCount += total;
+
+      if (matchLimited) {
+        truncated = true;
+        return false;
+      }
+    }
+    return true;
+  });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    summary: { documents: documents.length, matches: matchCount },
+    truncated: truncated || limited,
+    documents
+  });
+});
+
+/**
+ * 执行查找替换路由
+ *
+ * 路由：POST /api/documents/replace
+ *
+ * 功能：
+ * - 对预览中选中的文档执行替换，查找条件与预览相同
+ * - 每篇文档需要提供预览时的版本号，版本已变化（匹配序号可能已失效）的文档会跳过
+ * - 可通过 matches 只替换选中的匹配（预览中的 index），未提供时替换该文档的全部匹配
+ * - 记录每篇文档替换前的正文，可通过 POST /api/documents/replace/operations/:id/undo 撤销
+ * - 被其他会话签出锁定的文档会跳过（请求中的 X-Lock-Token 只对其对应的文档有效）
+ * - 选中文档的正文合计超过 20MB 时返回 413，需要分批替换
+ * - 单次最多查找 10 万处匹配；达到上限的文档只替换上限之前的匹配（truncated 为 true），之后的文档跳过
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "query": "SuperEditor",
+ *   "replacement": "HyperEditor",
+ *   "mode": "word",
+ *   "case_sensitive": false,
+ *   "folder_id": "文件夹ID（可选）",
+ *   "documents": [
+ *     { "id": "doc_id_1", "version": 7 },
+ *     { "id": "doc_id_2", "version": 3, "matches": [0, 2] }
+ *   ]
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "operation_id": "operation_id",
+ *   "summary": { "documents": 1, "replacements": 2, "skipped": 1 },
+ *   "results": [
+ *     { "id": "doc_id_1", "title": "产品介绍", "status": "replaced", "replacements": 2, "version": 8 },
+ *     { "id": "doc_id_2", "title": "发布说明", "status": "skipped", "reason": "文档已在其他会话中被修改" }
+ *   ]
+ * }
+ * ```
+ *
+ * 没有任何文档被修改时不会生成替换记录，operation_id 为 null
+ */
+replace.post("/replace", async (c) => {
+  const body = await c.req.json();
+
+  const parsed = parseReplaceOptions(body);
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  // 校验选中的文档
+  const selections = body.documents;
+  if (!Array.isArray(selections) || selections.length === 0) {
+    return c.json({ error: 'documents 必须是非空数组' }, 400);
+  }
+  if (selections.length > MAX_REPLACE_DOCUMENTS) {
+    return c.json({ error: `单次最多替换 ${MAX_REPLACE_DOCUMENTS} 篇文档` }, 400);
+  }
+
+  const selected = new Map<string, { version: number; matches?: Set<number> }>();
+  for (const item of selections) {
+    if (!item || typeof item.id !== 'string' || !item.id || !Number.isInteger(item.version)) {
+      return c.json({ error: '每篇文档都需要提供 id 和预览时的 version' }, 400);
+    }
+    if (item.matches !== undefined && (!Array.isArray(item.matches) || !item.matches.every((index: unknown) => Number.isInteger(index) && (index as number) >= 0))) {
+      return c.json({ error: 'matches 必须是匹配序号数组' }, 400);
+    }
+    selected.set(item.id, { version: item.version, matches: item.matches ? new Set(item.matches) : undefined });
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const scope = await resolveFolderScope(supabase, user.id, body.folder_id);
+  if ('error' in scope) {
+    return c.json({ error: scope.error }, 400);
+  }
+
+  // 读取选中的文档，不属于当前用户、在回收站中或不在限定文件夹中的文档不会返回
+  const candidates: ReplaceCandidate[] = [];
+  const { limited, error: scanError } = await scanDocuments(
+    supabase,
+    user.id,
+    parsed.options,
+    { folderIds: scope.folderIds, documentIds: [...selected.keys()] },
+    batch => {
+      candidates.push(...batch);
+      return true;
+    }
+  );
+
+  if (scanError) {
+    return c.json({ error: scanError.message }, 500);
+  }
+
+  if (limited) {
+    return c.json({ error: `选中文档的正文合计超过 ${MAX_SCAN_BYTES / 1024 / 1024}MB，请分批替换` }, 413);
+  }
+
+  // 先生成替换记录，逐篇保存后写入文档记录，中途失败时已完成的替换仍可撤销
+  const { data: operation, error: operationError } = await supabase
+    .from('replace_operations')
+    .insert([
+      {
+        user_id: user.id,
+        query: parsed.options.query,
+        replacement: parsed.options.replacement,
+        mode: parsed.options.mode,
+        case_sensitive: parsed.options.case_sensitive,
+        folder_id: body.folder_id || null
+      }
+    ])
+    .select()
+    .single();
+
+  if (operationError) {
+    return c.json({ error: operationError.message }, 500);
+  }
+
+  // 被其他会话锁定的文档不参与替换
+  const { data: locks, error: lockError } = await findBlockingLocks(supabase, candidates.map(document => document.id), c.req.header(LOCK_TOKEN_HEADER));
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+
+  const found = new Map(candidates.map(document => [document.id, document]));
+  const results: ReplaceItemResult[] = [];
+  const affectedFolderIds: (string | null)[] = [];
+  let replacementCount = 0;
+  let matchBudget = MAX_SCAN_MATCHES;
+
+  for (const [id, selection] of selected) {
+    const document = found.get(id);
+    if (!document) {
+      results.push({ id, status: 'not_found', reason: 'Document not found or unauthorized' });
+      continue;
+    }
+
+    if (document.version !== selection.version) {
+      results.push({ id, title: document.title, status: 'skipped', reason: '文档已在其他会话中被修改' });
+      continue;
+    }
+
+    if (locks.has(id)) {
+      results.push({ id, title: document.title, status: 'skipped', reason: '文档已被其他会话锁定' });
+      continue;
+    }
+
+    const budgetReason = `单次最多查找 ${MAX_SCAN_MATCHES} 处匹配，请分批替换`;
+    if (matchBudget === 0) {
+      results.push({ id, title: document.title, status: 'skipped', reason: budgetReason });
+      continue;
+    }
+
+    const { content, count, total, limited } = applyReplaceMatches(
+      document.content || '',
+      parsed.pattern,
+      parsed.options,
+      selection.matches,
+      matchBudget
+    );
+    matchBudget -= total;
+    if (count === 0) {
+      results.push({ id, title: document.title, status: 'skipped', reason: limited ? budgetReason : '没有匹配的内容' });
+      continue;
+    }
+
+    const { data: saved, error } = await saveDocumentContent(supabase, c.env, user, document, content);
+    if (error) {
+      return c.json({ error: error.message, operation_id: operation.id, results }, 500);
+    }
+
+    if (!saved) {
+      results.push({ id, title: document.title, status: 'skipped', reason: '文档已在其他会话中被修改' });
+      continue;
+    }
+
+    const { error: recordError } = await supabase
+      .from('replace_operation_documents')
+      .insert([
+        {
+          operation_id: operation.id,
+          document_id: id,
+          title: saved.title,
+          content_before: document.content,
+          version_after: saved.version,
+          replacements: count
+        }
+      ]);
+
+    if (recordError) {
+      return c.json({ error: recordError.message, operation_id: operation.id, results }, 500);
+    }
+
+    results.push({
+      id,
+      title: saved.title,
+      status: 'replaced',
+      replacements: count,
+      version: saved.version,
+      ...(limited ? { truncated: true } : {})
+    });
+    affectedFolderIds.push(saved.folder_id);
+    replacementCount += count;
+  }
+
+  const documentCount = affectedFolderIds.length;
+
+  // 没有修改任何文档时删除替换记录
+  if (documentCount === 0) {
+    await supabase.from('replace_operations').delete().eq('id', operation.id);
+  } else {
+    await supabase
+      .from('replace_operations')
+      .update({ document_count: documentCount, replacement_count: replacementCount })
+      .eq('id', operation.id);
+
+    // 修改的文档所在文件夹已发布为公开站点时，使站点缓存失效
+    c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, affectedFolderIds));
+  }
+
+  return c.json({
+    operation_id: documentCount > 0 ? operation.id : null,
+    summary: { documents: documentCount, replacements: replacementCount, skipped: results.length - documentCount },
+    results
+  });
+});
+
+/**
+ * ========================================
+ * 替换记录路由
+ * ========================================
+ */
+
+/**
+ * 获取替换记录列表路由
+ *
+ * 路由：GET /api/documents/replace/operations
+ *
+ * 查询参数：
+ * - limit: 返回的记录数（默认为20，最大为100）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "operations": [
+ *     {
+ *       "id": "operation_id",
+ *       "query": "SuperEditor",
+ *       "replacement": "HyperEditor",
+ *       "mode": "word",
+ *       "case_sensitive": false,
+ *       "folder_id": null,
+ *       "document_count": 12,
+ *       "replacement_count": 37,
+ *       "undone_at": null,
+ *       "created_at": "2024-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+replace.get("/replace/operations", async (c) => {
+  const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '20') || 20));
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('replace_operations')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ operations: data || [] });
+});
+
+/**
+ * 获取替换记录详情路由
+ *
+ * 路由：GET /api/documents/replace/operations/:id
+ *
+ * 响应：替换记录，附带被修改的文档（不含替换前的正文）
+ * ```json
+ * {
+ *   "id": "operation_id",
+ *   "query": "SuperEditor",
+ *   "documents": [
+ *     { "document_id": "doc_id", "title": "产品介绍", "replacements": 2, "version_after": 8 }
+ *   ]
+ * }
+ * ```
+ */
+replace.get("/replace/operations/:id", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: operation, error } = await supabase
+    .from('replace_operations')
+    .select('*, documents:replace_operation_documents(document_id, title, replacements, version_after)')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!operation) {
+    return c.json({ error: '替换记录不存在' }, 404);
+  }
+
+  return c.json(operation);
+});
+
+/**
+ * 撤销查找替换路由
+ *
+ * 路由：POST /api/documents/replace/operations/:id/undo
+ *
+ * 功能：
+ * - 将替换修改的文档恢复为替换前的正文，恢复同样会生成修订记录
+ * - 替换之后又被修改过的文档会跳过，避免覆盖之后的编辑（可通过修订历史手动恢复）
+ * - 已删除（包括在回收站中）或被其他会话签出锁定的文档会跳过
+ * - 每条替换记录只能撤销一次
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "operation_id": "operation_id",
+ *   "summary": { "restored": 1, "skipped": 1 },
+ *   "results": [
+ *     { "id": "doc_id_1", "title": "产品介绍", "status": "restored", "version": 9 },
+ *     { "id": "doc_id_2", "title": "发布说明", "status": "skipped", "reason": "文档在替换后已被修改或已删除" }
+ *   ]
+ * }
+ * ```
+ */
+replace.post("/replace/operations/:id/undo", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 标记为已撤销；仅在尚未撤销时更新成功，避免并发的重复撤销
+  const { data: operations, error: operationError } = await supabase
+    .from('replace_operations')
+    .update({ undone_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('undone_at', null)
+    .select('id');
+
+  if (operationError) {
+    return c.json({ error: operationError.message }, 500);
+  }
+
+  if (operations.length === 0) {
+    const { data: existing } = await supabase
+      .from('replace_operations')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    return existing
+      ? c.json({ error: '该替换操作已撤销' }, 409)
+      : c.json({ error: '替换记录不存在' }, 404);
+  }
+
+  const { data: records, error: recordsError } = await supabase
+    .from('replace_operation_documents')
+    .select('document_id, title, content_before, version_after')
+    .eq('operation_id', id);
+
+  if (recordsError) {
+    return c.json({ error: recordsError.message }, 500);
+  }
+
+  const { data: locks, error: lockError } = await findBlockingLocks(
+    supabase,
+    (records || []).map(record => record.document_id),
+    c.req.header(LOCK_TOKEN_HEADER)
+  );
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+
+  const results: ReplaceItemResult[] = [];
+  const affectedFolderIds: (string | null)[] = [];
+
+  for (const record of records || []) {
+    if (locks.has(record.document_id)) {
+      results.push({ id: record.document_id, title: record.title, status: 'skipped', reason: '文档已被其他会话锁定' });
+      continue;
+    }
+
+    const { data: saved, error } = await saveDocumentContent(
+      supabase,
+      c.env,
+      user,
+      { id: record.document_id, version: record.version_after },
+      record.content_before
+    );
+
+    if (error) {
+      return c.json({ error: error.message, operation_id: id, results }, 500);
+    }
+
+    if (!saved) {
+      results.push({ id: record.document_id, title: record.title, status: 'skipped', reason: '文档在替换后已被修改或已删除' });
+      continue;
+    }
+
+    results.push({ id: record.document_id, title: saved.title, status: 'restored', version: saved.version });
+    affectedFolderIds.push(saved.folder_id);
+  }
+
+  // 恢复的文档所在文件夹已发布为公开站点时，使站点缓存失效
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, affectedFolderIds));
+
+  return c.json({
+    operation_id: id,
+    summary: { restored: affectedFolderIds.length, skipped: results.length - affectedFolderIds.length },
+    results
+  });
+});
+
+/**
+ * 导出查找替换路由模块
+ * 供主应用文件挂载使用
+ */
+export default replace;
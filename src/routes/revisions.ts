@@ -0,0 +1,455 @@
+/**
+ * ========================================
+ * 文档修订历史路由模块
+ * ========================================
+ *
+ * 本文件提供文档修订历史的 HTTP 路由处理
+ * 支持列出修订、查看单个修订、比较两个修订的差异以及恢复旧修订
+ * 所有路由都需要用户认证，确保用户只能访问自己文档的修订
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { buildDocumentMetadata } from "../utils/metadataUtils";
+import { formatETag, parseBaseVersion, buildConflictPayload } from "../utils/versionUtils";
+import { afterDocumentSaved } from "../utils/documentSaveUtils";
+import { diffText, DiffMode, MAX_DIFF_BYTES } from "../utils/diffUtils";
+import { getByteSize } from "../utils/revisionUtils";
+import { LOCK_TOKEN_HEADER, checkOwnedDocumentLock, buildLockedPayload } from "../utils/lockUtils";
+
+/**
+ * 创建修订历史路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const revisions = new Hono<AppContext>();
+
+/** 修订列表返回的字段（不包含正文内容） */
+const REVISION_SUMMARY_FIELDS = 'id, document_id, user_id, revision_number, title, byte_size, author_email, restored_from, created_at';
+
+/**
+ * ========================================
+ * 修订历史路由
+ * ========================================
+ */
+
+/**
+ * 获取文档修订列表路由
+ *
+ * 路由：GET /api/documents/:id/revisions
+ *
+ * 查询参数：
+ * - page: 页码（从1开始，默认为1）
+ * - limit: 每页记录数（默认为20，最大为100）
+ *
+ * 功能：
+ * - 按修订序号降序列出文档的所有修订
+ * - 不返回修订正文，减少传输量
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "revisions": [
+ *     {
+ *       "id": "revision_id",
+ *       "document_id": "doc_id",
+ *       "revision_number": 3,
+ *       "title": "文档标题",
+ *       "byte_size": 1024,
+ *       "author_email": "user@example.com",
+ *       "restored_from": null,
+ *       "created_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ],
+ *   "pagination": { "currentPage": 1, "totalPages": 1, "totalRecords": 3, "hasNextPage": false, "hasPreviousPage": false, "limit": 20 }
+ * }
+ * ```
+ */
+revisions.get("/:id/revisions", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 设置分页默认值和限制
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '20') || 20));
+  const offset = (page - 1) * limit;
+
+  // 验证文档归属权
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .single();
+
+  if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+
+  const { data, error, count } = await supabase
+    .from('document_revisions')
+    .select(REVISION_SUMMARY_FIELDS, { count: 'exact' })
+    .eq('document_id', id)
+    .order('revision_number', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  const totalRecords = count || 0;
+  const totalPages = Math.ceil(totalRecords / limit);
+
+  return c.json({
+    revisions: data || [],
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalRecords,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+      limit
+    }
+  });
+});
+
+/**
+ * 比较两个修订差异路由
+ *
+ * 路由：GET /api/documents/:id/revisions/diff
+ *
+ * 查询参数：
+ * - from: 旧修订ID（必填）
+ * - to: 新修订ID（可选，默认为最新修订）
+ * - mode: 比较粒度，line（按行，默认）或 word（按词）
+ *
+ * 任一修订正文超过 2MB 时返回 413；差异区间过大时整段作为一次删除加一次新增返回
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "mode": "line",
+ *   "from": { "id": "revision_id", "revision_number": 1, "created_at": "..." },
+ *   "to": { "id": "revision_id", "revision_number": 3, "created_at": "..." },
+ *   "title": { "from": "旧标题", "to": "新标题", "changed": true },
+ *   "changes": [
+ *     { "type": "equal", "value": "未改变的内容\n" },
+ *     { "type": "delete", "value": "删除的内容\n" },
+ *     { "type": "insert", "value": "新增的内容\n" }
+ *   ],
+ *   "stats": { "additions": 1, "deletions": 1 }
+ * }
+ * ```
+ */
+revisions.get("/:id/revisions/diff", async (c) => {
+  const id = c.req.param("id");
+  const fromId = c.req.query('from');
+  const toId = c.req.query('to');
+  const modeParam = c.req.query('mode') || 'line';
+
+  if (!fromId) {
+    return c.json({ error: '缺少 from 参数' }, 400);
+  }
+
+  if (modeParam !== 'line' && modeParam !== 'word') {
+    return c.json({ error: 'mode 参数只能是 line 或 word' }, 400);
+  }
+  const mode: DiffMode = modeParam;
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 验证文档归属权
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .single();
+
+  if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+
+  // 获取旧修订
+  const { data: fromRevision } = await supabase
+    .from('document_revisions')
+    .select('*')
+    .eq('id', fromId)
+    .eq('document_id', id)
+    .single();
+
+  if (!fromRevision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  // 获取新修订，未指定时使用最新修订
+  let toQuery = supabase
+    .from('document_revisions')
+    .select('*')
+    .eq('document_id', id);
+
+  toQuery = toId
+    ? toQuery.eq('id', toId)
+    : toQuery.order('revision_number', { ascending: false }).limit(1);
+
+  const { data: toRevision } = await toQuery.maybeSingle();
+
+  if (!toRevision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  if (getByteSize(fromRevision.content) > MAX_DIFF_BYTES || getByteSize(toRevision.content) > MAX_DIFF_BYTES) {
+    return c.json({ error: `修订正文超过 ${MAX_DIFF_BYTES / 1024 / 1024}MB，无法比较差异` }, 413);
+  }
+
+  const { changes, stats } = diffText(fromRevision.content || '', toRevision.content || '', mode);
+
+  return c.json({
+    mode,
+    from: {
+      id: fromRevision.id,
+      revision_number: fromRevision.revision_number,
+      created_at: fromRevision.created_at
+    },
+    to: {
+      id: toRevision.id,
+      revision_number: toRevision.revision_number,
+      created_at: toRevision.created_at
+    },
+    title: {
+      from: fromRevision.title,
+      to: toRevision.title,
+      changed: fromRevision.title !== toRevision.title
+    },
+    changes,
+    stats
+  });
+});
+
+/**
+ * 获取单个修订详情路由
+ *
+ * 路由：GET /api/documents/:id/revisions/:revisionId
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "id": "revision_id",
+ *   "document_id": "doc_id",
+ *   "revision_number": 2,
+ *   "title": "文档标题",
+ *   "content": "修订时的内容",
+ *   "byte_size": 1024,
+ *   "author_email": "user@example.com",
+ *   "created_at": "2023-01-01T00:00:00Z"
+ * }
+ * ```
+ */
+revisions.get("/:id/revisions/:revisionId", async (c) => {
+  const id = c.req.param("id");
+  const revisionId = c.req.param("revisionId");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 验证文档归属权
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .single();
+
+  if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+
+  const { data, error } = await supabase
+    .from('document_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('document_id', id)
+    .single();
+
+  if (error || !data) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  return c.json(data);
+});
+
+/**
+ * 恢复旧修订路由
+ *
+ * 路由：POST /api/documents/:id/revisions/:revisionId/restore
+ *
+ * 功能：
+ * - 将文档标题和内容恢复为指定修订的版本
+ * - 恢复操作本身会生成一条新的修订，不会删除任何历史
+ * - 支持乐观并发控制：通过 If-Match 请求头或 base_version 字段指定所基于的版本，
+ *   版本已过期时拒绝恢复并返回 409（格式同更新文档），避免覆盖加载页面之后的修改
+ * - 文档被其他会话签出锁定时返回 423，持有锁的会话需要提供 X-Lock-Token 请求头
+ *
+ * 请求头：
+ * - If-Match: 所基于的文档版本 ETag（可选，例如 "3"）
+ * - X-Lock-Token: 锁令牌（文档被当前会话锁定时必填）
+ *
+ * 请求体（可选）：
+ * ```json
+ * {
+ *   "base_version": 3
+ * }
+ * ```
+ *
+ * 响应（附带新的版本号 ETag）：
+ * ```json
+ * {
+ *   "message": "Revision restored",
+ *   "document": { "id": "doc_id", "title": "...", "content": "...", "updated_at": "..." },
+ *   "revision": { "id": "new_revision_id", "revision_number": 4, "restored_from": "revision_id" }
+ * }
+ * ```
+ */
+revisions.post("/:id/revisions/:revisionId/restore", async (c) => {
+  const id = c.req.param("id");
+  const revisionId = c.req.param("revisionId");
+  const body = await c.req.json().catch(() => ({}));
+
+  // 解析客户端所基于的版本号
+  const baseVersion = parseBaseVersion(c.req.header('If-Match'), body.base_version);
+  if (baseVersion !== null && Number.isNaN(baseVersion)) {
+    return c.json({ error: 'If-Match 或 base_version 格式无效' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 获取要恢复的修订，并通过关联文档验证归属权
+  const { data: revision } = await supabase
+    .from('document_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('document_id', id)
+    .single();
+
+  if (!revision) {
+    return c.json({ error: 'Revision not found' }, 404);
+  }
+
+  // 确认文档属于当前用户后，文档被其他会话锁定时拒绝写入
+  const { found, data: lock, error: lockError } = await checkOwnedDocumentLock(supabase, user.id, id, c.req.header(LOCK_TOKEN_HEADER));
+  if (lockError) {
+    return c.json({ error: lockError.message }, 500);
+  }
+  if (!found) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+  if (lock) {
+    return c.json(buildLockedPayload(lock, user.id), 423);
+  }
+
+  // 将修订内容写回文档
+  let updateQuery = supabase
+    .from('documents')
+    .update({
+      title: revision.title,
+      content: revision.content,
+      metadata: buildDocumentMetadata(revision.content),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+
+  // 指定了基础版本时，仅在版本未变化时写入
+  if (baseVersion !== null) {
+    updateQuery = updateQuery.eq('version', baseVersion);
+  }
+
+  const { data, error } = await updateQuery.select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    if (baseVersion !== null) {
+      const { data: current } = await supabase
+        .from('documents')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (current) {
+        c.header('ETag', formatETag(current.version));
+        return c.json(await buildConflictPayload(supabase, current, baseVersion, {
+          title: revision.title,
+          content: revision.content
+        }), 409);
+      }
+    }
+
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  // 恢复后的内容作为新的修订写入，并更新链接和资源引用、使站点缓存失效、通知 Webhook
+  const { revision: newRevision, error: saveError } = await afterDocumentSaved(supabase, c.env, user, data[0], {
+    event: 'document.updated',
+    changes: ['title', 'content'],
+    restoredFrom: revision.id,
+    executionCtx: c.executionCtx
+  });
+
+  if (saveError || !newRevision) {
+    return c.json({ error: saveError?.message || 'Failed to record revision' }, 500);
+  }
+
+  c.header('ETag', formatETag(data[0].version));
+  return c.json({
+    message: 'Revision restored',
+    document: data[0],
+    revision: {
+      id: newRevision.id,
+      revision_number: newRevision.revision_number,
+      restored_from: newRevision.restored_from
+    }
+  });
+});
+
+/**
+ * 导出修订历史路由模块
+ * 供主应用文件挂载使用
+ */
+export default revisions;
@@ -0,0 +1,378 @@
+/**
+ * ========================================
+ * 文档分享公开访问路由模块
+ * ========================================
+ *
+ * 本文件提供分享链接的公开访问 HTTP 路由处理
+ * 无需登录即可通过分享令牌以只读方式查看文档
+ * 支持渲染后的 HTML 页面和 JSON 两种形式，并统计访问次数
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient, createPublicClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { verifyPassword, hmacSha256Hex, timingSafeEqual } from "../utils/cryptoUtils";
+import { renderMarkdown, buildHtmlDocument, escapeHtml } from "../utils/markdownUtils";
+import { extractAssetReferences } from "../utils/assetUtils";
+
+/**
+ * 创建分享公开访问路由实例
+ * 这些路由不经过 authMiddleware
+ */
+const sharedView = new Hono<AppContext>();
+
+/** 分享页面的内容安全策略，禁止脚本执行 */
+const SHARE_PAGE_CSP = "default-src 'none'; img-src 'self' https: data:; style-src 'unsafe-inline'; form-action 'self'; base-uri 'none'";
+
+/** 受密码保护的分享中资源访问凭证的有效期（秒） */
+const ASSET_ACCESS_TTL_SECONDS = 60 * 60;
+
+/** 正文中的站内资源地址，捕获资源类型和对象键（与 assetUtils 的解析规则一致） */
+const ASSET_URL_PATTERN = /\/api\/(images|files)\/((?:download\/)?)([^\s)"'<>?#]+)/g;
+
+/**
+ * 分享内容加载结果
+ */
+type SharedDocumentResult =
+  | { status: 'ok'; share: any; document: { title: string; content: string; updated_at: string; pinned: boolean } }
+  | { status: 'not_found' | 'expired' | 'password_required' | 'invalid_password' };
+
+/**
+ * ========================================
+ * 分享访问辅助函数
+ * ========================================
+ */
+
+/**
+ * 根据分享令牌加载文档内容
+ *
+ * 校验顺序：令牌存在且未撤销 -> 未过期 -> 密码正确 -> 文档未被删除
+ * 固定了修订的分享返回该修订的内容，修订已不存在时视为分享失效，不回退到最新内容；
+ * 未固定修订的分享返回文档最新内容
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param token - 分享令牌
+ * @param password - 访问者提供的密码（可选）
+ * @returns 加载结果
+ */
+const loadSharedDocument = async (
+  supabase: ReturnType<typeof createSupabaseClient>,
+  token: string,
+  password: string | undefined
+): Promise<SharedDocumentResult> => {
+  const { data: share } = await supabase
+    .from('document_shares')
+    .select('*')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!share) {
+    return { status: 'not_found' };
+  }
+
+  if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  if (share.password_hash) {
+    if (!password) {
+      return { status: 'password_required' };
+    }
+    if (!(await verifyPassword(password, share.password_hash, share.password_salt))) {
+      return { status: 'invalid_password' };
+    }
+  }
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('title, content, updated_at')
+    .eq('id', share.document_id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!document) {
+    return { status: 'not_found' };
+  }
+
+  if (share.pinned_revision_id) {
+    const { data: revision } = await supabase
+      .from('document_revisions')
+      .select('title, content, created_at')
+      .eq('id', share.pinned_revision_id)
+      .maybeSingle();
+
+    if (!revision) {
+      return { status: 'not_found' };
+    }
+
+    return {
+      status: 'ok',
+      share,
+      document: { title: revision.title, content: revision.content || '', updated_at: revision.created_at, pinned: true }
+    };
+  }
+
+  return {
+    status: 'ok',
+    share,
+    document: { title: document.title, content: document.content || '', updated_at: document.updated_at, pinned: false }
+  };
+};
+
+/**
+ * 生成受密码保护的分享的资源访问凭证
+ * 访问者通过密码校验后随页面下发，资源请求无法携带密码，凭此证明已通过校验
+ * 以分享的密码哈希作为签名密钥，修改或取消密码后已下发的凭证随之失效
+ *
+ * @returns 形如 "<过期时间戳>.<签名>" 的凭证
+ */
+const createAssetAccess = async (share: { id: string; password_hash: string }): Promise<string> => {
+  const expires = Math.floor(Date.now() / 1000) + ASSET_ACCESS_TTL_SECONDS;
+  const signature = await hmacSha256Hex(share.password_hash, `${share.id}.${expires}`);
+  return `${expires}.${signature}`;
+};
+
+/**
+ * 校验资源访问凭证：签名正确且未过期
+ */
+const verifyAssetAccess = async (share: { id: string; password_hash: string }, access: string | undefined): Promise<boolean> => {
+  const [expires, signature] = (access || '').split('.');
+  if (!/^\d+$/.test(expires || '') || !signature || Number(expires) * 1000 <= Date.now()) {
+    return false;
+  }
+  return timingSafeEqual(signature, await hmacSha256Hex(share.password_hash, `${share.id}.${expires}`));
+};
+
+/**
+ * 将文档中引用的站内图片和文件地址改写为分享令牌下的公开地址
+ * 站内资源需要登录才能访问，改写后匿名访问者也能看到图片；
+ * 受密码保护的分享在地址后附加资源访问凭证
+ *
+ * @param markdown - 文档内容
+ * @param token - 分享令牌
+ * @param access - 资源访问凭证（分享设置了密码时提供）
+ * @returns 改写后的内容
+ */
+const rewriteAssetUrls = (markdown: string, token: string, access: string | null): string => {
+  return markdown.replace(ASSET_URL_PATTERN, (_url, kind: string, download: string, rawKey: string) => {
+    // 句末标点不属于地址
+    const key = rawKey.replace(/[.,;:!]+$/, '');
+    const query = access ? `?access=${encodeURIComponent(access)}` : '';
+    return `/s/${token}/${kind}/${download}${key}${query}${rawKey.slice(key.length)}`;
+  });
+};
+
+/**
+ * 生成改写资源地址后的正文：分享设置了密码时附加新的资源访问凭证
+ */
+const prepareSharedContent = async (share: any, content: string, token: string): Promise<string> => {
+  const access = share.password_hash ? await createAssetAccess(share) : null;
+  return rewriteAssetUrls(content, token, access);
+};
+
+/**
+ * 将加载失败的结果转换为 HTTP 状态码和提示信息
+ */
+const describeFailure = (status: Exclude<SharedDocumentResult['status'], 'ok'>): { code: 401 | 403 | 404 | 410; message: string } => {
+  switch (status) {
+    case 'expired':
+      return { code: 410, message: '分享链接已过期' };
+    case 'password_required':
+      return { code: 401, message: '该分享需要访问密码' };
+    case 'invalid_password':
+      return { code: 403, message: '访问密码错误' };
+    default:
+      return { code: 404, message: '分享链接不存在或已失效' };
+  }
+};
+
+/**
+ * 生成密码输入页面
+ *
+ * @param message - 提示信息
+ * @returns HTML 页面
+ */
+const buildPasswordPage = (message: string): string => {
+  return buildHtmlDocument({
+    title: '受保护的分享',
+    bodyHtml: `<p>${escapeHtml(message)}</p>
+<form method="post">
+  <input type="password" name="password" placeholder="请输入访问密码" required autofocus
+    style="padding:8px 12px;border:1px solid #cbd5e1;border-radius:6px;width:240px;">
+  <button type="submit" style="padding:8px 16px;border:none;border-radius:6px;background:#2563eb;color:#fff;">查看</button>
+</form>`
+  });
+};
+
+/**
+ * 渲染分享页面响应
+ * 成功时渲染文档并递增访问次数，失败时返回相应的提示页面
+ */
+const respondWithSharePage = async (c: any, token: string, password: string | undefined) => {
+  const supabase = createPublicClient(c.env);
+  const result = await loadSharedDocument(supabase, token, password);
+
+  c.header('Content-Security-Policy', SHARE_PAGE_CSP);
+  c.header('X-Robots-Tag', 'noindex, nofollow');
+  c.header('Referrer-Policy', 'no-referrer');
+  c.header('Cache-Control', 'no-store');
+
+  if (result.status !== 'ok') {
+    const { code, message } = describeFailure(result.status);
+    if (result.status === 'password_required' || result.status === 'invalid_password') {
+      return c.html(buildPasswordPage(message), code);
+    }
+    return c.html(buildHtmlDocument({ title: message, bodyHtml: '' }), code);
+  }
+
+  await supabase.rpc('increment_share_view', { p_share_id: result.share.id });
+
+  const updatedAt = new Date(result.document.updated_at).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' });
+  return c.html(buildHtmlDocument({
+    title: result.document.title,
+    bodyHtml: renderMarkdown(await prepareSharedContent(result.share, result.document.content, token)),
+    meta: `${result.document.pinned ? '版本保存于' : '最后更新于'} ${updatedAt}`
+  }));
+};
+
+/**
+ * ========================================
+ * 分享公开访问路由
+ * ========================================
+ */
+
+/**
+ * 查看分享页面路由
+ *
+ * 路由：GET /s/:token
+ *
+ * 功能：
+ * - 将分享的 Markdown 文档渲染为简洁的 HTML 页面
+ * - 需要密码的分享会先显示密码输入表单
+ * - 每次成功查看时访问次数加一
+ */
+sharedView.get("/:token", async (c) => {
+  return respondWithSharePage(c, c.req.param("token"), undefined);
+});
+
+/**
+ * 提交访问密码路由
+ *
+ * 路由：POST /s/:token
+ *
+ * 请求：
+ * - Content-Type: application/x-www-form-urlencoded
+ * - 表单字段: password
+ */
+sharedView.post("/:token", async (c) => {
+  const body = await c.req.parseBody();
+  const password = typeof body.password === 'string' ? body.password : undefined;
+  return respondWithSharePage(c, c.req.param("token"), password);
+});
+
+/**
+ * 获取分享内容 JSON 路由
+ *
+ * 路由：GET /s/:token/json
+ *
+ * 请求头：
+ * - X-Share-Password: 访问密码（分享设置了密码时必填）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "title": "文档标题",
+ *   "content": "Markdown 内容",
+ *   "html": "<p>渲染后的 HTML</p>",
+ *   "updated_at": "2023-01-01T00:00:00Z",
+ *   "pinned": false,
+ *   "view_count": 13
+ * }
+ * ```
+ */
+sharedView.get("/:token/json", async (c) => {
+  const token = c.req.param("token");
+  const supabase = createPublicClient(c.env);
+  const result = await loadSharedDocument(supabase, token, c.req.header('X-Share-Password'));
+
+  c.header('Cache-Control', 'no-store');
+
+  if (result.status !== 'ok') {
+    const { code, message } = describeFailure(result.status);
+    return c.json({ error: message, code: result.status.toUpperCase() }, code);
+  }
+
+  const { data: viewCount } = await supabase.rpc('increment_share_view', { p_share_id: result.share.id });
+
+  return c.json({
+    title: result.document.title,
+    content: result.document.content,
+    html: renderMarkdown(await prepareSharedContent(result.share, result.document.content, token)),
+    updated_at: result.document.updated_at,
+    pinned: result.document.pinned,
+    view_count: viewCount ?? result.share.view_count + 1
+  });
+});
+
+/**
+ * 获取分享文档中引用的图片或文件路由
+ *
+ * 路由：GET /s/:token/images/:fileName、GET /s/:token/files/:fileName 和 GET /s/:token/files/download/:fileName
+ *
+ * 查询参数：
+ * - access: 资源访问凭证（分享设置了密码时必填，随分享页面和 JSON 中的地址下发，1 小时内有效）
+ *
+ * 功能：
+ * - 仅允许访问分享文档内容中实际引用的站内资源（按对象键精确匹配）
+ * - 匿名访问者通过分享令牌即可加载文档中的图片
+ */
+sharedView.get("/:token/:kind{images|files}/:fileName{.+}", async (c) => {
+  const token = c.req.param("token");
+  const kind = c.req.param("kind");
+  const path = c.req.param("fileName");
+  const fileName = kind === 'files' && path.startsWith('download/') ? path.slice('download/'.length) : path;
+  const supabase = createPublicClient(c.env);
+
+  const { data: share } = await supabase
+    .from('document_shares')
+    .select('id, document_id, pinned_revision_id, expires_at, password_hash')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (!share || (share.expires_at && new Date(share.expires_at).getTime() <= Date.now())) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  // 资源请求无法携带密码，受密码保护的分享需要通过密码校验后下发的访问凭证
+  if (share.password_hash && !(await verifyAssetAccess(share, c.req.query('access')))) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const { data: source } = share.pinned_revision_id
+    ? await supabase.from('document_revisions').select('content').eq('id', share.pinned_revision_id).maybeSingle()
+    : await supabase.from('documents').select('content').eq('id', share.document_id).is('deleted_at', null).maybeSingle();
+
+  if (!source || !extractAssetReferences(source.content).has(fileName)) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const object = await c.env.R2_BUCKET.get(fileName);
+  if (!object) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set('etag', object.httpEtag);
+  headers.set('cache-control', 'private, max-age=3600');
+
+  return new Response(object.body, { headers, status: 200 });
+});
+
+/**
+ * 导出分享公开访问路由模块
+ * 供主应用文件挂载使用
+ */
+export default sharedView;
@@ -0,0 +1,297 @@
+/**
+ * ========================================
+ * 文档分享链接管理路由模块
+ * ========================================
+ *
+ * 本文件提供文档只读分享链接的创建、查看和撤销功能
+ * 所有路由都需要用户认证，确保用户只能管理自己文档的分享链接
+ * 分享链接的公开访问由 sharedView 路由模块处理
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { generateToken, hashPassword } from "../utils/cryptoUtils";
+
+/**
+ * 创建分享链接管理路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const shares = new Hono<AppContext>();
+
+/** 返回给客户端的分享字段（不包含密码哈希） */
+const SHARE_FIELDS = 'id, document_id, token, expires_at, revoked_at, pinned_revision_id, view_count, last_viewed_at, created_at, password_hash';
+
+/**
+ * 将数据库中的分享记录转换为响应格式
+ * 隐藏密码哈希，只返回是否设置了密码，并附带完整的分享地址
+ *
+ * @param share - 数据库中的分享记录
+ * @param origin - 当前请求的源地址
+ * @returns 响应中的分享对象
+ */
+const toShareResponse = (share: any, origin: string) => {
+  const { password_hash, ...rest } = share;
+  const now = Date.now();
+
+  return {
+    ...rest,
+    has_password: !!password_hash,
+    active: !share.revoked_at && (!share.expires_at || new Date(share.expires_at).getTime() > now),
+    url: `${origin}/s/${share.token}`,
+    json_url: `${origin}/s/${share.token}/json`
+  };
+};
+
+/**
+ * ========================================
+ * 分享链接管理路由
+ * ========================================
+ */
+
+/**
+ * 获取文档分享链接列表路由
+ *
+ * 路由：GET /api/documents/:id/shares
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "shares": [
+ *     {
+ *       "id": "share_id",
+ *       "document_id": "doc_id",
+ *       "token": "random_token",
+ *       "url": "https://example.com/s/random_token",
+ *       "json_url": "https://example.com/s/random_token/json",
+ *       "has_password": true,
+ *       "expires_at": "2023-01-08T00:00:00Z",
+ *       "revoked_at": null,
+ *       "pinned_revision_id": null,
+ *       "view_count": 12,
+ *       "active": true,
+ *       "created_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+shares.get("/:id/shares", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('document_shares')
+    .select(SHARE_FIELDS)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  const origin = new URL(c.req.url).origin;
+  return c.json({
+    shares: (data || []).map(share => toShareResponse(share, origin))
+  });
+});
+
+/**
+ * 创建分享链接路由
+ *
+ * 路由：POST /api/documents/:id/shares
+ *
+ * 功能：
+ * - 为文档生成一个随机令牌的只读分享链接
+ * - 可选设置过期时间和访问密码
+ * - 默认始终展示文档最新内容；可固定到指定修订或当前版本
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "expires_at": "2023-01-08T00:00:00Z（可选）",
+ *   "expires_in_hours": 168,
+ *   "password": "访问密码（可选）",
+ *   "pinned_revision_id": "修订ID（可选）",
+ *   "pin_current": false
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "id": "share_id",
+ *   "token": "random_token",
+ *   "url": "https://example.com/s/random_token",
+ *   "has_password": true,
+ *   "expires_at": "2023-01-08T00:00:00Z",
+ *   "pinned_revision_id": null,
+ *   "active": true
+ * }
+ * ```
+ */
+shares.post("/:id/shares", async (c) => {
+  const id = c.req.param("id");
+  const { expires_at, expires_in_hours, password, pinned_revision_id, pin_current } = await c.req.json();
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 验证文档归属权
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+  }
+
+  // 计算过期时间
+  let expiresAt: string | null = null;
+  if (expires_at !== undefined && expires_at !== null) {
+    const date = new Date(expires_at);
+    if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      return c.json({ error: '过期时间无效或早于当前时间' }, 400);
+    }
+    expiresAt = date.toISOString();
+  } else if (expires_in_hours !== undefined && expires_in_hours !== null) {
+    const hours = Number(expires_in_hours);
+    if (!(hours > 0)) {
+      return c.json({ error: 'expires_in_hours 必须为正数' }, 400);
+    }
+    expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+  }
+
+  // 验证访问密码
+  if (password !== undefined && password !== null && (typeof password !== 'string' || password.length < 4)) {
+    return c.json({ error: '访问密码至少需要 4 个字符' }, 400);
+  }
+
+  // 确定固定的修订
+  let pinnedRevisionId: string | null = null;
+  if (pinned_revision_id) {
+    const { data: revision } = await supabase
+      .from('document_revisions')
+      .select('id')
+      .eq('id', pinned_revision_id)
+      .eq('document_id', id)
+      .maybeSingle();
+
+    if (!revision) {
+      return c.json({ error: 'Revision not found' }, 400);
+    }
+    pinnedRevisionId = revision.id;
+  } else if (pin_current) {
+    const { data: latest } = await supabase
+      .from('document_revisions')
+      .select('id')
+      .eq('document_id', id)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!latest) {
+      return c.json({ error: '文档还没有可固定的修订' }, 400);
+    }
+    pinnedRevisionId = latest.id;
+  }
+
+  // 计算密码哈希
+  const passwordData = password ? await hashPassword(password) : null;
+
+  const { data, error } = await supabase
+    .from('document_shares')
+    .insert([
+      {
+        document_id: id,
+        user_id: user.id,
+        token: generateToken(),
+        password_hash: passwordData?.hash || null,
+        password_salt: passwordData?.salt || null,
+        expires_at: expiresAt,
+        pinned_revision_id: pinnedRevisionId
+      }
+    ])
+    .select(SHARE_FIELDS)
+    .single();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json(toShareResponse(data, new URL(c.req.url).origin));
+});
+
+/**
+ * 撤销分享链接路由
+ *
+ * 路由：DELETE /api/documents/:id/shares/:shareId
+ *
+ * 功能：
+ * - 撤销分享链接，撤销后该链接立即失效
+ * - 保留记录用于查看历史访问次数
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Share share_id revoked"
+ * }
+ * ```
+ */
+shares.delete("/:id/shares/:shareId", async (c) => {
+  const id = c.req.param("id");
+  const shareId = c.req.param("shareId");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('document_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId)
+    .eq('document_id', id)
+    .eq('user_id', user.id)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '分享链接不存在或已撤销' }, 404);
+  }
+
+  return c.json({ message: `Share ${shareId} revoked` });
+});
+
+/**
+ * 导出分享链接管理路由模块
+ * 供主应用文件挂载使用
+ */
+export default shares;
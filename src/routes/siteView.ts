@@ -0,0 +1,338 @@
+/**
+ * ========================================
+ * 公开站点访问路由模块
+ * ========================================
+ *
+ * 本文件提供由文件夹发布的公开博客的 HTTP 路由处理
+ * 无需登录即可访问站点首页、文章页、标签页、站点地图和 RSS 订阅
+ * 页面渲染后缓存在 R2 中，站点中的文档变化时缓存失效（见 siteUtils）
+ */
+
+import { Hono } from "hono";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createPublicClient, PublishedSite } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { buildHtmlDocument } from "../utils/markdownUtils";
+import { getFolderSubtreeIds } from "../utils/folderUtils";
+import { DOCUMENT_TAGS_SELECT, flattenDocumentTags } from "../utils/tagUtils";
+import { escapeLikePattern } from "../utils/listUtils";
+import {
+  MAX_SITE_DOCUMENTS,
+  SITE_FEED_SIZE,
+  SiteDocument,
+  buildSiteFeed,
+  buildSiteSitemap,
+  getSiteCacheKey,
+  renderSiteIndex,
+  renderSitePost
+} from "../utils/siteUtils";
+
+/**
+ * 创建公开站点访问路由实例
+ * 这些路由不经过 authMiddleware
+ */
+const siteView = new Hono<AppContext>();
+
+/** 站点页面的内容安全策略，禁止脚本执行 */
+const SITE_PAGE_CSP = "default-src 'none'; img-src 'self' https: data:; style-src 'unsafe-inline'; base-uri 'none'";
+
+/** HTML 页面的内容类型 */
+const HTML_CONTENT_TYPE = 'text/html; charset=utf-8';
+
+/** XML 的内容类型 */
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+/** RSS 订阅的内容类型 */
+const RSS_CONTENT_TYPE = 'application/rss+xml; charset=utf-8';
+
+/**
+ * ========================================
+ * 站点访问辅助函数
+ * ========================================
+ */
+
+/**
+ * 根据站点标识加载站点
+ */
+const loadSite = async (supabase: SupabaseClient, slug: string): Promise<PublishedSite | null> => {
+  const { data } = await supabase
+    .from('published_sites')
+    .select('*')
+    .eq('slug', slug.toLowerCase())
+    .maybeSingle();
+
+  return data;
+};
+
+/**
+ * 将查询结果转换为站点文章，标签只保留名称
+ */
+const toSiteDocument = (row: any): SiteDocument => {
+  const { tags, ...document } = flattenDocumentTags(row);
+  return { ...(document as Omit<SiteDocument, 'tags'>), tags: tags.map((tag: any) => tag.name) };
+};
+
+/**
+ * 加载站点中的文章，按发布时间倒序排列
+ * 站点根文件夹已被删除时返回 null
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param site - 站点
+ * @param options.withContent - 是否包含正文
+ * @param options.limit - 最多返回的文章数量
+ * @returns 文章列表
+ */
+const loadSiteDocuments = async (
+  supabase: SupabaseClient,
+  site: PublishedSite,
+  options: { withContent: boolean; limit: number }
+): Promise<SiteDocument[] | null> => {
+  const folderIds = await getFolderSubtreeIds(supabase, site.user_id, site.folder_id);
+  if (!folderIds) return null;
+
+  const columns = options.withContent
+    ? 'id, title, content, excerpt, created_at, updated_at'
+    : 'id, title, excerpt, created_at, updated_at';
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select(`${columns}, ${DOCUMENT_TAGS_SELECT}`)
+    .eq('user_id', site.user_id)
+    .in('folder_id', folderIds)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .limit(options.limit);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []).map(toSiteDocument);
+};
+
+/**
+ * 生成页面不存在时的响应
+ */
+const notFoundResponse = (): Response => {
+  return new Response(buildHtmlDocument({ title: '页面不存在', bodyHtml: '' }), {
+    status: 404,
+    headers: { 'Content-Type': HTML_CONTENT_TYPE, 'Cache-Control': 'no-store' }
+  });
+};
+
+/**
+ * 读取 R2 中缓存的页面，未命中时渲染并写入缓存
+ *
+ * @param bucket - R2 存储桶实例
+ * @param site - 站点
+ * @param path - 页面路径，作为缓存键的一部分
+ * @param contentType - 响应的内容类型
+ * @param render - 渲染页面，页面不存在时返回 null（不写入缓存）
+ * @returns 页面响应，X-Cache 响应头标明是否命中缓存
+ */
+const serveCachedPage = async (
+  bucket: R2Bucket,
+  site: PublishedSite,
+  path: string,
+  contentType: string,
+  render: () => Promise<string | null>
+): Promise<Response> => {
+  const key = getSiteCacheKey(site, path);
+  const headers = new Headers({
+    'Content-Type': contentType,
+    'Cache-Control': 'public, max-age=60',
+    'Content-Security-Policy': SITE_PAGE_CSP
+  });
+
+  const cached = await bucket.get(key);
+  if (cached) {
+    headers.set('X-Cache', 'HIT');
+    return new Response(cached.body, { headers });
+  }
+
+  const body = await render();
+  if (body === null) {
+    return notFoundResponse();
+  }
+
+  await bucket.put(key, body, { httpMetadata: { contentType } });
+
+  headers.set('X-Cache', 'MISS');
+  return new Response(body, { headers });
+};
+
+/**
+ * ========================================
+ * 公开站点访问路由
+ * ========================================
+ */
+
+/**
+ * 站点首页路由
+ *
+ * 路由：GET /blog/:slug
+ *
+ * 功能：按发布时间倒序列出站点中的文章，显示摘要和标签
+ */
+siteView.get("/:slug", async (c) => {
+  const supabase = createPublicClient(c.env);
+  const site = await loadSite(supabase, c.req.param("slug"));
+  if (!site) {
+    return notFoundResponse();
+  }
+
+  return serveCachedPage(c.env.R2_BUCKET, site, 'index.html', HTML_CONTENT_TYPE, async () => {
+    const documents = await loadSiteDocuments(supabase, site, { withContent: false, limit: MAX_SITE_DOCUMENTS });
+    return documents ? renderSiteIndex(site, documents) : null;
+  });
+});
+
+/**
+ * 文章页面路由
+ *
+ * 路由：GET /blog/:slug/posts/:id
+ *
+ * 功能：渲染站点文件夹子树中的一篇文档，不在站点中的文档返回 404
+ */
+siteView.get("/:slug/posts/:id", async (c) => {
+  const documentId = c.req.param("id");
+  const supabase = createPublicClient(c.env);
+  const site = await loadSite(supabase, c.req.param("slug"));
+  if (!site) {
+    return notFoundResponse();
+  }
+
+  return serveCachedPage(c.env.R2_BUCKET, site, `posts/${encodeURIComponent(documentId)}.html`, HTML_CONTENT_TYPE, async () => {
+    const folderIds = await getFolderSubtreeIds(supabase, site.user_id, site.folder_id);
+    if (!folderIds) return null;
+
+    const { data } = await supabase
+      .from('documents')
+      .select(`id, title, content, excerpt, created_at, updated_at, ${DOCUMENT_TAGS_SELECT}`)
+      .eq('id', documentId)
+      .eq('user_id', site.user_id)
+      .in('folder_id', folderIds)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    return data ? renderSitePost(site, toSiteDocument(data)) : null;
+  });
+});
+
+/**
+ * 标签页路由
+ *
+ * 路由：GET /blog/:slug/tags/:tag
+ *
+ * 功能：列出站点中带有该标签（按名称匹配）的文章
+ */
+siteView.get("/:slug/tags/:tag", async (c) => {
+  const tag = c.req.param("tag");
+  const supabase = createPublicClient(c.env);
+  const site = await loadSite(supabase, c.req.param("slug"));
+  if (!site) {
+    return notFoundResponse();
+  }
+
+  return serveCachedPage(c.env.R2_BUCKET, site, `tags/${encodeURIComponent(tag)}.html`, HTML_CONTENT_TYPE, async () => {
+    const documents = await loadSiteDocuments(supabase, site, { withContent: false, limit: MAX_SITE_DOCUMENTS });
+    const tagged = (documents || []).filter(document => document.tags.includes(tag));
+    return tagged.length > 0 ? renderSiteIndex(site, tagged, tag) : null;
+  });
+});
+
+/**
+ * 站点地图路由
+ *
+ * 路由：GET /blog/:slug/sitemap.xml
+ *
+ * 功能：列出站点首页、全部文章页和标签页的绝对地址
+ * 绝对地址使用首次生成缓存时的请求域名
+ */
+siteView.get("/:slug/sitemap.xml", async (c) => {
+  const supabase = createPublicClient(c.env);
+  const site = await loadSite(supabase, c.req.param("slug"));
+  if (!site) {
+    return notFoundResponse();
+  }
+
+  const origin = new URL(c.req.url).origin;
+  return serveCachedPage(c.env.R2_BUCKET, site, 'sitemap.xml', XML_CONTENT_TYPE, async () => {
+    const documents = await loadSiteDocuments(supabase, site, { withContent: false, limit: MAX_SITE_DOCUMENTS });
+    return documents ? buildSiteSitemap(site, documents, origin) : null;
+  });
+});
+
+/**
+ * RSS 订阅路由
+ *
+ * 路由：GET /blog/:slug/feed.xml
+ *
+ * 功能：输出最新发布的文章的 RSS 2.0 订阅，条目包含完整的文章 HTML
+ */
+siteView.get("/:slug/feed.xml", async (c) => {
+  const supabase = createPublicClient(c.env);
+  const site = await loadSite(supabase, c.req.param("slug"));
+  if (!site) {
+    return notFoundResponse();
+  }
+
+  const origin = new URL(c.req.url).origin;
+  return serveCachedPage(c.env.R2_BUCKET, site, 'feed.xml', RSS_CONTENT_TYPE, async () => {
+    const documents = await loadSiteDocuments(supabase, site, { withContent: true, limit: SITE_FEED_SIZE });
+    return documents ? buildSiteFeed(site, documents, origin) : null;
+  });
+});
+
+/**
+ * 获取站点文章中引用的图片或文件路由
+ *
+ * 路由：GET /blog/:slug/images/:fileName 和 GET /blog/:slug/files/:fileName
+ *
+ * 功能：仅允许访问站点文章内容中实际引用的站内资源
+ */
+siteView.get("/:slug/:kind{images|files}/:fileName", async (c) => {
+  const kind = c.req.param("kind");
+  const fileName = c.req.param("fileName");
+  const supabase = createPublicClient(c.env);
+  const site = await loadSite(supabase, c.req.param("slug"));
+  if (!site) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const folderIds = await getFolderSubtreeIds(supabase, site.user_id, site.folder_id);
+  if (!folderIds) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const { data: referencing } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('user_id', site.user_id)
+    .in('folder_id', folderIds)
+    .is('deleted_at', null)
+    .like('content', `%/api/${kind}/${escapeLikePattern(fileName)}%`)
+    .limit(1);
+
+  if (!referencing || referencing.length === 0) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const object = await c.env.R2_BUCKET.get(fileName);
+  if (!object) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set('etag', object.httpEtag);
+  headers.set('cache-control', 'public, max-age=3600');
+
+  return new Response(object.body, { headers, status: 200 });
+});
+
+/**
+ * 导出公开站点访问路由模块
+ * 供主应用文件挂载使用
+ */
+export default siteView;
@@ -0,0 +1,315 @@
+/**
+ * ========================================
+ * 公开站点管理路由模块
+ * ========================================
+ *
+ * 本文件提供公开站点（博客）的登记管理功能
+ * 站点将一个文件夹子树发布到 /blog/:slug，页面由 siteView 路由渲染并缓存在 R2 中
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { SITE_THEMES, getSitePath, isSiteTheme, normalizeSiteSlug, purgeSiteCache } from "../utils/siteUtils";
+
+/**
+ * 创建公开站点管理路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const sites = new Hono<AppContext>();
+
+/** 返回给客户端的站点字段 */
+const SITE_COLUMNS = 'id, folder_id, slug, title, description, theme, created_at, updated_at';
+
+/**
+ * 为站点附加公开访问路径
+ */
+const withSiteUrl = <T extends { slug: string }>(site: T) => ({ ...site, url: getSitePath(site.slug) });
+
+/**
+ * ========================================
+ * 站点管理路由
+ * ========================================
+ */
+
+/**
+ * 获取公开站点列表路由
+ *
+ * 路由：GET /api/sites
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "sites": [
+ *     {
+ *       "id": "site_id",
+ *       "folder_id": "folder_id",
+ *       "slug": "my-notes",
+ *       "title": "我的笔记",
+ *       "description": "站点简介",
+ *       "theme": "default",
+ *       "url": "/blog/my-notes",
+ *       "created_at": "2023-01-01T00:00:00Z",
+ *       "updated_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ],
+ *   "themes": ["default", "serif", "dark"]
+ * }
+ * ```
+ */
+sites.get("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('published_sites')
+    .select(SITE_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ sites: (data || []).map(withSiteUrl), themes: Object.keys(SITE_THEMES) });
+});
+
+/**
+ * 发布文件夹为公开站点路由
+ *
+ * 路由：POST /api/sites
+ *
+ * 功能：
+ * - 将文件夹及其所有子文件夹中的文档发布为公开博客，无需登录即可访问
+ * - 站点标识全局唯一，只能包含小写字母、数字和连字符
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "folder_id": "folder_id",
+ *   "slug": "my-notes",
+ *   "title": "我的笔记（可选，默认为文件夹名称）",
+ *   "description": "站点简介（可选）",
+ *   "theme": "default"
+ * }
+ * ```
+ *
+ * 响应：新创建的站点，附带公开访问路径 url
+ */
+sites.post("/", async (c) => {
+  const body = await c.req.json();
+
+  const slug = normalizeSiteSlug(body.slug);
+  if (!slug) {
+    return c.json({ error: '站点标识只能包含小写字母、数字和连字符，长度不超过 64 个字符' }, 400);
+  }
+
+  const theme = body.theme === undefined ? 'default' : body.theme;
+  if (!isSiteTheme(theme)) {
+    return c.json({ error: `站点主题无效，可选值：${Object.keys(SITE_THEMES).join('、')}` }, 400);
+  }
+
+  if (body.title !== undefined && (typeof body.title !== 'string' || body.title.trim() === '')) {
+    return c.json({ error: '站点标题不能为空' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 验证文件夹是否存在且属于当前用户
+  const { data: folder } = typeof body.folder_id === 'string'
+    ? await supabase
+      .from('folders')
+      .select('id, name')
+      .eq('id', body.folder_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle()
+    : { data: null };
+
+  if (!folder) {
+    return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('published_sites')
+    .insert([
+      {
+        user_id: user.id,
+        folder_id: folder.id,
+        slug,
+        title: body.title ? body.title.trim() : folder.name,
+        description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+        theme
+      }
+    ])
+    .select(SITE_COLUMNS);
+
+  if (error) {
+    if (error.code === '23505') {
+      return c.json({ error: '站点标识已被使用' }, 400);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json(withSiteUrl(data[0]));
+});
+
+/**
+ * 更新公开站点路由
+ *
+ * 路由：PUT /api/sites/:id
+ *
+ * 功能：
+ * - 更新站点标识、标题、简介、主题或发布的文件夹，只修改请求体中出现的字段
+ * - 更新后站点的页面缓存全部失效
+ *
+ * 请求体：同发布站点，所有字段均可选；description 为 null 时清除简介
+ *
+ * 响应：更新后的站点
+ */
+sites.put("/:id", async (c) => {
+  const siteId = c.req.param("id");
+  const body = await c.req.json();
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const updateData: any = {
+    updated_at: new Date().toISOString(),
+    cache_token: crypto.randomUUID()
+  };
+
+  if (body.slug !== undefined) {
+    const slug = normalizeSiteSlug(body.slug);
+    if (!slug) {
+      return c.json({ error: '站点标识只能包含小写字母、数字和连字符，长度不超过 64 个字符' }, 400);
+    }
+    updateData.slug = slug;
+  }
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || body.title.trim() === '') {
+      return c.json({ error: '站点标题不能为空' }, 400);
+    }
+    updateData.title = body.title.trim();
+  }
+
+  if (body.description !== undefined) {
+    updateData.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (body.theme !== undefined) {
+    if (!isSiteTheme(body.theme)) {
+      return c.json({ error: `站点主题无效，可选值：${Object.keys(SITE_THEMES).join('、')}` }, 400);
+    }
+    updateData.theme = body.theme;
+  }
+
+  if (body.folder_id !== undefined) {
+    const { data: folder } = typeof body.folder_id === 'string'
+      ? await supabase
+        .from('folders')
+        .select('id')
+        .eq('id', body.folder_id)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle()
+      : { data: null };
+
+    if (!folder) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+    updateData.folder_id = folder.id;
+  }
+
+  const { data, error } = await supabase
+    .from('published_sites')
+    .update(updateData)
+    .eq('id', siteId)
+    .eq('user_id', user.id)
+    .select(SITE_COLUMNS);
+
+  if (error) {
+    if (error.code === '23505') {
+      return c.json({ error: '站点标识已被使用' }, 400);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '站点不存在或无权限访问' }, 404);
+  }
+
+  // 清理旧令牌下的页面缓存
+  await purgeSiteCache(c.env.R2_BUCKET, siteId, updateData.cache_token);
+
+  return c.json(withSiteUrl(data[0]));
+});
+
+/**
+ * 取消发布站点路由
+ *
+ * 路由：DELETE /api/sites/:id
+ *
+ * 功能：删除站点并清理其页面缓存，文件夹和文档本身不受影响
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Site site_id deleted"
+ * }
+ * ```
+ */
+sites.delete("/:id", async (c) => {
+  const siteId = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('published_sites')
+    .delete()
+    .eq('id', siteId)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '站点不存在或无权限访问' }, 404);
+  }
+
+  await purgeSiteCache(c.env.R2_BUCKET, siteId);
+
+  return c.json({ message: `Site ${siteId} deleted` });
+});
+
+export default sites;
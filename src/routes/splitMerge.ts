@@ -0,0 +1,565 @@
+/**
+ * ========================================
+ * 文档拆分与合并路由模块
+ * ========================================
+ *
+ * 本文件提供按标题把一篇长文档拆分为多篇文档，以及把多篇文档按顺序合并为一篇的功能
+ * 新文档的创建与手动创建一致：写入初始修订、记录链接和资源引用，并通知 Webhook；
+ * 修改或删除原文档前会检查版本号和文档锁
+ */
+
+import { Hono } from "hono";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { rewriteInboundLinks } from "../utils/linkUtils";
+import { buildDocumentMetadata } from "../utils/metadataUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+import { afterDocumentSaved, afterDocumentsDeleted } from "../utils/documentSaveUtils";
+import { LOCK_TOKEN_HEADER, checkDocumentLock, findBlockingLocks, buildLockedPayload, formatLock } from "../utils/lockUtils";
+import { splitContentByHeadings, buildSplitIndex, mergeContents } from "../utils/splitMergeUtils";
+
+/**
+ * 创建拆分与合并路由实例
+ * 挂载在 /api/documents 下，所有路由都需要通过 authMiddleware 认证
+ */
+const splitMerge = new Hono<AppContext>();
+
+/** 默认拆分的标题级别 */
+const DEFAULT_SPLIT_LEVEL = 2;
+
+/** 单次拆分最多生成的文档数量 */
+const MAX_SPLIT_SECTIONS = 100;
+
+/** 拆分后原文档的处理方式：index 改写为索引，keep 保持不变，trash 移入回收站 */
+const SPLIT_ORIGINAL_MODES = ['index', 'keep', 'trash'];
+
+/** 单次合并最多的文档数量 */
+const MAX_MERGE_DOCUMENTS = 50;
+
+/**
+ * 校验标题级别参数
+ *
+ * @returns 1 到 6 之间的整数；未提供时返回默认值；无效时返回 null
+ */
+const parseHeadingLevel = (value: unknown, defaultLevel: number): number | null => {
+  if (value === undefined || value === null) return defaultLevel;
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 6 ? value as number : null;
+};
+
+/**
+ * 插入新文档
+ * 使用单条插入语句，全部成功或全部失败；保存后的处理由调用方在确认不需要回滚后执行
+ *
+ * @returns 按传入顺序排列的新文档
+ */
+const insertDocuments = async (
+  supabase: SupabaseClient,
+  userId: string,
+  documents: { title: string; content: string; folder_id: string | null }[]
+): Promise<{ data: any[]; error: { message: string } | null }> => {
+  const { data, error } = await supabase
+    .from('documents')
+    .insert(documents.map(document => ({
+      title: document.title,
+      content: document.content,
+      metadata: buildDocumentMetadata(document.content),
+      folder_id: document.folder_id,
+      user_id: userId
+    })))
+    .select();
+
+  return { data: data || [], error };
+};
+
+/**
+ * 删除拆分中途失败时已插入的新文档和新建的文件夹
+ * 这些文档尚未执行保存流程（没有修订、链接记录和 Webhook 通知），可以直接删除
+ */
+const rollbackSplit = async (
+  supabase: SupabaseClient,
+  userId: string,
+  documentIds: string[],
+  folderId: string | null
+): Promise<void> => {
+  if (documentIds.length > 0) {
+    await supabase
+      .from('documents')
+      .delete()
+      .in('id', documentIds)
+      .eq('user_id', userId);
+  }
+
+  if (folderId) {
+    await supabase
+      .from('folders')
+      .delete()
+      .eq('id', folderId)
+      .eq('user_id', userId);
+  }
+};
+
+/**
+ * 基于读取时的版本号将文档移入回收站
+ *
+ * @returns 移入回收站的文档；期间被其他会话修改时为 null
+ */
+const trashDocument = async (
+  supabase: SupabaseClient,
+  userId: string,
+  document: { id: string; version: number }
+): Promise<{ data: { id: string; folder_id: string | null; deleted_at: string } | null; error: { message: string } | null }> => {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ deleted_at: new Date().toISOString(), trashed_with_folder_id: null })
+    .eq('id', document.id)
+    .eq('user_id', userId)
+    .eq('version', document.version)
+    .is('deleted_at', null)
+    .select('id, folder_id, deleted_at');
+
+  if (error) return { data: null, error };
+  return { data: data[0] || null, error: null };
+};
+
+/**
+ * ========================================
+ * 拆分与合并路由
+ * ========================================
+ */
+
+/**
+ * 拆分文档路由
+ *
+ * 路由：POST /api/documents/:id/split
+ *
+ * 功能：
+ * - 在级别不低于 level 的每个标题处拆分文档，每个章节成为一篇以标题命名的新文档（正文不含该标题）
+ * - 新文档放在原文档所在文件夹、指定的文件夹，或在原文档所在位置新建的文件夹中
+ * - original 决定原文档的处理方式：
+ *   - index（默认）：保留第一个标题之前的内容，其后改写为指向各新文档的 [[维基链接]] 列表
+ *   - keep：保持不变
+ *   - trash：移入回收站
+ * - 代码块中的 # 不视为标题；重名的章节标题会追加序号
+ * - 修改原文档时，原文档被其他会话签出锁定返回 423，期间被修改返回 409
+ * - 先创建全部新文档，最后修改原文档；修改原文档失败时删除已创建的新文档和新建的文件夹，不留下半途的结果
+ *
+ * 请求头：
+ * - X-Lock-Token: 锁令牌（原文档被当前会话锁定时必填）
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "level": 2,
+ *   "original": "index",
+ *   "folder_id": "目标文件夹ID（可选，默认原文档所在文件夹）",
+ *   "new_folder_name": "新文件夹名称（可选，与 folder_id 二选一）"
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "original": { "id": "doc_id", "title": "用户手册", "status": "index", "version": 8 },
+ *   "folder": { "id": "folder_id", "name": "用户手册" },
+ *   "documents": [
+ *     { "id": "new_doc_id", "title": "安装", "folder_id": "folder_id", "version": 1 }
+ *   ]
+ * }
+ * ```
+ *
+ * folder 仅在新建文件夹时返回，否则为 null
+ */
+splitMerge.post("/:id/split", async (c) => {
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+
+  const level = parseHeadingLevel(body.level, DEFAULT_SPLIT_LEVEL);
+  if (level === null) {
+    return c.json({ error: 'level 必须是 1 到 6 之间的整数' }, 400);
+  }
+
+  const original = body.original ?? 'index';
+  if (!SPLIT_ORIGINAL_MODES.includes(original)) {
+    return c.json({ error: `original 只能是 ${SPLIT_ORIGINAL_MODES.join('、')}` }, 400);
+  }
+
+  if (body.folder_id && body.new_folder_name) {
+    return c.json({ error: 'folder_id 和 new_folder_name 只能指定一个' }, 400);
+  }
+  if (body.new_folder_name !== undefined && (typeof body.new_folder_name !== 'string' || body.new_folder_name.trim() === '')) {
+    return c.json({ error: '文件夹名称不能为空' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id, title, content, folder_id, version')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: 'Document not found or unauthorized' }, 404);
+  }
+
+  // 需要修改原文档时，原文档被其他会话锁定则拒绝拆分
+  if (original !== 'keep') {
+    const { data: lock, error: lockError } = await checkDocumentLock(supabase, id, c.req.header(LOCK_TOKEN_HEADER));
+    if (lockError) {
+      return c.json({ error: lockError.message }, 500);
+    }
+    if (lock) {
+      return c.json(buildLockedPayload(lock, user.id), 423);
+    }
+  }
+
+  const { preamble, sections } = splitContentByHeadings(document.content, level);
+  if (sections.length === 0) {
+    return c.json({ error: `文档中没有 ${level} 级或更高级别的标题，无法拆分` }, 400);
+  }
+  if (sections.length > MAX_SPLIT_SECTIONS) {
+    return c.json({ error: `单次最多拆分为 ${MAX_SPLIT_SECTIONS} 篇文档` }, 400);
+  }
+
+  // 确定新文档所在的文件夹
+  let targetFolderId: string | null = document.folder_id;
+  let createdFolder: { id: string; name: string } | null = null;
+
+  if (body.folder_id) {
+    const { data: folder } = await supabase
+      .from('folders')
+      .select('id')
+      .eq('id', body.folder_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!folder) {
+      return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+    }
+    targetFolderId = folder.id;
+  } else if (body.new_folder_name) {
+    const name = body.new_folder_name.trim();
+
+    // 检查同级文件夹下是否有重名
+    let existingQuery = supabase
+      .from('folders')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('name', name)
+      .is('deleted_at', null);
+    existingQuery = document.folder_id ? existingQuery.eq('parent_id', document.folder_id) : existingQuery.is('parent_id', null);
+
+    const { data: existing } = await existingQuery.limit(1);
+    if (existing && existing.length > 0) {
+      return c.json({ error: '同目录下已存在同名文件夹' }, 400);
+    }
+
+    const { data: folder, error: folderError } = await supabase
+      .from('folders')
+      .insert([{ name, parent_id: document.folder_id, user_id: user.id }])
+      .select('id, name')
+      .single();
+
+    if (folderError) {
+      return c.json({ error: folderError.message }, 500);
+    }
+    targetFolderId = folder.id;
+    createdFolder = folder;
+  }
+
+  // 先插入全部新文档，再修改原文档；之后的步骤失败时删除这些新文档和新建的文件夹
+  const { data: inserted, error: insertError } = await insertDocuments(
+    supabase,
+    user.id,
+    sections.map(section => ({ title: section.title, content: section.content, folder_id: targetFolderId }))
+  );
+
+  if (insertError) {
+    await rollbackSplit(supabase, user.id, [], createdFolder?.id ?? null);
+    return c.json({ error: insertError.message }, 500);
+  }
+
+  const insertedIds = inserted.map(created => created.id);
+
+  // 基于读取时的版本号修改原文档，期间被修改时回滚
+  let originalResult: { id: string; title: string; status: string; version?: number };
+  let indexDocument: any = null;
+  let trashedDocument: { id: string; folder_id: string | null; deleted_at: string } | null = null;
+
+  if (original === 'index') {
+    const content = buildSplitIndex(preamble, sections.map(section => section.title));
+    const { data: updated, error: updateError } = await supabase
+      .from('documents')
+      .update({ content, metadata: buildDocumentMetadata(content), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .eq('version', document.version)
+      .is('deleted_at', null)
+      .select();
+
+    if (updateError || updated.length === 0) {
+      await rollbackSplit(supabase, user.id, insertedIds, createdFolder?.id ?? null);
+      return updateError
+        ? c.json({ error: updateError.message }, 500)
+        : c.json({ error: '文档已在其他会话中被修改，请重新拆分' }, 409);
+    }
+
+    indexDocument = updated[0];
+    originalResult = { id, title: document.title, status: 'index', version: indexDocument.version };
+  } else if (original === 'trash') {
+    const { data: trashed, error: trashError } = await trashDocument(supabase, user.id, document);
+
+    if (trashError || !trashed) {
+      await rollbackSplit(supabase, user.id, insertedIds, createdFolder?.id ?? null);
+      return trashError
+        ? c.json({ error: trashError.message }, 500)
+        : c.json({ error: '文档已在其他会话中被修改，请重新拆分' }, 409);
+    }
+
+    trashedDocument = trashed;
+    originalResult = { id, title: document.title, status: 'trashed' };
+  } else {
+    originalResult = { id, title: document.title, status: 'kept', version: document.version };
+  }
+
+  // 执行新文档的保存流程：写入初始修订、记录链接和资源引用，并通知 Webhook
+  const created: { id: string; title: string; folder_id: string | null; version: number }[] = [];
+  for (const data of inserted) {
+    const { error } = await afterDocumentSaved(supabase, c.env, user, data, {
+      event: 'document.created',
+      invalidateSites: false
+    });
+
+    if (error) {
+      return c.json({ error: error.message, original: originalResult, folder: createdFolder, documents: created }, 500);
+    }
+
+    created.push({ id: data.id, title: data.title, folder_id: data.folder_id, version: data.version });
+  }
+
+  // 原文档的保存流程在新文档之后执行，索引中的维基链接才能关联到新文档
+  if (indexDocument) {
+    const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, indexDocument, {
+      event: 'document.updated',
+      changes: ['content'],
+      invalidateSites: false
+    });
+    if (saveError) {
+      return c.json({ error: saveError.message }, 500);
+    }
+  }
+
+  if (trashedDocument) {
+    await afterDocumentsDeleted(supabase, c.env, user.id, [trashedDocument], trashedDocument.deleted_at, { invalidateSites: false });
+  }
+
+  // 原文档和新文档所在文件夹已发布为公开站点时，使站点缓存失效
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, [document.folder_id, targetFolderId]));
+
+  return c.json({ original: originalResult, folder: createdFolder, documents: created }, 201);
+});
+
+/**
+ * 合并文档路由
+ *
+ * 路由：POST /api/documents/merge
+ *
+ * 功能：
+ * - 按 ids 的顺序把多篇文档合并为一篇新文档，每篇文档前生成一个以其标题为内容的标题
+ * - 原文档中的标题级别不低于生成的标题时整体降级；原文档的 front matter 会被去除
+ * - 新文档默认放在第一篇原文档所在的文件夹
+ * - trash_sources 为 true 时把原文档移入回收站，其他文档中指向原文档的 [[维基链接]] 改写为指向新文档；
+ *   此时有原文档被其他会话签出锁定返回 423，期间被修改的原文档保留并列在 skipped 中
+ *
+ * 请求头：
+ * - X-Lock-Token: 锁令牌（原文档被当前会话锁定时提供，仅对其对应的文档有效）
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "ids": ["doc_id_1", "doc_id_2"],
+ *   "title": "周报合集",
+ *   "heading_level": 1,
+ *   "folder_id": "文件夹ID（可选）",
+ *   "trash_sources": false
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "document": { "id": "new_doc_id", "title": "周报合集", "folder_id": "folder_id", "version": 1 },
+ *   "trashed": ["doc_id_1", "doc_id_2"],
+ *   "skipped": [],
+ *   "rewritten_links": [{ "id": "source_id", "title": "项目总览", "links": 2 }]
+ * }
+ * ```
+ */
+splitMerge.post("/merge", async (c) => {
+  const body = await c.req.json();
+  const { ids, title } = body;
+
+  // 校验文档ID列表
+  if (!Array.isArray(ids) || ids.length < 2 || ids.some(id => typeof id !== 'string' || !id)) {
+    return c.json({ error: 'ids 必须是至少包含两篇文档ID的数组' }, 400);
+  }
+
+  const documentIds: string[] = [...new Set(ids as string[])];
+  if (documentIds.length !== ids.length) {
+    return c.json({ error: 'ids 中有重复的文档ID' }, 400);
+  }
+  if (documentIds.length > MAX_MERGE_DOCUMENTS) {
+    return c.json({ error: `单次最多合并 ${MAX_MERGE_DOCUMENTS} 篇文档` }, 400);
+  }
+
+  if (typeof title !== 'string' || title.trim() === '') {
+    return c.json({ error: '文档标题不能为空' }, 400);
+  }
+
+  const headingLevel = parseHeadingLevel(body.heading_level, 1);
+  if (headingLevel === null) {
+    return c.json({ error: 'heading_level 必须是 1 到 6 之间的整数' }, 400);
+  }
+
+  const trashSources = body.trash_sources === true;
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 校验全部文档的归属：必须属于当前用户且不在回收站中
+  const { data: sources, error: sourcesError } = await supabase
+    .from('documents')
+    .select('id, title, content, folder_id, version')
+    .in('id', documentIds)
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+
+  if (sourcesError) {
+    return c.json({ error: sourcesError.message }, 500);
+  }
+
+  const sourceMap = new Map((sources || []).map(source => [source.id, source]));
+  const missing = documentIds.filter(id => !sourceMap.has(id));
+  if (missing.length > 0) {
+    return c.json({ error: '部分文档不存在或无权限访问', missing }, 404);
+  }
+
+  const ordered = documentIds.map(id => sourceMap.get(id)!);
+
+  // 需要删除原文档时，有原文档被其他会话锁定则拒绝合并
+  if (trashSources) {
+    const { data: locks, error: lockError } = await findBlockingLocks(supabase, documentIds, c.req.header(LOCK_TOKEN_HEADER));
+    if (lockError) {
+      return c.json({ error: lockError.message }, 500);
+    }
+    if (locks.size > 0) {
+      return c.json({
+        error: '部分文档已被其他会话锁定，未执行合并',
+        code: 'DOCUMENT_LOCKED',
+        locked: [...locks.entries()].map(([id, lock]) => ({ id, lock: formatLock(lock) }))
+      }, 423);
+    }
+  }
+
+  // 确定新文档所在的文件夹
+  let folderId: string | null = ordered[0].folder_id;
+  if (body.folder_id !== undefined) {
+    folderId = body.folder_id || null;
+    if (folderId) {
+      const { data: folder } = await supabase
+        .from('folders')
+        .select('id')
+        .eq('id', folderId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (!folder) {
+        return c.json({ error: '文件夹不存在或无权限访问' }, 400);
+      }
+    }
+  }
+
+  const { data: inserted, error: createError } = await insertDocuments(supabase, user.id, [{
+    title: title.trim(),
+    content: mergeContents(ordered, headingLevel),
+    folder_id: folderId
+  }]);
+
+  if (createError) {
+    return c.json({ error: createError.message }, 500);
+  }
+
+  // 写入初始修订记录，记录链接和资源引用，并通知 Webhook
+  const merged = inserted[0];
+  const { error: saveError } = await afterDocumentSaved(supabase, c.env, user, merged, {
+    event: 'document.created',
+    invalidateSites: false
+  });
+  if (saveError) {
+    return c.json({ error: saveError.message }, 500);
+  }
+
+  // 将原文档移入回收站，并把指向原文档的维基链接改写为指向新文档
+  const trashed: string[] = [];
+  const skipped: { id: string; title: string }[] = [];
+  const rewrittenLinks: { id: string; title: string; links: number }[] = [];
+
+  if (trashSources) {
+    for (const source of ordered) {
+      const { data: removed, error: trashError } = await trashDocument(supabase, user.id, source);
+      if (trashError) {
+        return c.json({ error: trashError.message, document: merged, trashed }, 500);
+      }
+      if (!removed) {
+        skipped.push({ id: source.id, title: source.title });
+        continue;
+      }
+      trashed.push(source.id);
+
+      await afterDocumentsDeleted(supabase, c.env, user.id, [removed], removed.deleted_at, { invalidateSites: false });
+
+      const { data: rewritten, error: rewriteError } = await rewriteInboundLinks(supabase, c.env, user, source.id, source.title, merged.title);
+      if (rewriteError) {
+        return c.json({ error: rewriteError.message, document: merged, trashed }, 500);
+      }
+      rewrittenLinks.push(...rewritten.rewritten);
+    }
+  }
+
+  // 新文档和被删除的原文档所在文件夹已发布为公开站点时，使站点缓存失效
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, [
+    folderId,
+    ...ordered.filter(source => trashed.includes(source.id)).map(source => source.folder_id)
+  ]));
+
+  return c.json({
+    document: { id: merged.id, title: merged.title, folder_id: merged.folder_id, version: merged.version },
+    trashed,
+    skipped,
+    rewritten_links: rewrittenLinks
+  }, 201);
+});
+
+/**
+ * 导出拆分与合并路由模块
+ * 供主应用文件挂载使用
+ */
+export default splitMerge;
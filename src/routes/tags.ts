@@ -0,0 +1,373 @@
+/**
+ * ========================================
+ * 标签管理路由模块
+ * ========================================
+ *
+ * 本文件提供标签的 CRUD 操作 HTTP 路由处理
+ * 所有路由都需要用户认证，确保用户只能操作自己的标签
+ * 标签用于对文档进行主题、状态、客户等多维度分类
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { DEFAULT_TAG_COLOR, normalizeTagColor } from "../utils/tagUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+
+/**
+ * 创建标签管理路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const tags = new Hono<AppContext>();
+
+/**
+ * ========================================
+ * 标签辅助函数
+ * ========================================
+ */
+
+/**
+ * 统计每个标签关联的文档数量（不包含回收站中的文档）
+ * 通过 count_documents_by_tag 在数据库中分组计数
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param tagIds - 标签ID列表
+ * @returns 标签ID到文档数量的映射
+ */
+const countDocumentsByTag = async (
+  supabase: ReturnType<typeof createSupabaseClient>,
+  userId: string,
+  tagIds: string[]
+): Promise<{ data: Map<string, number>; error: { message: string } | null }> => {
+  const counts = new Map<string, number>();
+  if (tagIds.length === 0) return { data: counts, error: null };
+
+  const { data, error } = await supabase.rpc('count_documents_by_tag', {
+    p_user_id: userId,
+    p_tag_ids: tagIds
+  });
+
+  if (error) return { data: counts, error };
+
+  for (const row of data || []) {
+    counts.set(row.tag_id, Number(row.document_count));
+  }
+
+  return { data: counts, error: null };
+};
+
+/**
+ * ========================================
+ * 标签 CRUD 操作路由
+ * ========================================
+ */
+
+/**
+ * 获取用户标签列表路由
+ *
+ * 路由：GET /api/tags
+ *
+ * 功能：
+ * - 获取当前用户的所有标签
+ * - 按名称排序
+ * - 返回每个标签关联的文档数量
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "tags": [
+ *     {
+ *       "id": "tag_id",
+ *       "name": "客户A",
+ *       "color": "#ff8800",
+ *       "user_id": "user_id",
+ *       "created_at": "2023-01-01T00:00:00Z",
+ *       "updated_at": "2023-01-01T00:00:00Z",
+ *       "document_count": 5
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+tags.get("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name', { ascending: true });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  const { data: counts, error: countError } = await countDocumentsByTag(supabase, user.id, (data || []).map(tag => tag.id));
+
+  if (countError) {
+    return c.json({ error: countError.message }, 500);
+  }
+
+  return c.json({
+    tags: (data || []).map(tag => ({
+      ...tag,
+      document_count: counts.get(tag.id) || 0
+    }))
+  });
+});
+
+/**
+ * 创建标签路由
+ *
+ * 路由：POST /api/tags
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "name": "客户A",
+ *   "color": "#ff8800"
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "id": "tag_id",
+ *   "name": "客户A",
+ *   "color": "#ff8800",
+ *   "user_id": "user_id",
+ *   "created_at": "2023-01-01T00:00:00Z",
+ *   "updated_at": "2023-01-01T00:00:00Z"
+ * }
+ * ```
+ */
+tags.post("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const { name, color } = await c.req.json();
+
+  // 验证必需字段
+  if (!name || typeof name !== 'string' || name.trim() === '') {
+    return c.json({ error: '标签名称不能为空' }, 400);
+  }
+
+  // 验证颜色格式
+  const normalizedColor = color === undefined ? DEFAULT_TAG_COLOR : normalizeTagColor(color);
+  if (!normalizedColor) {
+    return c.json({ error: '标签颜色格式无效，应为 #RGB 或 #RRGGBB' }, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('tags')
+    .insert([
+      {
+        name: name.trim(),
+        color: normalizedColor,
+        user_id: user.id
+      }
+    ])
+    .select();
+
+  if (error) {
+    // 唯一约束冲突：同名标签已存在
+    if (error.code === '23505') {
+      return c.json({ error: '已存在同名标签' }, 400);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json(data[0]);
+});
+
+/**
+ * 获取单个标签详情路由
+ *
+ * 路由：GET /api/tags/:id
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "id": "tag_id",
+ *   "name": "客户A",
+ *   "color": "#ff8800",
+ *   "document_count": 5
+ * }
+ * ```
+ */
+tags.get("/:id", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const tagId = c.req.param("id");
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('id', tagId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!data) {
+    return c.json({ error: '标签不存在' }, 404);
+  }
+
+  const { data: counts, error: countError } = await countDocumentsByTag(supabase, user.id, [data.id]);
+
+  if (countError) {
+    return c.json({ error: countError.message }, 500);
+  }
+
+  return c.json({
+    ...data,
+    document_count: counts.get(data.id) || 0
+  });
+});
+
+/**
+ * 更新标签路由
+ *
+ * 路由：PUT /api/tags/:id
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "name": "新的名称（可选）",
+ *   "color": "#00aa55（可选）"
+ * }
+ * ```
+ */
+tags.put("/:id", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const tagId = c.req.param("id");
+  const { name, color } = await c.req.json();
+
+  // 构建更新对象
+  const updateData: any = {
+    updated_at: new Date().toISOString()
+  };
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      return c.json({ error: '标签名称不能为空' }, 400);
+    }
+    updateData.name = name.trim();
+  }
+
+  if (color !== undefined) {
+    const normalizedColor = normalizeTagColor(color);
+    if (!normalizedColor) {
+      return c.json({ error: '标签颜色格式无效，应为 #RGB 或 #RRGGBB' }, 400);
+    }
+    updateData.color = normalizedColor;
+  }
+
+  const { data, error } = await supabase
+    .from('tags')
+    .update(updateData)
+    .eq('id', tagId)
+    .eq('user_id', user.id)
+    .select();
+
+  if (error) {
+    if (error.code === '23505') {
+      return c.json({ error: '已存在同名标签' }, 400);
+    }
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '标签不存在或无权限访问' }, 404);
+  }
+
+  // 公开站点的页面中显示标签名称
+  if (updateData.name !== undefined) {
+    c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id));
+  }
+
+  return c.json(data[0]);
+});
+
+/**
+ * 删除标签路由
+ *
+ * 路由：DELETE /api/tags/:id
+ *
+ * 功能：
+ * - 删除标签，并自动解除与所有文档的关联（CASCADE）
+ * - 文档本身不受影响
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Tag tag_id deleted"
+ * }
+ * ```
+ */
+tags.delete("/:id", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const tagId = c.req.param("id");
+
+  const { data, error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', tagId)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '标签不存在或无权限访问' }, 404);
+  }
+
+  // 公开站点的页面中显示标签名称
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id));
+
+  return c.json({ message: `Tag ${tagId} deleted` });
+});
+
+/**
+ * 导出标签管理路由模块
+ * 供主应用文件挂载使用
+ */
+export default tags;
@@ -0,0 +1,382 @@
+/**
+ * ========================================
+ * 文档模板管理路由模块
+ * ========================================
+ *
+ * 本文件提供文档模板的 CRUD 操作 HTTP 路由处理
+ * 用户可以查看自己的模板和其他用户共享的模板，但只能修改自己的模板
+ * 从模板创建文档的接口为 POST /api/documents/from-template，由文档路由模块处理
+ */
+
+import { Hono } from "hono";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { normalizeTemplateVariables } from "../utils/templateUtils";
+
+/**
+ * 创建模板管理路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const templates = new Hono<AppContext>();
+
+/** 单个模板最多设置的默认标签数量 */
+const MAX_DEFAULT_TAGS = 20;
+
+/**
+ * ========================================
+ * 模板辅助函数
+ * ========================================
+ */
+
+/**
+ * 校验模板请求体并转换为数据库字段
+ * 只处理请求体中出现的字段，便于创建和部分更新共用
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param body - 请求体
+ * @returns 待写入的字段；校验失败时返回错误信息
+ */
+const buildTemplateFields = async (
+  supabase: SupabaseClient,
+  userId: string,
+  body: Record<string, any>
+): Promise<{ fields: Record<string, any> } | { error: string }> => {
+  const fields: Record<string, any> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return { error: '模板名称不能为空' };
+    }
+    fields.name = body.name.trim();
+  }
+
+  if (body.description !== undefined) {
+    fields.description = body.description ? String(body.description) : null;
+  }
+
+  if (body.title_template !== undefined) {
+    fields.title_template = body.title_template ? String(body.title_template) : null;
+  }
+
+  if (body.content !== undefined) {
+    if (typeof body.content !== 'string') {
+      return { error: '模板内容必须是字符串' };
+    }
+    fields.content = body.content;
+  }
+
+  if (body.variables !== undefined) {
+    const result = normalizeTemplateVariables(body.variables);
+    if ('error' in result) {
+      return { error: result.error };
+    }
+    fields.variables = result.variables;
+  }
+
+  if (body.default_folder_id !== undefined) {
+    // 默认文件夹必须属于模板创建者
+    if (body.default_folder_id) {
+      const { data: folder } = await supabase
+        .from('folders')
+        .select('id')
+        .eq('id', body.default_folder_id)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (!folder) {
+        return { error: '文件夹不存在或无权限访问' };
+      }
+    }
+    fields.default_folder_id = body.default_folder_id || null;
+  }
+
+  if (body.default_tags !== undefined) {
+    if (
+      !Array.isArray(body.default_tags) ||
+      body.default_tags.length > MAX_DEFAULT_TAGS ||
+      body.default_tags.some((name: unknown) => typeof name !== 'string')
+    ) {
+      return { error: `default_tags 必须是不超过 ${MAX_DEFAULT_TAGS} 个标签名称的数组` };
+    }
+    fields.default_tags = [...new Set((body.default_tags as string[]).map(name => name.trim()).filter(Boolean))];
+  }
+
+  if (body.is_shared !== undefined) {
+    fields.is_shared = body.is_shared === true;
+  }
+
+  return { fields };
+};
+
+/**
+ * ========================================
+ * 模板 CRUD 操作路由
+ * ========================================
+ */
+
+/**
+ * 获取模板列表路由
+ *
+ * 路由：GET /api/templates
+ *
+ * 功能：
+ * - 获取当前用户的模板和其他用户共享的模板
+ * - 按名称排序，owned 字段表示是否为当前用户创建
+ *
+ * 查询参数：
+ * - scope: mine | shared | all（可选，默认 all）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "templates": [
+ *     {
+ *       "id": "template_id",
+ *       "name": "周报",
+ *       "description": "每周工作汇报",
+ *       "title_template": "周报 {{date}}",
+ *       "content": "# {{title}}\n\n## 本周完成\n\n## 下周计划\n",
+ *       "variables": [{ "name": "project", "label": "项目", "required": true }],
+ *       "default_folder_id": "folder_id",
+ *       "default_tags": ["周报"],
+ *       "is_shared": true,
+ *       "owned": true,
+ *       "created_at": "2023-01-01T00:00:00Z",
+ *       "updated_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+templates.get("/", async (c) => {
+  const scope = c.req.query('scope') || 'all';
+  if (!['mine', 'shared', 'all'].includes(scope)) {
+    return c.json({ error: 'scope 只能是 mine、shared 或 all' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  let query = supabase
+    .from('document_templates')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (scope === 'mine') {
+    query = query.eq('user_id', user.id);
+  } else if (scope === 'shared') {
+    query = query.eq('is_shared', true).neq('user_id', user.id);
+  } else {
+    query = query.or(`user_id.eq.${user.id},is_shared.eq.true`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    templates: (data || []).map(template => ({
+      ...template,
+      owned: template.user_id === user.id
+    }))
+  });
+});
+
+/**
+ * 创建模板路由
+ *
+ * 路由：POST /api/templates
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "name": "会议纪要",
+ *   "description": "项目例会纪要（可选）",
+ *   "title_template": "{{project}} 例会 {{date}}（可选）",
+ *   "content": "# {{title}}\n\n主持人：{{user.name}}\n\n## 议题\n",
+ *   "variables": [{ "name": "project", "label": "项目", "default": "SuperEditor", "required": true }],
+ *   "default_folder_id": "文件夹ID（可选）",
+ *   "default_tags": ["会议"],
+ *   "is_shared": false
+ * }
+ * ```
+ *
+ * 响应：新建的模板
+ */
+templates.post("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const body = await c.req.json();
+
+  // 验证必需字段
+  if (body.name === undefined) {
+    return c.json({ error: '模板名称不能为空' }, 400);
+  }
+
+  const result = await buildTemplateFields(supabase, user.id, body);
+  if ('error' in result) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('document_templates')
+    .insert([
+      {
+        content: '',
+        variables: [],
+        default_tags: [],
+        is_shared: false,
+        ...result.fields,
+        user_id: user.id
+      }
+    ])
+    .select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ ...data[0], owned: true });
+});
+
+/**
+ * 获取单个模板详情路由
+ *
+ * 路由：GET /api/templates/:id
+ *
+ * 功能：获取当前用户的模板或其他用户共享的模板
+ *
+ * 响应：模板详情（格式同列表中的单项）
+ */
+templates.get("/:id", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const templateId = c.req.param("id");
+
+  const { data, error } = await supabase
+    .from('document_templates')
+    .select('*')
+    .eq('id', templateId)
+    .or(`user_id.eq.${user.id},is_shared.eq.true`)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (!data) {
+    return c.json({ error: '模板不存在或无权限访问' }, 404);
+  }
+
+  return c.json({ ...data, owned: data.user_id === user.id });
+});
+
+/**
+ * 更新模板路由
+ *
+ * 路由：PUT /api/templates/:id
+ *
+ * 功能：更新当前用户自己的模板，只修改请求体中出现的字段
+ *
+ * 请求体：同创建模板，所有字段均可选
+ *
+ * 响应：更新后的模板
+ */
+templates.put("/:id", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const templateId = c.req.param("id");
+
+  const result = await buildTemplateFields(supabase, user.id, await c.req.json());
+  if ('error' in result) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  const { data, error } = await supabase
+    .from('document_templates')
+    .update({
+      ...result.fields,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', templateId)
+    .eq('user_id', user.id)
+    .select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '模板不存在或无权限访问' }, 404);
+  }
+
+  return c.json({ ...data[0], owned: true });
+});
+
+/**
+ * 删除模板路由
+ *
+ * 路由：DELETE /api/templates/:id
+ *
+ * 功能：删除当前用户自己的模板，已从模板创建的文档不受影响
+ */
+templates.delete("/:id", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const templateId = c.req.param("id");
+
+  const { data, error } = await supabase
+    .from('document_templates')
+    .delete()
+    .eq('id', templateId)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '模板不存在或无权限访问' }, 404);
+  }
+
+  return c.json({ message: `Template ${templateId} deleted` });
+});
+
+export default templates;
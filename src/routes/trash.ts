@@ -0,0 +1,541 @@
+/**
+ * ========================================
+ * 回收站路由模块
+ * ========================================
+ *
+ * 本文件提供回收站的 HTTP 路由处理
+ * 支持查看回收站、恢复文档和文件夹、永久删除以及清空回收站
+ * 所有路由都需要用户认证，确保用户只能操作自己的回收站
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { getTrashRetentionDays, getPurgeAt } from "../utils/trashUtils";
+import { invalidatePublishedSites } from "../utils/siteUtils";
+
+/**
+ * 创建回收站路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const trash = new Hono<AppContext>();
+
+/**
+ * ========================================
+ * 回收站辅助函数
+ * ========================================
+ */
+
+/**
+ * 检查恢复目标文件夹是否仍然可用
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param folderId - 原所在文件夹ID
+ * @returns 文件夹仍存在且不在回收站中时返回原ID，否则返回 null（恢复到根目录）
+ */
+const resolveRestoreFolderId = async (
+  supabase: ReturnType<typeof createSupabaseClient>,
+  userId: string,
+  folderId: string | null
+): Promise<string | null> => {
+  if (!folderId) return null;
+
+  const { data } = await supabase
+    .from('folders')
+    .select('id')
+    .eq('id', folderId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  return data ? data.id : null;
+};
+
+/**
+ * ========================================
+ * 回收站路由
+ * ========================================
+ */
+
+/**
+ * 获取回收站内容路由
+ *
+ * 路由：GET /api/trash
+ *
+ * 功能：
+ * - 列出直接被删除的文档和文件夹（随文件夹一起删除的内容归入该文件夹条目）
+ * - 按删除时间降序排列
+ * - 返回每个条目的预计永久删除时间
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "documents": [
+ *     {
+ *       "id": "doc_id",
+ *       "title": "文档标题",
+ *       "folder_id": "folder_id",
+ *       "deleted_at": "2023-01-01T00:00:00Z",
+ *       "purge_at": "2023-01-31T00:00:00Z"
+ *     }
+ *   ],
+ *   "folders": [
+ *     {
+ *       "id": "folder_id",
+ *       "name": "文件夹名称",
+ *       "parent_id": null,
+ *       "deleted_at": "2023-01-01T00:00:00Z",
+ *       "purge_at": "2023-01-31T00:00:00Z",
+ *       "folder_count": 2,
+ *       "document_count": 5
+ *     }
+ *   ],
+ *   "retention_days": 30
+ * }
+ * ```
+ */
+trash.get("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+  const retentionDays = getTrashRetentionDays(c.env);
+
+  // 获取直接删除的文档
+  const { data: documents, error: documentsError } = await supabase
+    .from('documents')
+    .select('id, title, folder_id, created_at, updated_at, deleted_at')
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .is('trashed_with_folder_id', null)
+    .order('deleted_at', { ascending: false });
+
+  if (documentsError) {
+    return c.json({ error: documentsError.message }, 500);
+  }
+
+  // 获取直接删除的文件夹
+  const { data: folders, error: foldersError } = await supabase
+    .from('folders')
+    .select('id, name, description, parent_id, created_at, updated_at, deleted_at')
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .is('trashed_with_folder_id', null)
+    .order('deleted_at', { ascending: false });
+
+  if (foldersError) {
+    return c.json({ error: foldersError.message }, 500);
+  }
+
+  // 统计每个文件夹条目中一同删除的子文件夹和文档数量
+  const folderIds = (folders || []).map(folder => folder.id);
+  const folderCounts = new Map<string, number>();
+  const documentCounts = new Map<string, number>();
+
+  if (folderIds.length > 0) {
+    const [{ data: nestedFolders }, { data: nestedDocuments }] = await Promise.all([
+      supabase
+        .from('folders')
+        .select('trashed_with_folder_id')
+        .eq('user_id', user.id)
+        .in('trashed_with_folder_id', folderIds),
+      supabase
+        .from('documents')
+        .select('trashed_with_folder_id')
+        .eq('user_id', user.id)
+        .in('trashed_with_folder_id', folderIds)
+    ]);
+
+    for (const row of nestedFolders || []) {
+      folderCounts.set(row.trashed_with_folder_id, (folderCounts.get(row.trashed_with_folder_id) || 0) + 1);
+    }
+    for (const row of nestedDocuments || []) {
+      documentCounts.set(row.trashed_with_folder_id, (documentCounts.get(row.trashed_with_folder_id) || 0) + 1);
+    }
+  }
+
+  return c.json({
+    documents: (documents || []).map(document => ({
+      ...document,
+      purge_at: getPurgeAt(document.deleted_at, retentionDays)
+    })),
+    folders: (folders || []).map(folder => ({
+      ...folder,
+      purge_at: getPurgeAt(folder.deleted_at, retentionDays),
+      folder_count: folderCounts.get(folder.id) || 0,
+      document_count: documentCounts.get(folder.id) || 0
+    })),
+    retention_days: retentionDays
+  });
+});
+
+/**
+ * 恢复文档路由
+ *
+ * 路由：POST /api/trash/documents/:id/restore
+ *
+ * 功能：
+ * - 将文档从回收站恢复到原文件夹
+ * - 原文件夹已不存在或仍在回收站中时，恢复到根目录
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "文档已恢复",
+ *   "document": { "id": "doc_id", "title": "文档标题", "folder_id": "folder_id" },
+ *   "restored_to_root": false
+ * }
+ * ```
+ */
+trash.post("/documents/:id/restore", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 检查文档是否在回收站中
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id, folder_id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (!document) {
+    return c.json({ error: '回收站中不存在该文档' }, 404);
+  }
+
+  // 确定恢复位置
+  const folderId = await resolveRestoreFolderId(supabase, user.id, document.folder_id);
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update({
+      deleted_at: null,
+      trashed_with_folder_id: null,
+      folder_id: folderId
+    })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 恢复到已发布为公开站点的文件夹时，使站点缓存失效
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, [folderId]));
+
+  return c.json({
+    message: '文档已恢复',
+    document: data[0],
+    restored_to_root: document.folder_id !== null && folderId === null
+  });
+});
+
+/**
+ * 恢复文件夹路由
+ *
+ * 路由：POST /api/trash/folders/:id/restore
+ *
+ * 功能：
+ * - 恢复文件夹以及随它一起删除的子文件夹和文档，保持原有层级
+ * - 原上级文件夹已不存在或仍在回收站中时，恢复到根目录
+ * - 目标位置存在同名文件夹时，自动在名称后追加“（已恢复）”
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "文件夹已恢复",
+ *   "folder": { "id": "folder_id", "name": "文件夹名称", "parent_id": null },
+ *   "restored_folders": 3,
+ *   "restored_documents": 5,
+ *   "restored_to_root": false
+ * }
+ * ```
+ */
+trash.post("/folders/:id/restore", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 检查文件夹是否在回收站中
+  const { data: folder } = await supabase
+    .from('folders')
+    .select('id, name, parent_id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (!folder) {
+    return c.json({ error: '回收站中不存在该文件夹' }, 404);
+  }
+
+  // 确定恢复位置
+  const parentId = await resolveRestoreFolderId(supabase, user.id, folder.parent_id);
+
+  // 检查目标位置是否有同名文件夹
+  let siblingQuery = supabase
+    .from('folders')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('name', folder.name)
+    .is('deleted_at', null);
+  siblingQuery = parentId ? siblingQuery.eq('parent_id', parentId) : siblingQuery.is('parent_id', null);
+  const { data: siblings } = await siblingQuery;
+  const name = siblings && siblings.length > 0 ? `${folder.name}（已恢复）` : folder.name;
+
+  // 恢复顶层文件夹
+  const { data, error } = await supabase
+    .from('folders')
+    .update({
+      name,
+      parent_id: parentId,
+      deleted_at: null,
+      trashed_with_folder_id: null
+    })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select();
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 恢复随之删除的子文件夹
+  const { data: restoredFolders, error: foldersError } = await supabase
+    .from('folders')
+    .update({ deleted_at: null, trashed_with_folder_id: null })
+    .eq('user_id', user.id)
+    .eq('trashed_with_folder_id', id)
+    .select('id');
+
+  if (foldersError) {
+    return c.json({ error: foldersError.message }, 500);
+  }
+
+  // 恢复随之删除的文档
+  const { data: restoredDocuments, error: documentsError } = await supabase
+    .from('documents')
+    .update({ deleted_at: null, trashed_with_folder_id: null })
+    .eq('user_id', user.id)
+    .eq('trashed_with_folder_id', id)
+    .select('id');
+
+  if (documentsError) {
+    return c.json({ error: documentsError.message }, 500);
+  }
+
+  // 恢复的文件夹位于公开站点中，或本身是公开站点的根文件夹时，使站点缓存失效
+  c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, [id, ...(restoredFolders || []).map(restored => restored.id)]));
+
+  return c.json({
+    message: '文件夹已恢复',
+    folder: data[0],
+    restored_folders: 1 + (restoredFolders?.length || 0),
+    restored_documents: restoredDocuments?.length || 0,
+    restored_to_root: folder.parent_id !== null && parentId === null
+  });
+});
+
+/**
+ * 永久删除文档路由
+ *
+ * 路由：DELETE /api/trash/documents/:id
+ *
+ * 功能：
+ * - 永久删除回收站中的文档，此操作不可撤销
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Document doc_id permanently deleted"
+ * }
+ * ```
+ */
+trash.delete("/documents/:id", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 只允许删除已在回收站中的文档
+  const { data, error } = await supabase
+    .from('documents')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '回收站中不存在该文档' }, 404);
+  }
+
+  return c.json({ message: `Document ${id} permanently deleted` });
+});
+
+/**
+ * 永久删除文件夹路由
+ *
+ * 路由：DELETE /api/trash/folders/:id
+ *
+ * 功能：
+ * - 永久删除回收站中的文件夹，以及随它一起删除的子文件夹和文档
+ * - 此操作不可撤销
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Folder folder_id permanently deleted",
+ *   "deleted_documents": 5
+ * }
+ * ```
+ */
+trash.delete("/folders/:id", async (c) => {
+  const id = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 检查文件夹是否在回收站中
+  const { data: folder } = await supabase
+    .from('folders')
+    .select('id')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (!folder) {
+    return c.json({ error: '回收站中不存在该文件夹' }, 404);
+  }
+
+  // 先删除随文件夹一起删除的文档
+  const { data: deletedDocuments, error: documentsError } = await supabase
+    .from('documents')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('trashed_with_folder_id', id)
+    .select('id');
+
+  if (documentsError) {
+    return c.json({ error: documentsError.message }, 500);
+  }
+
+  // 删除文件夹（子文件夹由于 CASCADE 约束一并删除）
+  const { error } = await supabase
+    .from('folders')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    message: `Folder ${id} permanently deleted`,
+    deleted_documents: deletedDocuments?.length || 0
+  });
+});
+
+/**
+ * 清空回收站路由
+ *
+ * 路由：DELETE /api/trash
+ *
+ * 功能：
+ * - 永久删除当前用户回收站中的所有文档和文件夹
+ * - 此操作不可撤销
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Trash emptied",
+ *   "deleted_documents": 12,
+ *   "deleted_folders": 3
+ * }
+ * ```
+ */
+trash.delete("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: deletedDocuments, error: documentsError } = await supabase
+    .from('documents')
+    .delete()
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .select('id');
+
+  if (documentsError) {
+    return c.json({ error: documentsError.message }, 500);
+  }
+
+  const { data: deletedFolders, error: foldersError } = await supabase
+    .from('folders')
+    .delete()
+    .eq('user_id', user.id)
+    .not('deleted_at', 'is', null)
+    .select('id');
+
+  if (foldersError) {
+    return c.json({ error: foldersError.message }, 500);
+  }
+
+  return c.json({
+    message: 'Trash emptied',
+    deleted_documents: deletedDocuments?.length || 0,
+    deleted_folders: deletedFolders?.length || 0
+  });
+});
+
+/**
+ * 导出回收站路由模块
+ * 供主应用文件挂载使用
+ */
+export default trash;
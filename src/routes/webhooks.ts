@@ -0,0 +1,472 @@
+/**
+ * ========================================
+ * Webhook 管理路由模块
+ * ========================================
+ *
+ * 本文件提供 Webhook 的登记管理、推送记录查询、测试推送和重新推送功能
+ * 事件由文档、文件夹和文件路由在处理完成后分发，经队列异步推送（见 webhookUtils）
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { generateToken } from "../utils/cryptoUtils";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_PING_EVENT,
+  attemptWebhookDelivery,
+  createWebhookDeliveries,
+  normalizeWebhookUrl,
+  parseWebhookEvents
+} from "../utils/webhookUtils";
+
+/**
+ * 创建 Webhook 管理路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const webhooks = new Hono<AppContext>();
+
+/** 返回给客户端的 Webhook 字段（不包含签名密钥） */
+const WEBHOOK_COLUMNS = 'id, url, events, description, active, created_at, updated_at';
+
+/** 自定义签名密钥的最小长度 */
+const MIN_SECRET_LENGTH = 16;
+
+/**
+ * 生成签名密钥
+ */
+const generateWebhookSecret = (): string => `whsec_${generateToken(24)}`;
+
+/**
+ * ========================================
+ * Webhook 管理路由
+ * ========================================
+ */
+
+/**
+ * 获取 Webhook 列表路由
+ *
+ * 路由：GET /api/webhooks
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "webhooks": [
+ *     {
+ *       "id": "webhook_id",
+ *       "url": "https://example.com/hooks/supereditor",
+ *       "events": ["document.created", "document.updated"],
+ *       "description": "搜索索引",
+ *       "active": true,
+ *       "created_at": "2023-01-01T00:00:00Z",
+ *       "updated_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ],
+ *   "events": ["document.created", "document.updated", "document.deleted", "folder.moved", "file.uploaded", "file.deleted"]
+ * }
+ * ```
+ */
+webhooks.get("/", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ webhooks: data || [], events: WEBHOOK_EVENTS });
+});
+
+/**
+ * 创建 Webhook 路由
+ *
+ * 路由：POST /api/webhooks
+ *
+ * 功能：
+ * - 登记推送地址和订阅的事件
+ * - 未提供签名密钥时自动生成；密钥只在创建和重新生成时返回
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "url": "https://example.com/hooks/supereditor",
+ *   "events": ["document.created", "document.updated"],
+ *   "secret": "自定义签名密钥（可选，至少 16 个字符）",
+ *   "description": "搜索索引（可选）",
+ *   "active": true
+ * }
+ * ```
+ *
+ * 响应：新创建的 Webhook，附带 secret
+ */
+webhooks.post("/", async (c) => {
+  const body = await c.req.json();
+
+  const url = normalizeWebhookUrl(body.url);
+  if (!url) {
+    return c.json({ error: '推送地址必须是有效的 http(s) 地址' }, 400);
+  }
+
+  const events = parseWebhookEvents(body.events);
+  if (!events) {
+    return c.json({ error: `事件类型无效，可选值：${WEBHOOK_EVENTS.join('、')}` }, 400);
+  }
+
+  if (body.secret !== undefined && (typeof body.secret !== 'string' || body.secret.length < MIN_SECRET_LENGTH)) {
+    return c.json({ error: `签名密钥至少需要 ${MIN_SECRET_LENGTH} 个字符` }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .insert([
+      {
+        user_id: user.id,
+        url,
+        secret: body.secret ?? generateWebhookSecret(),
+        events,
+        description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+        active: body.active !== false
+      }
+    ])
+    .select(`${WEBHOOK_COLUMNS}, secret`);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json(data[0]);
+});
+
+/**
+ * 更新 Webhook 路由
+ *
+ * 路由：PUT /api/webhooks/:id
+ *
+ * 功能：
+ * - 更新推送地址、订阅的事件、说明或启用状态，只修改请求体中出现的字段
+ * - rotate_secret 为 true 时重新生成签名密钥，并在响应中返回新密钥
+ *
+ * 请求体：同创建 Webhook，所有字段均可选，另支持 rotate_secret
+ *
+ * 响应：更新后的 Webhook
+ */
+webhooks.put("/:id", async (c) => {
+  const webhookId = c.req.param("id");
+  const body = await c.req.json();
+
+  const updateData: any = {
+    updated_at: new Date().toISOString()
+  };
+
+  if (body.url !== undefined) {
+    const url = normalizeWebhookUrl(body.url);
+    if (!url) {
+      return c.json({ error: '推送地址必须是有效的 http(s) 地址' }, 400);
+    }
+    updateData.url = url;
+  }
+
+  if (body.events !== undefined) {
+    const events = parseWebhookEvents(body.events);
+    if (!events) {
+      return c.json({ error: `事件类型无效，可选值：${WEBHOOK_EVENTS.join('、')}` }, 400);
+    }
+    updateData.events = events;
+  }
+
+  if (body.description !== undefined) {
+    updateData.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null;
+  }
+
+  if (body.active !== undefined) {
+    updateData.active = body.active === true;
+  }
+
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== 'string' || body.secret.length < MIN_SECRET_LENGTH) {
+      return c.json({ error: `签名密钥至少需要 ${MIN_SECRET_LENGTH} 个字符` }, 400);
+    }
+    updateData.secret = body.secret;
+  } else if (body.rotate_secret === true) {
+    updateData.secret = generateWebhookSecret();
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .update(updateData)
+    .eq('id', webhookId)
+    .eq('user_id', user.id)
+    .select(updateData.secret ? `${WEBHOOK_COLUMNS}, secret` : WEBHOOK_COLUMNS);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: 'Webhook 不存在或无权限访问' }, 404);
+  }
+
+  return c.json(data[0]);
+});
+
+/**
+ * 删除 Webhook 路由
+ *
+ * 路由：DELETE /api/webhooks/:id
+ *
+ * 功能：删除 Webhook 及其推送记录，队列中尚未推送的消息会被丢弃
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "Webhook webhook_id deleted"
+ * }
+ * ```
+ */
+webhooks.delete("/:id", async (c) => {
+  const webhookId = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('webhooks')
+    .delete()
+    .eq('id', webhookId)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: 'Webhook 不存在或无权限访问' }, 404);
+  }
+
+  return c.json({ message: `Webhook ${webhookId} deleted` });
+});
+
+/**
+ * ========================================
+ * 推送记录路由
+ * ========================================
+ */
+
+/**
+ * 获取推送记录路由
+ *
+ * 路由：GET /api/webhooks/:id/deliveries
+ *
+ * 查询参数：
+ * - status: 按状态过滤（pending、succeeded、failed）
+ * - limit: 返回数量（默认 20，最大 100）
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "deliveries": [
+ *     {
+ *       "id": "delivery_id",
+ *       "event": "document.updated",
+ *       "payload": { "id": "delivery_id", "event": "document.updated", "created_at": "...", "data": { ... } },
+ *       "status": "pending",
+ *       "attempts": 2,
+ *       "response_status": 503,
+ *       "response_body": "Service Unavailable",
+ *       "error": "接收方返回 HTTP 503",
+ *       "next_retry_at": "2023-01-01T00:01:00Z",
+ *       "delivered_at": null,
+ *       "created_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+webhooks.get("/:id/deliveries", async (c) => {
+  const webhookId = c.req.param("id");
+  const status = c.req.query("status");
+  const limit = Math.min(100, Math.max(1, parseInt(c.req.query("limit") || '20') || 20));
+
+  if (status !== undefined && !['pending', 'succeeded', 'failed'].includes(status)) {
+    return c.json({ error: '推送状态无效，可选值：pending、succeeded、failed' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .select('id, event, payload, status, attempts, response_status, response_body, error, next_retry_at, delivered_at, created_at, updated_at')
+    .eq('webhook_id', webhookId)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ deliveries: data || [] });
+});
+
+/**
+ * 测试推送路由
+ *
+ * 路由：POST /api/webhooks/:id/test
+ *
+ * 功能：
+ * - 立即向推送地址发送一条 ping 事件（不经过队列、失败不重试），用于验证地址和签名校验
+ * - 停用的 Webhook 也可以测试
+ * - 测试推送同样记录在推送记录中
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "delivery": { "id": "delivery_id", "event": "ping", "status": "succeeded", "response_status": 200, ... }
+ * }
+ * ```
+ */
+webhooks.post("/:id/test", async (c) => {
+  const webhookId = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: webhook } = await supabase
+    .from('webhooks')
+    .select('id, events')
+    .eq('id', webhookId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!webhook) {
+    return c.json({ error: 'Webhook 不存在或无权限访问' }, 404);
+  }
+
+  const { data: deliveries, error } = await createWebhookDeliveries(supabase, user.id, [webhook.id], WEBHOOK_PING_EVENT, {
+    webhook_id: webhook.id,
+    events: webhook.events
+  });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  // 测试推送不受启用状态限制，直接发送
+  const { delivery } = await attemptWebhookDelivery(supabase, deliveries[0].id, { retry: false, ignoreInactive: true });
+
+  return c.json({ delivery });
+});
+
+/**
+ * 重新推送路由
+ *
+ * 路由：POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ *
+ * 功能：将已结束的推送记录重置为 pending 并重新放入队列，尝试次数从零开始计算
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "message": "已重新加入推送队列",
+ *   "delivery_id": "delivery_id"
+ * }
+ * ```
+ */
+webhooks.post("/:id/deliveries/:deliveryId/redeliver", async (c) => {
+  const webhookId = c.req.param("id");
+  const deliveryId = c.req.param("deliveryId");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_retry_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', deliveryId)
+    .eq('webhook_id', webhookId)
+    .eq('user_id', user.id)
+    .neq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: '推送记录不存在或仍在推送中' }, 404);
+  }
+
+  await c.env.WEBHOOK_QUEUE.send({ delivery_id: deliveryId });
+
+  return c.json({ message: '已重新加入推送队列', delivery_id: deliveryId });
+});
+
+export default webhooks;
@@ -0,0 +1,589 @@
+/**
+ * ========================================
+ * WordPress 发布路由模块
+ * ========================================
+ *
+ * 本文件提供 WordPress 站点的登记管理和文档发布功能
+ * 站点的应用程序密码加密保存；文档发布后记录对应的文章，
+ * 之后再次发布到同一站点时更新该文章，而不是创建新文章
+ */
+
+import { Hono } from "hono";
+import { createSupabaseClient } from "../utils/supabaseClient";
+import { AppContext } from "../types/context";
+import { encryptSecret, decryptSecret } from "../utils/cryptoUtils";
+import {
+  WORDPRESS_POST_STATUSES,
+  WordPressError,
+  WordPressMedia,
+  createWordPressClient,
+  getPublishErrorStatus,
+  normalizeSiteUrl,
+  publishWordPressPost
+} from "../utils/wordpressUtils";
+
+/**
+ * 创建 WordPress 发布路由实例
+ * 使用 AppContext 类型确保类型安全
+ * 所有路由都需要通过 authMiddleware 认证
+ */
+const wordpress = new Hono<AppContext>();
+
+/** 返回给客户端的站点字段（不包含加密的密码） */
+const SITE_COLUMNS = 'id, name, site_url, username, is_default, created_at, updated_at';
+
+/**
+ * ========================================
+ * 站点管理路由
+ * ========================================
+ */
+
+/**
+ * 获取 WordPress 站点列表路由
+ *
+ * 路由：GET /api/wordpress/sites
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "sites": [
+ *     {
+ *       "id": "site_id",
+ *       "name": "个人博客",
+ *       "site_url": "https://blog.example.com",
+ *       "username": "admin",
+ *       "is_default": true,
+ *       "created_at": "2023-01-01T00:00:00Z",
+ *       "updated_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+wordpress.get("/sites", async (c) => {
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('wordpress_sites')
+    .select(SITE_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ sites: data || [] });
+});
+
+/**
+ * 登记 WordPress 站点路由
+ *
+ * 路由：POST /api/wordpress/sites
+ *
+ * 功能：
+ * - 使用应用程序密码登录站点校验凭据，校验通过后加密保存
+ * - 用户登记的第一个站点自动成为默认站点
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "name": "个人博客（可选，默认为站点域名）",
+ *   "site_url": "https://blog.example.com",
+ *   "username": "admin",
+ *   "application_password": "abcd efgh ijkl mnop qrst uvwx",
+ *   "is_default": true
+ * }
+ * ```
+ *
+ * 响应：新登记的站点，附带 wordpress_user（WordPress 中的用户 ID 和名称）
+ */
+wordpress.post("/sites", async (c) => {
+  const body = await c.req.json();
+
+  const siteUrl = normalizeSiteUrl(body.site_url);
+  if (!siteUrl) {
+    return c.json({ error: '站点地址必须是有效的 http(s) 地址' }, 400);
+  }
+
+  if (typeof body.username !== 'string' || body.username.trim() === '') {
+    return c.json({ error: '用户名不能为空' }, 400);
+  }
+
+  if (typeof body.application_password !== 'string' || body.application_password.trim() === '') {
+    return c.json({ error: '应用程序密码不能为空' }, 400);
+  }
+
+  const encryptionKey = c.env.WORDPRESS_CREDENTIALS_KEY;
+  if (!encryptionKey) {
+    return c.json({ error: 'WordPress 凭据加密密钥未配置' }, 503);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const username = body.username.trim();
+  const password = body.application_password.trim();
+
+  // 校验凭据
+  let wordpressUser;
+  try {
+    wordpressUser = await createWordPressClient({ siteUrl, username, password }).getCurrentUser();
+  } catch (error) {
+    if (error instanceof WordPressError) {
+      return c.json({ error: `无法登录 WordPress 站点：${error.message}`, code: error.code }, 400);
+    }
+    throw error;
+  }
+
+  const { count } = await supabase
+    .from('wordpress_sites')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id);
+
+  const isDefault = body.is_default === true || !count;
+  if (isDefault) {
+    await supabase
+      .from('wordpress_sites')
+      .update({ is_default: false })
+      .eq('user_id', user.id)
+      .eq('is_default', true);
+  }
+
+  const { data, error } = await supabase
+    .from('wordpress_sites')
+    .insert([
+      {
+        user_id: user.id,
+        name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : new URL(siteUrl).host,
+        site_url: siteUrl,
+        username,
+        password_encrypted: await encryptSecret(password, encryptionKey),
+        is_default: isDefault
+      }
+    ])
+    .select(SITE_COLUMNS);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({ ...data[0], wordpress_user: wordpressUser });
+});
+
+/**
+ * 更新 WordPress 站点路由
+ *
+ * 路由：PUT /api/wordpress/sites/:id
+ *
+ * 功能：
+ * - 更新站点名称、地址、用户名、应用程序密码或设为默认站点，只修改请求体中出现的字段
+ * - 修改了地址、用户名或密码时重新校验凭据
+ *
+ * 请求体：同登记站点，所有字段均可选
+ *
+ * 响应：更新后的站点
+ */
+wordpress.put("/sites/:id", async (c) => {
+  const siteId = c.req.param("id");
+  const body = await c.req.json();
+
+  const encryptionKey = c.env.WORDPRESS_CREDENTIALS_KEY;
+  if (!encryptionKey) {
+    return c.json({ error: 'WordPress 凭据加密密钥未配置' }, 503);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data: site } = await supabase
+    .from('wordpress_sites')
+    .select('*')
+    .eq('id', siteId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (!site) {
+    return c.json({ error: 'WordPress 站点不存在或无权限访问' }, 404);
+  }
+
+  const updateData: any = {
+    updated_at: new Date().toISOString()
+  };
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return c.json({ error: '站点名称不能为空' }, 400);
+    }
+    updateData.name = body.name.trim();
+  }
+
+  if (body.site_url !== undefined) {
+    const siteUrl = normalizeSiteUrl(body.site_url);
+    if (!siteUrl) {
+      return c.json({ error: '站点地址必须是有效的 http(s) 地址' }, 400);
+    }
+    updateData.site_url = siteUrl;
+  }
+
+  if (body.username !== undefined) {
+    if (typeof body.username !== 'string' || body.username.trim() === '') {
+      return c.json({ error: '用户名不能为空' }, 400);
+    }
+    updateData.username = body.username.trim();
+  }
+
+  let password: string | null = null;
+  if (body.application_password !== undefined) {
+    if (typeof body.application_password !== 'string' || body.application_password.trim() === '') {
+      return c.json({ error: '应用程序密码不能为空' }, 400);
+    }
+    password = body.application_password.trim();
+    updateData.password_encrypted = await encryptSecret(password!, encryptionKey);
+  }
+
+  // 凭据有变化时重新校验
+  if (updateData.site_url || updateData.username || password !== null) {
+    const currentPassword = password ?? await decryptSecret(site.password_encrypted, encryptionKey);
+    if (currentPassword === null) {
+      return c.json({ error: '无法解密站点凭据，请重新填写应用程序密码' }, 400);
+    }
+
+    try {
+      await createWordPressClient({
+        siteUrl: updateData.site_url || site.site_url,
+        username: updateData.username || site.username,
+        password: currentPassword
+      }).getCurrentUser();
+    } catch (error) {
+      if (error instanceof WordPressError) {
+        return c.json({ error: `无法登录 WordPress 站点：${error.message}`, code: error.code }, 400);
+      }
+      throw error;
+    }
+  }
+
+  if (body.is_default === true) {
+    await supabase
+      .from('wordpress_sites')
+      .update({ is_default: false })
+      .eq('user_id', user.id)
+      .eq('is_default', true)
+      .neq('id', siteId);
+    updateData.is_default = true;
+  } else if (body.is_default === false) {
+    updateData.is_default = false;
+  }
+
+  const { data, error } = await supabase
+    .from('wordpress_sites')
+    .update(updateData)
+    .eq('id', siteId)
+    .eq('user_id', user.id)
+    .select(SITE_COLUMNS);
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json(data[0]);
+});
+
+/**
+ * 删除 WordPress 站点路由
+ *
+ * 路由：DELETE /api/wordpress/sites/:id
+ *
+ * 功能：删除站点凭据和该站点的文章对应关系，已发布的文章保留在 WordPress 中
+ */
+wordpress.delete("/sites/:id", async (c) => {
+  const siteId = c.req.param("id");
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('wordpress_sites')
+    .delete()
+    .eq('id', siteId)
+    .eq('user_id', user.id)
+    .select('id');
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  if (data.length === 0) {
+    return c.json({ error: 'WordPress 站点不存在或无权限访问' }, 404);
+  }
+
+  return c.json({ message: `WordPress site ${siteId} deleted` });
+});
+
+/**
+ * ========================================
+ * 文章发布路由
+ * ========================================
+ */
+
+/**
+ * 获取文档的已发布文章路由
+ *
+ * 路由：GET /api/wordpress/posts?document_id=
+ *
+ * 功能：列出文档发布到各站点的文章
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "posts": [
+ *     {
+ *       "site_id": "site_id",
+ *       "site_name": "个人博客",
+ *       "post_id": 42,
+ *       "post_url": "https://blog.example.com/?p=42",
+ *       "status": "publish",
+ *       "published_version": 5,
+ *       "last_published_at": "2023-01-01T00:00:00Z"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+wordpress.get("/posts", async (c) => {
+  const documentId = c.req.query('document_id');
+  if (!documentId) {
+    return c.json({ error: '缺少 document_id 参数' }, 400);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  const { data, error } = await supabase
+    .from('wordpress_posts')
+    .select('site_id, post_id, post_url, status, published_version, last_published_at, site:wordpress_sites(name)')
+    .eq('user_id', user.id)
+    .eq('document_id', documentId)
+    .order('last_published_at', { ascending: false });
+
+  if (error) {
+    return c.json({ error: error.message }, 500);
+  }
+
+  return c.json({
+    posts: ((data || []) as any[]).map(({ site, ...post }) => ({ ...post, site_name: site?.name ?? null }))
+  });
+});
+
+/**
+ * 发布到 WordPress 路由
+ *
+ * 路由：POST /api/wordpress/publish
+ *
+ * 功能：
+ * - 将 Markdown 转换为 HTML，文档引用的站内图片上传到 WordPress 媒体库
+ * - 指定 document_id 时记录文档对应的文章，再次发布到同一站点时更新该文章并复用已上传的图片；
+ *   文章在 WordPress 中被永久删除后再次发布会创建新文章
+ * - 指定 document_id 时 title / content 可省略，默认使用文档已保存的内容
+ * - 未指定 site_id 时使用默认站点（只登记了一个站点时使用该站点）
+ *
+ * 请求体：
+ * ```json
+ * {
+ *   "document_id": "文档ID（可选）",
+ *   "title": "文章标题",
+ *   "content": "文章内容（Markdown）",
+ *   "site_id": "站点ID（可选）",
+ *   "status": "publish | draft（可选，默认 publish）"
+ * }
+ * ```
+ *
+ * 响应：
+ * ```json
+ * {
+ *   "url": "https://blog.example.com/2023/01/01/hello/",
+ *   "post_id": 42,
+ *   "status": "publish",
+ *   "created": false,
+ *   "site_id": "site_id",
+ *   "document_id": "doc_id",
+ *   "images_uploaded": 1
+ * }
+ * ```
+ */
+wordpress.post("/publish", async (c) => {
+  const body = await c.req.json();
+  const status = body.status ?? 'publish';
+
+  if (!WORDPRESS_POST_STATUSES.includes(status)) {
+    return c.json({ error: 'status 只能是 publish 或 draft' }, 400);
+  }
+
+  const encryptionKey = c.env.WORDPRESS_CREDENTIALS_KEY;
+  if (!encryptionKey) {
+    return c.json({ error: 'WordPress 凭据加密密钥未配置' }, 503);
+  }
+
+  // 创建 Supabase 客户端实例
+  const supabase = createSupabaseClient(
+    c.env.SUPABASE_URL,
+    c.env.SUPABASE_ANON_KEY
+  );
+
+  // 从认证中间件设置的上下文中获取用户信息
+  const user = c.get('user');
+
+  // 确定要发布的标题和内容
+  let document: { id: string; title: string; content: string | null; version: number } | null = null;
+  if (body.document_id) {
+    const { data } = await supabase
+      .from('documents')
+      .select('id, title, content, version')
+      .eq('id', body.document_id)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (!data) {
+      return c.json({ error: 'Document not found or unauthorized' }, 404);
+    }
+    document = data;
+  }
+
+  const title: string = typeof body.title === 'string' ? body.title.trim() : document?.title || '';
+  const content: string = typeof body.content === 'string' ? body.content : document?.content || '';
+
+  if (!title || !content.trim()) {
+    return c.json({ error: '请填写标题和内容后再发布' }, 400);
+  }
+
+  // 确定目标站点
+  let siteQuery = supabase
+    .from('wordpress_sites')
+    .select('*')
+    .eq('user_id', user.id);
+
+  if (body.site_id) {
+    siteQuery = siteQuery.eq('id', body.site_id);
+  }
+
+  const { data: sites, error: sitesError } = await siteQuery;
+  if (sitesError) {
+    return c.json({ error: sitesError.message }, 500);
+  }
+
+  const site = (sites || []).length === 1 ? sites![0] : (sites || []).find(item => item.is_default);
+  if (!site) {
+    if (body.site_id) {
+      return c.json({ error: 'WordPress 站点不存在或无权限访问' }, 404);
+    }
+    return c.json({ error: (sites || []).length === 0 ? '请先登记 WordPress 站点' : '请指定要发布到的站点' }, 400);
+  }
+
+  const password = await decryptSecret(site.password_encrypted, encryptionKey);
+  if (password === null) {
+    return c.json({ error: '无法解密站点凭据，请重新填写应用程序密码' }, 500);
+  }
+
+  // 查找文档之前发布到该站点的文章
+  let mapping: { post_id: number; media: Record<string, WordPressMedia> } | null = null;
+  if (document) {
+    const { data } = await supabase
+      .from('wordpress_posts')
+      .select('post_id, media')
+      .eq('document_id', document.id)
+      .eq('site_id', site.id)
+      .maybeSingle();
+    mapping = data;
+  }
+
+  const client = createWordPressClient({ siteUrl: site.site_url, username: site.username, password });
+
+  let published;
+  try {
+    published = await publishWordPressPost({
+      bucket: c.env.R2_BUCKET,
+      client,
+      title,
+      markdown: content,
+      status,
+      origin: new URL(c.req.url).origin,
+      previous: mapping
+    });
+  } catch (error) {
+    if (error instanceof WordPressError) {
+      return c.json({ error: `发布到 WordPress 失败：${error.message}`, code: error.code }, getPublishErrorStatus(error));
+    }
+    throw error;
+  }
+
+  const { post, created } = published;
+
+  // 记录文档与文章的对应关系
+  if (document) {
+    const { error } = await supabase
+      .from('wordpress_posts')
+      .upsert(
+        {
+          user_id: user.id,
+          document_id: document.id,
+          site_id: site.id,
+          post_id: post.id,
+          post_url: post.link,
+          status: post.status,
+          // 发布的是编辑器中未保存的内容时不对应任何文档版本
+          published_version: content === (document.content || '') && title === document.title ? document.version : null,
+          media: published.media,
+          last_published_at: new Date().toISOString()
+        },
+        { onConflict: 'document_id,site_id' }
+      );
+
+    if (error) {
+      return c.json({ error: error.message }, 500);
+    }
+  }
+
+  return c.json({
+    url: post.link,
+    post_id: post.id,
+    status: post.status,
+    created,
+    site_id: site.id,
+    document_id: document?.id ?? null,
+    images_uploaded: published.uploaded
+  });
+});
+
+export default wordpress;
@@ -27,6 +27,9 @@ export interface User {
   /** 用户邮箱地址 */
   email: string;
 
+  /** 用户元数据（注册时填写的姓名等） */
+  user_metadata?: Record<string, any>;
+
   /** 可根据需要添加其他用户属性，如：姓名、头像等 */
   // Add other user properties as needed
 }
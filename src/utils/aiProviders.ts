@@ -0,0 +1,424 @@
+/**
+ * ========================================
+ * AI 写作助手服务提供方
+ * ========================================
+ *
+ * 本文件定义 AI 服务提供方接口及两种实现：
+ * - openai：调用 OpenAI 兼容的 Chat Completions 接口（OpenAI、DeepSeek、通义千问兼容模式等）
+ * - local：基于规则的本地实现，输出确定，不依赖网络，用于测试和离线环境
+ *
+ * 所有提供方的输出格式一致：校对返回 JSON 格式的建议列表，润色和扩写返回完整的 Markdown 正文
+ */
+
+import { CONFIG, Env } from '../config';
+
+/** AI 写作任务 */
+export type AITask = 'proofread' | 'polish' | 'expand';
+
+/**
+ * AI 任务输入
+ */
+export interface AITaskInput {
+  /** 任务类型 */
+  task: AITask;
+
+  /** 文档标题 */
+  title: string;
+
+  /** 文档正文（Markdown） */
+  content: string;
+}
+
+/**
+ * token 用量
+ */
+export interface AIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * AI 任务输出
+ */
+export interface AITaskOutput {
+  /** 模型输出的文本 */
+  text: string;
+
+  /** token 用量 */
+  usage: AIUsage;
+}
+
+/**
+ * AI 服务提供方接口
+ */
+export interface AIProvider {
+  /** 提供方名称，记录在用量表中 */
+  name: string;
+
+  /** 模型名称 */
+  model: string;
+
+  /** 执行写作任务 */
+  run(input: AITaskInput): Promise<AITaskOutput>;
+}
+
+/**
+ * AI 服务调用失败
+ * status 为上游接口返回的 HTTP 状态码，超时时为 504
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+/** 调用上游接口的超时时间 */
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * ========================================
+ * token 估算
+ * ========================================
+ */
+
+/**
+ * 估算文本的 token 数量
+ * 中日韩字符按每字 1 个 token，其余字符按每 4 个字符 1 个 token 计算
+ * 用于本地实现和上游接口未返回用量时的统计
+ *
+ * @param text - 文本
+ * @returns 估算的 token 数量
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+/**
+ * ========================================
+ * OpenAI 兼容接口实现
+ * ========================================
+ */
+
+/** 各任务的系统提示词 */
+const SYSTEM_PROMPTS: Record<AITask, string> = {
+  proofread: [
+    '你是一名严谨的中文编辑，负责校对用户提供的 Markdown 文档。',
+    '找出错别字、语法错误、标点误用和明显的用词不当，不要改写风格，不要修改代码块。',
+    '只输出 JSON：{"suggestions":[{"original":"原文片段","replacement":"修改后的片段","message":"简短说明","type":"typo|grammar|punctuation|style","start":原文片段在正文中的字符位置}]}。',
+    'original 必须与正文中的文字逐字一致，尽量短但足以唯一定位；没有问题时返回 {"suggestions":[]}。'
+  ].join('\n'),
+  polish: [
+    '你是一名中文编辑，负责润色用户提供的 Markdown 文档。',
+    '在保持原意、结构和 Markdown 格式不变的前提下，使语句更通顺、用词更准确，不要增删段落，不要修改代码块和链接地址。',
+    '只输出润色后的完整正文，不要添加任何解释。'
+  ].join('\n'),
+  expand: [
+    '你是一名中文写作助手，负责扩写用户提供的 Markdown 文档。',
+    '保留原有内容和结构，补充论据、细节和过渡，使文章更完整；保持原文的语气和 Markdown 格式。',
+    '只输出扩写后的完整正文，不要添加任何解释。'
+  ].join('\n')
+};
+
+/**
+ * 创建 OpenAI 兼容接口的提供方
+ *
+ * @param options.baseUrl - 接口地址，例如 https://api.openai.com/v1
+ * @param options.apiKey - 接口密钥
+ * @param options.model - 模型名称
+ * @returns AI 服务提供方
+ */
+export const createOpenAICompatibleProvider = (options: {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}): AIProvider => {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model: options.model,
+
+    async run(input: AITaskInput): Promise<AITaskOutput> {
+      const userMessage = `标题：${input.title || '（无标题）'}\n\n正文：\n${input.content}`;
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${options.apiKey}`
+          },
+          body: JSON.stringify({
+            model: options.model,
+            messages: [
+              { role: 'system', content: SYSTEM_PROMPTS[input.task] },
+              { role: 'user', content: userMessage }
+            ],
+            temperature: input.task === 'proofread' ? 0 : 0.7,
+            ...(input.task === 'proofread' ? { response_format: { type: 'json_object' } } : {})
+          }),
+          signal: controller.signal
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new AIProviderError('AI 服务响应超时', 504);
+        }
+        throw new AIProviderError(`无法连接 AI 服务：${error instanceof Error ? error.message : String(error)}`, 502);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const data: any = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new AIProviderError(data?.error?.message || `AI 服务返回错误（HTTP ${response.status}）`, response.status);
+      }
+
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new AIProviderError('AI 服务返回了无法解析的结果', 502);
+      }
+
+      const promptTokens = data.usage?.prompt_tokens ?? estimateTokens(SYSTEM_PROMPTS[input.task] + userMessage);
+      const completionTokens = data.usage?.completion_tokens ?? estimateTokens(text);
+
+      return {
+        text,
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: data.usage?.total_tokens ?? promptTokens + completionTokens
+        }
+      };
+    }
+  };
+};
+
+/**
+ * ========================================
+ * 本地规则实现
+ * ========================================
+ */
+
+/** 半角标点到全角标点的映射 */
+const FULLWIDTH_PUNCTUATION: Record<string, string> = { ',': '，', ';': '；', ':': '：', '?': '？', '!': '！' };
+
+/**
+ * 校对规则
+ * 每条规则匹配一类问题，并给出替换文本和说明
+ */
+const PROOFREAD_RULES: {
+  type: string;
+  pattern: RegExp;
+  replace: (match: RegExpExecArray) => string;
+  message: (match: RegExpExecArray) => string;
+}[] = [
+  {
+    // 连续重复的英文单词，例如 "the the"
+    type: 'grammar',
+    pattern: /\b([A-Za-z]+)\s+\1\b/gi,
+    replace: match => match[1],
+    message: match => `重复的单词「${match[1]}」`
+  },
+  {
+    // 连续重复的常用虚词，例如「的的」「了了」
+    type: 'typo',
+    pattern: /([的了是在和就也都])\1/g,
+    replace: match => match[1],
+    message: match => `重复的字「${match[1]}」`
+  },
+  {
+    // 中文之间使用了半角标点
+    type: 'punctuation',
+    pattern: /(?<=\p{Script=Han})[,;:?!](?=\p{Script=Han}|\s|$)/gmu,
+    replace: match => FULLWIDTH_PUNCTUATION[match[0]],
+    message: match => `中文语境中应使用全角标点「${FULLWIDTH_PUNCTUATION[match[0]]}」`
+  },
+  {
+    // 标点前多余的空格
+    type: 'punctuation',
+    pattern: /(?<=\S)[ \t]+(?=[,.;:!?，。；：！？])/g,
+    replace: () => '',
+    message: () => '标点前多余的空格'
+  },
+  {
+    // 句中连续的多个空格
+    type: 'style',
+    pattern: /(?<=\S) {2,}(?=\S)/g,
+    replace: () => ' ',
+    message: () => '连续的多个空格'
+  }
+];
+
+/**
+ * 计算代码块和行内代码所在的字符区间，校对时跳过
+ */
+const findCodeRanges = (content: string): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const pattern of [/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, /`[^`\n]*`/g]) {
+    for (const match of content.matchAll(pattern)) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return ranges;
+};
+
+/**
+ * 按规则校对正文
+ * 返回的建议按位置排序且互不重叠
+ *
+ * @param content - 文档正文
+ * @returns 校对建议（含原文片段在正文中的起始位置）
+ */
+export const proofreadWithRules = (content: string): {
+  original: string;
+  replacement: string;
+  message: string;
+  type: string;
+  start: number;
+}[] => {
+  const codeRanges = findCodeRanges(content);
+  const inCode = (start: number, end: number) => codeRanges.some(([from, to]) => start < to && end > from);
+
+  const found: { original: string; replacement: string; message: string; type: string; start: number }[] = [];
+  for (const rule of PROOFREAD_RULES) {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      if (inCode(match.index, match.index + match[0].length)) continue;
+      found.push({
+        original: match[0],
+        replacement: rule.replace(match),
+        message: rule.message(match),
+        type: rule.type,
+        start: match.index
+      });
+    }
+  }
+
+  // 按位置排序，重叠时保留先出现的建议
+  found.sort((a, b) => a.start - b.start);
+  const result: typeof found = [];
+  let end = 0;
+  for (const suggestion of found) {
+    if (suggestion.start < end) continue;
+    result.push(suggestion);
+    end = suggestion.start + suggestion.original.length;
+  }
+  return result;
+};
+
+/**
+ * 按规则润色正文：应用全部校对建议，去除行尾空白，合并多余的空行
+ *
+ * @param content - 文档正文
+ * @returns 润色后的正文
+ */
+const polishWithRules = (content: string): string => {
+  let polished = '';
+  let cursor = 0;
+  for (const suggestion of proofreadWithRules(content)) {
+    polished += content.slice(cursor, suggestion.start) + suggestion.replacement;
+    cursor = suggestion.start + suggestion.original.length;
+  }
+  polished += content.slice(cursor);
+
+  return polished.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n');
+};
+
+/**
+ * 按模板扩写正文：在原文之后追加围绕标题和各级标题的补充段落
+ *
+ * @param title - 文档标题
+ * @param content - 文档正文
+ * @returns 扩写后的正文
+ */
+const expandWithRules = (title: string, content: string): string => {
+  const subject = title.trim() || '本文';
+  const headings = [...content.matchAll(/^#{1,6}\s+(.+)$/gm)].map(match => match[1].trim());
+
+  const points = headings.length > 0
+    ? headings.map(heading => `- **${heading}**：进一步说明「${heading}」的背景、关键细节和实际影响。`)
+    : ['- **背景**：交代问题的来龙去脉。', '- **要点**：列出核心观点及其依据。', '- **后续**：说明下一步计划和待解决的问题。'];
+
+  return [
+    content.trimEnd(),
+    '',
+    '## 补充说明',
+    '',
+    `围绕「${subject}」，以下几个方面值得进一步展开：`,
+    '',
+    ...points,
+    ''
+  ].join('\n');
+};
+
+/**
+ * 创建本地规则实现的提供方
+ * 输出完全由输入决定，token 用量按 estimateTokens 估算
+ *
+ * @returns AI 服务提供方
+ */
+export const createLocalProvider = (): AIProvider => ({
+  name: 'local',
+  model: 'rules-v1',
+
+  async run(input: AITaskInput): Promise<AITaskOutput> {
+    let text: string;
+    if (input.task === 'proofread') {
+      text = JSON.stringify({ suggestions: proofreadWithRules(input.content) });
+    } else if (input.task === 'polish') {
+      text = polishWithRules(input.content);
+    } else {
+      text = expandWithRules(input.title, input.content);
+    }
+
+    const promptTokens = estimateTokens(input.title + input.content);
+    const completionTokens = estimateTokens(text);
+
+    return {
+      text,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  }
+});
+
+/**
+ * 根据环境变量创建 AI 服务提供方
+ *
+ * AI_PROVIDER 为 local 时使用本地规则实现；为 openai 或未设置但配置了 AI_API_KEY 时使用 OpenAI 兼容接口
+ *
+ * @param env - 环境变量
+ * @returns AI 服务提供方；选择了 openai 却未配置密钥时返回 null
+ */
+export const createAIProvider = (env: Env): AIProvider | null => {
+  const provider = env.AI_PROVIDER || (env.AI_API_KEY ? 'openai' : 'local');
+
+  if (provider === 'local') {
+    return createLocalProvider();
+  }
+
+  if (provider !== 'openai' || !env.AI_API_KEY) {
+    return null;
+  }
+
+  return createOpenAICompatibleProvider({
+    baseUrl: env.AI_API_BASE_URL || CONFIG.AI_API_BASE_URL,
+    apiKey: env.AI_API_KEY,
+    model: env.AI_MODEL || CONFIG.AI_MODEL
+  });
+};
@@ -0,0 +1,380 @@
+/**
+ * ========================================
+ * AI 写作助手工具函数
+ * ========================================
+ *
+ * 本文件提供 AI 输出的解析、建议定位、按用户限流和 token 用量统计功能
+ * 每次调用前预留用量、调用后按实际结果更新，调用失败的请求同样计入请求次数
+ * 建议统一以字符区间 [start, end) 表示在原正文中的位置，编辑器可直接用于高亮和替换
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG, Env } from '../config';
+import { AITask, AIUsage } from './aiProviders';
+import { diffText } from './diffUtils';
+
+/** 单次请求允许的最大正文长度（字符） */
+export const MAX_AI_CONTENT_LENGTH = 20000;
+
+/** 逐词比较差异的最大片段长度，超过时整段作为一条建议 */
+const MAX_WORD_DIFF_LENGTH = 2000;
+
+/**
+ * 写作建议
+ */
+export interface AISuggestion {
+  /** 建议序号 */
+  id: number;
+
+  /** 建议类型：typo、grammar、punctuation、style 或 polish */
+  type: string;
+
+  /** 原文片段在正文中的起始位置（包含） */
+  start: number;
+
+  /** 原文片段在正文中的结束位置（不包含） */
+  end: number;
+
+  /** 原文片段 */
+  original: string;
+
+  /** 建议替换为的文本 */
+  replacement: string;
+
+  /** 说明 */
+  message: string;
+}
+
+/**
+ * AI 用量限制
+ */
+export interface AILimits {
+  /** 每分钟最多请求次数 */
+  requests_per_minute: number;
+
+  /** 每天（UTC）最多消耗的 token 数量 */
+  daily_tokens: number;
+}
+
+/**
+ * ========================================
+ * 建议解析
+ * ========================================
+ */
+
+/**
+ * 解析校对结果并定位到正文中的字符区间
+ *
+ * 模型给出的位置可能不准确，因此以原文片段为准：
+ * 优先使用给出的位置，不一致时从上一条建议之后查找，仍找不到时从头查找；
+ * 无法定位或与已有建议重叠的建议会被丢弃
+ *
+ * @param text - 模型输出的 JSON 文本（允许包裹在代码块中）
+ * @param content - 校对的正文
+ * @returns 按位置排序的建议列表；输出无法解析时返回 null
+ */
+export const parseProofreadSuggestions = (text: string, content: string): AISuggestion[] | null => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return null;
+  }
+
+  const items = Array.isArray(parsed) ? parsed : parsed?.suggestions;
+  if (!Array.isArray(items)) return null;
+
+  const located: Omit<AISuggestion, 'id'>[] = [];
+  let cursor = 0;
+
+  for (const item of items) {
+    if (!item || typeof item.original !== 'string' || !item.original || typeof item.replacement !== 'string') {
+      continue;
+    }
+    if (item.original === item.replacement) continue;
+
+    let start = -1;
+    if (Number.isInteger(item.start) && content.startsWith(item.original, item.start)) {
+      start = item.start;
+    } else {
+      start = content.indexOf(item.original, cursor);
+      if (start === -1) start = content.indexOf(item.original);
+    }
+    if (start === -1) continue;
+
+    const end = start + item.original.length;
+    located.push({
+      type: typeof item.type === 'string' && item.type ? item.type : 'style',
+      start,
+      end,
+      original: item.original,
+      replacement: item.replacement,
+      message: typeof item.message === 'string' ? item.message : ''
+    });
+    cursor = end;
+  }
+
+  located.sort((a, b) => a.start - b.start);
+
+  const suggestions: AISuggestion[] = [];
+  let lastEnd = 0;
+  for (const suggestion of located) {
+    if (suggestion.start < lastEnd) continue;
+    suggestions.push({ id: suggestions.length + 1, ...suggestion });
+    lastEnd = suggestion.end;
+  }
+
+  return suggestions;
+};
+
+/**
+ * 比较原文和修改后的全文，生成逐处修改的建议
+ *
+ * 先按行比较找出修改过的段落，段落较短时再逐词比较，
+ * 避免对整篇长文逐词比较时的计算量
+ *
+ * @param original - 原文
+ * @param revised - 修改后的全文
+ * @param type - 建议类型
+ * @returns 按位置排序的建议列表
+ */
+export const buildDiffSuggestions = (original: string, revised: string, type: string): AISuggestion[] => {
+  const suggestions: AISuggestion[] = [];
+
+  // 将连续的删除和新增合并为一处修改，记录其在原文中的起点
+  const hunks: { start: number; removed: string; added: string }[] = [];
+  let offset = 0;
+  let current: { start: number; removed: string; added: string } | null = null;
+
+  for (const change of diffText(original, revised, 'line').changes) {
+    if (change.type === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      offset += change.value.length;
+      continue;
+    }
+
+    current = current || { start: offset, removed: '', added: '' };
+    if (change.type === 'delete') {
+      current.removed += change.value;
+      offset += change.value.length;
+    } else {
+      current.added += change.value;
+    }
+  }
+  if (current) hunks.push(current);
+
+  const push = (start: number, removed: string, added: string) => {
+    suggestions.push({
+      id: suggestions.length + 1,
+      type,
+      start,
+      end: start + removed.length,
+      original: removed,
+      replacement: added,
+      message: removed === '' ? '新增内容' : added === '' ? '删除内容' : '修改内容'
+    });
+  };
+
+  for (const hunk of hunks) {
+    if (hunk.removed.length > MAX_WORD_DIFF_LENGTH || hunk.added.length > MAX_WORD_DIFF_LENGTH) {
+      push(hunk.start, hunk.removed, hunk.added);
+      continue;
+    }
+
+    let position = hunk.start;
+    let pending: { start: number; removed: string; added: string } | null = null;
+
+    for (const change of diffText(hunk.removed, hunk.added, 'word').changes) {
+      if (change.type === 'equal') {
+        if (pending) push(pending.start, pending.removed, pending.added);
+        pending = null;
+        position += change.value.length;
+        continue;
+      }
+
+      pending = pending || { start: position, removed: '', added: '' };
+      if (change.type === 'delete') {
+        pending.removed += change.value;
+        position += change.value.length;
+      } else {
+        pending.added += change.value;
+      }
+    }
+    if (pending) push(pending.start, pending.removed, pending.added);
+  }
+
+  return suggestions;
+};
+
+/**
+ * 去除模型在正文外包裹的 Markdown 代码块
+ * 部分模型会把完整输出放在 ```markdown 代码块中
+ *
+ * @param text - 模型输出
+ * @returns 正文
+ */
+export const unwrapMarkdownOutput = (text: string): string => {
+  const match = text.trim().match(/^```(?:markdown|md)?\n([\s\S]*)\n```$/);
+  return match ? match[1] : text;
+};
+
+/**
+ * ========================================
+ * 限流和用量统计
+ * ========================================
+ */
+
+/**
+ * 读取 AI 用量限制配置
+ *
+ * @param env - 环境变量
+ * @returns 用量限制
+ */
+export const getAILimits = (env: Env): AILimits => {
+  const requests = parseInt(env.AI_RATE_LIMIT_PER_MINUTE || '');
+  const tokens = parseInt(env.AI_DAILY_TOKEN_LIMIT || '');
+
+  return {
+    requests_per_minute: requests > 0 ? requests : CONFIG.AI_RATE_LIMIT_PER_MINUTE,
+    daily_tokens: tokens > 0 ? tokens : CONFIG.AI_DAILY_TOKEN_LIMIT
+  };
+};
+
+/**
+ * 查询用户最近一分钟的请求次数和当天（UTC）的 token 用量
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 用户ID
+ * @param now - 当前时间
+ * @returns 请求次数和 token 用量
+ */
+export const getAIUsageSummary = async (
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ data: { requests_last_minute: number; tokens_today: number } | null; error: { message: string } | null }> => {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  const { data, error } = await supabase.rpc('get_ai_usage_summary', {
+    p_user_id: userId,
+    p_requests_since: new Date(now.getTime() - 60 * 1000).toISOString(),
+    p_tokens_since: dayStart.toISOString()
+  });
+
+  if (error) return { data: null, error };
+
+  const row = (data || [])[0] || {};
+  return {
+    data: {
+      requests_last_minute: Number(row.recent_requests || 0),
+      tokens_today: Number(row.period_tokens || 0)
+    },
+    error: null
+  };
+};
+
+/**
+ * 检查用户是否超出 AI 用量限制
+ *
+ * @param usage - 用户当前用量
+ * @param limits - 用量限制
+ * @param now - 当前时间
+ * @returns 超出限制时返回错误信息和建议的重试等待秒数，否则返回 null
+ */
+export const checkAILimits = (
+  usage: { requests_last_minute: number; tokens_today: number },
+  limits: AILimits,
+  now: Date = new Date()
+): { error: string; code: string; retryAfter: number } | null => {
+  if (usage.tokens_today >= limits.daily_tokens) {
+    const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return {
+      error: '今日 AI 用量已达上限，请明天再试',
+      code: 'AI_TOKEN_LIMIT',
+      retryAfter: Math.ceil((tomorrow - now.getTime()) / 1000)
+    };
+  }
+
+  if (usage.requests_last_minute >= limits.requests_per_minute) {
+    return { error: 'AI 请求过于频繁，请稍后再试', code: 'AI_RATE_LIMIT', retryAfter: 60 };
+  }
+
+  return null;
+};
+
+/**
+ * 在调用 AI 服务前预留一次用量
+ *
+ * 检查限制和写入预留记录由数据库函数 reserve_ai_usage 在同一个事务中完成，同一用户的并发请求不会同时通过检查；
+ * 预留记录按预估的 token 数计入当天用量，调用结束后通过 settleAIUsage 更新为实际用量
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param record - 用户、任务、提供方和预估的 token 数
+ * @param limits - 用量限制
+ * @param now - 当前时间
+ * @returns 预留记录ID（超出限制时为 null）和预留前的用量
+ */
+export const reserveAIUsage = async (
+  supabase: SupabaseClient,
+  record: { userId: string; task: AITask; provider: string; model: string; estimatedTokens: number },
+  limits: AILimits,
+  now: Date = new Date()
+): Promise<{
+  data: { id: string | null; usage: { requests_last_minute: number; tokens_today: number } } | null;
+  error: { message: string } | null;
+}> => {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  const { data, error } = await supabase.rpc('reserve_ai_usage', {
+    p_user_id: record.userId,
+    p_operation: record.task,
+    p_provider: record.provider,
+    p_model: record.model,
+    p_estimated_tokens: record.estimatedTokens,
+    p_requests_per_minute: limits.requests_per_minute,
+    p_daily_tokens: limits.daily_tokens,
+    p_requests_since: new Date(now.getTime() - 60 * 1000).toISOString(),
+    p_tokens_since: dayStart.toISOString()
+  });
+
+  if (error) return { data: null, error };
+
+  const row = (data || [])[0] || {};
+  return {
+    data: {
+      id: row.usage_id || null,
+      usage: {
+        requests_last_minute: Number(row.recent_requests || 0),
+        tokens_today: Number(row.period_tokens || 0)
+      }
+    },
+    error: null
+  };
+};
+
+/**
+ * 按 AI 服务的实际结果更新预留的用量记录
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param id - reserveAIUsage 返回的预留记录ID
+ * @param usage - 实际 token 用量；调用失败时为 null，记录只计入请求次数
+ * @returns 写入失败时返回错误
+ */
+export const settleAIUsage = async (
+  supabase: SupabaseClient,
+  id: string,
+  usage: AIUsage | null
+): Promise<{ error: { message: string } | null }> => {
+  const { error } = await supabase
+    .from('ai_usage')
+    .update({
+      status: usage ? 'completed' : 'failed',
+      prompt_tokens: usage ? usage.prompt_tokens : 0,
+      completion_tokens: usage ? usage.completion_tokens : 0,
+      total_tokens: usage ? usage.total_tokens : 0
+    })
+    .eq('id', id);
+
+  return { error };
+};
@@ -0,0 +1,236 @@
+/**
+ * ========================================
+ * 资源引用工具函数
+ * ========================================
+ *
+ * 本文件提供文档正文中图片和文件引用的解析、引用表维护和未被引用资源的查找功能
+ *
+ * 图片和文件存放在同一个 R2 存储桶中，正文通过 /api/images/<键>、/api/files/<键>
+ * 或 /api/files/download/<键> 引用，引用记录按对象键保存
+ * 代码块和行内代码中的地址会被忽略；修订历史和未发布的草稿不计入引用
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { stripCode } from './linkUtils';
+import { SITE_CACHE_PREFIX } from './siteUtils';
+
+/** 单篇文档最多记录的不同资源数量 */
+const MAX_ASSETS_PER_DOCUMENT = 500;
+
+/** 每次按对象键查询引用记录的数量 */
+const ASSET_QUERY_BATCH_SIZE = 100;
+
+/** 正文中的资源地址，捕获对象键 */
+const ASSET_REFERENCE_PATTERN = /\/api\/(?:images|files)\/(?:download\/)?([^\s)"'<>?#]+)/g;
+
+/** R2 中文件管理器的文件夹标记对象后缀 */
+const FOLDER_MARKER_SUFFIX = '/.folder';
+
+/**
+ * 引用资源的文档
+ */
+export interface AssetReference {
+  id: string;
+  title: string;
+
+  /** 文档在回收站中时为移入时间 */
+  deleted_at: string | null;
+}
+
+/**
+ * 资源的引用情况
+ */
+export interface AssetUsage {
+  /** 当前用户引用该资源的文档 */
+  used_by: AssetReference[];
+
+  /** 引用该资源的文档总数（包含其他用户的文档） */
+  reference_count: number;
+}
+
+/**
+ * 未被任何文档引用的资源
+ */
+export interface OrphanAsset {
+  key: string;
+  size: number;
+  url: string;
+  uploaded_at: string;
+}
+
+/**
+ * ========================================
+ * 引用解析
+ * ========================================
+ */
+
+/**
+ * 将地址中的对象键还原为 R2 中的键
+ * 去除句末标点并解码 URL 编码（例如 %20）
+ */
+const normalizeAssetKey = (raw: string): string => {
+  const key = raw.replace(/[.,;:!]+$/, '');
+  try {
+    return decodeURIComponent(key);
+  } catch {
+    return key;
+  }
+};
+
+/**
+ * 解析文档正文中引用的资源
+ *
+ * @param content - 文档正文（Markdown）
+ * @returns 对象键到出现次数的映射
+ */
+export const extractAssetReferences = (content: string | null): Map<string, number> => {
+  const references = new Map<string, number>();
+
+  for (const match of stripCode(content || '').matchAll(ASSET_REFERENCE_PATTERN)) {
+    const key = normalizeAssetKey(match[1]);
+    if (!key) continue;
+    references.set(key, (references.get(key) || 0) + 1);
+  }
+
+  return references;
+};
+
+/**
+ * 重建文档的资源引用记录
+ * 每次保存文档内容后调用：解析正文，并替换该文档原有的引用记录
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 文档所有者ID
+ * @param document - 保存后的文档
+ * @returns 写入失败时返回错误
+ */
+export const syncDocumentAssets = async (
+  supabase: SupabaseClient,
+  userId: string,
+  document: { id: string; content: string | null }
+): Promise<{ error: { message: string } | null }> => {
+  const references = extractAssetReferences(document.content);
+  const rows = [...references.entries()].slice(0, MAX_ASSETS_PER_DOCUMENT).map(([key, occurrences]) => ({
+    user_id: userId,
+    document_id: document.id,
+    asset_key: key,
+    occurrences
+  }));
+
+  const { error: deleteError } = await supabase
+    .from('document_assets')
+    .delete()
+    .eq('document_id', document.id);
+
+  if (deleteError) return { error: deleteError };
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from('document_assets').insert(rows);
+    if (insertError) return { error: insertError };
+  }
+
+  return { error: null };
+};
+
+/**
+ * ========================================
+ * 引用查询
+ * ========================================
+ */
+
+/**
+ * 查询资源的引用情况
+ *
+ * 图片和文件存储桶由所有用户共享，因此引用数量统计全部用户的文档，
+ * 但只返回当前用户自己的文档详情
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param keys - 对象键列表
+ * @returns 被引用的对象键到引用情况的映射（未被引用的键不在其中）
+ */
+export const getAssetUsage = async (
+  supabase: SupabaseClient,
+  userId: string,
+  keys: string[]
+): Promise<{ data: Map<string, AssetUsage>; error: { message: string } | null }> => {
+  const usage = new Map<string, AssetUsage>();
+  const uniqueKeys = [...new Set(keys)];
+
+  for (let i = 0; i < uniqueKeys.length; i += ASSET_QUERY_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('document_assets')
+      .select('asset_key, user_id, documents(id, title, deleted_at)')
+      .in('asset_key', uniqueKeys.slice(i, i + ASSET_QUERY_BATCH_SIZE));
+
+    if (error) return { data: usage, error };
+
+    for (const row of (data || []) as any[]) {
+      const entry = usage.get(row.asset_key) || { used_by: [], reference_count: 0 };
+      entry.reference_count++;
+      if (row.user_id === userId && row.documents) {
+        entry.used_by.push({
+          id: row.documents.id,
+          title: row.documents.title,
+          deleted_at: row.documents.deleted_at
+        });
+      }
+      usage.set(row.asset_key, entry);
+    }
+  }
+
+  return { data: usage, error: null };
+};
+
+/**
+ * 查找存储桶中未被任何文档引用的图片和文件
+ * 跳过文件管理器的文件夹标记和公开站点的页面缓存
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param bucket - R2 存储桶实例
+ * @param options.uploadedBefore - 只返回在此之前上传的资源，避免把刚上传、文档尚未保存的资源列为未引用
+ * @returns 未被引用的资源，按上传时间从早到晚排列
+ */
+export const findOrphanAssets = async (
+  supabase: SupabaseClient,
+  bucket: R2Bucket,
+  options: { uploadedBefore: Date }
+): Promise<{ data: OrphanAsset[]; error: { message: string } | null }> => {
+  const candidates: R2Object[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await bucket.list({ cursor, limit: 1000 });
+    candidates.push(...result.objects.filter(object =>
+      !object.key.endsWith(FOLDER_MARKER_SUFFIX) &&
+      !object.key.startsWith(SITE_CACHE_PREFIX) &&
+      object.uploaded < options.uploadedBefore
+    ));
+    cursor = result.truncated ? result.cursor : undefined;
+  } while (cursor);
+
+  const referenced = new Set<string>();
+  for (let i = 0; i < candidates.length; i += ASSET_QUERY_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('document_assets')
+      .select('asset_key')
+      .in('asset_key', candidates.slice(i, i + ASSET_QUERY_BATCH_SIZE).map(object => object.key));
+
+    if (error) return { data: [], error };
+    for (const row of data || []) {
+      referenced.add(row.asset_key);
+    }
+  }
+
+  const orphans = candidates
+    .filter(object => !referenced.has(object.key))
+    .sort((a, b) => a.uploaded.getTime() - b.uploaded.getTime())
+    .map(object => ({
+      key: object.key,
+      size: object.size,
+      url: `/api/files/${object.key}`,
+      uploaded_at: object.uploaded.toISOString()
+    }));
+
+  return { data: orphans, error: null };
+};
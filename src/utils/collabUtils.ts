@@ -0,0 +1,57 @@
+/**
+ * ========================================
+ * 协同编辑工具函数
+ * ========================================
+ *
+ * 本文件提供协同编辑房间使用的纯函数，不依赖 Durable Object 运行环境
+ * 用于把房间外（REST 接口）产生的修改合并进房间的 Y.Text
+ */
+
+import * as Y from 'yjs';
+import { mergeText, MergeResult } from './mergeUtils';
+import { diffText } from './diffUtils';
+
+/**
+ * 把服务端内容三方合并进 Y.Text
+ *
+ * 以基础版本内容为共同祖先，对房间内容和服务端内容做三方合并，
+ * 再把房间内容到合并结果的差异以最小编辑的方式应用到 Y.Text，
+ * 保证编辑者的光标位置和未同步的修改不受影响
+ *
+ * 两侧修改了同一段内容时保留房间中的内容，不写入冲突标记：
+ * 冲突标记会同步给所有编辑者并被写回文档，服务端的那次修改仍保留在修订历史中
+ *
+ * @param text - 房间的 Y.Text
+ * @param baseContent - 房间与服务端的共同基础版本内容
+ * @param serverContent - 服务端当前内容
+ * @param origin - Yjs 事务来源，用于区分修改是否来自客户端
+ * @returns 合并结果，conflicts 为保留房间内容的冲突块数量
+ */
+export const mergeIntoText = (
+  text: Y.Text,
+  baseContent: string,
+  serverContent: string,
+  origin: unknown
+): MergeResult => {
+  const roomContent = text.toString();
+  const result = mergeText(baseContent, roomContent, serverContent, 'ours');
+
+  if (result.content !== roomContent) {
+    const { changes } = diffText(roomContent, result.content, 'word');
+    text.doc!.transact(() => {
+      let index = 0;
+      for (const change of changes) {
+        if (change.type === 'equal') {
+          index += change.value.length;
+        } else if (change.type === 'delete') {
+          text.delete(index, change.value.length);
+        } else {
+          text.insert(index, change.value);
+          index += change.value.length;
+        }
+      }
+    }, origin);
+  }
+
+  return result;
+};
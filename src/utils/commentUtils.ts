@@ -0,0 +1,178 @@
+/**
+ * ========================================
+ * 文档评论工具函数
+ * ========================================
+ *
+ * 本文件提供评论锚点的创建与重新定位、@ 提及解析等功能
+ * 锚点保存选中文本及其前后上下文，文档内容变化后根据这些信息重新查找位置，
+ * 找不到锚定文本时讨论串被标记为孤立（orphaned），评论本身不会丢失
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CommentThread } from './supabaseClient';
+
+/** 锚点前后保存的上下文长度（字符） */
+export const ANCHOR_CONTEXT_LENGTH = 32;
+
+/** 单条评论的最大长度 */
+export const MAX_COMMENT_LENGTH = 10000;
+
+/**
+ * 锚点信息
+ */
+export interface CommentAnchor {
+  anchor_start: number;
+  anchor_end: number;
+  anchor_text: string;
+  anchor_prefix: string;
+  anchor_suffix: string;
+}
+
+/**
+ * 根据文档内容和选区生成锚点
+ *
+ * @param content - 文档内容
+ * @param start - 选区起始位置（包含）
+ * @param end - 选区结束位置（不包含）
+ * @returns 锚点信息
+ */
+export const createAnchor = (content: string, start: number, end: number): CommentAnchor => {
+  return {
+    anchor_start: start,
+    anchor_end: end,
+    anchor_text: content.slice(start, end),
+    anchor_prefix: content.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+    anchor_suffix: content.slice(end, end + ANCHOR_CONTEXT_LENGTH)
+  };
+};
+
+/**
+ * 计算候选位置与锚点上下文的匹配程度
+ * 从锚点向外逐字符比较前缀和后缀，返回相同字符的总数
+ */
+const getContextScore = (content: string, index: number, anchor: CommentAnchor): number => {
+  let score = 0;
+
+  for (let i = 1; i <= anchor.anchor_prefix.length; i++) {
+    if (content[index - i] !== anchor.anchor_prefix[anchor.anchor_prefix.length - i]) break;
+    score++;
+  }
+
+  const end = index + anchor.anchor_text.length;
+  for (let i = 0; i < anchor.anchor_suffix.length; i++) {
+    if (content[end + i] !== anchor.anchor_suffix[i]) break;
+    score++;
+  }
+
+  return score;
+};
+
+/**
+ * 在新的文档内容中重新定位锚点
+ *
+ * - 在全文中查找锚定文本，多处匹配时选择上下文最吻合的一处，吻合程度相同时选择距离原位置最近的一处
+ * - 锚定文本已不存在时返回 null
+ *
+ * @param content - 当前文档内容
+ * @param anchor - 原锚点
+ * @returns 新的锚点；无法定位时返回 null
+ */
+export const resolveAnchor = (content: string, anchor: CommentAnchor): CommentAnchor | null => {
+  const text = anchor.anchor_text;
+  if (!text) return null;
+
+  let best = -1;
+  let bestScore = -1;
+  let bestDistance = Infinity;
+
+  for (let index = content.indexOf(text); index !== -1; index = content.indexOf(text, index + 1)) {
+    const score = getContextScore(content, index, anchor);
+    const distance = Math.abs(index - anchor.anchor_start);
+    if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+      best = index;
+      bestScore = score;
+      bestDistance = distance;
+    }
+  }
+
+  return best === -1 ? null : createAnchor(content, best, best + text.length);
+};
+
+/**
+ * 将讨论串锚点重新定位到文档的当前版本
+ *
+ * 只处理锚点版本与文档版本不一致的讨论串，并把变化写回数据库，
+ * 因此无论文档通过哪种途径保存（编辑、协同、恢复修订等），读取评论时锚点都是最新的
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param document - 文档当前的内容和版本号
+ * @param threads - 需要检查的讨论串
+ * @returns 重新定位后的讨论串，写入失败时返回错误
+ */
+export const reanchorThreads = async <T extends CommentThread>(
+  supabase: SupabaseClient,
+  document: { content: string | null; version: number },
+  threads: T[]
+): Promise<{ data: T[]; error: { message: string } | null }> => {
+  const content = document.content || '';
+  const result: T[] = [];
+
+  for (const thread of threads) {
+    if (thread.anchor_version === document.version) {
+      result.push(thread);
+      continue;
+    }
+
+    const anchor = resolveAnchor(content, thread);
+    const updates = anchor
+      ? { ...anchor, orphaned: false, anchor_version: document.version }
+      : { orphaned: true, anchor_version: document.version };
+
+    const { error } = await supabase
+      .from('comment_threads')
+      .update(updates)
+      .eq('id', thread.id);
+
+    if (error) {
+      return { data: [], error };
+    }
+
+    result.push({ ...thread, ...updates });
+  }
+
+  return { data: result, error: null };
+};
+
+/**
+ * 解析评论中的 @ 提及
+ * 提及格式为 @ 加协作者邮箱，例如 "@alice@example.com 请看一下"
+ *
+ * @param body - 评论内容
+ * @returns 去重后的小写邮箱列表
+ */
+export const extractMentions = (body: string): string[] => {
+  const mentions = new Set<string>();
+  const pattern = /(^|[^\w.+-])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+  for (const match of body.matchAll(pattern)) {
+    mentions.add(match[2].toLowerCase());
+  }
+
+  return [...mentions];
+};
+
+/**
+ * 校验并规范化评论内容
+ *
+ * @param body - 客户端提交的评论内容
+ * @returns 去除首尾空白后的评论内容；无效时返回错误信息
+ */
+export const normalizeCommentBody = (body: unknown): { body: string } | { error: string } => {
+  if (typeof body !== 'string' || !body.trim()) {
+    return { error: '评论内容不能为空' };
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return { error: `评论内容不能超过 ${MAX_COMMENT_LENGTH} 个字符` };
+  }
+  return { body: body.trim() };
+};
@@ -0,0 +1,168 @@
+/**
+ * ========================================
+ * 加密工具函数
+ * ========================================
+ *
+ * 本文件基于 Web Crypto API 提供随机令牌生成、密码哈希和敏感信息加密功能
+ * 可直接在 Cloudflare Workers 运行时中使用
+ */
+
+/** PBKDF2 迭代次数 */
+const PBKDF2_ITERATIONS = 100000;
+
+/**
+ * 将字节数组编码为 Base64URL 字符串（无填充）
+ *
+ * @param bytes - 字节数组
+ * @returns Base64URL 字符串
+ */
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * 将 Base64URL 字符串解码为字节数组
+ *
+ * @param value - Base64URL 字符串
+ * @returns 字节数组
+ */
+export const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/**
+ * 生成安全的随机令牌
+ *
+ * @param byteLength - 随机字节数，默认为 24
+ * @returns Base64URL 编码的令牌
+ */
+export const generateToken = (byteLength: number = 24): string => {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+/**
+ * 使用 PBKDF2-SHA256 计算密码哈希
+ *
+ * @param password - 明文密码
+ * @param salt - Base64URL 编码的盐值，未提供时自动生成
+ * @returns 哈希值和盐值（均为 Base64URL 编码）
+ */
+export const hashPassword = async (
+  password: string,
+  salt?: string
+): Promise<{ hash: string; salt: string }> => {
+  const saltBytes = salt ? fromBase64Url(salt) : crypto.getRandomValues(new Uint8Array(16));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: saltBytes, iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+
+  return {
+    hash: toBase64Url(new Uint8Array(bits)),
+    salt: toBase64Url(saltBytes)
+  };
+};
+
+/**
+ * 校验密码是否与哈希匹配
+ * 使用恒定时间比较，避免时序攻击
+ *
+ * @param password - 待校验的明文密码
+ * @param hash - 已保存的哈希值
+ * @param salt - 已保存的盐值
+ * @returns 是否匹配
+ */
+export const verifyPassword = async (password: string, hash: string, salt: string): Promise<boolean> => {
+  const { hash: computed } = await hashPassword(password, salt);
+  return timingSafeEqual(computed, hash);
+};
+
+/**
+ * 恒定时间比较两个字符串
+ *
+ * @param a - 字符串 A
+ * @param b - 字符串 B
+ * @returns 是否相等
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+/**
+ * 由密钥字符串派生 AES-GCM 密钥
+ * 对密钥字符串做 SHA-256，任意长度的配置值都能得到 256 位密钥
+ */
+const deriveAesKey = async (secret: string): Promise<CryptoKey> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+/**
+ * 使用 AES-GCM 加密敏感信息（如第三方服务密码）
+ *
+ * @param plaintext - 明文
+ * @param secret - 加密密钥（来自环境变量）
+ * @returns 形如 "<iv>.<密文>" 的字符串（均为 Base64URL 编码）
+ */
+export const encryptSecret = async (plaintext: string, secret: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveAesKey(secret);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+};
+
+/**
+ * 解密 encryptSecret 生成的密文
+ *
+ * @param encrypted - "<iv>.<密文>" 格式的字符串
+ * @param secret - 加密密钥
+ * @returns 明文；密钥不匹配或密文被篡改时返回 null
+ */
+export const decryptSecret = async (encrypted: string, secret: string): Promise<string | null> => {
+  const [iv, ciphertext] = encrypted.split('.');
+  if (!iv || !ciphertext) return null;
+
+  try {
+    const key = await deriveAesKey(secret);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(iv) }, key, fromBase64Url(ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 计算 HMAC-SHA256 签名
+ *
+ * @param secret - 签名密钥
+ * @param message - 待签名的内容
+ * @returns 十六进制编码的签名
+ */
+export const hmacSha256Hex = async (secret: string, message: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  return Array.from(signature, byte => byte.toString(16).padStart(2, '0')).join('');
+};
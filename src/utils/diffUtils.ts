@@ -0,0 +1,285 @@
+/**
+ * ========================================
+ * 文本差异比较工具函数
+ * ========================================
+ *
+ * 本文件提供基于 Myers 算法的文本差异比较功能
+ * 支持按行和按词两种粒度比较两段文本
+ * 中日文字符按单字切分，其他文字按单词切分
+ */
+
+/**
+ * ========================================
+ * 类型定义
+ * ========================================
+ */
+
+/** 差异比较粒度 */
+export type DiffMode = 'line' | 'word';
+
+/**
+ * 差异片段接口
+ * 连续的同类型片段会被合并为一个
+ */
+export interface DiffChange {
+  /** 片段类型：相同、新增或删除 */
+  type: 'equal' | 'insert' | 'delete';
+
+  /** 片段文本 */
+  value: string;
+}
+
+/**
+ * 差异统计接口
+ */
+export interface DiffStats {
+  /** 新增的行数或词数 */
+  additions: number;
+
+  /** 删除的行数或词数 */
+  deletions: number;
+}
+
+/**
+ * ========================================
+ * 文本切分函数
+ * ========================================
+ */
+
+/** 单词切分正则：中日文单字、连续字母数字、连续空白、单个标点 */
+const WORD_TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * 按指定粒度切分文本
+ * 切分结果拼接后与原文本完全一致
+ *
+ * @param text - 待切分的文本
+ * @param mode - 切分粒度
+ * @returns 切分后的片段数组
+ */
+export const tokenize = (text: string, mode: DiffMode): string[] => {
+  if (!text) return [];
+
+  if (mode === 'line') {
+    // 保留每行末尾的换行符
+    return text.split(/(?<=\n)/);
+  }
+
+  return text.match(WORD_TOKEN_PATTERN) || [];
+};
+
+/**
+ * ========================================
+ * 差异比较函数
+ * ========================================
+ */
+
+/**
+ * 参与逐片段比较的片段数上限（剥离公共前缀和后缀后两侧合计）
+ * 超过时不再逐片段比较，整段作为一次删除加一次新增返回，避免耗尽 CPU
+ */
+export const MAX_DIFF_TOKENS = 20000;
+
+/**
+ * 比较单个修订正文的字节数上限
+ */
+export const MAX_DIFF_BYTES = 2 * 1024 * 1024;
+
+/**
+ * 从两端同时搜索最短编辑路径（线性空间的 Myers 算法），返回两条路径相遇的位置
+ * 只保留当前一步的 V 数组，内存占用与片段数成正比
+ *
+ * @returns 拆分位置（旧序列下标 x，新序列下标 y）；两侧没有公共片段时返回 null
+ */
+const bisect = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number
+): { x: number; y: number } | null => {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+
+  // forward[k]：正向路径在对角线 k 上到达的最远 x；backward[k]：反向路径从末尾退回的最远距离
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  const delta = n - m;
+  // 两侧长度差为奇数时由正向路径检测相遇，否则由反向路径检测
+  const checkForward = delta % 2 !== 0;
+
+  // 路径越过边界后，对应方向的对角线范围需要收缩
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+        ? forward[index + 1]
+        : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const backwardIndex = offset + delta - k;
+        if (backwardIndex >= 0 && backwardIndex < size && backward[backwardIndex] !== -1) {
+          if (x >= n - backward[backwardIndex]) {
+            return { x: aStart + x, y: bStart + y };
+          }
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+        ? backward[index + 1]
+        : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          const forwardY = forwardX - (forwardIndex - offset);
+          if (forwardX >= n - x) {
+            return { x: aStart + forwardX, y: bStart + forwardY };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * 比较两个片段序列的指定区间，结果追加到 changes
+ * 先剥离公共前缀和后缀，再用 bisect 找到最短编辑路径上的一个中间点，分成两段递归比较
+ */
+const diffRange = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  changes: DiffChange[]
+): void => {
+  // 剥离公共前缀
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    changes.push({ type: 'equal', value: a[aStart] });
+    aStart++;
+    bStart++;
+  }
+
+  // 剥离公共后缀
+  let suffix = 0;
+  while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) {
+    suffix++;
+  }
+  const oldEnd = aEnd - suffix;
+  const newEnd = bEnd - suffix;
+  const n = oldEnd - aStart;
+  const m = newEnd - bStart;
+
+  const split = n > 0 && m > 0 && n + m <= MAX_DIFF_TOKENS
+    ? bisect(a, aStart, oldEnd, b, bStart, newEnd)
+    : null;
+
+  if (split) {
+    diffRange(a, aStart, split.x, b, bStart, split.y, changes);
+    diffRange(a, split.x, oldEnd, b, split.y, newEnd, changes);
+  } else {
+    for (let i = aStart; i < oldEnd; i++) changes.push({ type: 'delete', value: a[i] });
+    for (let j = bStart; j < newEnd; j++) changes.push({ type: 'insert', value: b[j] });
+  }
+
+  for (let i = oldEnd; i < aEnd; i++) {
+    changes.push({ type: 'equal', value: a[i] });
+  }
+};
+
+/**
+ * 使用 Myers 算法比较两个片段序列
+ * 采用线性空间的分治实现；剥离公共部分后差异区间超过 MAX_DIFF_TOKENS 个片段时，
+ * 该区间整体作为一次删除加一次新增返回
+ *
+ * @param a - 旧片段序列
+ * @param b - 新片段序列
+ * @returns 逐片段的差异操作序列（未合并）
+ */
+export const diffTokens = (a: string[], b: string[]): DiffChange[] => {
+  const changes: DiffChange[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, changes);
+  return changes;
+};
+
+/**
+ * 比较两段文本的差异
+ *
+ * @param oldText - 旧文本
+ * @param newText - 新文本
+ * @param mode - 比较粒度，默认为按行
+ * @returns 合并后的差异片段和统计信息
+ *
+ * @example
+ * ```typescript
+ * const { changes, stats } = diffText('hello world', 'hello there', 'word');
+ * // changes: [{ type: 'equal', value: 'hello ' }, { type: 'delete', value: 'world' }, { type: 'insert', value: 'there' }]
+ * ```
+ */
+export const diffText = (
+  oldText: string,
+  newText: string,
+  mode: DiffMode = 'line'
+): { changes: DiffChange[]; stats: DiffStats } => {
+  const tokenChanges = diffTokens(tokenize(oldText, mode), tokenize(newText, mode));
+
+  const stats: DiffStats = { additions: 0, deletions: 0 };
+  const changes: DiffChange[] = [];
+
+  for (const change of tokenChanges) {
+    // 统计时忽略纯空白的单词片段
+    const countable = mode === 'line' || change.value.trim() !== '';
+    if (change.type === 'insert' && countable) stats.additions++;
+    if (change.type === 'delete' && countable) stats.deletions++;
+
+    // 合并连续的同类型片段
+    const last = changes[changes.length - 1];
+    if (last && last.type === change.type) {
+      last.value += change.value;
+    } else {
+      changes.push({ ...change });
+    }
+  }
+
+  return { changes, stats };
+};
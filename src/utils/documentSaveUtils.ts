@@ -0,0 +1,236 @@
+/**
+ * ========================================
+ * 文档保存工具函数
+ * ========================================
+ *
+ * 本文件提供文档写入数据库之后的统一处理流程
+ * 所有创建、修改、删除文档的路由在写入成功后都应调用这里的函数，保证各入口的行为一致：
+ *
+ * 保存后：修订记录 -> 链接记录 -> 资源引用记录 -> 公开站点缓存失效 -> Webhook 通知
+ * 批量移动、修改标签、复制后：公开站点缓存失效 -> Webhook 通知
+ * 删除后：公开站点缓存失效 -> Webhook 通知
+ *
+ * 元数据（metadata）需要与正文在同一次写入中保存，由调用方使用 buildDocumentMetadata 计算
+ *
+ * 站点缓存失效需要逐个清理 R2 中的页面，调用方提供 executionCtx 时在响应返回后通过 waitUntil 继续执行
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Env } from '../config';
+import { User } from '../types/context';
+import { DocumentRevision } from './supabaseClient';
+import { recordRevision } from './revisionUtils';
+import { updateLinksAfterSave } from './linkUtils';
+import { syncDocumentAssets } from './assetUtils';
+import { invalidatePublishedSites } from './siteUtils';
+import { buildDocumentEventData, dispatchWebhookEvent } from './webhookUtils';
+
+/**
+ * 保存后的文档记录（写入时 select 返回的字段）
+ */
+export interface SavedDocument {
+  id: string;
+  title: string;
+  content: string | null;
+  folder_id?: string | null;
+  version?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * 保存后处理选项
+ */
+export interface DocumentSaveOptions {
+  /** 通知 Webhook 的事件类型 */
+  event: 'document.created' | 'document.updated';
+
+  /** 本次修改的字段（title、content、folder_id 等），随 document.updated 事件发送；新建文档时忽略 */
+  changes?: string[];
+
+  /** 移动文档时的原文件夹，原文件夹所在的站点缓存也会失效 */
+  previousFolderId?: string | null;
+
+  /** 由恢复修订产生时，被恢复的修订ID */
+  restoredFrom?: string;
+
+  /** 是否写入修订记录（默认 true）；修订已由数据库函数写入时关闭 */
+  writeRevision?: boolean;
+
+  /** 是否使站点缓存失效（默认 true）；批量写入的路由可以关闭后在最后统一处理 */
+  invalidateSites?: boolean;
+
+  /** 是否通知 Webhook（默认 true）；每次写入时已经通知过的调用方（如协同编辑房间）关闭 */
+  dispatchEvent?: boolean;
+
+  /** 请求的执行上下文；提供时站点缓存失效在后台执行，不阻塞响应 */
+  executionCtx?: Pick<ExecutionContext, 'waitUntil'>;
+}
+
+/**
+ * 使文档所在文件夹的公开站点缓存失效
+ * 提供 executionCtx 时交给 waitUntil 在后台执行，否则等待完成；失效失败只记录日志
+ */
+const invalidateSites = async (
+  supabase: SupabaseClient,
+  env: Env,
+  userId: string,
+  folderIds: (string | null | undefined)[],
+  executionCtx?: Pick<ExecutionContext, 'waitUntil'>
+): Promise<void> => {
+  const task = invalidatePublishedSites(supabase, env.R2_BUCKET, userId, folderIds);
+  if (executionCtx) {
+    executionCtx.waitUntil(task);
+  } else {
+    await task;
+  }
+};
+
+/**
+ * 文档写入后执行保存流程
+ *
+ * - 新建文档或标题、内容变化时写入修订记录并更新链接记录（新建或标题变化时关联悬空链接）
+ * - 新建文档或内容变化时更新资源引用记录
+ * - 使文档所在（和原来所在）文件夹的公开站点缓存失效
+ * - 通知订阅了该事件的 Webhook
+ *
+ * 修订记录写入失败时文档已经保存，仍继续执行之后的步骤，最后返回错误，调用方应按保存失败处理；
+ * 链接或资源引用记录写入失败时返回错误，之后的步骤不再执行
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param env - 环境变量绑定
+ * @param user - 执行保存的用户（文档所有者）
+ * @param document - 保存后的文档
+ * @param options - 保存后处理选项
+ * @returns 新写入的修订记录
+ *
+ * @example
+ * ```typescript
+ * const { error } = await afterDocumentSaved(supabase, c.env, user, data[0], {
+ *   event: 'document.updated',
+ *   changes: ['content'],
+ *   executionCtx: c.executionCtx
+ * });
+ * if (error) return c.json({ error: error.message }, 500);
+ * ```
+ */
+export const afterDocumentSaved = async (
+  supabase: SupabaseClient,
+  env: Env,
+  user: User,
+  document: SavedDocument,
+  options: DocumentSaveOptions
+): Promise<{ revision: DocumentRevision | null; error: { message: string } | null }> => {
+  const created = options.event === 'document.created';
+  const changes = options.changes || [];
+  const titleChanged = created || changes.includes('title');
+  const contentChanged = created || changes.includes('content');
+
+  let revision: DocumentRevision | null = null;
+  let revisionError: { message: string } | null = null;
+
+  if (titleChanged || contentChanged) {
+    if (options.writeRevision !== false) {
+      const { data, error } = await recordRevision(supabase, document, user, options.restoredFrom);
+      revision = data;
+      if (error) {
+        console.error(`Document ${document.id} was saved without a revision:`, error.message);
+        revisionError = { message: `文档已保存，但修订记录写入失败：${error.message}` };
+      }
+    }
+
+    const { error: linksError } = await updateLinksAfterSave(supabase, user.id, document, { titleChanged });
+    if (linksError) return { revision, error: linksError };
+  }
+
+  if (contentChanged) {
+    const { error: assetsError } = await syncDocumentAssets(supabase, user.id, document);
+    if (assetsError) return { revision, error: assetsError };
+  }
+
+  if (options.invalidateSites !== false) {
+    await invalidateSites(supabase, env, user.id, [options.previousFolderId, document.folder_id], options.executionCtx);
+  }
+
+  if (options.dispatchEvent !== false) {
+    await dispatchWebhookEvent(
+      supabase,
+      env.WEBHOOK_QUEUE,
+      user.id,
+      options.event,
+      created ? buildDocumentEventData(document) : { ...buildDocumentEventData(document), changes }
+    );
+  }
+
+  return { revision, error: revisionError };
+};
+
+/**
+ * 批量移动、修改标签或复制文档后执行的流程：使公开站点缓存失效，并为每篇文档通知 Webhook
+ * 这些操作不修改标题和正文，因此不更新修订、链接和资源引用记录；
+ * 复制时副本的修订、出链和资源引用记录由数据库函数 bulk_duplicate_documents 在同一事务中写入
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param env - 环境变量绑定
+ * @param userId - 文档所有者ID
+ * @param event - 通知 Webhook 的事件类型
+ * @param documents - 变更后的文档
+ * @param options.changes - 本次修改的字段，随 document.updated 事件发送
+ * @param options.previousFolderIds - 文档原来所在的文件夹（移动时）
+ * @param options.executionCtx - 请求的执行上下文；提供时站点缓存失效在后台执行
+ */
+export const afterDocumentsChanged = async (
+  supabase: SupabaseClient,
+  env: Env,
+  userId: string,
+  event: 'document.created' | 'document.updated',
+  documents: Omit<SavedDocument, 'content'>[],
+  options: {
+    changes?: string[];
+    previousFolderIds?: (string | null)[];
+    executionCtx?: Pick<ExecutionContext, 'waitUntil'>;
+  } = {}
+): Promise<void> => {
+  if (documents.length === 0) return;
+
+  await invalidateSites(supabase, env, userId, [
+    ...(options.previousFolderIds || []),
+    ...documents.map(document => document.folder_id)
+  ], options.executionCtx);
+
+  await dispatchWebhookEvent(supabase, env.WEBHOOK_QUEUE, userId, event, documents.map(document => event === 'document.created'
+    ? buildDocumentEventData(document)
+    : { ...buildDocumentEventData(document), changes: options.changes || [] }));
+};
+
+/**
+ * 文档移入回收站后执行删除流程：使公开站点缓存失效，并逐篇通知订阅了 document.deleted 的 Webhook
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param env - 环境变量绑定
+ * @param userId - 文档所有者ID
+ * @param documents - 移入回收站的文档
+ * @param deletedAt - 移入回收站的时间
+ * @param options.invalidateSites - 是否使站点缓存失效（默认 true）
+ * @param options.executionCtx - 请求的执行上下文；提供时站点缓存失效在后台执行
+ */
+export const afterDocumentsDeleted = async (
+  supabase: SupabaseClient,
+  env: Env,
+  userId: string,
+  documents: { id: string; folder_id: string | null }[],
+  deletedAt: string,
+  options: { invalidateSites?: boolean; executionCtx?: Pick<ExecutionContext, 'waitUntil'> } = {}
+): Promise<void> => {
+  if (documents.length === 0) return;
+
+  if (options.invalidateSites !== false) {
+    await invalidateSites(supabase, env, userId, documents.map(document => document.folder_id), options.executionCtx);
+  }
+
+  await dispatchWebhookEvent(supabase, env.WEBHOOK_QUEUE, userId, 'document.deleted', documents.map(document => ({
+    id: document.id,
+    folder_id: document.folder_id,
+    deleted_at: deletedAt
+  })));
+};
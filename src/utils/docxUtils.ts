@@ -0,0 +1,797 @@
+/**
+ * ========================================
+ * DOCX 转换工具函数
+ * ========================================
+ *
+ * 本文件提供 Markdown 与 Word (DOCX) 文件之间的相互转换
+ * - 导出：基于 marked 的词法分析结果直接生成 WordprocessingML，不依赖外部服务，
+ *   支持标题、段落、强调、行内代码、链接、列表（含任务列表）、引用、代码块、表格、分隔线和图片
+ * - 导入：读取 DOCX 中的正文、样式、编号和关系部件，转换为 Markdown
+ */
+
+import { Lexer, Token, Tokens } from 'marked';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { ExportAsset, ExportDocument, escapeXml, matchAssetKey } from './exportUtils';
+import { getImageDimensions } from './imageUtils';
+import { MarkupElement, getTextContent, parseMarkup } from './markupUtils';
+
+/** 1 像素对应的 EMU（English Metric Unit）数值，按 96 DPI 计算 */
+const EMU_PER_PIXEL = 9525;
+
+/** 图片最大显示宽度（EMU），约等于 A4 纸去除页边距后的版心宽度 */
+const MAX_IMAGE_WIDTH_EMU = 5760720;
+
+/** Word 支持直接嵌入的图片类型 */
+const DOCX_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/bmp']);
+
+/**
+ * 行内格式状态
+ */
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+/**
+ * 转换过程中的状态
+ * 记录需要写入关系文件的超链接和图片，以及编号列表实例
+ */
+interface DocxContext {
+  assets: Map<string, ExportAsset>;
+  baseUrl: string;
+  relationships: string[];
+  hyperlinkIds: Map<string, string>;
+  imageIds: Map<string, string>;
+  numberings: { abstractId: number; start: number }[];
+  drawingCount: number;
+}
+
+/**
+ * ========================================
+ * 关系与资源
+ * ========================================
+ */
+
+/**
+ * 获取（或新建）外部超链接的关系ID
+ */
+const getHyperlinkId = (ctx: DocxContext, href: string): string => {
+  let id = ctx.hyperlinkIds.get(href);
+  if (!id) {
+    id = `rId${ctx.relationships.length + 10}`;
+    ctx.relationships.push(
+      `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+    );
+    ctx.hyperlinkIds.set(href, id);
+  }
+  return id;
+};
+
+/**
+ * 获取（或新建）图片的关系ID
+ */
+const getImageId = (ctx: DocxContext, asset: ExportAsset): string => {
+  let id = ctx.imageIds.get(asset.key);
+  if (!id) {
+    id = `rId${ctx.relationships.length + 10}`;
+    ctx.relationships.push(
+      `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${escapeXml(asset.fileName)}"/>`
+    );
+    ctx.imageIds.set(asset.key, id);
+  }
+  return id;
+};
+
+/**
+ * 将链接地址解析为 Word 可打开的绝对地址
+ * 只允许 http(s) 和 mailto，锚点和其他协议返回 null
+ */
+const resolveHref = (href: string, baseUrl: string): string | null => {
+  if (!href || href.startsWith('#')) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * ========================================
+ * 行内元素
+ * ========================================
+ */
+
+/**
+ * 生成一个文本 run
+ */
+const buildRun = (text: string, format: RunFormat): string => {
+  if (!text) return '';
+
+  const properties: string[] = [];
+  if (format.link) properties.push('<w:rStyle w:val="Hyperlink"/>');
+  if (format.code) properties.push('<w:rStyle w:val="CodeChar"/>');
+  if (format.bold) properties.push('<w:b/>');
+  if (format.italic) properties.push('<w:i/>');
+  if (format.strike) properties.push('<w:strike/>');
+
+  const rPr = properties.length > 0 ? `<w:rPr>${properties.join('')}</w:rPr>` : '';
+  // 段落内的软换行按空格处理，与 Markdown 渲染结果一致
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text.replace(/\n/g, ' '))}</w:t></w:r>`;
+};
+
+/**
+ * 生成内嵌图片；无法嵌入时返回 null
+ */
+const buildImage = (ctx: DocxContext, token: Tokens.Image): string | null => {
+  const key = matchAssetKey(token.href);
+  const asset = key ? ctx.assets.get(key) : undefined;
+  if (!asset || !DOCX_IMAGE_TYPES.has(asset.contentType)) return null;
+
+  const dimensions = getImageDimensions(asset.data, asset.fileName) || { width: 480, height: 320 };
+  let cx = Math.max(1, dimensions.width) * EMU_PER_PIXEL;
+  let cy = Math.max(1, dimensions.height) * EMU_PER_PIXEL;
+  if (cx > MAX_IMAGE_WIDTH_EMU) {
+    cy = Math.round(cy * MAX_IMAGE_WIDTH_EMU / cx);
+    cx = MAX_IMAGE_WIDTH_EMU;
+  }
+
+  const relId = getImageId(ctx, asset);
+  const drawingId = ++ctx.drawingCount;
+  const name = escapeXml(token.text || asset.fileName);
+
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${drawingId}" name="${name}"/>` +
+    `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">` +
+    `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:nvPicPr><pic:cNvPr id="${drawingId}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+/**
+ * 将行内 token 转换为 run 序列
+ */
+const renderInline = (ctx: DocxContext, tokens: Token[] | undefined, format: RunFormat = {}): string => {
+  let xml = '';
+
+  for (const token of tokens || []) {
+    switch (token.type) {
+      case 'strong':
+        xml += renderInline(ctx, token.tokens, { ...format, bold: true });
+        break;
+      case 'em':
+        xml += renderInline(ctx, token.tokens, { ...format, italic: true });
+        break;
+      case 'del':
+        xml += renderInline(ctx, token.tokens, { ...format, strike: true });
+        break;
+      case 'codespan':
+        xml += buildRun(token.text, { ...format, code: true });
+        break;
+      case 'br':
+        xml += '<w:r><w:br/></w:r>';
+        break;
+      case 'link': {
+        const href = resolveHref(token.href, ctx.baseUrl);
+        const inner = renderInline(ctx, token.tokens, href ? { ...format, link: true } : format);
+        xml += href ? `<w:hyperlink r:id="${getHyperlinkId(ctx, href)}">${inner}</w:hyperlink>` : inner;
+        break;
+      }
+      case 'image': {
+        const image = buildImage(ctx, token as Tokens.Image);
+        if (image) {
+          xml += image;
+        } else {
+          // 外部图片或不支持的格式以链接形式保留
+          const href = resolveHref(token.href, ctx.baseUrl);
+          const label = buildRun(token.text || token.href, { ...format, link: !!href });
+          xml += href ? `<w:hyperlink r:id="${getHyperlinkId(ctx, href)}">${label}</w:hyperlink>` : label;
+        }
+        break;
+      }
+      case 'text':
+        xml += token.tokens ? renderInline(ctx, token.tokens, format) : buildRun(token.text, format);
+        break;
+      case 'escape':
+      case 'html':
+        xml += buildRun(token.text, format);
+        break;
+      default:
+        if ('text' in token && typeof token.text === 'string') {
+          xml += buildRun(token.text, format);
+        }
+    }
+  }
+
+  return xml;
+};
+
+/**
+ * ========================================
+ * 块级元素
+ * ========================================
+ */
+
+/**
+ * 生成段落
+ */
+const buildParagraph = (runs: string, properties: string = ''): string => {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+/**
+ * 块级元素所处的上下文
+ */
+interface BlockScope {
+  /** 段落样式（引用块中为 Quote） */
+  style?: string;
+  /** 所在列表的编号实例和层级 */
+  list?: { numId: number; level: number };
+}
+
+/**
+ * 生成段落属性
+ */
+const buildParagraphProperties = (scope: BlockScope, style?: string): string => {
+  const effectiveStyle = style || scope.style;
+  let properties = effectiveStyle ? `<w:pStyle w:val="${effectiveStyle}"/>` : '';
+  if (scope.list) {
+    properties += `<w:numPr><w:ilvl w:val="${scope.list.level}"/><w:numId w:val="${scope.list.numId}"/></w:numPr>`;
+  }
+  return properties;
+};
+
+/**
+ * 生成表格
+ */
+const buildTable = (ctx: DocxContext, token: Tokens.Table): string => {
+  const columnCount = token.header.length;
+  const columnWidth = Math.floor(9000 / Math.max(1, columnCount));
+
+  const buildCell = (cell: Tokens.TableCell, isHeader: boolean) => {
+    const align = cell.align ? `<w:jc w:val="${cell.align === 'center' ? 'center' : cell.align === 'right' ? 'right' : 'left'}"/>` : '';
+    const runs = renderInline(ctx, cell.tokens, isHeader ? { bold: true } : {});
+    return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : ''}</w:tcPr>${buildParagraph(runs, align)}</w:tc>`;
+  };
+
+  const headerRow = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${token.header.map(cell => buildCell(cell, true)).join('')}</w:tr>`;
+  const bodyRows = token.rows.map(row => `<w:tr>${row.map(cell => buildCell(cell, false)).join('')}</w:tr>`).join('');
+
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>` +
+    `<w:tblGrid>${Array.from({ length: columnCount }, () => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>` +
+    `${headerRow}${bodyRows}</w:tbl>` +
+    // 表格后追加空段落，避免相邻表格被 Word 合并
+    '<w:p/>';
+};
+
+/**
+ * 将块级 token 转换为 WordprocessingML
+ */
+const renderBlocks = (ctx: DocxContext, tokens: Token[], scope: BlockScope = {}): string => {
+  let xml = '';
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        xml += buildParagraph(renderInline(ctx, token.tokens), `<w:pStyle w:val="Heading${Math.min(token.depth, 6)}"/>`);
+        break;
+      case 'paragraph':
+        xml += buildParagraph(renderInline(ctx, token.tokens), buildParagraphProperties(scope));
+        break;
+      case 'text':
+        // 紧凑列表项中的文本不会包裹在 paragraph 中
+        xml += buildParagraph(renderInline(ctx, token.tokens || [token]), buildParagraphProperties(scope));
+        break;
+      case 'code': {
+        const lines = (token.text as string).split('\n');
+        const runs = lines
+          .map((line, index) => `${index > 0 ? '<w:r><w:br/></w:r>' : ''}<w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+          .join('');
+        xml += buildParagraph(runs, '<w:pStyle w:val="Code"/>');
+        break;
+      }
+      case 'blockquote':
+        xml += renderBlocks(ctx, token.tokens || [], { ...scope, style: 'Quote' });
+        break;
+      case 'list': {
+        const list = token as Tokens.List;
+        ctx.numberings.push({ abstractId: list.ordered ? 1 : 0, start: typeof list.start === 'number' ? list.start : 1 });
+        const numId = ctx.numberings.length;
+        const level = scope.list ? Math.min(scope.list.level + 1, 8) : 0;
+
+        for (const item of list.items) {
+          let first = true;
+          for (const child of item.tokens) {
+            // 列表项的第一个段落带编号，其余内容按同级缩进续排
+            if (first && (child.type === 'text' || child.type === 'paragraph')) {
+              const checkbox = item.task ? buildRun(item.checked ? '☑ ' : '☐ ', {}) : '';
+              const runs = checkbox + renderInline(ctx, (child as Tokens.Text).tokens || [child]);
+              xml += buildParagraph(runs, buildParagraphProperties({ ...scope, list: { numId, level } }));
+              first = false;
+            } else if (child.type === 'list') {
+              xml += renderBlocks(ctx, [child], { ...scope, list: { numId, level } });
+            } else if (child.type !== 'checkbox' && child.type !== 'space') {
+              xml += renderBlocks(ctx, [child], scope);
+              first = false;
+            }
+          }
+        }
+        break;
+      }
+      case 'table':
+        xml += buildTable(ctx, token as Tokens.Table);
+        break;
+      case 'hr':
+        xml += '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr></w:pPr></w:p>';
+        break;
+      case 'html':
+        xml += buildParagraph(buildRun(token.text, {}), buildParagraphProperties(scope));
+        break;
+      default:
+        break;
+    }
+  }
+
+  return xml;
+};
+
+/**
+ * ========================================
+ * 包结构文件
+ * ========================================
+ */
+
+/** 样式定义：正文、标题、引用、代码和表格 */
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei"/><w:sz w:val="22"/><w:lang w:val="en-US" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="360"/></w:pPr><w:rPr><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr></w:style>
+${[40, 32, 28, 24, 22, 22].map((size, index) => `  <w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`).join('\n')}
+  <w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="CBD5E1"/></w:pBdr><w:ind w:left="284"/></w:pPr><w:rPr><w:color w:val="475569"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:eastAsia="Microsoft YaHei"/><w:sz w:val="20"/></w:rPr></w:style>
+  <w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/></w:rPr></w:style>
+  <w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>
+  <w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:color="E2E8F0"/><w:left w:val="single" w:sz="4" w:color="E2E8F0"/><w:bottom w:val="single" w:sz="4" w:color="E2E8F0"/><w:right w:val="single" w:sz="4" w:color="E2E8F0"/><w:insideH w:val="single" w:sz="4" w:color="E2E8F0"/><w:insideV w:val="single" w:sz="4" w:color="E2E8F0"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+/**
+ * 生成编号定义
+ * abstractNum 0 为项目符号列表，1 为数字编号列表；每个列表使用独立的编号实例以便重新计数
+ */
+const buildNumberingXml = (numberings: { abstractId: number; start: number }[]): string => {
+  const bullets = ['•', '◦', '▪'];
+  const buildLevels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) => {
+    const indent = 720 * (level + 1);
+    const format = ordered
+      ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>`
+      : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${bullets[level % bullets.length]}"/>`;
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+
+  const instances = numberings.map((numbering, index) =>
+    `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${numbering.abstractId}"/>` +
+    `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="${numbering.start}"/></w:lvlOverride></w:num>`
+  ).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${buildLevels(false)}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${buildLevels(true)}</w:abstractNum>
+${instances}
+</w:numbering>`;
+};
+
+/**
+ * ========================================
+ * DOCX 导出
+ * ========================================
+ */
+
+/**
+ * 导出为 Word 文档
+ *
+ * @param document - 导出的文档
+ * @param assets - 文档引用的图片资源
+ * @param baseUrl - 用于解析相对链接的站点地址
+ * @returns DOCX 文件内容
+ *
+ * @example
+ * ```typescript
+ * const assets = await collectDocumentAssets(c.env.R2_BUCKET, document.content);
+ * const docx = exportDocx(document, assets, new URL(c.req.url).origin);
+ * ```
+ */
+export const exportDocx = (document: ExportDocument, assets: Map<string, ExportAsset>, baseUrl: string): Uint8Array => {
+  const ctx: DocxContext = {
+    assets,
+    baseUrl,
+    relationships: [],
+    hyperlinkIds: new Map(),
+    imageIds: new Map(),
+    numberings: [],
+    drawingCount: 0
+  };
+
+  const tokens = Lexer.lex(document.content || '', { gfm: true });
+  const meta = [document.folderPath.join(' / '), document.tags.map(tag => `#${tag}`).join(' ')].filter(Boolean).join(' · ');
+
+  const body =
+    buildParagraph(buildRun(document.title || '无标题文档', {}), '<w:pStyle w:val="Title"/>') +
+    (meta ? buildParagraph(buildRun(meta, {}), '<w:pStyle w:val="Subtitle"/>') : '') +
+    renderBlocks(ctx, tokens);
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">
+<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1247" w:bottom="1440" w:left="1247" w:header="851" w:footer="992" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+${ctx.relationships.join('\n')}
+</Relationships>`;
+
+  const embeddedAssets = [...assets.values()].filter(asset => ctx.imageIds.has(asset.key));
+  const imageDefaults = [...new Set(embeddedAssets.map(asset => asset.fileName.split('.').pop()!))]
+    .map(extension => {
+      const asset = embeddedAssets.find(item => item.fileName.endsWith(`.${extension}`))!;
+      return `<Default Extension="${extension}" ContentType="${asset.contentType}"/>`;
+    })
+    .join('');
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+${imageDefaults}
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+  const toW3CDate = (value: string) => new Date(value).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(document.title || '')}</dc:title>
+<cp:keywords>${escapeXml(document.tags.join(', '))}</cp:keywords>
+<dcterms:created xsi:type="dcterms:W3CDTF">${toW3CDate(document.created_at)}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${toW3CDate(document.updated_at)}</dcterms:modified>
+</cp:coreProperties>`;
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(rootRels),
+    'docProps/core.xml': strToU8(coreXml),
+    'word/document.xml': strToU8(documentXml),
+    'word/styles.xml': strToU8(STYLES_XML),
+    'word/numbering.xml': strToU8(buildNumberingXml(ctx.numberings)),
+    'word/_rels/document.xml.rels': strToU8(documentRels)
+  };
+
+  for (const asset of embeddedAssets) {
+    files[`word/media/${asset.fileName}`] = asset.data;
+  }
+
+  return zipSync(files);
+};
+
+/**
+ * ========================================
+ * DOCX 导入
+ * ========================================
+ */
+
+/**
+ * 段落转换结果
+ * 连续的列表项和代码段落需要紧凑拼接，其余块之间空一行
+ */
+interface DocxBlock {
+  kind: 'list' | 'code' | 'other';
+  text: string;
+}
+
+/**
+ * 导入过程中读取的 DOCX 部件信息
+ */
+interface DocxReader {
+  files: Record<string, Uint8Array>;
+  /** 关系ID -> 目标（超链接地址或 word/ 下的相对路径） */
+  relationships: Map<string, string>;
+  /** 样式ID -> 小写的样式名称 */
+  styleNames: Map<string, string>;
+  /** 编号实例ID -> 各层级是否为有序编号 */
+  orderedLevels: Map<string, boolean[]>;
+}
+
+/**
+ * 读取 XML 部件
+ */
+const readXmlPart = (files: Record<string, Uint8Array>, path: string): MarkupElement | null => {
+  return files[path] ? parseMarkup(strFromU8(files[path]), { html: false }) : null;
+};
+
+/**
+ * 获取指定名称的直接子元素
+ */
+const childElements = (element: MarkupElement | null | undefined, name?: string): MarkupElement[] => {
+  return (element?.children || []).filter((child): child is MarkupElement =>
+    child.type === 'element' && (!name || child.name === name)
+  );
+};
+
+/**
+ * 判断 w:b、w:i 等开关属性是否开启
+ */
+const isToggleOn = (element: MarkupElement | undefined): boolean => {
+  if (!element) return false;
+  const value = element.attrs['w:val'];
+  return value === undefined || !['0', 'false', 'off', 'none'].includes(value);
+};
+
+/**
+ * 读取关系、样式和编号定义
+ */
+const createDocxReader = (files: Record<string, Uint8Array>): DocxReader => {
+  const relationships = new Map<string, string>();
+  for (const rel of childElements(childElements(readXmlPart(files, 'word/_rels/document.xml.rels'), 'Relationships')[0], 'Relationship')) {
+    relationships.set(rel.attrs.Id, rel.attrs.Target || '');
+  }
+
+  const styleNames = new Map<string, string>();
+  for (const style of childElements(childElements(readXmlPart(files, 'word/styles.xml'), 'w:styles')[0], 'w:style')) {
+    const name = childElements(style, 'w:name')[0]?.attrs['w:val'] || '';
+    styleNames.set(style.attrs['w:styleId'], name.toLowerCase());
+  }
+
+  const orderedLevels = new Map<string, boolean[]>();
+  const numbering = childElements(readXmlPart(files, 'word/numbering.xml'), 'w:numbering')[0];
+  const abstractLevels = new Map<string, boolean[]>();
+  for (const abstractNum of childElements(numbering, 'w:abstractNum')) {
+    const levels: boolean[] = [];
+    for (const level of childElements(abstractNum, 'w:lvl')) {
+      const format = childElements(level, 'w:numFmt')[0]?.attrs['w:val'] || 'bullet';
+      levels[Number(level.attrs['w:ilvl']) || 0] = format !== 'bullet' && format !== 'none';
+    }
+    abstractLevels.set(abstractNum.attrs['w:abstractNumId'], levels);
+  }
+  for (const num of childElements(numbering, 'w:num')) {
+    const abstractId = childElements(num, 'w:abstractNumId')[0]?.attrs['w:val'];
+    orderedLevels.set(num.attrs['w:numId'], abstractLevels.get(abstractId) || []);
+  }
+
+  return { files, relationships, styleNames, orderedLevels };
+};
+
+/**
+ * 将段落中的 run 转换为 Markdown 行内文本
+ * 相邻且格式相同的 run 会先合并，避免生成 **a****b** 这样的碎片
+ */
+const readRuns = (reader: DocxReader, paragraph: MarkupElement, codeStyle: boolean): string => {
+  const segments: { text: string; bold: boolean; italic: boolean; strike: boolean; code?: boolean; href?: string }[] = [];
+
+  const visit = (element: MarkupElement, href?: string) => {
+    for (const child of childElements(element)) {
+      if (child.name === 'w:hyperlink') {
+        const target = child.attrs['r:id'] ? reader.relationships.get(child.attrs['r:id']) : undefined;
+        visit(child, target);
+      } else if (child.name === 'w:r') {
+        const rPr = childElements(child, 'w:rPr')[0];
+        const format = {
+          bold: isToggleOn(childElements(rPr, 'w:b')[0]),
+          italic: isToggleOn(childElements(rPr, 'w:i')[0]),
+          strike: isToggleOn(childElements(rPr, 'w:strike')[0]) || isToggleOn(childElements(rPr, 'w:dstrike')[0]),
+          code: /code|代码/.test(reader.styleNames.get(childElements(rPr, 'w:rStyle')[0]?.attrs['w:val'] || '') || '')
+        };
+
+        for (const part of childElements(child)) {
+          let text = '';
+          if (part.name === 'w:t') text = getTextContent(part);
+          else if (part.name === 'w:tab') text = ' ';
+          else if (part.name === 'w:br' || part.name === 'w:cr') text = '\n';
+          else if (part.name === 'w:drawing' || part.name === 'w:pict') {
+            const blip = findDescendant(part, node => node.name === 'a:blip' || node.name === 'v:imagedata');
+            const relId = blip?.attrs['r:embed'] || blip?.attrs['r:id'];
+            const target = relId ? reader.relationships.get(relId) : undefined;
+            const description = findDescendant(part, node => node.name === 'wp:docPr')?.attrs.descr || '';
+            if (target) {
+              // 内嵌图片的目标是相对于 word/ 的路径，外链图片保持原样
+              const src = /^[a-z][a-z0-9+.-]*:/i.test(target) ? target : target.replace(/^\/?(word\/)?/, 'word/');
+              segments.push({ text: `![${description}](${src})`, bold: false, italic: false, strike: false });
+            }
+            continue;
+          }
+          if (text) segments.push({ text, ...format, href });
+        }
+      } else if (child.name === 'w:ins' || child.name === 'w:smartTag' || child.name === 'w:sdt' || child.name === 'w:sdtContent' || child.name === 'w:fldSimple') {
+        visit(child, href);
+      }
+    }
+  };
+  visit(paragraph);
+
+  if (codeStyle) return segments.map(segment => segment.text).join('');
+
+  // 合并格式相同的相邻片段
+  const merged: typeof segments = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.bold === segment.bold && last.italic === segment.italic && last.strike === segment.strike && last.code === segment.code && last.href === segment.href && !segment.text.startsWith('![')) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged.map(segment => {
+    if (segment.text.startsWith('![')) return segment.text;
+    if (segment.code) {
+      const fence = segment.text.includes('`') ? '``' : '`';
+      return `${fence}${segment.text}${fence}`;
+    }
+    let text = segment.text.replace(/([\\`*_\[\]])/g, '\\$1').replace(/\n/g, '  \n');
+    if (segment.strike) text = wrapMarker(text, '~~');
+    if (segment.italic) text = wrapMarker(text, '*');
+    if (segment.bold) text = wrapMarker(text, '**');
+    if (segment.href && /^(https?:|mailto:)/i.test(segment.href)) text = `[${text}](${segment.href})`;
+    return text;
+  }).join('');
+};
+
+/**
+ * 用强调标记包裹文本，首尾空白放在标记外侧
+ */
+const wrapMarker = (text: string, marker: string): string => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  return match && match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+/**
+ * 深度优先查找满足条件的后代元素
+ */
+const findDescendant = (element: MarkupElement, predicate: (node: MarkupElement) => boolean): MarkupElement | null => {
+  for (const child of childElements(element)) {
+    if (predicate(child)) return child;
+    const found = findDescendant(child, predicate);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * 转换段落
+ */
+const readParagraph = (reader: DocxReader, paragraph: MarkupElement): DocxBlock | null => {
+  const pPr = childElements(paragraph, 'w:pPr')[0];
+  const styleId = childElements(pPr, 'w:pStyle')[0]?.attrs['w:val'] || '';
+  const styleName = reader.styleNames.get(styleId) || styleId.toLowerCase();
+  const isCode = /code|source|源代码|代码/.test(styleName);
+  const text = readRuns(reader, paragraph, isCode);
+
+  if (isCode) return { kind: 'code', text };
+  if (!text.trim()) return null;
+
+  const heading = styleName.match(/^heading\s*(\d)$/) || styleId.match(/^Heading(\d)$/);
+  if (heading) return { kind: 'other', text: `${'#'.repeat(Math.min(Number(heading[1]), 6))} ${text.trim()}` };
+  if (styleName === 'title') return { kind: 'other', text: `# ${text.trim()}` };
+
+  const numPr = childElements(pPr, 'w:numPr')[0];
+  const numId = childElements(numPr, 'w:numId')[0]?.attrs['w:val'];
+  if (numId && numId !== '0') {
+    const level = Number(childElements(numPr, 'w:ilvl')[0]?.attrs['w:val']) || 0;
+    const ordered = reader.orderedLevels.get(numId)?.[level] ?? false;
+    return { kind: 'list', text: `${'   '.repeat(level)}${ordered ? '1.' : '-'} ${text.trim()}` };
+  }
+
+  if (/quote|引用/.test(styleName)) return { kind: 'other', text: `> ${text.trim().replace(/\n/g, '\n> ')}` };
+
+  return { kind: 'other', text: text.trim() };
+};
+
+/**
+ * 转换表格，第一行作为表头
+ */
+const readTable = (reader: DocxReader, table: MarkupElement): DocxBlock | null => {
+  const rows = childElements(table, 'w:tr').map(row =>
+    childElements(row, 'w:tc').map(cell =>
+      childElements(cell, 'w:p')
+        .map(paragraph => readRuns(reader, paragraph, false).trim())
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/\|/g, '\\|')
+    )
+  ).filter(row => row.length > 0);
+
+  if (rows.length === 0) return null;
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const toLine = (row: string[]) => `| ${[...row, ...Array(columnCount - row.length).fill('')].join(' | ')} |`;
+
+  return {
+    kind: 'other',
+    text: [toLine(rows[0]), `|${Array(columnCount).fill(' --- ').join('|')}|`, ...rows.slice(1).map(toLine)].join('\n')
+  };
+};
+
+/**
+ * 将 Word 文档转换为 Markdown
+ *
+ * 支持标题（含 Title 样式）、段落、粗体/斜体/删除线、超链接、
+ * 有序/无序列表、引用和代码样式段落、表格和内嵌图片。
+ * 图片以 word/media/... 形式的相对路径引用，调用方可以据此从 files 中读取图片数据
+ *
+ * @param data - DOCX 文件内容
+ * @returns Markdown 文本、核心属性中的标题以及 DOCX 包内的全部文件
+ * @throws 文件不是有效的 DOCX 时抛出错误
+ */
+export const docxToMarkdown = (data: Uint8Array): { markdown: string; title: string; files: Record<string, Uint8Array> } => {
+  const files = unzipSync(data);
+  const documentXml = readXmlPart(files, 'word/document.xml');
+  const body = documentXml && findDescendant(documentXml, node => node.name === 'w:body');
+  if (!body) {
+    throw new Error('不是有效的 DOCX 文件');
+  }
+
+  const reader = createDocxReader(files);
+  const blocks: DocxBlock[] = [];
+
+  const visit = (container: MarkupElement) => {
+    for (const child of childElements(container)) {
+      if (child.name === 'w:p') {
+        const block = readParagraph(reader, child);
+        if (block) blocks.push(block);
+      } else if (child.name === 'w:tbl') {
+        const block = readTable(reader, child);
+        if (block) blocks.push(block);
+      } else if (child.name === 'w:sdt' || child.name === 'w:sdtContent' || child.name === 'w:customXml') {
+        visit(child);
+      }
+    }
+  };
+  visit(body);
+
+  // 拼接块：连续列表项紧凑排列，连续代码段落合并为一个代码块
+  let markdown = '';
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (block.kind === 'code') {
+      const lines = [block.text];
+      while (blocks[i + 1]?.kind === 'code') lines.push(blocks[++i].text);
+      const code = lines.join('\n').replace(/\n+$/, '');
+      const fence = code.includes('```') ? '~~~' : '```';
+      markdown += `${markdown ? '\n\n' : ''}${fence}\n${code}\n${fence}`;
+    } else {
+      const separator = !markdown ? '' : block.kind === 'list' && blocks[i - 1]?.kind === 'list' ? '\n' : '\n\n';
+      markdown += separator + block.text;
+    }
+  }
+
+  const core = readXmlPart(files, 'docProps/core.xml');
+  const titleElement = core && findDescendant(core, node => node.name === 'dc:title');
+
+  return {
+    markdown,
+    title: titleElement ? getTextContent(titleElement).trim() : '',
+    files
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * ========================================
+ * 文档草稿工具函数
+ * ========================================
+ *
+ * 本文件提供草稿与已发布文档之间的状态比较功能
+ * 草稿由编辑器自动保存写入，发布前文档正文、分享和导出都只使用已发布的内容
+ */
+
+/**
+ * 草稿相对于已发布文档的状态
+ */
+export interface DraftStatus {
+  /** 草稿的最后保存时间晚于文档的最后发布时间，即存在尚未发布的修改 */
+  newer_than_published: boolean;
+
+  /** 草稿开始编辑后文档又被发布过，发布草稿时需要合并 */
+  stale: boolean;
+}
+
+/**
+ * 比较草稿和已发布文档
+ *
+ * @param draft - 草稿的基础版本和最后保存时间
+ * @param document - 文档的当前版本和最后更新时间
+ * @returns 草稿状态
+ */
+export const getDraftStatus = (
+  draft: { base_version: number; updated_at?: string | null },
+  document: { version: number; updated_at?: string | null }
+): DraftStatus => {
+  const draftTime = draft.updated_at ? new Date(draft.updated_at).getTime() : 0;
+  const publishedTime = document.updated_at ? new Date(document.updated_at).getTime() : 0;
+
+  return {
+    newer_than_published: draftTime > publishedTime,
+    stale: draft.base_version < document.version
+  };
+};
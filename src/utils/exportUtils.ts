@@ -0,0 +1,384 @@
+/**
+ * ========================================
+ * 文档导出工具函数
+ * ========================================
+ *
+ * 本文件提供文档导出为独立 HTML、EPUB 和带 YAML front matter 的 Markdown 的功能
+ * 文档中引用的站内图片会从 R2 读取后内嵌（HTML/Markdown）或打包（EPUB/DOCX），
+ * 使导出结果可以离线查看。DOCX 的生成见 docxUtils
+ */
+
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { DOCUMENT_STYLES, buildHtmlDocument, escapeHtml, renderMarkdown } from './markdownUtils';
+
+/**
+ * 导出时的文档信息
+ */
+export interface ExportDocument {
+  id: string;
+  title: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  /** 从根目录到所在文件夹的名称路径 */
+  folderPath: string[];
+  /** 标签名称列表 */
+  tags: string[];
+}
+
+/**
+ * 导出时打包的图片资源
+ */
+export interface ExportAsset {
+  /** R2 对象键 */
+  key: string;
+  /** 资源的 MIME 类型 */
+  contentType: string;
+  /** 打包到 EPUB/DOCX 中使用的文件名 */
+  fileName: string;
+  /** 资源内容 */
+  data: Uint8Array;
+}
+
+/** 单次导出内嵌图片的总大小上限（字节），超出部分保留原始链接 */
+const MAX_EXPORT_ASSET_BYTES = 20 * 1024 * 1024;
+
+/**
+ * 匹配文档中的站内资源地址
+ * 兼容相对地址和带域名的绝对地址，第 1 个捕获分组为 R2 对象键
+ */
+const ASSET_URL_PATTERN = /(?:https?:\/\/[^\s/()<>"']+)?\/api\/(?:images|files)\/([^\s()<>"']+)/g;
+
+/** 图片扩展名到 MIME 类型的映射 */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml'
+};
+
+/** MIME 类型到文件扩展名的映射 */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * ========================================
+ * 通用辅助函数
+ * ========================================
+ */
+
+/**
+ * 转义 XML 特殊字符，并移除 XML 1.0 不允许出现的控制字符
+ *
+ * @param text - 原始文本
+ * @returns 可安全嵌入 XML 的文本
+ */
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * 将 Uint8Array 编码为 base64 字符串
+ */
+const toBase64 = (data: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < data.length; i += chunkSize) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * 从资源地址中解析 R2 对象键
+ *
+ * @param url - 文档中的资源地址
+ * @returns R2 对象键；不是站内资源地址时返回 null
+ */
+export const matchAssetKey = (url: string): string | null => {
+  const match = new RegExp(`^${ASSET_URL_PATTERN.source}$`).exec(url.trim());
+  if (!match) return null;
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return match[1];
+  }
+};
+
+/**
+ * 生成导出文件名（用于 Content-Disposition 头）
+ * 同时提供 ASCII 回退文件名和 RFC 5987 编码的 UTF-8 文件名
+ *
+ * @param title - 文档标题
+ * @param extension - 文件扩展名
+ * @returns Content-Disposition 头的值
+ */
+export const buildContentDisposition = (title: string, extension: string): string => {
+  const baseName = (title || 'document').replace(/[\\/:*?"<>|\u0000-\u001F]/g, '_').trim() || 'document';
+  const fileName = `${baseName}.${extension}`;
+  const asciiName = fileName.replace(/[^\x20-\x7E]/g, '_');
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+/**
+ * ========================================
+ * 图片资源收集
+ * ========================================
+ */
+
+/**
+ * 从 R2 读取文档中引用的站内图片
+ *
+ * 只收集图片类型的资源，普通附件保留原始链接。
+ * 读取失败或超出总大小上限的资源会被跳过
+ *
+ * @param bucket - R2 存储桶实例
+ * @param markdown - 文档内容
+ * @returns R2 对象键到资源的映射
+ */
+export const collectDocumentAssets = async (
+  bucket: R2Bucket,
+  markdown: string
+): Promise<Map<string, ExportAsset>> => {
+  const assets = new Map<string, ExportAsset>();
+  const keys = new Set<string>();
+
+  for (const match of markdown.matchAll(ASSET_URL_PATTERN)) {
+    const key = matchAssetKey(match[0]);
+    if (key) keys.add(key);
+  }
+
+  let totalBytes = 0;
+  for (const key of keys) {
+    const object = await bucket.get(key);
+    if (!object) continue;
+
+    const extension = key.toLowerCase().split('.').pop() || '';
+    const contentType = object.httpMetadata?.contentType || IMAGE_MIME_TYPES[extension] || '';
+    if (!contentType.startsWith('image/')) continue;
+
+    const data = new Uint8Array(await object.arrayBuffer());
+    if (totalBytes + data.length > MAX_EXPORT_ASSET_BYTES) continue;
+    totalBytes += data.length;
+
+    assets.set(key, {
+      key,
+      contentType,
+      fileName: `image-${assets.size + 1}.${IMAGE_EXTENSIONS[contentType] || extension || 'bin'}`,
+      data
+    });
+  }
+
+  return assets;
+};
+
+/**
+ * 替换文档中已收集资源的地址
+ *
+ * @param markdown - 文档内容
+ * @param assets - R2 对象键到资源的映射（如 collectDocumentAssets 的返回值）
+ * @param toUrl - 根据资源生成新地址的函数
+ * @returns 替换后的内容
+ */
+export const replaceAssetUrls = <T>(
+  markdown: string,
+  assets: Map<string, T>,
+  toUrl: (asset: T) => string
+): string => {
+  return markdown.replace(ASSET_URL_PATTERN, (url) => {
+    const key = matchAssetKey(url);
+    const asset = key ? assets.get(key) : undefined;
+    return asset ? toUrl(asset) : url;
+  });
+};
+
+/**
+ * 将资源转换为 data URI
+ */
+const toDataUri = (asset: ExportAsset): string => `data:${asset.contentType};base64,${toBase64(asset.data)}`;
+
+/**
+ * ========================================
+ * Markdown 与 HTML 导出
+ * ========================================
+ */
+
+/**
+ * 生成 YAML front matter
+ * 字符串统一使用双引号形式输出（JSON 字符串是合法的 YAML 双引号标量）
+ *
+ * @param document - 导出的文档
+ * @returns 以 --- 包裹的 front matter 文本
+ */
+export const buildFrontMatter = (document: ExportDocument): string => {
+  const lines = [
+    '---',
+    `title: ${JSON.stringify(document.title)}`,
+    `created: ${JSON.stringify(document.created_at)}`,
+    `updated: ${JSON.stringify(document.updated_at)}`,
+    `folder: ${JSON.stringify(document.folderPath.join('/'))}`
+  ];
+
+  if (document.tags.length > 0) {
+    lines.push('tags:', ...document.tags.map(tag => `  - ${JSON.stringify(tag)}`));
+  } else {
+    lines.push('tags: []');
+  }
+
+  lines.push('---');
+  return lines.join('\n') + '\n\n';
+};
+
+/**
+ * 导出为带 YAML front matter 的 Markdown
+ * 图片以 data URI 形式内嵌
+ *
+ * @param document - 导出的文档
+ * @param assets - 文档引用的图片资源
+ * @returns Markdown 文本
+ */
+export const exportMarkdown = (document: ExportDocument, assets: Map<string, ExportAsset>): string => {
+  return buildFrontMatter(document) + replaceAssetUrls(document.content, assets, toDataUri);
+};
+
+/**
+ * 生成导出页面中显示的说明文字
+ */
+const buildExportMeta = (document: ExportDocument): string => {
+  const parts = [`更新于 ${new Date(document.updated_at).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })}`];
+  if (document.folderPath.length > 0) parts.push(document.folderPath.join(' / '));
+  if (document.tags.length > 0) parts.push(document.tags.map(tag => `#${tag}`).join(' '));
+  return parts.join(' · ');
+};
+
+/**
+ * 导出为带内嵌样式的独立 HTML 页面
+ * 图片以 data URI 形式内嵌
+ *
+ * @param document - 导出的文档
+ * @param assets - 文档引用的图片资源
+ * @returns 完整的 HTML 文档
+ */
+export const exportHtml = (document: ExportDocument, assets: Map<string, ExportAsset>): string => {
+  return buildHtmlDocument({
+    title: document.title,
+    bodyHtml: renderMarkdown(replaceAssetUrls(document.content, assets, toDataUri)),
+    meta: buildExportMeta(document)
+  });
+};
+
+/**
+ * ========================================
+ * EPUB 导出
+ * ========================================
+ */
+
+/**
+ * 将 HTML 片段转换为 XHTML
+ * EPUB 要求内容为 XML，空元素必须自闭合
+ */
+const toXhtml = (html: string): string => {
+  return html.replace(/<(br|hr|img|input)\b([^>]*?)\s*\/?>/g, '<$1$2 />');
+};
+
+/**
+ * 导出为 EPUB 3 电子书
+ * 图片打包在 OEBPS/images 目录下
+ *
+ * @param document - 导出的文档
+ * @param assets - 文档引用的图片资源
+ * @returns EPUB 文件内容
+ */
+export const exportEpub = (document: ExportDocument, assets: Map<string, ExportAsset>): Uint8Array => {
+  const title = escapeXml(document.title || '无标题文档');
+  const modified = new Date(document.updated_at).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const bodyHtml = toXhtml(renderMarkdown(replaceAssetUrls(document.content, assets, asset => `images/${asset.fileName}`)));
+
+  const chapter = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="zh-CN" lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>${title}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+<main>
+<h1 class="document-title">${title}</h1>
+<div class="document-meta">${escapeHtml(buildExportMeta(document))}</div>
+${bodyHtml}
+</main>
+</body>
+</html>`;
+
+  const nav = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="zh-CN" lang="zh-CN">
+<head><meta charset="utf-8" /><title>${title}</title></head>
+<body>
+<nav epub:type="toc" id="toc"><ol><li><a href="content.xhtml">${title}</a></li></ol></nav>
+</body>
+</html>`;
+
+  const imageItems = [...assets.values()]
+    .map((asset, index) => `    <item id="img${index + 1}" href="images/${asset.fileName}" media-type="${asset.contentType}" />`)
+    .join('\n');
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="zh-CN">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${escapeXml(document.id)}</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:language>zh-CN</dc:language>
+${document.tags.map(tag => `    <dc:subject>${escapeXml(tag)}</dc:subject>`).join('\n')}
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="content" href="content.xhtml" media-type="application/xhtml+xml" />
+    <item id="style" href="style.css" media-type="text/css" />
+${imageItems}
+  </manifest>
+  <spine>
+    <itemref idref="content" />
+  </spine>
+</package>`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>`;
+
+  // mimetype 必须是压缩包中的第一个文件，且不能压缩
+  const files: Zippable = {
+    'mimetype': [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(container),
+    'OEBPS/content.opf': strToU8(opf),
+    'OEBPS/nav.xhtml': strToU8(nav),
+    'OEBPS/content.xhtml': strToU8(chapter),
+    'OEBPS/style.css': strToU8(DOCUMENT_STYLES)
+  };
+
+  for (const asset of assets.values()) {
+    files[`OEBPS/images/${asset.fileName}`] = [asset.data, { level: 0 }];
+  }
+
+  return zipSync(files);
+};
@@ -0,0 +1,108 @@
+/**
+ * ========================================
+ * 文件夹层级工具函数
+ * ========================================
+ *
+ * 本文件提供文件夹树相关的查询辅助功能
+ * 用于在过滤、检索等场景中展开某个文件夹的全部子孙文件夹
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * 获取指定文件夹及其所有子孙文件夹的ID
+ *
+ * 一次性读取用户的全部文件夹，在内存中按 parent_id 展开，
+ * 避免逐层查询数据库。回收站中的文件夹不会被包含
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param rootId - 子树根文件夹ID
+ * @returns 子树中的文件夹ID列表（包含根文件夹）；根文件夹不存在或不属于当前用户时返回 null
+ *
+ * @example
+ * ```typescript
+ * const folderIds = await getFolderSubtreeIds(supabase, user.id, folderId);
+ * if (folderIds) query = query.in('folder_id', folderIds);
+ * ```
+ */
+export const getFolderSubtreeIds = async (
+  supabase: SupabaseClient,
+  userId: string,
+  rootId: string
+): Promise<string[] | null> => {
+  const { data, error } = await supabase
+    .from('folders')
+    .select('id, parent_id')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (error || !data || !data.some(folder => folder.id === rootId)) {
+    return null;
+  }
+
+  // 构建 parent_id -> 子文件夹ID 的映射
+  const childrenMap = new Map<string, string[]>();
+  for (const folder of data) {
+    if (!folder.parent_id) continue;
+    const children = childrenMap.get(folder.parent_id) || [];
+    children.push(folder.id);
+    childrenMap.set(folder.parent_id, children);
+  }
+
+  // 广度优先展开子树，使用 visited 集合防御异常的循环引用数据
+  const result: string[] = [];
+  const visited = new Set<string>();
+  const queue = [rootId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    result.push(current);
+    queue.push(...(childrenMap.get(current) || []));
+  }
+
+  return result;
+};
+
+/**
+ * 获取文件夹从根目录开始的名称路径
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param folderId - 文件夹ID，为空时表示根目录
+ * @returns 从最外层到当前文件夹的名称列表；根目录返回空数组
+ *
+ * @example
+ * ```typescript
+ * const path = await getFolderPath(supabase, user.id, document.folder_id);
+ * // ['工作', '周报']
+ * ```
+ */
+export const getFolderPath = async (
+  supabase: SupabaseClient,
+  userId: string,
+  folderId: string | null | undefined
+): Promise<string[]> => {
+  if (!folderId) return [];
+
+  const { data } = await supabase
+    .from('folders')
+    .select('id, name, parent_id')
+    .eq('user_id', userId);
+
+  const folderMap = new Map((data || []).map(folder => [folder.id, folder]));
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let current = folderMap.get(folderId);
+
+  // 沿 parent_id 向上查找，使用 visited 集合防御异常的循环引用数据
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current.name);
+    current = current.parent_id ? folderMap.get(current.parent_id) : undefined;
+  }
+
+  return path;
+};
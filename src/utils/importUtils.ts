@@ -0,0 +1,383 @@
+/**
+ * ========================================
+ * 文档导入工具函数
+ * ========================================
+ *
+ * 本文件提供批量导入文档时使用的辅助功能：
+ * - 识别导入文件类型
+ * - 解析 YAML front matter 并确定文档标题
+ * - 将 Markdown 中引用的本地图片和 data URI 图片上传到 R2 并改写链接
+ */
+
+import { getImageDimensions } from './imageUtils';
+
+/**
+ * 导入限制
+ */
+export const IMPORT_LIMITS = {
+  /** 单次请求最多处理的文件数（包含压缩包内的文件） */
+  MAX_FILES: 500,
+
+  /** 单个文档文件的最大字节数 */
+  MAX_FILE_BYTES: 10 * 1024 * 1024,
+
+  /** 单次请求上传内容的最大字节数 */
+  MAX_UPLOAD_BYTES: 50 * 1024 * 1024,
+
+  /** 文档标题的最大长度 */
+  MAX_TITLE_LENGTH: 200
+};
+
+/**
+ * 导入文件类型
+ */
+export type ImportFileKind = 'markdown' | 'text' | 'html' | 'docx' | 'zip' | 'image' | 'unsupported';
+
+/** 扩展名到导入文件类型的映射 */
+const FILE_KINDS: Record<string, ImportFileKind> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  mdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  docx: 'docx',
+  zip: 'zip',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  bmp: 'image',
+  svg: 'image'
+};
+
+/** 图片扩展名到 MIME 类型的映射 */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml'
+};
+
+/**
+ * ========================================
+ * 文件与路径
+ * ========================================
+ */
+
+/**
+ * 根据文件名判断导入文件类型
+ *
+ * @param path - 文件路径或文件名
+ * @returns 文件类型
+ */
+export const getImportFileKind = (path: string): ImportFileKind => {
+  const extension = path.toLowerCase().split('.').pop() || '';
+  return FILE_KINDS[extension] || 'unsupported';
+};
+
+/**
+ * 判断压缩包条目是否应当忽略（目录、系统生成的文件、隐藏文件）
+ *
+ * @param path - 压缩包内的路径
+ * @returns 是否忽略
+ */
+export const isIgnoredArchiveEntry = (path: string): boolean => {
+  if (path.endsWith('/')) return true;
+  return path.split('/').some(part => part === '__MACOSX' || part.startsWith('.') || part === 'Thumbs.db');
+};
+
+/**
+ * 规范化相对路径，处理 . 和 .. 片段
+ *
+ * @param baseDir - 基准目录（不含结尾斜杠，根目录为空字符串）
+ * @param relative - 相对路径
+ * @returns 规范化后的路径；越出根目录时返回 null
+ */
+export const resolveRelativePath = (baseDir: string, relative: string): string | null => {
+  const parts = relative.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+
+  for (const part of relative.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+
+  return parts.join('/');
+};
+
+/**
+ * 获取路径所在目录和不含扩展名的文件名
+ *
+ * @param path - 文件路径
+ * @returns 目录（根目录为空字符串）和文件基本名
+ */
+export const splitImportPath = (path: string): { dir: string; baseName: string } => {
+  const index = path.lastIndexOf('/');
+  const fileName = index === -1 ? path : path.slice(index + 1);
+  return {
+    dir: index === -1 ? '' : path.slice(0, index),
+    baseName: fileName.replace(/\.[^.]+$/, '') || fileName
+  };
+};
+
+/**
+ * 将文件内容解码为文本，自动去除 UTF-8 BOM
+ *
+ * @param data - 文件内容
+ * @returns 文本
+ */
+export const decodeText = (data: Uint8Array): string => {
+  return new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '');
+};
+
+/**
+ * ========================================
+ * Front matter 与标题
+ * ========================================
+ */
+
+/**
+ * 解析 YAML 标量值（支持单引号、双引号和无引号形式）
+ */
+const parseScalar = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'") && trimmed.length >= 2) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+};
+
+/**
+ * 解析 Markdown 开头的 YAML front matter
+ *
+ * 只支持常见的简单结构：`key: value`、行内列表 `[a, b]` 和缩进的 `- item` 列表，
+ * 足以读取 title、tags 等字段
+ *
+ * @param markdown - Markdown 文本
+ * @returns front matter 字段和去除 front matter 后的正文
+ *
+ * @example
+ * ```typescript
+ * parseFrontMatter('---\ntitle: 周报\ntags: [工作]\n---\n正文');
+ * // { attributes: { title: '周报', tags: ['工作'] }, body: '正文' }
+ * ```
+ */
+export const parseFrontMatter = (markdown: string): { attributes: Record<string, string | string[]>; body: string } => {
+  const match = markdown.match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  if (!match) return { attributes: {}, body: markdown };
+
+  const attributes: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s+-\s*(.*)$/) || (listKey ? line.match(/^-\s*(.*)$/) : null);
+    if (item && listKey) {
+      (attributes[listKey] as string[]).push(parseScalar(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, rawValue] = pair;
+    const value = rawValue.trim();
+    listKey = null;
+
+    if (value === '') {
+      attributes[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      attributes[key] = value.slice(1, -1).split(',').map(parseScalar).filter(Boolean);
+    } else {
+      attributes[key] = parseScalar(value);
+    }
+  }
+
+  return { attributes, body: markdown.slice(match[0].length) };
+};
+
+/**
+ * 去除标题文本中的 Markdown 行内标记
+ */
+const stripInlineMarkdown = (text: string): string => {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .replace(/\\(.)/g, '$1')
+    .replace(/\s+#+\s*$/, '')
+    .trim();
+};
+
+/**
+ * 确定导入文档的标题
+ *
+ * 优先级：front matter 的 title -> 第一个标题 -> 文件元数据中的标题 -> 文件名。
+ * 当标题取自正文开头的标题行时，会从正文中移除该行，避免标题重复显示
+ *
+ * @param options.attributes - front matter 字段
+ * @param options.body - 正文
+ * @param options.metadataTitle - HTML <title> 或 DOCX 核心属性中的标题（可选）
+ * @param options.fileName - 不含扩展名的文件名
+ * @returns 标题和最终的正文
+ */
+export const resolveImportTitle = (options: {
+  attributes: Record<string, string | string[]>;
+  body: string;
+  metadataTitle?: string;
+  fileName: string;
+}): { title: string; content: string } => {
+  const limit = (title: string) => title.slice(0, IMPORT_LIMITS.MAX_TITLE_LENGTH);
+  const frontMatterTitle = options.attributes.title;
+
+  if (typeof frontMatterTitle === 'string' && frontMatterTitle.trim()) {
+    return { title: limit(frontMatterTitle.trim()), content: options.body };
+  }
+
+  const heading = options.body.match(/^[ \t]{0,3}(#{1,6})[ \t]+(.+)$/m);
+  if (heading) {
+    const title = stripInlineMarkdown(heading[2]);
+    if (title) {
+      const isLeading = options.body.slice(0, heading.index).trim() === '';
+      return {
+        title: limit(title),
+        content: isLeading ? options.body.slice((heading.index || 0) + heading[0].length).replace(/^\s*\n/, '') : options.body
+      };
+    }
+  }
+
+  if (options.metadataTitle && options.metadataTitle.trim()) {
+    return { title: limit(options.metadataTitle.trim()), content: options.body };
+  }
+
+  return { title: limit(options.fileName), content: options.body };
+};
+
+/**
+ * 读取 front matter 中的标签名称
+ *
+ * @param attributes - front matter 字段
+ * @returns 去重后的标签名称
+ */
+export const getFrontMatterTags = (attributes: Record<string, string | string[]>): string[] => {
+  const value = attributes.tags ?? attributes.tag;
+  const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+};
+
+/**
+ * ========================================
+ * 图片处理
+ * ========================================
+ */
+
+/**
+ * 将 Markdown 中的图片地址交给 resolve 处理并替换
+ * 同时处理 Markdown 图片语法和内嵌的 <img src="..."> 标签
+ *
+ * @param markdown - Markdown 文本
+ * @param resolve - 返回新地址的函数；返回 null 表示保持原样
+ * @returns 替换后的 Markdown
+ */
+export const rewriteImageReferences = async (
+  markdown: string,
+  resolve: (src: string) => Promise<string | null>
+): Promise<string> => {
+  const markdownPattern = /(!\[[^\]]*\]\(\s*<?)([^)\s>]+)(>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\))/g;
+  const htmlPattern = /(<img\b[^>]*?\bsrc\s*=\s*["'])([^"']+)(["'])/gi;
+
+  const sources = new Set<string>();
+  for (const match of markdown.matchAll(markdownPattern)) sources.add(match[2]);
+  for (const match of markdown.matchAll(htmlPattern)) sources.add(match[2]);
+
+  const replacements = new Map<string, string>();
+  for (const src of sources) {
+    const replacement = await resolve(src);
+    if (replacement) replacements.set(src, replacement);
+  }
+
+  if (replacements.size === 0) return markdown;
+
+  const replace = (_: string, prefix: string, src: string, suffix: string) => `${prefix}${replacements.get(src) ?? src}${suffix}`;
+  return markdown.replace(markdownPattern, replace).replace(htmlPattern, replace);
+};
+
+/**
+ * 将图片上传到 R2，命名方式与图片上传接口一致
+ *
+ * @param bucket - R2 存储桶实例
+ * @param fileName - 原始文件名
+ * @param data - 图片内容
+ * @returns 图片访问地址；不是支持的图片类型时返回 null
+ */
+export const uploadImportedImage = async (
+  bucket: R2Bucket,
+  fileName: string,
+  data: Uint8Array
+): Promise<string | null> => {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  const contentType = IMAGE_MIME_TYPES[extension];
+  if (!contentType) return null;
+
+  const safeName = fileName.replace(/[\\/:*?"<>|\s]+/g, '_');
+  const key = `${Date.now()}-${safeName}`;
+
+  const customMetadata: Record<string, string> = {
+    originalName: fileName,
+    uploadedAt: new Date().toISOString()
+  };
+  const dimensions = getImageDimensions(data, fileName);
+  if (dimensions) {
+    customMetadata.width = dimensions.width.toString();
+    customMetadata.height = dimensions.height.toString();
+  }
+
+  await bucket.put(key, data, {
+    httpMetadata: { contentType },
+    customMetadata
+  });
+
+  return `/api/images/${key}`;
+};
+
+/**
+ * 解码 data URI 图片
+ *
+ * @param src - data URI
+ * @returns 推断的文件名和图片内容；不是 base64 图片时返回 null
+ */
+export const decodeDataImage = (src: string): { fileName: string; data: Uint8Array } | null => {
+  const match = src.match(/^data:image\/([a-z0-9.+-]+);base64,([A-Za-z0-9+/=\s]+)$/i);
+  if (!match) return null;
+
+  const subtype = match[1].toLowerCase();
+  const extension = subtype === 'jpeg' ? 'jpg' : subtype === 'svg+xml' ? 'svg' : subtype;
+
+  try {
+    const binary = atob(match[2].replace(/\s+/g, ''));
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return { fileName: `image.${extension}`, data };
+  } catch {
+    return null;
+  }
+};
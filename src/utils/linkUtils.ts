@@ -0,0 +1,355 @@
+/**
+ * ========================================
+ * 文档链接工具函数
+ * ========================================
+ *
+ * 本文件提供文档正文中链接的解析、链接表维护和重命名时的入链改写功能
+ *
+ * 支持两种链接：
+ * - 维基链接：[[文档标题]]、[[文档标题|显示文字]]、[[文档标题#小节]]，按标题（不区分大小写）匹配文档
+ * - 编辑器链接：/editor?id=<文档ID>，通常出现在 Markdown 链接或完整 URL 中
+ * 代码块和行内代码中的链接会被忽略
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Env } from '../config';
+import { User } from '../types/context';
+import { recordRevision } from './revisionUtils';
+import { escapeLikePattern, quoteFilterValue } from './listUtils';
+import { buildDocumentMetadata } from './metadataUtils';
+import { findBlockingLocks } from './lockUtils';
+import { buildDocumentEventData, dispatchWebhookEvent } from './webhookUtils';
+
+/** 单篇文档最多记录的不同链接数量 */
+const MAX_LINKS_PER_DOCUMENT = 500;
+
+/** 维基链接：[[标题]]、[[标题#小节]]、[[标题|显示文字]] */
+const WIKI_LINK_PATTERN = /\[\[([^\[\]|#\n]+)(#[^\[\]|\n]*)?(\|[^\[\]\n]*)?\]\]/g;
+
+/** 编辑器链接中的文档ID */
+const EDITOR_LINK_PATTERN = /\/editor\?(?:[^\s)"'#]*&)?id=([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/gi;
+
+/**
+ * 正文中解析出的链接
+ */
+export interface ExtractedLinks {
+  /** 维基链接标题到出现次数的映射（键为书写时的标题） */
+  wiki: Map<string, number>;
+
+  /** 编辑器链接文档ID到出现次数的映射 */
+  editor: Map<string, number>;
+}
+
+/**
+ * 规范化维基链接标题，用于不区分大小写的比较
+ *
+ * @param title - 标题
+ * @returns 去除首尾空白并转为小写的标题
+ */
+export const normalizeLinkTitle = (title: string): string => title.trim().toLowerCase();
+
+/**
+ * 移除代码块和行内代码，避免解析其中的示例链接
+ */
+export const stripCode = (content: string): string => {
+  return content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .replace(/`[^`\n]*`/g, '');
+};
+
+/**
+ * 解析文档正文中的链接
+ *
+ * @param content - 文档正文（Markdown）
+ * @returns 维基链接和编辑器链接及其出现次数
+ */
+export const extractDocumentLinks = (content: string | null): ExtractedLinks => {
+  const text = stripCode(content || '');
+  const wiki = new Map<string, number>();
+  const editor = new Map<string, number>();
+
+  // 同一标题的不同大小写写法视为同一链接，保留第一次出现时的写法
+  const wikiKeys = new Map<string, string>();
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const title = match[1].trim();
+    if (!title) continue;
+    const key = normalizeLinkTitle(title);
+    const written = wikiKeys.get(key) || title;
+    wikiKeys.set(key, written);
+    wiki.set(written, (wiki.get(written) || 0) + 1);
+  }
+
+  for (const match of text.matchAll(EDITOR_LINK_PATTERN)) {
+    const id = match[1].toLowerCase();
+    editor.set(id, (editor.get(id) || 0) + 1);
+  }
+
+  return { wiki, editor };
+};
+
+/**
+ * 按标题查找用户的文档（不区分大小写，不包含回收站中的文档）
+ * 同名文档有多篇时选择最近更新的一篇
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 用户ID
+ * @param titles - 标题列表
+ * @returns 规范化标题到文档ID的映射
+ */
+const findDocumentsByTitle = async (
+  supabase: SupabaseClient,
+  userId: string,
+  titles: string[]
+): Promise<{ data: Map<string, string>; error: { message: string } | null }> => {
+  const result = new Map<string, string>();
+  if (titles.length === 0) return { data: result, error: null };
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, title')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .or(titles.map(title => `title.ilike.${quoteFilterValue(escapeLikePattern(title.trim()))}`).join(','))
+    .order('updated_at', { ascending: false });
+
+  if (error) return { data: result, error };
+
+  for (const document of data || []) {
+    const key = normalizeLinkTitle(document.title);
+    if (!result.has(key)) {
+      result.set(key, document.id);
+    }
+  }
+
+  return { data: result, error: null };
+};
+
+/**
+ * 重建文档的出链记录
+ * 每次保存文档内容后调用：解析正文、解析链接目标，并替换该文档原有的链接记录
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 文档所有者ID
+ * @param document - 保存后的文档
+ * @returns 写入失败时返回错误
+ */
+export const syncDocumentLinks = async (
+  supabase: SupabaseClient,
+  userId: string,
+  document: { id: string; content: string | null }
+): Promise<{ error: { message: string } | null }> => {
+  const { wiki, editor } = extractDocumentLinks(document.content);
+  const wikiTitles = [...wiki.keys()].slice(0, MAX_LINKS_PER_DOCUMENT);
+  const editorIds = [...editor.keys()].slice(0, MAX_LINKS_PER_DOCUMENT);
+
+  const { data: titleMap, error: titleError } = await findDocumentsByTitle(supabase, userId, wikiTitles);
+  if (titleError) return { error: titleError };
+
+  // 编辑器链接只记录当前用户自己的文档
+  let ownedIds = new Set<string>();
+  if (editorIds.length > 0) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('user_id', userId)
+      .in('id', editorIds);
+
+    if (error) return { error };
+    ownedIds = new Set((data || []).map(row => row.id));
+  }
+
+  const rows = [
+    ...wikiTitles.map(title => ({
+      user_id: userId,
+      source_id: document.id,
+      target_id: titleMap.get(normalizeLinkTitle(title)) || null,
+      target_title: title,
+      link_type: 'wiki',
+      occurrences: wiki.get(title) || 1
+    })),
+    ...editorIds.filter(id => ownedIds.has(id)).map(id => ({
+      user_id: userId,
+      source_id: document.id,
+      target_id: id,
+      target_title: null,
+      link_type: 'editor',
+      occurrences: editor.get(id) || 1
+    }))
+  ];
+
+  const { error: deleteError } = await supabase
+    .from('document_links')
+    .delete()
+    .eq('source_id', document.id);
+
+  if (deleteError) return { error: deleteError };
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from('document_links').insert(rows);
+    if (insertError) return { error: insertError };
+  }
+
+  return { error: null };
+};
+
+/**
+ * 将指向该标题的悬空维基链接关联到文档
+ * 在创建文档或修改标题后调用
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 文档所有者ID
+ * @param document - 文档ID和标题
+ * @returns 写入失败时返回错误
+ */
+export const resolveDanglingLinks = async (
+  supabase: SupabaseClient,
+  userId: string,
+  document: { id: string; title: string }
+): Promise<{ error: { message: string } | null }> => {
+  const { error } = await supabase
+    .from('document_links')
+    .update({ target_id: document.id })
+    .eq('user_id', userId)
+    .eq('link_type', 'wiki')
+    .is('target_id', null)
+    .ilike('target_title', escapeLikePattern(document.title.trim()));
+
+  return { error };
+};
+
+/**
+ * 保存文档后更新链接：重建出链，并在需要时关联悬空的入链
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 文档所有者ID
+ * @param document - 保存后的文档
+ * @param options.titleChanged - 是否为新建文档或标题发生变化
+ * @returns 写入失败时返回错误
+ */
+export const updateLinksAfterSave = async (
+  supabase: SupabaseClient,
+  userId: string,
+  document: { id: string; title: string; content: string | null },
+  options: { titleChanged: boolean }
+): Promise<{ error: { message: string } | null }> => {
+  const { error } = await syncDocumentLinks(supabase, userId, document);
+  if (error || !options.titleChanged) return { error };
+  return resolveDanglingLinks(supabase, userId, document);
+};
+
+/**
+ * 将正文中指向旧标题的维基链接改写为新标题
+ * 保留小节锚点和显示文字，例如 [[旧标题#背景|见这里]] -> [[新标题#背景|见这里]]
+ *
+ * @param content - 文档正文
+ * @param oldTitle - 旧标题
+ * @param newTitle - 新标题
+ * @returns 改写后的正文和改写的链接数量
+ */
+export const rewriteWikiLinks = (
+  content: string,
+  oldTitle: string,
+  newTitle: string
+): { content: string; count: number } => {
+  const oldKey = normalizeLinkTitle(oldTitle);
+  let count = 0;
+
+  const rewritten = content.replace(WIKI_LINK_PATTERN, (match, title: string, section = '', alias = '') => {
+    if (normalizeLinkTitle(title) !== oldKey) return match;
+    count++;
+    return `[[${newTitle}${section}${alias}]]`;
+  });
+
+  return { content: rewritten, count };
+};
+
+/**
+ * 重命名文档后改写其他文档中指向它的维基链接
+ *
+ * 每篇来源文档都基于读取时的版本号写入，期间被其他会话修改或被签出锁定的文档会跳过；
+ * 改写后的文档会生成修订记录并重建出链，并通知订阅了 document.updated 的 Webhook
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param env - 环境变量绑定
+ * @param user - 执行重命名的用户
+ * @param documentId - 被重命名的文档ID
+ * @param oldTitle - 旧标题
+ * @param newTitle - 新标题
+ * @returns 已改写和因并发修改而跳过的来源文档
+ */
+export const rewriteInboundLinks = async (
+  supabase: SupabaseClient,
+  env: Env,
+  user: User,
+  documentId: string,
+  oldTitle: string,
+  newTitle: string
+): Promise<{
+  data: { rewritten: { id: string; title: string; links: number }[]; skipped: { id: string; title: string }[] };
+  error: { message: string } | null;
+}> => {
+  const result = { rewritten: [] as { id: string; title: string; links: number }[], skipped: [] as { id: string; title: string }[] };
+
+  const { data: links, error: linksError } = await supabase
+    .from('document_links')
+    .select('source_id')
+    .eq('user_id', user.id)
+    .eq('target_id', documentId)
+    .eq('link_type', 'wiki')
+    .neq('source_id', documentId);
+
+  if (linksError) return { data: result, error: linksError };
+
+  const sourceIds = [...new Set((links || []).map(link => link.source_id))];
+  if (sourceIds.length === 0) return { data: result, error: null };
+
+  const { data: sources, error: sourcesError } = await supabase
+    .from('documents')
+    .select('id, title, content, version')
+    .eq('user_id', user.id)
+    .is('deleted_at', null)
+    .in('id', sourceIds);
+
+  if (sourcesError) return { data: result, error: sourcesError };
+
+  const { data: locks, error: locksError } = await findBlockingLocks(supabase, (sources || []).map(source => source.id), undefined);
+  if (locksError) return { data: result, error: locksError };
+
+  const events: Record<string, unknown>[] = [];
+
+  for (const source of sources || []) {
+    const { content, count } = rewriteWikiLinks(source.content || '', oldTitle, newTitle);
+    if (count === 0) continue;
+
+    if (locks.has(source.id)) {
+      result.skipped.push({ id: source.id, title: source.title });
+      continue;
+    }
+
+    const { data, error } = await supabase
+      .from('documents')
+      .update({ content, metadata: buildDocumentMetadata(content), updated_at: new Date().toISOString() })
+      .eq('id', source.id)
+      .eq('version', source.version)
+      .select();
+
+    if (error) return { data: result, error };
+
+    if (data.length === 0) {
+      result.skipped.push({ id: source.id, title: source.title });
+      continue;
+    }
+
+    await recordRevision(supabase, data[0], user);
+
+    const { error: syncError } = await syncDocumentLinks(supabase, user.id, data[0]);
+    if (syncError) return { data: result, error: syncError };
+
+    result.rewritten.push({ id: source.id, title: source.title, links: count });
+    events.push({ ...buildDocumentEventData(data[0]), changes: ['content'] });
+  }
+
+  await dispatchWebhookEvent(supabase, env.WEBHOOK_QUEUE, user.id, 'document.updated', events);
+
+  return { data: result, error: null };
+};
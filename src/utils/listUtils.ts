@@ -0,0 +1,204 @@
+/**
+ * ========================================
+ * 文档列表查询工具函数
+ * ========================================
+ *
+ * 本文件提供文档列表的字段选择、排序和游标分页功能
+ * 游标对客户端不透明，内部记录排序方式以及上一页最后一条记录的排序值和ID，
+ * 下一页从该位置之后继续读取（keyset 分页），翻页期间有文档变化也不会跳过或重复记录
+ */
+
+import { DOCUMENT_TAGS_SELECT } from './tagUtils';
+
+/**
+ * 列表可选字段
+ * excerpt 为正文生成的纯文本摘要，byte_size 为正文字节数，tags 为文档标签，
+ * word_count 为字数，metadata 为保存时计算的大纲和统计信息，properties 为文档属性值
+ */
+export const LIST_FIELDS = [
+  'id', 'title', 'folder_id', 'user_id', 'created_at', 'updated_at', 'version',
+  'excerpt', 'byte_size', 'word_count', 'metadata', 'properties', 'content', 'tags'
+];
+
+/** 指定 fields 时的默认字段（不含正文） */
+export const DEFAULT_LIST_FIELDS = ['id', 'title', 'folder_id', 'created_at', 'updated_at', 'version', 'excerpt', 'byte_size', 'properties', 'tags'];
+
+/** 排序参数到数据库列的映射 */
+const SORT_COLUMNS: Record<string, string> = {
+  title: 'title',
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+  size: 'byte_size'
+};
+
+/**
+ * 列表排序方式
+ */
+export interface ListSort {
+  /** 排序参数值：title、created_at、updated_at 或 size */
+  key: string;
+
+  /** 数据库列名 */
+  column: string;
+
+  /** 是否升序 */
+  ascending: boolean;
+}
+
+/**
+ * 游标内容
+ */
+interface ListCursor {
+  /** 排序参数值 */
+  s: string;
+
+  /** 是否升序 */
+  a: boolean;
+
+  /** 上一页最后一条记录的排序值 */
+  v: string | number;
+
+  /** 上一页最后一条记录的ID */
+  i: string;
+}
+
+/**
+ * 解析 fields 查询参数并生成 select 语句
+ *
+ * @param value - 逗号分隔的字段列表；未提供时返回全部字段（兼容原有列表接口）
+ * @param requiredColumns - 必须查询的列（如游标分页依赖的排序列）
+ * @returns select 语句和是否包含标签；存在未知字段时返回错误信息
+ */
+export const parseListFields = (
+  value: string | undefined,
+  requiredColumns: string[] = []
+): { select: string; includeTags: boolean } | { error: string } => {
+  if (value === undefined) {
+    return { select: `*, ${DOCUMENT_TAGS_SELECT}`, includeTags: true };
+  }
+
+  const requested = value.split(',').map(field => field.trim()).filter(Boolean);
+  const fields = requested.length > 0 ? requested : DEFAULT_LIST_FIELDS;
+
+  const unknown = fields.filter(field => !LIST_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    return { error: `不支持的字段：${unknown.join(', ')}` };
+  }
+
+  // id 始终返回
+  const columns = [...new Set(['id', ...fields.filter(field => field !== 'tags'), ...requiredColumns])];
+  const includeTags = fields.includes('tags');
+
+  return {
+    select: includeTags ? `${columns.join(', ')}, ${DOCUMENT_TAGS_SELECT}` : columns.join(', '),
+    includeTags
+  };
+};
+
+/**
+ * 解析排序参数
+ *
+ * @param sort - 排序字段：title、created_at、updated_at（默认）或 size
+ * @param order - 排序方向：asc 或 desc；默认标题升序，其余降序
+ * @returns 排序方式；参数无效时返回错误信息
+ */
+export const parseListSort = (sort: string | undefined, order: string | undefined): ListSort | { error: string } => {
+  const key = sort || 'updated_at';
+  const column = SORT_COLUMNS[key];
+  if (!column) {
+    return { error: 'sort 只能是 title、created_at、updated_at 或 size' };
+  }
+
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return { error: 'order 只能是 asc 或 desc' };
+  }
+
+  return {
+    key,
+    column,
+    ascending: order ? order === 'asc' : key === 'title'
+  };
+};
+
+/**
+ * 将字符串编码为 base64url
+ */
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * 解码 base64url 字符串
+ */
+const fromBase64Url = (value: string): string => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * 根据本页最后一条记录生成下一页游标
+ *
+ * @param sort - 排序方式
+ * @param row - 本页最后一条记录（需包含排序列和 id）
+ * @returns 不透明的游标字符串
+ */
+export const encodeListCursor = (sort: ListSort, row: Record<string, any>): string => {
+  const cursor: ListCursor = { s: sort.key, a: sort.ascending, v: row[sort.column], i: row.id };
+  return toBase64Url(JSON.stringify(cursor));
+};
+
+/**
+ * 解析游标
+ *
+ * @param value - 游标字符串
+ * @param sort - 本次请求的排序方式，必须与生成游标时一致
+ * @returns 游标内容；无效或排序方式不一致时返回 null
+ */
+const decodeListCursor = (value: string, sort: ListSort): ListCursor | null => {
+  try {
+    const cursor = JSON.parse(fromBase64Url(value)) as ListCursor;
+    if (
+      cursor.s !== sort.key || cursor.a !== sort.ascending ||
+      typeof cursor.i !== 'string' || (typeof cursor.v !== 'string' && typeof cursor.v !== 'number')
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 为 PostgREST 过滤条件中的值加引号并转义
+ */
+export const quoteFilterValue = (value: string | number): string => {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+};
+
+/**
+ * 转义 LIKE / ILIKE 模式中的特殊字符
+ */
+export const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, char => `\\${char}`);
+
+/**
+ * 根据游标生成 keyset 分页的过滤条件
+ * 形如：排序列在游标值之后，或排序列相等且 id 在游标 id 之后
+ *
+ * @param value - 游标字符串
+ * @param sort - 本次请求的排序方式
+ * @returns 可传给 query.or() 的过滤条件；游标无效时返回 null
+ */
+export const buildCursorFilter = (value: string, sort: ListSort): string | null => {
+  const cursor = decodeListCursor(value, sort);
+  if (!cursor) return null;
+
+  const operator = sort.ascending ? 'gt' : 'lt';
+  const sortValue = quoteFilterValue(cursor.v);
+  const id = quoteFilterValue(cursor.i);
+
+  return `${sort.column}.${operator}.${sortValue},and(${sort.column}.eq.${sortValue},id.${operator}.${id})`;
+};
@@ -0,0 +1,237 @@
+/**
+ * ========================================
+ * 文档锁工具函数
+ * ========================================
+ *
+ * 本文件提供文档签出锁的查询和校验功能
+ * 编辑会话获取锁后得到锁令牌，锁有效期内其他会话对文档的写入会被拒绝（423 DOCUMENT_LOCKED）；
+ * 持有锁的会话在写入时通过 X-Lock-Token 请求头提供令牌
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/** 写入时提供锁令牌的请求头 */
+export const LOCK_TOKEN_HEADER = 'X-Lock-Token';
+
+/** 默认锁有效期（秒） */
+export const DEFAULT_LOCK_TTL_SECONDS = 300;
+
+/** 锁有效期下限（秒） */
+const MIN_LOCK_TTL_SECONDS = 30;
+
+/** 锁有效期上限（秒） */
+const MAX_LOCK_TTL_SECONDS = 3600;
+
+/**
+ * 文档锁记录
+ */
+export interface DocumentLock {
+  document_id: string;
+  user_id: string;
+  token: string;
+  user_email: string | null;
+  client: string | null;
+  acquired_at: string;
+  renewed_at: string;
+  expires_at: string;
+}
+
+/**
+ * 解析锁有效期
+ *
+ * @param value - 请求体中的 ttl_seconds
+ * @returns 有效期秒数；未提供时为默认值；无效时返回 null
+ */
+export const parseLockTtl = (value: unknown): number | null => {
+  if (value === undefined || value === null) return DEFAULT_LOCK_TTL_SECONDS;
+  if (!Number.isInteger(value) || (value as number) < MIN_LOCK_TTL_SECONDS || (value as number) > MAX_LOCK_TTL_SECONDS) {
+    return null;
+  }
+  return value as number;
+};
+
+/**
+ * 锁有效期的取值说明，用于错误信息
+ */
+export const LOCK_TTL_RANGE_MESSAGE = `ttl_seconds 必须是 ${MIN_LOCK_TTL_SECONDS} 到 ${MAX_LOCK_TTL_SECONDS} 之间的整数`;
+
+/**
+ * 生成返回给客户端的锁信息，不包含锁令牌
+ *
+ * @param lock - 文档锁记录
+ * @returns 锁持有者和有效期
+ */
+export const formatLock = (lock: DocumentLock) => ({
+  holder: {
+    user_id: lock.user_id,
+    email: lock.user_email,
+    client: lock.client
+  },
+  acquired_at: lock.acquired_at,
+  renewed_at: lock.renewed_at,
+  expires_at: lock.expires_at
+});
+
+/**
+ * 构建文档被锁定时的 423 响应数据
+ * 锁由其他用户持有时不返回持有者的用户ID、邮箱和客户端信息
+ *
+ * @param lock - 阻止写入的文档锁
+ * @param userId - 当前用户ID
+ * @returns 423 响应体
+ */
+export const buildLockedPayload = (lock: DocumentLock, userId: string) => {
+  const { holder, ...rest } = formatLock(lock);
+  return {
+    error: '文档已被其他会话锁定，请等待锁释放或过期',
+    code: 'DOCUMENT_LOCKED',
+    lock: lock.user_id === userId ? { holder, ...rest } : rest
+  };
+};
+
+/**
+ * 查询文档当前有效的锁
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param documentId - 文档ID
+ * @returns 未过期的锁；没有锁时为 null
+ */
+export const getActiveLock = async (
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<{ data: DocumentLock | null; error: { message: string } | null }> => {
+  const { data, error } = await supabase
+    .from('document_locks')
+    .select('*')
+    .eq('document_id', documentId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  return { data, error };
+};
+
+/**
+ * 查找阻止当前会话写入的文档锁
+ * 文档有未过期的锁且提供的令牌与锁令牌不一致时，该锁阻止写入
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param documentIds - 文档ID列表
+ * @param token - 当前会话提供的锁令牌（X-Lock-Token）
+ * @returns 文档ID到阻止写入的锁的映射
+ *
+ * @example
+ * ```typescript
+ * const { data: locks } = await findBlockingLocks(supabase, [id], c.req.header(LOCK_TOKEN_HEADER));
+ * if (locks.has(id)) return c.json(buildLockedPayload(locks.get(id)!, user.id), 423);
+ * ```
+ */
+export const findBlockingLocks = async (
+  supabase: SupabaseClient,
+  documentIds: string[],
+  token: string | undefined
+): Promise<{ data: Map<string, DocumentLock>; error: { message: string } | null }> => {
+  const locks = new Map<string, DocumentLock>();
+  if (documentIds.length === 0) return { data: locks, error: null };
+
+  const { data, error } = await supabase
+    .from('document_locks')
+    .select('*')
+    .in('document_id', documentIds)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) return { data: locks, error };
+
+  for (const lock of (data || []) as DocumentLock[]) {
+    if (lock.token !== token) {
+      locks.set(lock.document_id, lock);
+    }
+  }
+
+  return { data: locks, error: null };
+};
+
+/**
+ * 查找指定文件夹中被其他会话锁定的文档
+ * 通过关联 documents 表在数据库中按文件夹过滤，不需要先取出文件夹中的全部文档ID
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 文档所有者ID
+ * @param folderIds - 文件夹ID列表
+ * @param token - 当前会话提供的锁令牌（X-Lock-Token），该令牌持有的锁不算作阻塞
+ * @returns 文档ID到锁记录的映射，只包含被其他会话持有的锁
+ */
+export const findBlockingLocksInFolders = async (
+  supabase: SupabaseClient,
+  userId: string,
+  folderIds: string[],
+  token: string | undefined
+): Promise<{ data: Map<string, DocumentLock>; error: { message: string } | null }> => {
+  const locks = new Map<string, DocumentLock>();
+  if (folderIds.length === 0) return { data: locks, error: null };
+
+  const { data, error } = await supabase
+    .from('document_locks')
+    .select('*, documents!inner(folder_id)')
+    .eq('documents.user_id', userId)
+    .is('documents.deleted_at', null)
+    .in('documents.folder_id', folderIds)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) return { data: locks, error };
+
+  for (const { documents: _document, ...lock } of (data || []) as (DocumentLock & { documents: unknown })[]) {
+    if (lock.token !== token) {
+      locks.set(lock.document_id, lock);
+    }
+  }
+
+  return { data: locks, error: null };
+};
+
+/**
+ * 检查单篇文档是否被其他会话锁定
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param documentId - 文档ID
+ * @param token - 当前会话提供的锁令牌（X-Lock-Token）
+ * @returns 阻止写入的锁；未被锁定或由当前会话持有时为 null
+ */
+export const checkDocumentLock = async (
+  supabase: SupabaseClient,
+  documentId: string,
+  token: string | undefined
+): Promise<{ data: DocumentLock | null; error: { message: string } | null }> => {
+  const { data, error } = await findBlockingLocks(supabase, [documentId], token);
+  return { data: data.get(documentId) || null, error };
+};
+
+/**
+ * 确认文档属于当前用户后检查文档锁
+ * 先校验归属再查询锁，其他用户无法通过 423 响应探测文档是否存在和锁的持有者
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param documentId - 文档ID
+ * @param token - 请求提供的锁令牌
+ * @returns found 为 false 表示文档不存在、不属于当前用户或已在回收站中；data 为阻止写入的锁
+ */
+export const checkOwnedDocumentLock = async (
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string,
+  token: string | undefined
+): Promise<{ found: boolean; data: DocumentLock | null; error: { message: string } | null }> => {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) return { found: false, data: null, error };
+  if (!document) return { found: false, data: null, error: null };
+
+  const { data: lock, error: lockError } = await checkDocumentLock(supabase, documentId, token);
+  return { found: true, data: lock, error: lockError };
+};
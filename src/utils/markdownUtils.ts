@@ -0,0 +1,229 @@
+/**
+ * ========================================
+ * Markdown 渲染工具函数
+ * ========================================
+ *
+ * 本文件提供将文档 Markdown 内容渲染为安全 HTML 的功能
+ * 以及生成带内嵌样式的独立 HTML 页面
+ * 用于分享页面等对外展示的场景，渲染结果会过滤原始 HTML 和危险链接
+ */
+
+import { Marked } from 'marked';
+
+/**
+ * ========================================
+ * HTML 转义与链接校验
+ * ========================================
+ */
+
+/**
+ * 转义 HTML 特殊字符
+ *
+ * @param text - 原始文本
+ * @returns 可安全嵌入 HTML 的文本
+ */
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * 检查链接地址是否安全
+ * 允许相对地址、锚点、http(s) 和 mailto；图片额外允许 data:image
+ *
+ * @param href - 链接地址
+ * @param allowDataImage - 是否允许 data:image 地址
+ * @returns 是否安全
+ */
+const isSafeUrl = (href: string, allowDataImage: boolean = false): boolean => {
+  const value = href.trim().toLowerCase();
+  if (allowDataImage && value.startsWith('data:image/')) return true;
+
+  const scheme = value.match(/^([a-z][a-z0-9+.-]*):/);
+  if (!scheme) return true; // 相对地址或锚点
+  return ['http', 'https', 'mailto'].includes(scheme[1]);
+};
+
+/**
+ * ========================================
+ * 标题锚点
+ * ========================================
+ */
+
+/**
+ * 创建标题锚点生成器
+ *
+ * 锚点规则与 GitHub 一致：转为小写，去除标点，空格替换为连字符，中文等文字原样保留（只有标点时为 section）；
+ * 同一篇文档中重复的锚点依次追加 -1、-2……，因此每篇文档需要使用新的生成器
+ *
+ * @returns 根据标题纯文本生成锚点的函数
+ *
+ * @example
+ * ```typescript
+ * const anchor = createHeadingAnchors();
+ * anchor('Hello, World!'); // 'hello-world'
+ * anchor('第一章 概述');    // '第一章-概述'
+ * anchor('Hello World');   // 'hello-world-1'
+ * ```
+ */
+export const createHeadingAnchors = (): ((text: string) => string) => {
+  const seen = new Map<string, number>();
+
+  return (text: string): string => {
+    const base = text
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '')
+      .replace(/\s/g, '-') || 'section';
+
+    const count = seen.get(base);
+    seen.set(base, (count ?? -1) + 1);
+    return count === undefined ? base : `${base}-${count + 1}`;
+  };
+};
+
+/**
+ * ========================================
+ * Markdown 渲染
+ * ========================================
+ */
+
+/** 当前渲染的文档使用的标题锚点生成器，每次渲染前重置 */
+let headingAnchor = createHeadingAnchors();
+
+/**
+ * 安全的 Markdown 渲染器实例
+ * - 原始 HTML 一律转义输出
+ * - 过滤 javascript: 等危险链接
+ * - 标题带有 id 锚点，与文档大纲中的 anchor 一致
+ */
+const safeMarked = new Marked({ gfm: true });
+
+safeMarked.use({
+  hooks: {
+    preprocess(markdown) {
+      headingAnchor = createHeadingAnchors();
+      return markdown;
+    }
+  },
+  renderer: {
+    heading({ tokens, depth }) {
+      const text = this.parser.parseInline(tokens);
+      const anchor = headingAnchor(this.parser.parseInline(tokens, this.parser.textRenderer));
+      return `<h${depth} id="${escapeHtml(anchor)}">${text}</h${depth}>\n`;
+    },
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      if (!isSafeUrl(href)) return text;
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${titleAttr} rel="noopener noreferrer">${text}</a>`;
+    },
+    image({ href, title, text }) {
+      if (!isSafeUrl(href, true)) return escapeHtml(text);
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr}>`;
+    }
+  }
+});
+
+/**
+ * 将 Markdown 渲染为安全的 HTML 片段
+ *
+ * @param markdown - Markdown 文本
+ * @returns HTML 片段
+ *
+ * @example
+ * ```typescript
+ * renderMarkdown('# 标题\n\n<script>alert(1)</script>');
+ * // '<h1 id="标题">标题</h1>\n<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>\n'
+ * ```
+ */
+export const renderMarkdown = (markdown: string): string => {
+  return safeMarked.parse(markdown || '', { async: false }) as string;
+};
+
+/**
+ * ========================================
+ * 独立 HTML 页面
+ * ========================================
+ */
+
+/** 文档页面的内嵌样式 */
+export const DOCUMENT_STYLES = `
+  :root { color-scheme: light; }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    padding: 40px 20px;
+    background: #f8fafc;
+    color: #1f2937;
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", sans-serif;
+    line-height: 1.75;
+  }
+  main {
+    max-width: 780px;
+    margin: 0 auto;
+    padding: 48px 56px;
+    background: #ffffff;
+    border-radius: 12px;
+    box-shadow: 0 1px 3px rgba(15, 23, 42, 0.08);
+  }
+  h1, h2, h3, h4, h5, h6 { line-height: 1.3; margin: 1.6em 0 0.6em; }
+  h1.document-title { margin-top: 0; font-size: 2em; }
+  .document-meta { color: #6b7280; font-size: 0.875em; margin-bottom: 2em; }
+  img { max-width: 100%; height: auto; }
+  a { color: #2563eb; }
+  pre { background: #0f172a; color: #e2e8f0; padding: 16px; border-radius: 8px; overflow-x: auto; }
+  code { font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace; font-size: 0.9em; }
+  :not(pre) > code { background: #f1f5f9; padding: 0.15em 0.4em; border-radius: 4px; }
+  blockquote { margin: 1em 0; padding: 0.5em 1em; border-left: 4px solid #cbd5e1; color: #475569; background: #f8fafc; }
+  table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+  th, td { border: 1px solid #e2e8f0; padding: 8px 12px; text-align: left; }
+  th { background: #f1f5f9; }
+  hr { border: none; border-top: 1px solid #e2e8f0; margin: 2em 0; }
+  @media (max-width: 640px) { main { padding: 24px 20px; } }
+`;
+
+/**
+ * 生成带内嵌样式的完整 HTML 页面
+ *
+ * @param options.title - 页面标题
+ * @param options.bodyHtml - 页面主体 HTML（已渲染、已转义）
+ * @param options.meta - 显示在标题下方的说明文字（可选，纯文本）
+ * @param options.styles - 额外的 CSS（可选）
+ * @param options.head - 追加到 <head> 中的 HTML（可选，需已转义）
+ * @returns 完整的 HTML 文档字符串
+ */
+export const buildHtmlDocument = (options: {
+  title: string;
+  bodyHtml: string;
+  meta?: string;
+  styles?: string;
+  head?: string;
+}): string => {
+  const metaHtml = options.meta ? `<div class="document-meta">${escapeHtml(options.meta)}</div>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+<style>${DOCUMENT_STYLES}${options.styles || ''}</style>
+${options.head ? `${options.head}\n` : ''}</head>
+<body>
+<main>
+<h1 class="document-title">${escapeHtml(options.title)}</h1>
+${metaHtml}
+${options.bodyHtml}
+</main>
+</body>
+</html>`;
+};
@@ -0,0 +1,449 @@
+/**
+ * ========================================
+ * HTML / XML 解析与 Markdown 转换工具函数
+ * ========================================
+ *
+ * 本文件提供一个容错的轻量级标记解析器（Workers 环境中没有 DOM），
+ * 以及将 HTML 转换为 Markdown 的功能，供文档导入使用
+ * 解析器同时用于读取 DOCX 中的 XML 部件
+ */
+
+/**
+ * 标记元素节点
+ */
+export interface MarkupElement {
+  type: 'element';
+  name: string;
+  attrs: Record<string, string>;
+  children: MarkupNode[];
+}
+
+/**
+ * 标记文本节点
+ */
+export interface MarkupText {
+  type: 'text';
+  text: string;
+}
+
+export type MarkupNode = MarkupElement | MarkupText;
+
+/** HTML 空元素（没有结束标签） */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+/** 内容按原始文本处理的 HTML 元素 */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+/** 遇到同名开始标签时自动闭合的 HTML 元素，以及阻止自动闭合的边界元素 */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  p: ['div', 'section', 'article', 'blockquote', 'li', 'td', 'th', 'body'],
+  li: ['ul', 'ol'],
+  dt: ['dl'],
+  dd: ['dl'],
+  tr: ['table', 'thead', 'tbody', 'tfoot'],
+  td: ['tr', 'table'],
+  th: ['tr', 'table'],
+  option: ['select']
+};
+
+/** 常用的 HTML 命名字符实体 */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+  times: '×', divide: '÷', laquo: '«', raquo: '»', deg: '°', yen: '¥', euro: '€'
+};
+
+/**
+ * ========================================
+ * 解析器
+ * ========================================
+ */
+
+/**
+ * 解码字符实体
+ *
+ * @param text - 包含字符实体的文本
+ * @returns 解码后的文本
+ */
+export const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+};
+
+/**
+ * 解析标签属性
+ */
+const parseAttributes = (source: string, lowerCase: boolean): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const name = lowerCase ? match[1].toLowerCase() : match[1];
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attrs;
+};
+
+/**
+ * 将 HTML 或 XML 文本解析为节点树
+ *
+ * 解析器是容错的：未闭合的标签会在父元素结束时自动闭合，
+ * 多余的结束标签会被忽略。HTML 模式下标签名统一转为小写，
+ * 并处理空元素、原始文本元素和常见的隐式闭合规则
+ *
+ * @param source - HTML 或 XML 文本
+ * @param options.html - 是否按 HTML 规则解析
+ * @returns 根节点（名称为 #root）
+ */
+export const parseMarkup = (source: string, options: { html: boolean }): MarkupElement => {
+  const root: MarkupElement = { type: 'element', name: '#root', attrs: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([A-Za-z][\w:.-]*)\s*>|<([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text });
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    appendText(decodeEntities(source.slice(lastIndex, match.index)));
+    lastIndex = pattern.lastIndex;
+
+    const [, cdata, closeName, openName, attrSource, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      appendText(cdata);
+    } else if (closeName) {
+      const name = options.html ? closeName.toLowerCase() : closeName;
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else if (openName) {
+      const name = options.html ? openName.toLowerCase() : openName;
+
+      // 处理隐式闭合，例如 <li>a<li>b 中第二个 li 会闭合第一个
+      if (options.html && IMPLICIT_CLOSE[name]) {
+        for (let i = stack.length - 1; i > 0; i--) {
+          if (stack[i].name === name) {
+            stack.length = i;
+            break;
+          }
+          if (IMPLICIT_CLOSE[name].includes(stack[i].name)) break;
+        }
+      }
+
+      const element: MarkupElement = { type: 'element', name, attrs: parseAttributes(attrSource || '', options.html), children: [] };
+      current().children.push(element);
+
+      if (options.html && RAW_TEXT_ELEMENTS.has(name)) {
+        // 原始文本元素的内容直到对应结束标签为止都按文本处理
+        const end = source.toLowerCase().indexOf(`</${name}`, lastIndex);
+        const stop = end === -1 ? source.length : end;
+        element.children.push({ type: 'text', text: name === 'title' || name === 'textarea' ? decodeEntities(source.slice(lastIndex, stop)) : source.slice(lastIndex, stop) });
+        const close = source.indexOf('>', stop);
+        lastIndex = end === -1 || close === -1 ? source.length : close + 1;
+        pattern.lastIndex = lastIndex;
+      } else if (!selfClosing && !(options.html && VOID_ELEMENTS.has(name))) {
+        stack.push(element);
+      }
+    }
+  }
+
+  appendText(decodeEntities(source.slice(lastIndex)));
+  return root;
+};
+
+/**
+ * 获取节点的全部文本内容
+ *
+ * @param node - 节点
+ * @returns 文本内容
+ */
+export const getTextContent = (node: MarkupNode): string => {
+  if (node.type === 'text') return node.text;
+  return node.children.map(getTextContent).join('');
+};
+
+/**
+ * 按名称查找第一个后代元素（深度优先）
+ *
+ * @param node - 起始元素
+ * @param name - 元素名称
+ * @returns 找到的元素；不存在时返回 null
+ */
+export const findElement = (node: MarkupElement, name: string): MarkupElement | null => {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue;
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return null;
+};
+
+/**
+ * ========================================
+ * HTML 转 Markdown
+ * ========================================
+ */
+
+/** 按块级处理的 HTML 元素 */
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html',
+  'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+/** 转换时整体忽略的 HTML 元素 */
+const IGNORED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'title', 'iframe', 'object', 'svg', 'button', 'select', 'textarea']);
+
+/**
+ * 转义 Markdown 中有特殊含义的行内字符
+ */
+const escapeMarkdownText = (text: string): string => text.replace(/([\\`*_\[\]])/g, '\\$1');
+
+/**
+ * 用强调标记包裹内容，标记紧贴文字，首尾空白放在标记外侧
+ */
+const wrapInline = (content: string, marker: string): string => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return content;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+/**
+ * 判断节点是否为块级元素
+ */
+const isBlockNode = (node: MarkupNode): node is MarkupElement => {
+  return node.type === 'element' && (BLOCK_ELEMENTS.has(node.name) || IGNORED_ELEMENTS.has(node.name));
+};
+
+/**
+ * 转换行内内容
+ */
+const renderInlineNodes = (nodes: MarkupNode[]): string => nodes.map(renderInlineNode).join('');
+
+/**
+ * 转换单个行内节点
+ */
+const renderInlineNode = (node: MarkupNode): string => {
+  if (node.type === 'text') {
+    return escapeMarkdownText(node.text.replace(/\s+/g, ' '));
+  }
+
+  if (IGNORED_ELEMENTS.has(node.name)) return '';
+
+  switch (node.name) {
+    case 'br':
+      return '  \n';
+    case 'strong':
+    case 'b':
+      return wrapInline(renderInlineNodes(node.children), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(renderInlineNodes(node.children), '*');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(renderInlineNodes(node.children), '~~');
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = getTextContent(node).replace(/\s+/g, ' ');
+      if (!text.trim()) return text;
+      const fence = text.includes('`') ? '``' : '`';
+      return `${fence}${text}${fence}`;
+    }
+    case 'a': {
+      const text = renderInlineNodes(node.children).trim();
+      const href = (node.attrs.href || '').trim();
+      if (!href || href.startsWith('javascript:')) return text;
+      const title = node.attrs.title ? ` "${node.attrs.title.replace(/"/g, '\\"')}"` : '';
+      return `[${text || href}](${href.replace(/ /g, '%20')}${title})`;
+    }
+    case 'img': {
+      const src = (node.attrs.src || '').trim();
+      if (!src) return '';
+      return `![${escapeMarkdownText(node.attrs.alt || '')}](${src.replace(/ /g, '%20')})`;
+    }
+    case 'input':
+      return node.attrs.type === 'checkbox' ? ('checked' in node.attrs ? '[x] ' : '[ ] ') : '';
+    default:
+      // 行内位置出现的块级元素按空格分隔展开
+      return BLOCK_ELEMENTS.has(node.name)
+        ? ` ${renderInlineNodes(node.children)} `
+        : renderInlineNodes(node.children);
+  }
+};
+
+/**
+ * 为多行文本的每一行添加前缀
+ */
+const prefixLines = (text: string, first: string, rest: string): string => {
+  return text.split('\n').map((line, index) => (index === 0 ? first : line ? rest : rest.trimEnd()) + line).join('\n');
+};
+
+/**
+ * 转换列表
+ */
+const renderList = (node: MarkupElement): string => {
+  const ordered = node.name === 'ol';
+  let index = Number.parseInt(node.attrs.start || '1', 10) || 1;
+  const items: string[] = [];
+
+  for (const child of node.children) {
+    if (child.type !== 'element' || child.name !== 'li') continue;
+    const marker = ordered ? `${index++}. ` : '- ';
+    const content = renderContainer(child.children) || '';
+    items.push(prefixLines(content, marker, ' '.repeat(marker.length)));
+  }
+
+  return items.join('\n');
+};
+
+/**
+ * 转换表格
+ */
+const renderTable = (node: MarkupElement): string => {
+  const rows: MarkupElement[] = [];
+  const collectRows = (element: MarkupElement) => {
+    for (const child of element.children) {
+      if (child.type !== 'element') continue;
+      if (child.name === 'tr') rows.push(child);
+      else if (['thead', 'tbody', 'tfoot'].includes(child.name)) collectRows(child);
+    }
+  };
+  collectRows(node);
+
+  const cells = rows
+    .map(row => row.children
+      .filter((cell): cell is MarkupElement => cell.type === 'element' && (cell.name === 'td' || cell.name === 'th'))
+      .map(cell => renderInlineNodes(cell.children).replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|').trim()))
+    .filter(row => row.length > 0);
+
+  if (cells.length === 0) return '';
+
+  const columnCount = Math.max(...cells.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill('')];
+  const toLine = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  return [
+    toLine(cells[0]),
+    `|${Array(columnCount).fill(' --- ').join('|')}|`,
+    ...cells.slice(1).map(toLine)
+  ].join('\n');
+};
+
+/**
+ * 转换块级元素
+ */
+const renderBlock = (node: MarkupElement): string => {
+  if (IGNORED_ELEMENTS.has(node.name)) return '';
+
+  // 本应用导出的 HTML 中的说明文字不属于正文
+  if ((node.attrs.class || '').split(/\s+/).includes('document-meta')) return '';
+
+  switch (node.name) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderInlineNodes(node.children).replace(/\s+/g, ' ').trim();
+      return text ? `${'#'.repeat(Number(node.name[1]))} ${text}` : '';
+    }
+    case 'hr':
+      return '---';
+    case 'pre': {
+      const code = node.children.find((child): child is MarkupElement => child.type === 'element' && child.name === 'code');
+      const language = ((code?.attrs.class || node.attrs.class || '').match(/(?:lang|language)-([\w+#-]+)/) || [])[1] || '';
+      const text = getTextContent(node).replace(/\n$/, '');
+      const fence = text.includes('```') ? '~~~' : '```';
+      return `${fence}${language}\n${text}\n${fence}`;
+    }
+    case 'blockquote': {
+      const content = renderContainer(node.children);
+      return content ? prefixLines(content, '> ', '> ') : '';
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node);
+    case 'table':
+      return renderTable(node);
+    default:
+      return renderContainer(node.children);
+  }
+};
+
+/**
+ * 转换容器内的子节点
+ * 连续的行内节点合并为一个段落，块级节点各自成段
+ */
+const renderContainer = (nodes: MarkupNode[]): string => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = inline
+      .split('\n')
+      .map(line => line.endsWith('  ') ? line.trimStart() : line.trim())
+      // 合并标记两侧残留的连续空格，保留行尾表示硬换行的两个空格
+      .map(line => line.replace(/(\S) {2,}(?=\S)/g, '$1 '))
+      .join('\n')
+      .trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  for (const node of nodes) {
+    if (isBlockNode(node)) {
+      flush();
+      const block = renderBlock(node);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inline += renderInlineNode(node);
+    }
+  }
+  flush();
+
+  return blocks.join('\n\n');
+};
+
+/**
+ * 将 HTML 转换为 Markdown
+ *
+ * 支持标题、段落、强调、删除线、行内代码、代码块、链接、图片、
+ * 有序/无序/任务列表、引用、表格和分隔线；脚本、样式等内容会被忽略
+ *
+ * @param html - HTML 文本（完整页面或片段）
+ * @returns Markdown 文本和页面标题（<title> 元素，可能为空）
+ *
+ * @example
+ * ```typescript
+ * htmlToMarkdown('<h1>标题</h1><p>你好 <b>世界</b></p>').markdown;
+ * // '# 标题\n\n你好 **世界**'
+ * ```
+ */
+export const htmlToMarkdown = (html: string): { markdown: string; title: string } => {
+  const root = parseMarkup(html, { html: true });
+  const titleElement = findElement(root, 'title');
+  const body = findElement(root, 'body') || root;
+
+  return {
+    markdown: renderContainer(body.children).replace(/\n{3,}/g, '\n\n').trim(),
+    title: titleElement ? getTextContent(titleElement).replace(/\s+/g, ' ').trim() : ''
+  };
+};
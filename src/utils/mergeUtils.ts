@@ -0,0 +1,234 @@
+/**
+ * ========================================
+ * 三方合并工具函数
+ * ========================================
+ *
+ * 本文件提供基于行的三方合并（diff3）功能
+ * 用于在并发编辑冲突时，根据共同基础版本合并两端的修改并给出合并建议
+ */
+
+import { diffTokens, tokenize } from './diffUtils';
+
+/**
+ * ========================================
+ * 类型定义
+ * ========================================
+ */
+
+/**
+ * 冲突处理方式
+ * - markers：输出冲突标记，由用户手动处理
+ * - ours：保留当前提交一侧的内容，不输出冲突标记
+ */
+export type ConflictResolution = 'markers' | 'ours';
+
+/**
+ * 三方合并结果接口
+ */
+export interface MergeResult {
+  /** 合并后的文本，冲突部分按冲突处理方式输出 */
+  content: string;
+
+  /** 是否无冲突地完成合并 */
+  clean: boolean;
+
+  /** 冲突块数量 */
+  conflicts: number;
+}
+
+/**
+ * 单侧修改块
+ * 表示将基础版本中 [baseStart, baseEnd) 的行替换为 lines
+ */
+interface Hunk {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+/** 冲突标记 */
+const MARKER_OURS = '<<<<<<< 当前提交';
+const MARKER_SEPARATOR = '=======';
+const MARKER_THEIRS = '>>>>>>> 服务器版本';
+
+/**
+ * ========================================
+ * 内部函数
+ * ========================================
+ */
+
+/**
+ * 计算从基础版本到某一侧的修改块
+ *
+ * @param base - 基础版本的行
+ * @param side - 某一侧的行
+ * @param label - 修改块所属的一侧
+ * @returns 修改块列表，按基础版本位置排序
+ */
+const computeHunks = (base: string[], side: string[], label: Hunk['side']): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let basePos = 0;
+  let current: Hunk | null = null;
+
+  for (const change of diffTokens(base, side)) {
+    if (change.type === 'equal') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      basePos++;
+      continue;
+    }
+
+    if (!current) {
+      current = { side: label, baseStart: basePos, baseEnd: basePos, lines: [] };
+    }
+
+    if (change.type === 'delete') {
+      basePos++;
+      current.baseEnd = basePos;
+    } else {
+      current.lines.push(change.value);
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+};
+
+/**
+ * 将一组修改块应用到基础版本的指定区间
+ *
+ * @param base - 基础版本的行
+ * @param start - 区间起点
+ * @param end - 区间终点（不含）
+ * @param hunks - 位于该区间内的单侧修改块
+ * @returns 应用修改后的行
+ */
+const applyHunks = (base: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+  const result: string[] = [];
+  let pos = start;
+
+  for (const hunk of hunks) {
+    result.push(...base.slice(pos, hunk.baseStart));
+    result.push(...hunk.lines);
+    pos = hunk.baseEnd;
+  }
+
+  result.push(...base.slice(pos, end));
+  return result;
+};
+
+/**
+ * 确保文本块以换行符结尾，避免冲突标记与内容粘连
+ */
+const ensureTrailingNewline = (text: string): string => {
+  return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+};
+
+/**
+ * ========================================
+ * 合并函数
+ * ========================================
+ */
+
+/**
+ * 对文本进行基于行的三方合并
+ *
+ * 两侧修改互不重叠时自动合并；
+ * 修改区间重叠且结果不同时默认输出冲突标记，由用户手动处理
+ *
+ * @param base - 共同的基础版本
+ * @param ours - 当前提交的版本
+ * @param theirs - 服务器上的最新版本
+ * @param resolution - 冲突处理方式，默认为 markers
+ * @returns 合并结果
+ *
+ * @example
+ * ```typescript
+ * const result = mergeText('a\nb\nc\n', 'a\nB\nc\n', 'a\nb\nC\n');
+ * // result.content === 'a\nB\nC\n', result.clean === true
+ * ```
+ */
+export const mergeText = (
+  base: string,
+  ours: string,
+  theirs: string,
+  resolution: ConflictResolution = 'markers'
+): MergeResult => {
+  const baseLines = tokenize(base, 'line');
+  const hunks = [
+    ...computeHunks(baseLines, tokenize(ours, 'line'), 'ours'),
+    ...computeHunks(baseLines, tokenize(theirs, 'line'), 'theirs')
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  let output = '';
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // 收集与当前修改块重叠或相邻的所有修改块
+    const group: Hunk[] = [hunks[i]];
+    let groupStart = hunks[i].baseStart;
+    let groupEnd = hunks[i].baseEnd;
+    i++;
+
+    while (i < hunks.length && hunks[i].baseStart <= groupEnd) {
+      group.push(hunks[i]);
+      groupStart = Math.min(groupStart, hunks[i].baseStart);
+      groupEnd = Math.max(groupEnd, hunks[i].baseEnd);
+      i++;
+    }
+
+    // 输出区间之前未修改的内容
+    output += baseLines.slice(pos, groupStart).join('');
+    pos = groupEnd;
+
+    const oursHunks = group.filter(hunk => hunk.side === 'ours');
+    const theirsHunks = group.filter(hunk => hunk.side === 'theirs');
+    const oursText = applyHunks(baseLines, groupStart, groupEnd, oursHunks).join('');
+    const theirsText = applyHunks(baseLines, groupStart, groupEnd, theirsHunks).join('');
+
+    if (oursHunks.length === 0) {
+      output += theirsText;
+    } else if (theirsHunks.length === 0 || oursText === theirsText) {
+      output += oursText;
+    } else if (resolution === 'ours') {
+      conflicts++;
+      output += oursText;
+    } else {
+      conflicts++;
+      output = ensureTrailingNewline(output);
+      output += `${MARKER_OURS}\n${ensureTrailingNewline(oursText)}${MARKER_SEPARATOR}\n${ensureTrailingNewline(theirsText)}${MARKER_THEIRS}\n`;
+    }
+  }
+
+  output += baseLines.slice(pos).join('');
+
+  return {
+    content: output,
+    clean: conflicts === 0,
+    conflicts
+  };
+};
+
+/**
+ * 对单行字段（如标题）进行三方合并
+ * 只有一侧修改时采用该侧的值，两侧都修改时以当前提交为准
+ *
+ * @returns 合并后的值以及是否存在冲突
+ */
+export const mergeField = (base: string, ours: string, theirs: string): { value: string; conflict: boolean } => {
+  if (ours === theirs || theirs === base) {
+    return { value: ours, conflict: false };
+  }
+  if (ours === base) {
+    return { value: theirs, conflict: false };
+  }
+  return { value: ours, conflict: true };
+};
@@ -0,0 +1,181 @@
+/**
+ * ========================================
+ * 文档元数据工具函数
+ * ========================================
+ *
+ * 本文件提供从文档正文计算结构化元数据的功能：标题大纲、字数、字符数、阅读时长、
+ * 链接和图片数量以及 YAML front matter 字段
+ *
+ * 元数据在每次保存正文时计算并写入 documents.metadata，列表和大纲接口无需再下载和解析正文
+ */
+
+import { Lexer, Parser, TextRenderer, Token, Tokens } from 'marked';
+import { createHeadingAnchors } from './markdownUtils';
+import { parseFrontMatter } from './importUtils';
+
+/** 中文阅读速度（字/分钟） */
+const CJK_CHARS_PER_MINUTE = 300;
+
+/** 英文等以空格分词的文字的阅读速度（词/分钟） */
+const WORDS_PER_MINUTE = 200;
+
+/** 大纲最多记录的标题数量 */
+const MAX_OUTLINE_ENTRIES = 500;
+
+/** 中文、日文汉字和假名，每个字计为一个词 */
+const CJK_CHAR_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+/** 以空格分词的文字中的词，允许词内的撇号、连字符和小数点（例如 don't、e-mail、3.14） */
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’.\-][\p{L}\p{N}]+)*/gu;
+
+/** 包含子元素的行内元素，其文字与相邻文字相连 */
+const INLINE_CONTAINER_TYPES = ['strong', 'em', 'del', 'link'];
+
+/**
+ * 大纲中的标题
+ */
+export interface OutlineEntry {
+  /** 标题级别（1-6） */
+  level: number;
+
+  /** 标题纯文本 */
+  text: string;
+
+  /** 锚点，与渲染后页面中标题的 id 一致 */
+  anchor: string;
+
+  /** 标题在正文中的行号（从 1 开始） */
+  line: number;
+}
+
+/**
+ * 文档元数据
+ */
+export interface DocumentMetadata {
+  /** 顶层标题大纲（引用块和列表中的标题不计入） */
+  outline: OutlineEntry[];
+
+  /** 字数：中日文每个字计一个词，其他文字按空格分词；不含代码块和 front matter */
+  word_count: number;
+
+  /** 正文文字的字符数，不含 Markdown 标记、代码块和空白 */
+  char_count: number;
+
+  /** 预计阅读分钟数，有内容时至少为 1 */
+  reading_minutes: number;
+
+  /** 链接数量 */
+  link_count: number;
+
+  /** 图片数量 */
+  image_count: number;
+
+  /** 代码块数量 */
+  code_block_count: number;
+
+  /** YAML front matter 字段 */
+  front_matter: Record<string, string | string[]>;
+}
+
+/**
+ * 统计纯文本的字数和字符数
+ *
+ * @param text - 纯文本
+ * @returns 中日文字数、其他文字词数和不含空白的字符数
+ */
+export const countWords = (text: string): { cjk: number; words: number; chars: number } => {
+  const cjk = (text.match(CJK_CHAR_PATTERN) || []).length;
+  const words = (text.replace(CJK_CHAR_PATTERN, ' ').match(WORD_PATTERN) || []).length;
+  const chars = [...text.replace(/\s+/g, '')].length;
+  return { cjk, words, chars };
+};
+
+/**
+ * 计算文档元数据
+ *
+ * @param content - 文档正文（Markdown）
+ * @returns 文档元数据
+ *
+ * @example
+ * ```typescript
+ * buildDocumentMetadata('# 概述\n\n这是 SuperEditor 的文档。');
+ * // { outline: [{ level: 1, text: '概述', anchor: '概述', line: 1 }], word_count: 8, char_count: 19, reading_minutes: 1, ... }
+ * ```
+ */
+export const buildDocumentMetadata = (content: string | null): DocumentMetadata => {
+  const source = content || '';
+  const { attributes, body } = parseFrontMatter(source);
+  const tokens = Lexer.lex(body, { gfm: true });
+
+  // front matter 占用的行数，用于换算标题在原文中的行号
+  const bodyStartLine = source.slice(0, source.length - body.length).split('\n').length;
+
+  const parser = new Parser();
+  const textRenderer = new TextRenderer();
+  const anchor = createHeadingAnchors();
+  const outline: OutlineEntry[] = [];
+  let line = bodyStartLine;
+
+  for (const token of tokens) {
+    if (token.type === 'heading' && outline.length < MAX_OUTLINE_ENTRIES) {
+      const heading = token as Tokens.Heading;
+      const text = parser.parseInline(heading.tokens, textRenderer).trim();
+      outline.push({ level: heading.depth, text, anchor: anchor(text), line });
+    }
+    line += (token.raw.match(/\n/g) || []).length;
+  }
+
+  // 收集正文文字，跳过代码块、原始 HTML 和图片说明文字；块级元素之间以换行分隔
+  let text = '';
+  let linkCount = 0;
+  let imageCount = 0;
+  let codeBlockCount = 0;
+
+  const walk = (list: Token[]) => {
+    for (const token of list) {
+      if (token.type === 'code') {
+        codeBlockCount++;
+        continue;
+      }
+      if (token.type === 'image') {
+        imageCount++;
+        continue;
+      }
+      if (token.type === 'html') continue;
+      if (token.type === 'link') linkCount++;
+
+      const children = (token as Tokens.Generic).tokens;
+      if (children) {
+        walk(children);
+        if (!INLINE_CONTAINER_TYPES.includes(token.type)) text += '\n';
+      } else if (token.type === 'text' || token.type === 'codespan' || token.type === 'escape') {
+        text += token.text;
+      }
+
+      if (token.type === 'list') {
+        walk((token as Tokens.List).items);
+      } else if (token.type === 'table') {
+        const table = token as Tokens.Table;
+        for (const cell of [...table.header, ...table.rows.flat()]) {
+          walk(cell.tokens);
+          text += '\n';
+        }
+      }
+    }
+  };
+  walk(tokens);
+
+  const { cjk, words, chars } = countWords(text);
+  const minutes = cjk / CJK_CHARS_PER_MINUTE + words / WORDS_PER_MINUTE;
+
+  return {
+    outline,
+    word_count: cjk + words,
+    char_count: chars,
+    reading_minutes: cjk + words > 0 ? Math.max(1, Math.round(minutes)) : 0,
+    link_count: linkCount,
+    image_count: imageCount,
+    code_block_count: codeBlockCount,
+    front_matter: attributes
+  };
+};
@@ -0,0 +1,409 @@
+/**
+ * ========================================
+ * 文档属性工具函数
+ * ========================================
+ *
+ * 本文件提供文件夹属性定义（schema）的校验、文档属性值的校验与合并，
+ * 以及文档列表按属性过滤和排序的参数解析
+ *
+ * 属性定义保存在 folders.property_schema 中，只作用于直接位于该文件夹中的文档；
+ * 属性值以 { 属性键: 值 } 的形式保存在 documents.properties 中
+ * 修改或删除属性定义不会改写已有文档中的值
+ */
+
+import { escapeLikePattern } from './listUtils';
+
+/**
+ * 属性类型
+ * - text: 文本
+ * - number: 数字
+ * - date: 日期（YYYY-MM-DD）
+ * - select: 单选，值必须是 options 之一
+ * - multi_select: 多选，值为 options 中的若干项
+ * - user: 用户ID
+ * - url: http(s) 地址
+ */
+export const PROPERTY_TYPES = ['text', 'number', 'date', 'select', 'multi_select', 'user', 'url'] as const;
+
+/** 属性类型 */
+export type PropertyType = typeof PROPERTY_TYPES[number];
+
+/** 单个文件夹最多定义的属性数量 */
+const MAX_PROPERTIES_PER_FOLDER = 50;
+
+/** 单选和多选属性最多的选项数量 */
+const MAX_PROPERTY_OPTIONS = 100;
+
+/** 文本属性值的最大长度 */
+const MAX_TEXT_VALUE_LENGTH = 1000;
+
+/** 属性键：小写字母开头，只包含小写字母、数字和下划线 */
+const PROPERTY_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+/** 日期属性值 */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 用户ID */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** 列表查询中属性过滤参数的前缀，例如 prop.status=eq.完成 */
+export const PROPERTY_PARAM_PREFIX = 'prop.';
+
+/**
+ * 属性定义
+ */
+export interface PropertyDefinition {
+  /** 属性键，在文件夹内唯一，用于读写属性值和过滤 */
+  key: string;
+
+  /** 显示名称 */
+  name: string;
+
+  /** 属性类型 */
+  type: PropertyType;
+
+  /** 单选和多选属性的可选值 */
+  options?: string[];
+}
+
+/**
+ * 文档属性值
+ */
+export type PropertyValues = Record<string, string | number | string[]>;
+
+/**
+ * 属性过滤条件
+ */
+export interface PropertyFilter {
+  definition: PropertyDefinition;
+  operator: string;
+  value: string | number | null;
+}
+
+/** 各类型支持的过滤运算符 */
+const FILTER_OPERATORS: Record<PropertyType, string[]> = {
+  text: ['eq', 'neq', 'contains', 'empty', 'not_empty'],
+  url: ['eq', 'neq', 'contains', 'empty', 'not_empty'],
+  user: ['eq', 'neq', 'empty', 'not_empty'],
+  select: ['eq', 'neq', 'empty', 'not_empty'],
+  multi_select: ['has', 'empty', 'not_empty'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'empty', 'not_empty'],
+  date: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'empty', 'not_empty']
+};
+
+/**
+ * ========================================
+ * 属性定义
+ * ========================================
+ */
+
+/**
+ * 校验日期字符串是否为有效的 YYYY-MM-DD 日期
+ */
+const isValidDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * 校验文件夹的属性定义列表
+ *
+ * @param value - 请求体中的属性定义数组
+ * @returns 规范化后的属性定义；格式无效时返回错误信息
+ *
+ * @example
+ * ```typescript
+ * parsePropertySchema([
+ *   { key: 'status', name: '状态', type: 'select', options: ['待办', '进行中', '完成'] },
+ *   { key: 'due', name: '截止日期', type: 'date' }
+ * ]);
+ * ```
+ */
+export const parsePropertySchema = (value: unknown): { schema: PropertyDefinition[] } | { error: string } => {
+  if (!Array.isArray(value)) {
+    return { error: 'properties 必须是数组' };
+  }
+  if (value.length > MAX_PROPERTIES_PER_FOLDER) {
+    return { error: `每个文件夹最多定义 ${MAX_PROPERTIES_PER_FOLDER} 个属性` };
+  }
+
+  const schema: PropertyDefinition[] = [];
+  const keys = new Set<string>();
+
+  for (const item of value) {
+    if (!item || typeof item !== 'object') {
+      return { error: '属性定义格式无效' };
+    }
+
+    const { key, name, type, options } = item as Record<string, unknown>;
+
+    if (typeof key !== 'string' || !PROPERTY_KEY_PATTERN.test(key)) {
+      return { error: '属性键只能包含小写字母、数字和下划线，以字母开头，长度不超过 40 个字符' };
+    }
+    if (keys.has(key)) {
+      return { error: `属性键重复：${key}` };
+    }
+    if (typeof type !== 'string' || !(PROPERTY_TYPES as readonly string[]).includes(type)) {
+      return { error: `属性 ${key} 的类型无效，可选值：${PROPERTY_TYPES.join('、')}` };
+    }
+
+    const definition: PropertyDefinition = {
+      key,
+      name: typeof name === 'string' && name.trim() ? name.trim() : key,
+      type: type as PropertyType
+    };
+
+    if (type === 'select' || type === 'multi_select') {
+      if (!Array.isArray(options) || options.length === 0 || !options.every(option => typeof option === 'string' && option.trim())) {
+        return { error: `属性 ${key} 需要提供非空的 options 列表` };
+      }
+      const uniqueOptions = [...new Set(options.map(option => (option as string).trim()))];
+      if (uniqueOptions.length > MAX_PROPERTY_OPTIONS) {
+        return { error: `属性 ${key} 最多 ${MAX_PROPERTY_OPTIONS} 个选项` };
+      }
+      definition.options = uniqueOptions;
+    }
+
+    keys.add(key);
+    schema.push(definition);
+  }
+
+  return { schema };
+};
+
+/**
+ * ========================================
+ * 属性值
+ * ========================================
+ */
+
+/**
+ * 校验单个属性值
+ *
+ * @returns 规范化后的值；空字符串和空数组视为清除（返回 null）；无效时返回错误信息
+ */
+const parsePropertyValue = (
+  definition: PropertyDefinition,
+  value: unknown
+): { value: string | number | string[] | null } | { error: string } => {
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return { value: null };
+  }
+
+  const invalid = { error: `属性 ${definition.key} 的值无效` };
+
+  switch (definition.type) {
+    case 'text':
+      if (typeof value !== 'string') return invalid;
+      if (value.length > MAX_TEXT_VALUE_LENGTH) {
+        return { error: `属性 ${definition.key} 不能超过 ${MAX_TEXT_VALUE_LENGTH} 个字符` };
+      }
+      return { value };
+
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? { value } : invalid;
+
+    case 'date':
+      return typeof value === 'string' && isValidDate(value) ? { value } : { error: `属性 ${definition.key} 必须是 YYYY-MM-DD 格式的日期` };
+
+    case 'select':
+      return typeof value === 'string' && definition.options!.includes(value)
+        ? { value }
+        : { error: `属性 ${definition.key} 的值必须是以下之一：${definition.options!.join('、')}` };
+
+    case 'multi_select':
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && definition.options!.includes(item))) {
+        return { error: `属性 ${definition.key} 的值只能包含：${definition.options!.join('、')}` };
+      }
+      return { value: [...new Set(value as string[])] };
+
+    case 'user':
+      return typeof value === 'string' && UUID_PATTERN.test(value) ? { value: value.toLowerCase() } : { error: `属性 ${definition.key} 必须是用户ID` };
+
+    case 'url': {
+      if (typeof value !== 'string') return invalid;
+      try {
+        const url = new URL(value.trim());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return { error: `属性 ${definition.key} 必须是 http(s) 地址` };
+        return { value: url.toString() };
+      } catch {
+        return { error: `属性 ${definition.key} 必须是 http(s) 地址` };
+      }
+    }
+  }
+};
+
+/**
+ * 校验并合并文档属性值
+ *
+ * 只允许写入文件夹属性定义中存在的属性；值为 null、空字符串或空数组时删除该属性，
+ * 未出现在 updates 中的已有属性保持不变
+ *
+ * @param schema - 文档所在文件夹的属性定义
+ * @param existing - 文档已有的属性值
+ * @param updates - 请求体中的属性值
+ * @returns 合并后的属性值；无效时返回错误信息
+ */
+export const mergePropertyValues = (
+  schema: PropertyDefinition[],
+  existing: PropertyValues | null | undefined,
+  updates: unknown
+): { properties: PropertyValues } | { error: string } => {
+  if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+    return { error: 'properties 必须是对象' };
+  }
+
+  const definitions = new Map(schema.map(definition => [definition.key, definition]));
+  const properties: PropertyValues = { ...(existing || {}) };
+
+  for (const [key, value] of Object.entries(updates)) {
+    const definition = definitions.get(key);
+    if (!definition) {
+      return { error: `文件夹中没有定义属性：${key}` };
+    }
+
+    const parsed = parsePropertyValue(definition, value);
+    if ('error' in parsed) return parsed;
+
+    if (parsed.value === null) {
+      delete properties[key];
+    } else {
+      properties[key] = parsed.value;
+    }
+  }
+
+  return { properties };
+};
+
+/**
+ * ========================================
+ * 按属性过滤和排序
+ * ========================================
+ */
+
+/**
+ * 解析文档列表的属性过滤参数
+ *
+ * 参数形如 prop.<属性键>=<运算符>.<值>，同一属性可以出现多次（例如日期范围）：
+ * - prop.status=eq.完成
+ * - prop.priority=gte.3
+ * - prop.due=lt.2024-07-01
+ * - prop.labels=has.紧急
+ * - prop.title_en=contains.report
+ * - prop.owner=empty / prop.owner=not_empty
+ *
+ * @param queries - 全部查询参数（c.req.queries()）
+ * @param schema - 文件夹的属性定义
+ * @returns 过滤条件列表；参数无效时返回错误信息
+ */
+export const parsePropertyFilters = (
+  queries: Record<string, string[]>,
+  schema: PropertyDefinition[]
+): { filters: PropertyFilter[] } | { error: string } => {
+  const definitions = new Map(schema.map(definition => [definition.key, definition]));
+  const filters: PropertyFilter[] = [];
+
+  for (const [param, values] of Object.entries(queries)) {
+    if (!param.startsWith(PROPERTY_PARAM_PREFIX)) continue;
+
+    const key = param.slice(PROPERTY_PARAM_PREFIX.length);
+    const definition = definitions.get(key);
+    if (!definition) {
+      return { error: `文件夹中没有定义属性：${key}` };
+    }
+
+    for (const raw of values) {
+      const separator = raw.indexOf('.');
+      const operator = separator === -1 ? raw : raw.slice(0, separator);
+      const text = separator === -1 ? null : raw.slice(separator + 1);
+
+      if (!FILTER_OPERATORS[definition.type].includes(operator)) {
+        return { error: `属性 ${key} 支持的运算符：${FILTER_OPERATORS[definition.type].join('、')}` };
+      }
+
+      if (operator === 'empty' || operator === 'not_empty') {
+        filters.push({ definition, operator, value: null });
+        continue;
+      }
+
+      if (text === null || text === '') {
+        return { error: `属性 ${key} 的过滤条件缺少值` };
+      }
+
+      let value: string | number = text;
+      if (definition.type === 'number') {
+        value = Number(text);
+        if (!Number.isFinite(value)) {
+          return { error: `属性 ${key} 的过滤值必须是数字` };
+        }
+      } else if (definition.type === 'date' && !isValidDate(text)) {
+        return { error: `属性 ${key} 的过滤值必须是 YYYY-MM-DD 格式的日期` };
+      }
+
+      filters.push({ definition, operator, value });
+    }
+  }
+
+  return { filters };
+};
+
+/**
+ * 将属性过滤条件应用到文档查询
+ *
+ * 数字按 JSON 数值比较（properties->键），其余类型按文本比较（properties->>键），
+ * 日期为 YYYY-MM-DD 字符串，文本顺序即日期顺序
+ *
+ * @param query - 文档查询
+ * @param filters - 过滤条件
+ * @returns 添加过滤条件后的查询
+ */
+export const applyPropertyFilters = <Q>(query: Q, filters: PropertyFilter[]): Q => {
+  let result: any = query;
+
+  for (const { definition, operator, value } of filters) {
+    const jsonPath = `properties->${definition.key}`;
+    const textPath = `properties->>${definition.key}`;
+
+    switch (operator) {
+      case 'empty':
+        result = result.is(jsonPath, null);
+        break;
+      case 'not_empty':
+        result = result.not(jsonPath, 'is', null);
+        break;
+      case 'contains':
+        result = result.ilike(textPath, `%${escapeLikePattern(String(value))}%`);
+        break;
+      case 'has':
+        // 对整列做包含查询，可以使用 properties 上的 GIN 索引
+        result = result.filter('properties', 'cs', JSON.stringify({ [definition.key]: [value] }));
+        break;
+      default:
+        result = result.filter(definition.type === 'number' ? jsonPath : textPath, operator, String(value));
+    }
+  }
+
+  return result;
+};
+
+/**
+ * 解析按属性排序的参数
+ *
+ * @param sort - 排序参数，形如 prop.<属性键>
+ * @param schema - 文件夹的属性定义
+ * @returns 排序使用的列表达式；属性未定义时返回错误信息
+ */
+export const parsePropertySort = (
+  sort: string,
+  schema: PropertyDefinition[]
+): { column: string } | { error: string } => {
+  const key = sort.slice(PROPERTY_PARAM_PREFIX.length);
+  const definition = schema.find(item => item.key === key);
+  if (!definition) {
+    return { error: `文件夹中没有定义属性：${key}` };
+  }
+
+  // 数字按 JSON 数值排序，其余按文本排序
+  return { column: definition.type === 'number' ? `properties->${key}` : `properties->>${key}` };
+};
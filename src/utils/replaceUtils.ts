@@ -0,0 +1,384 @@
+/**
+ * ========================================
+ * 查找替换工具函数
+ * ========================================
+ *
+ * 本文件提供跨文档查找替换的匹配计算：解析查找条件、列出正文中的匹配及上下文，
+ * 以及只替换选中的匹配
+ *
+ * 匹配方式：
+ * - text: 普通文本
+ * - word: 全词匹配，前后不能紧接字母、数字或下划线（中日文字符不视为单词的一部分）
+ * - regex: JavaScript 正则表达式，按行匹配 ^ 和 $，替换文本支持 $&、$1、$<name> 和 $$；
+ *   长度为零的匹配（例如单独的 ^）会被忽略
+ *
+ * 正则表达式在 Worker 中同步执行，无法中途取消，因此：
+ * - 拒绝带重复量词的分组中含有量词或分支（|）的表达式（例如 (a+)+$、(a|a)*c、(a?)+），
+ *   这类表达式在不匹配时会指数级回溯
+ * - 单次请求扫描的文档数量、正文字节数和匹配数量有上限（MAX_SCAN_DOCUMENTS、MAX_SCAN_BYTES、MAX_SCAN_MATCHES）
+ */
+
+/** 支持的匹配方式 */
+export const REPLACE_MODES = ['text', 'word', 'regex'] as const;
+
+/** 匹配方式 */
+export type ReplaceMode = typeof REPLACE_MODES[number];
+
+/** 查找内容的最大长度 */
+const MAX_QUERY_LENGTH = 500;
+
+/** 替换文本的最大长度 */
+const MAX_REPLACEMENT_LENGTH = 5000;
+
+/** 预览中匹配前后保留的上下文字符数 */
+const CONTEXT_LENGTH = 40;
+
+/** 单次请求最多扫描的文档数量 */
+export const MAX_SCAN_DOCUMENTS = 2000;
+
+/** 单次请求最多扫描的正文字节数 */
+export const MAX_SCAN_BYTES = 20 * 1024 * 1024;
+
+/** 单次请求最多查找或替换的匹配数量 */
+export const MAX_SCAN_MATCHES = 100000;
+
+/** 不属于单词的中日文字符 */
+const CJK_CLASS = '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]';
+
+/** 单词字符：字母、数字和下划线，不含中日文字符 */
+const WORD_CHAR = `(?!${CJK_CLASS})[\\p{L}\\p{N}_]`;
+
+/**
+ * 查找替换条件
+ */
+export interface ReplaceOptions {
+  /** 查找内容 */
+  query: string;
+
+  /** 替换文本 */
+  replacement: string;
+
+  /** 匹配方式 */
+  mode: ReplaceMode;
+
+  /** 是否区分大小写 */
+  case_sensitive: boolean;
+}
+
+/**
+ * 正文中的一处匹配
+ */
+export interface ReplaceMatch {
+  /** 匹配在正文中的序号（从 0 开始），应用替换时用于选择匹配 */
+  index: number;
+
+  /** 所在行号（从 1 开始） */
+  line: number;
+
+  /** 所在列号（从 1 开始） */
+  column: number;
+
+  /** 匹配到的文本 */
+  text: string;
+
+  /** 替换后的文本 */
+  replacement: string;
+
+  /** 同一行中匹配之前的文字 */
+  before: string;
+
+  /** 同一行中匹配之后的文字 */
+  after: string;
+}
+
+/**
+ * 转义正则表达式中的特殊字符
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 读取 source 中 position 处的量词（*、+、?、{n}、{n,}、{n,m}，包括其后表示惰性匹配的 ?）
+ *
+ * @returns 量词长度以及是否可以重复多次（*、+、{n,} 或上限大于 1 的 {n,m}）；不是量词时返回 null
+ */
+const readQuantifier = (source: string, position: number): { length: number; repeating: boolean } | null => {
+  const char = source[position];
+  let length = 1;
+  let repeating = false;
+
+  if (char === '*' || char === '+') {
+    repeating = true;
+  } else if (char === '{') {
+    const range = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(position));
+    if (!range) return null;
+    length = range[0].length;
+    repeating = range[2] === undefined ? Number(range[1]) > 1 : range[3] === '' || Number(range[3]) > 1;
+  } else if (char !== '?') {
+    return null;
+  }
+
+  return { length: source[position + length] === '?' ? length + 1 : length, repeating };
+};
+
+/**
+ * 读取 source 中 position 处（左括号之后）的分组前缀，例如 ?:、?=、?<!、?<name>
+ *
+ * @returns 前缀长度，普通捕获分组返回 0
+ */
+const readGroupPrefix = (source: string, position: number): number => {
+  if (source[position] !== '?') return 0;
+
+  const next = source[position + 1];
+  if (next === ':' || next === '=' || next === '!') return 2;
+  if (next === '<') {
+    const after = source[position + 2];
+    if (after === '=' || after === '!') return 3;
+    const close = source.indexOf('>', position);
+    return close === -1 ? 1 : close - position + 1;
+  }
+  return 1;
+};
+
+/**
+ * 检查正则表达式中是否有容易引起回溯爆炸的重复：
+ * 带重复量词的分组中含有量词或分支，例如 (a+)+、(a|a)*c、(a?)+、(?:\d{2,}|x){3,}
+ * 跳过转义字符和字符类，只按分组结构判断，可能拒绝少量实际安全的表达式（例如 (foo|bar)+）
+ */
+const hasUnsafeRepetition = (source: string): boolean => {
+  // 每层未闭合的分组中是否已经出现量词或分支
+  const groups: boolean[] = [false];
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // 跳到字符类结束，字符类中的括号和量词符号都是普通字符
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+      i += readGroupPrefix(source, i + 1);
+    } else if (char === ')') {
+      const inner = groups.length > 1 ? groups.pop()! : false;
+      const quantifier = readQuantifier(source, i + 1);
+      if (inner && quantifier?.repeating) return true;
+      if (quantifier) i += quantifier.length;
+      groups[groups.length - 1] ||= inner || quantifier !== null;
+    } else if (char === '|') {
+      groups[groups.length - 1] = true;
+    } else {
+      const quantifier = readQuantifier(source, i);
+      if (quantifier) {
+        groups[groups.length - 1] = true;
+        i += quantifier.length - 1;
+      }
+    }
+  }
+
+  return false;
+};
+
+/**
+ * 解析并校验查找替换条件
+ *
+ * @param body - 请求体，包含 query、replacement、mode 和 case_sensitive
+ * @returns 规范化后的条件和用于匹配的正则表达式；条件无效时返回错误信息
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseReplaceOptions({ query: 'SuperEditor', replacement: 'HyperEditor', mode: 'word' });
+ * if ('error' in parsed) return c.json({ error: parsed.error }, 400);
+ * ```
+ */
+export const parseReplaceOptions = (body: unknown): { options: ReplaceOptions; pattern: RegExp } | { error: string } => {
+  const input = typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+  const { query, replacement = '', mode = 'text', case_sensitive = false } = input;
+
+  if (typeof query !== 'string' || query === '') {
+    return { error: '查找内容不能为空' };
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return { error: `查找内容不能超过 ${MAX_QUERY_LENGTH} 个字符` };
+  }
+  if (typeof replacement !== 'string') {
+    return { error: 'replacement 必须是字符串' };
+  }
+  if (replacement.length > MAX_REPLACEMENT_LENGTH) {
+    return { error: `替换文本不能超过 ${MAX_REPLACEMENT_LENGTH} 个字符` };
+  }
+  if (!REPLACE_MODES.includes(mode as ReplaceMode)) {
+    return { error: `mode 只能是 ${REPLACE_MODES.join('、')}` };
+  }
+  if (mode === 'regex' && hasUnsafeRepetition(query)) {
+    return { error: '正则表达式中带重复量词的分组不能再包含量词或分支（例如 (a+)+、(a|b)*），这类表达式匹配耗时可能过长' };
+  }
+
+  const flags = `gu${case_sensitive === true ? '' : 'i'}${mode === 'regex' ? 'm' : ''}`;
+  let source = escapeRegExp(query);
+  if (mode === 'word') {
+    source = `(?<!${WORD_CHAR})${source}(?!${WORD_CHAR})`;
+  } else if (mode === 'regex') {
+    source = query;
+  }
+
+  try {
+    return {
+      options: { query, replacement, mode: mode as ReplaceMode, case_sensitive: case_sensitive === true },
+      pattern: new RegExp(source, flags)
+    };
+  } catch (error: unknown) {
+    return { error: `正则表达式无效：${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/**
+ * 按正则表达式的替换语法展开替换文本
+ * 支持 $$、$&、$1 到 $99 以及 $<name>，无法识别的 $ 原样保留
+ */
+const expandReplacement = (template: string, match: RegExpExecArray): string => {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return match[0];
+    if (name !== undefined) {
+      return match.groups && name in match.groups ? match.groups[name] ?? '' : token;
+    }
+
+    // 两位数的组号不存在时按一位数组号加普通数字处理，与 String.prototype.replace 一致
+    const group = Number(symbol);
+    if (group > 0 && group < match.length) return match[group] ?? '';
+    if (symbol.length === 2) {
+      const single = Number(symbol[0]);
+      if (single > 0 && single < match.length) return (match[single] ?? '') + symbol[1];
+    }
+    return token;
+  });
+};
+
+/**
+ * 依次处理正文中的匹配，忽略长度为零的匹配
+ *
+ * @param onMatch - 处理每处匹配，返回 false 时停止查找
+ */
+const forEachMatch = (content: string, pattern: RegExp, onMatch: (match: RegExpExecArray) => boolean): void => {
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(content)) !== null) {
+    if (match[0] === '') {
+      // 按码点前进，避免在代理对中间继续匹配
+      const codePoint = content.codePointAt(regex.lastIndex);
+      regex.lastIndex += codePoint !== undefined && codePoint > 0xffff ? 2 : 1;
+      continue;
+    }
+    if (!onMatch(match)) return;
+  }
+};
+
+/**
+ * 计算匹配的替换文本：正则模式展开替换语法，其余模式按原文替换
+ */
+const getReplacement = (options: ReplaceOptions, match: RegExpExecArray): string => {
+  return options.mode === 'regex' ? expandReplacement(options.replacement, match) : options.replacement;
+};
+
+/**
+ * 列出正文中的匹配及其上下文，供替换前预览
+ *
+ * @param content - 文档正文
+ * @param pattern - parseReplaceOptions 返回的正则表达式
+ * @param options - 查找替换条件
+ * @param limit - 最多返回的匹配数量
+ * @param maxMatches - 最多统计的匹配数量，达到后停止查找
+ * @returns 前 limit 处匹配和匹配总数；因达到 maxMatches 而停止时 limited 为 true，total 不含之后的匹配
+ */
+export const findReplaceMatches = (
+  content: string,
+  pattern: RegExp,
+  options: ReplaceOptions,
+  limit: number,
+  maxMatches: number
+): { matches: ReplaceMatch[]; total: number; limited: boolean } => {
+  const matches: ReplaceMatch[] = [];
+  let total = 0;
+  let limited = false;
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+
+  forEachMatch(content, pattern, match => {
+    if (total >= maxMatches) {
+      limited = true;
+      return false;
+    }
+    total++;
+    if (matches.length >= limit) return true;
+
+    // 从上一处匹配继续统计换行，得到行号和所在行的起始位置
+    for (let i = scanned; i < match.index; i++) {
+      if (content[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    scanned = match.index;
+
+    const end = match.index + match[0].length;
+    const lineEnd = content.indexOf('\n', end);
+
+    matches.push({
+      index: matches.length,
+      line,
+      column: match.index - lineStart + 1,
+      text: match[0],
+      replacement: getReplacement(options, match),
+      before: content.slice(Math.max(lineStart, match.index - CONTEXT_LENGTH), match.index),
+      after: content.slice(end, Math.min(lineEnd === -1 ? content.length : lineEnd, end + CONTEXT_LENGTH))
+    });
+    return true;
+  });
+
+  return { matches, total, limited };
+};
+
+/**
+ * 替换正文中的匹配
+ *
+ * @param content - 文档正文
+ * @param pattern - parseReplaceOptions 返回的正则表达式
+ * @param options - 查找替换条件
+ * @param selected - 要替换的匹配序号（与预览中的 index 一致），未指定时替换全部匹配
+ * @param maxMatches - 最多查找的匹配数量，之后的匹配不替换
+ * @returns 替换后的正文、实际替换的数量和查找到的匹配数量；因达到 maxMatches 而停止时 limited 为 true
+ */
+export const applyReplaceMatches = (
+  content: string,
+  pattern: RegExp,
+  options: ReplaceOptions,
+  selected: Set<number> | undefined,
+  maxMatches: number
+): { content: string; count: number; total: number; limited: boolean } => {
+  let result = '';
+  let position = 0;
+  let count = 0;
+  let index = 0;
+  let limited = false;
+
+  forEachMatch(content, pattern, match => {
+    if (index >= maxMatches) {
+      limited = true;
+      return false;
+    }
+    if (!selected || selected.has(index)) {
+      result += content.slice(position, match.index) + getReplacement(options, match);
+      position = match.index + match[0].length;
+      count++;
+    }
+    index++;
+    return true;
+  });
+
+  return { content: result + content.slice(position), count, total: index, limited };
+};
@@ -0,0 +1,87 @@
+/**
+ * ========================================
+ * 文档修订工具函数
+ * ========================================
+ *
+ * 本文件提供文档修订记录的写入和计算功能
+ * 文档每次保存标题或内容时都会调用这里的函数生成修订快照
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DocumentRevision } from './supabaseClient';
+import { User } from '../types/context';
+
+/**
+ * 计算文本的 UTF-8 字节数
+ *
+ * @param text - 待计算的文本
+ * @returns 字节数
+ */
+export const getByteSize = (text: string | null | undefined): number => {
+  return new TextEncoder().encode(text || '').length;
+};
+
+/**
+ * 为文档写入一条新的修订记录
+ *
+ * 修订序号在当前最大序号的基础上递增
+ * 唯一约束冲突（并发保存）时会重试一次
+ * 同时记录保存后的文档版本号，供冲突合并时查找基础版本
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param document - 保存后的文档数据
+ * @param author - 执行保存的用户
+ * @param restoredFrom - 由恢复操作产生时，被恢复的修订ID
+ * @returns 新建的修订记录，失败时返回错误
+ */
+export const recordRevision = async (
+  supabase: SupabaseClient,
+  document: { id: string; title: string; content: string | null; version?: number },
+  author: User,
+  restoredFrom?: string
+): Promise<{ data: DocumentRevision | null; error: { message: string } | null }> => {
+  let lastError: { message: string } | null = null;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    // 获取当前最大修订序号
+    const { data: latest } = await supabase
+      .from('document_revisions')
+      .select('revision_number')
+      .eq('document_id', document.id)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('document_revisions')
+      .insert([
+        {
+          document_id: document.id,
+          user_id: author.id,
+          revision_number: (latest?.revision_number || 0) + 1,
+          title: document.title,
+          content: document.content || '',
+          byte_size: getByteSize(document.content),
+          author_email: author.email || null,
+          restored_from: restoredFrom || null,
+          document_version: document.version ?? null
+        }
+      ])
+      .select()
+      .single();
+
+    if (!error) {
+      return { data, error: null };
+    }
+
+    lastError = error;
+
+    // 只有唯一约束冲突才值得重试
+    if (error.code !== '23505') {
+      break;
+    }
+  }
+
+  console.error('Failed to record document revision:', lastError?.message);
+  return { data: null, error: lastError };
+};
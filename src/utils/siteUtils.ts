@@ -0,0 +1,432 @@
+/**
+ * ========================================
+ * 公开站点工具函数
+ * ========================================
+ *
+ * 本文件提供文件夹子树发布为公开博客所需的页面渲染、RSS 订阅、站点地图和 R2 页面缓存功能
+ *
+ * 缓存对象键为 sites/<站点ID>/<cache_token>/<页面路径>：
+ * 站点中的文档变化时为站点生成新的 cache_token，旧令牌下的页面不再被读取并随即清理，
+ * 失效前已开始渲染的请求只会写入旧令牌下，不会把过期内容留在新缓存中
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PublishedSite } from './supabaseClient';
+import { buildHtmlDocument, escapeHtml, renderMarkdown } from './markdownUtils';
+import { escapeXml } from './exportUtils';
+
+/** 站点首页和标签页最多列出的文章数量 */
+export const MAX_SITE_DOCUMENTS = 500;
+
+/** RSS 订阅中的文章数量 */
+export const SITE_FEED_SIZE = 20;
+
+/** 站点标识：小写字母、数字和连字符，不以连字符开头或结尾 */
+const SITE_SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/;
+
+/** R2 中站点页面缓存的公共前缀，文件管理接口不列出也不允许写入该前缀下的对象 */
+export const SITE_CACHE_PREFIX = 'sites/';
+
+/** 站点页面的公共样式 */
+const SITE_STYLES = `
+  .site-posts { list-style: none; padding: 0; margin: 0; }
+  .site-posts li { padding: 1.2em 0; border-bottom: 1px solid #e2e8f0; }
+  .site-posts li:last-child { border-bottom: none; }
+  .site-posts h2 { margin: 0 0 0.3em; font-size: 1.25em; }
+  .site-posts h2 a { text-decoration: none; }
+  .site-posts p { margin: 0.4em 0 0; color: #475569; }
+  .site-date { color: #6b7280; font-size: 0.875em; }
+  .site-tags { margin-top: 0.6em; }
+  .site-tags a { display: inline-block; margin: 0 6px 6px 0; padding: 1px 10px; border-radius: 999px; background: #f1f5f9; font-size: 0.8em; text-decoration: none; }
+  .site-footer { margin-top: 3em; padding-top: 1em; border-top: 1px solid #e2e8f0; color: #6b7280; font-size: 0.875em; }
+  .site-footer a { margin-right: 1em; }
+`;
+
+/**
+ * 站点主题
+ * 键为主题名称，值为追加在公共样式之后的 CSS
+ */
+export const SITE_THEMES: Record<string, string> = {
+  default: '',
+  serif: `
+  body { background: #faf7f2; font-family: Georgia, "Songti SC", "Noto Serif CJK SC", "SimSun", serif; }
+  main { box-shadow: none; border: 1px solid #ece4d8; }
+  a { color: #9a3412; }
+`,
+  dark: `
+  :root { color-scheme: dark; }
+  body { background: #0f172a; color: #e2e8f0; }
+  main { background: #1e293b; box-shadow: none; }
+  a { color: #93c5fd; }
+  .document-meta, .site-date, .site-footer, .site-posts p { color: #94a3b8; }
+  .site-posts li, .site-footer, hr { border-color: #334155; }
+  .site-tags a, :not(pre) > code, th { background: #334155; }
+  blockquote { background: #0f172a; color: #cbd5e1; border-left-color: #475569; }
+  th, td { border-color: #334155; }
+`
+};
+
+/**
+ * 站点中的文章
+ */
+export interface SiteDocument {
+  id: string;
+  title: string;
+  content?: string | null;
+  excerpt?: string | null;
+  created_at: string;
+  updated_at: string;
+
+  /** 标签名称 */
+  tags: string[];
+}
+
+/**
+ * ========================================
+ * 站点设置
+ * ========================================
+ */
+
+/**
+ * 规范化并校验站点标识
+ *
+ * @param value - 用户填写的站点标识
+ * @returns 转为小写的站点标识；格式无效时返回 null
+ */
+export const normalizeSiteSlug = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const slug = value.trim().toLowerCase();
+  return SITE_SLUG_PATTERN.test(slug) ? slug : null;
+};
+
+/**
+ * 判断是否为支持的站点主题
+ *
+ * @param value - 用户填写的主题名称
+ * @returns 是否为 SITE_THEMES 中的主题
+ */
+export const isSiteTheme = (value: unknown): value is string => {
+  return typeof value === 'string' && Object.keys(SITE_THEMES).includes(value);
+};
+
+/**
+ * 获取站点的公开访问路径
+ *
+ * @param slug - 站点标识
+ * @returns 形如 /blog/my-notes 的路径
+ */
+export const getSitePath = (slug: string): string => `/blog/${slug}`;
+
+/**
+ * ========================================
+ * 页面缓存
+ * ========================================
+ */
+
+/**
+ * 获取站点页面在 R2 中的缓存键
+ *
+ * @param site - 站点
+ * @param path - 页面路径，例如 index.html、posts/<文档ID>.html
+ * @returns 缓存对象键
+ */
+export const getSiteCacheKey = (site: Pick<PublishedSite, 'id' | 'cache_token'>, path: string): string => {
+  return `${SITE_CACHE_PREFIX}${site.id}/${site.cache_token}/${path}`;
+};
+
+/**
+ * 清理站点在 R2 中的页面缓存
+ *
+ * @param bucket - R2 存储桶实例
+ * @param siteId - 站点ID
+ * @param keepToken - 需要保留的缓存令牌（可选），未指定时清理全部缓存
+ */
+export const purgeSiteCache = async (bucket: R2Bucket, siteId: string, keepToken?: string): Promise<void> => {
+  const prefix = `${SITE_CACHE_PREFIX}${siteId}/`;
+  const keepPrefix = keepToken ? `${prefix}${keepToken}/` : null;
+  let cursor: string | undefined;
+
+  do {
+    const result = await bucket.list({ prefix, cursor, limit: 1000 });
+    const keys = result.objects
+      .map(object => object.key)
+      .filter(key => !keepPrefix || !key.startsWith(keepPrefix));
+
+    if (keys.length > 0) {
+      await bucket.delete(keys);
+    }
+    cursor = result.truncated ? result.cursor : undefined;
+  } while (cursor);
+};
+
+/**
+ * 使包含指定文件夹的公开站点缓存失效
+ *
+ * 文件夹位于某个站点的发布子树中（即站点根文件夹是它自身或祖先）时，该站点的缓存失效。
+ * 未指定文件夹时使用户的全部站点失效，用于标签改名等影响多个站点的操作。
+ * 缓存失效失败只记录日志，不影响调用方的保存结果；路由中应通过 waitUntil 在响应返回后执行
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param bucket - R2 存储桶实例
+ * @param userId - 文档所属用户ID
+ * @param folderIds - 发生变化的文档所在的文件夹ID（移动文档时应同时包含原文件夹和新文件夹）
+ *
+ * @example
+ * ```typescript
+ * c.executionCtx.waitUntil(invalidatePublishedSites(supabase, c.env.R2_BUCKET, user.id, [previousFolderId, document.folder_id]));
+ * ```
+ */
+export const invalidatePublishedSites = async (
+  supabase: SupabaseClient,
+  bucket: R2Bucket,
+  userId: string,
+  folderIds?: (string | null | undefined)[]
+): Promise<void> => {
+  const startIds = folderIds ? folderIds.filter((id): id is string => !!id) : null;
+  if (startIds && startIds.length === 0) return;
+
+  try {
+    const { data: sites, error } = await supabase
+      .from('published_sites')
+      .select('id, folder_id')
+      .eq('user_id', userId);
+
+    if (error) throw new Error(error.message);
+    if (!sites || sites.length === 0) return;
+
+    let affected = sites;
+
+    if (startIds) {
+      // 包含回收站中的文件夹，移入回收站的文档也需要从站点中移除
+      const { data: folders, error: foldersError } = await supabase
+        .from('folders')
+        .select('id, parent_id')
+        .eq('user_id', userId);
+
+      if (foldersError) throw new Error(foldersError.message);
+
+      // 沿 parent_id 向上收集祖先文件夹，使用 visited 集合防御异常的循环引用数据
+      const parentMap = new Map((folders || []).map(folder => [folder.id, folder.parent_id]));
+      const visited = new Set<string>();
+      for (const id of startIds) {
+        let current: string | null | undefined = id;
+        while (current && !visited.has(current)) {
+          visited.add(current);
+          current = parentMap.get(current);
+        }
+      }
+
+      affected = sites.filter(site => visited.has(site.folder_id));
+    }
+
+    for (const site of affected) {
+      const token = crypto.randomUUID();
+      const { error: updateError } = await supabase
+        .from('published_sites')
+        .update({ cache_token: token })
+        .eq('id', site.id);
+
+      if (updateError) throw new Error(updateError.message);
+
+      await purgeSiteCache(bucket, site.id, token);
+    }
+  } catch (error) {
+    console.error('Failed to invalidate published site cache:', error);
+  }
+};
+
+/**
+ * ========================================
+ * 页面渲染
+ * ========================================
+ */
+
+/**
+ * 格式化日期（北京时间）
+ */
+const formatDate = (value: string): string => {
+  return new Date(value).toLocaleDateString('zh-CN', { timeZone: 'Asia/Shanghai' });
+};
+
+/**
+ * 获取文章中最近的更新时间
+ */
+const getLatestUpdate = (documents: SiteDocument[]): Date | null => {
+  if (documents.length === 0) return null;
+  return new Date(Math.max(...documents.map(document => new Date(document.updated_at).getTime())));
+};
+
+/**
+ * 生成文章地址
+ */
+const getPostPath = (site: PublishedSite, documentId: string): string => {
+  return `${getSitePath(site.slug)}/posts/${documentId}`;
+};
+
+/**
+ * 生成标签页地址
+ */
+const getTagPath = (site: PublishedSite, tag: string): string => {
+  return `${getSitePath(site.slug)}/tags/${encodeURIComponent(tag)}`;
+};
+
+/**
+ * 将文档中引用的站内图片和文件地址改写为站点下的公开地址
+ * 站内资源需要登录才能访问，改写后匿名访问者也能看到图片
+ *
+ * @param markdown - 文档内容
+ * @param slug - 站点标识
+ * @returns 改写后的内容
+ */
+const rewriteAssetUrls = (markdown: string, slug: string): string => {
+  return markdown.replace(/\/api\/(images|files)\//g, `${getSitePath(slug)}/$1/`);
+};
+
+/**
+ * 生成标签链接列表
+ */
+const buildTagLinks = (site: PublishedSite, tags: string[]): string => {
+  if (tags.length === 0) return '';
+  const links = tags.map(tag => `<a href="${escapeHtml(getTagPath(site, tag))}">#${escapeHtml(tag)}</a>`);
+  return `<div class="site-tags">${links.join('')}</div>`;
+};
+
+/**
+ * 生成站点页面：使用站点主题，并在页头声明 RSS 订阅地址
+ */
+const buildSitePage = (site: PublishedSite, options: { title: string; bodyHtml: string; meta?: string }): string => {
+  const sitePath = getSitePath(site.slug);
+  const footer = `<footer class="site-footer">
+<a href="${escapeHtml(sitePath)}">${escapeHtml(site.title)}</a>
+<a href="${escapeHtml(sitePath)}/feed.xml">RSS 订阅</a>
+</footer>`;
+
+  return buildHtmlDocument({
+    title: options.title,
+    meta: options.meta,
+    bodyHtml: `${options.bodyHtml}\n${footer}`,
+    styles: SITE_STYLES + (SITE_THEMES[site.theme] || ''),
+    head: `<link rel="alternate" type="application/rss+xml" title="${escapeHtml(site.title)}" href="${escapeHtml(sitePath)}/feed.xml">`
+  });
+};
+
+/**
+ * 生成站点首页或标签页
+ *
+ * @param site - 站点
+ * @param documents - 按发布时间倒序排列的文章
+ * @param tag - 标签名称（可选），指定时生成该标签的文章列表页
+ * @returns HTML 页面
+ */
+export const renderSiteIndex = (site: PublishedSite, documents: SiteDocument[], tag?: string): string => {
+  const items = documents.map(document => `<li>
+<h2><a href="${escapeHtml(getPostPath(site, document.id))}">${escapeHtml(document.title)}</a></h2>
+<div class="site-date">${escapeHtml(formatDate(document.created_at))}</div>
+${document.excerpt ? `<p>${escapeHtml(document.excerpt)}</p>` : ''}
+${buildTagLinks(site, document.tags)}
+</li>`);
+
+  return buildSitePage(site, {
+    title: tag ? `#${tag}` : site.title,
+    meta: tag ? `${site.title} · ${documents.length} 篇文章` : site.description || undefined,
+    bodyHtml: items.length > 0 ? `<ul class="site-posts">\n${items.join('\n')}\n</ul>` : '<p>暂无文章</p>'
+  });
+};
+
+/**
+ * 生成文章页面
+ *
+ * @param site - 站点
+ * @param document - 文章（需包含正文）
+ * @returns HTML 页面
+ */
+export const renderSitePost = (site: PublishedSite, document: SiteDocument): string => {
+  const published = formatDate(document.created_at);
+  const updated = formatDate(document.updated_at);
+
+  return buildSitePage(site, {
+    title: document.title,
+    meta: published === updated ? `发布于 ${published}` : `发布于 ${published} · 更新于 ${updated}`,
+    bodyHtml: `${renderMarkdown(rewriteAssetUrls(document.content || '', site.slug))}\n${buildTagLinks(site, document.tags)}`
+  });
+};
+
+/**
+ * 生成站点地图（sitemap.xml）
+ *
+ * @param site - 站点
+ * @param documents - 站点中的文章
+ * @param origin - 站点所在的域名，例如 https://notes.example.com
+ * @returns XML 文本
+ */
+export const buildSiteSitemap = (site: PublishedSite, documents: SiteDocument[], origin: string): string => {
+  const sitePath = getSitePath(site.slug);
+  const tags = [...new Set(documents.flatMap(document => document.tags))];
+  const lastModified = getLatestUpdate(documents);
+
+  const entries = [
+    { loc: `${origin}${sitePath}`, lastmod: lastModified ? lastModified.toISOString() : '' },
+    ...documents.map(document => ({ loc: `${origin}${getPostPath(site, document.id)}`, lastmod: document.updated_at })),
+    ...tags.map(tag => ({ loc: `${origin}${getTagPath(site, tag)}`, lastmod: '' }))
+  ];
+
+  const urls = entries.map(entry => {
+    const lastmod = entry.lastmod ? `<lastmod>${new Date(entry.lastmod).toISOString()}</lastmod>` : '';
+    return `  <url><loc>${escapeXml(entry.loc)}</loc>${lastmod}</url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+};
+
+/**
+ * 生成 RSS 2.0 订阅（feed.xml）
+ * 条目描述为文章摘要，content:encoded 中包含完整的文章 HTML
+ *
+ * @param site - 站点
+ * @param documents - 按发布时间倒序排列的最新文章（需包含正文）
+ * @param origin - 站点所在的域名，用于生成绝对地址
+ * @returns XML 文本
+ */
+export const buildSiteFeed = (site: PublishedSite, documents: SiteDocument[], origin: string): string => {
+  const siteUrl = `${origin}${getSitePath(site.slug)}`;
+
+  const items = documents.map(document => {
+    const link = `${origin}${getPostPath(site, document.id)}`;
+    // 站内相对地址在订阅阅读器中无法访问，统一转换为绝对地址
+    const html = renderMarkdown(rewriteAssetUrls(document.content || '', site.slug))
+      .replace(/(href|src)="\/(?!\/)/g, `$1="${origin}/`);
+    const categories = document.tags.map(tag => `      <category>${escapeXml(tag)}</category>`);
+
+    return [
+      '    <item>',
+      `      <title>${escapeXml(document.title)}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      `      <pubDate>${new Date(document.created_at).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(document.excerpt || '')}</description>`,
+      `      <content:encoded>${escapeXml(html)}</content:encoded>`,
+      ...categories,
+      '    </item>'
+    ].join('\n');
+  });
+
+  const lastModified = getLatestUpdate(documents);
+  const lastBuild = lastModified ? `\n    <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(site.title)}</title>
+    <link>${escapeXml(siteUrl)}</link>
+    <description>${escapeXml(site.description || site.title)}</description>
+    <language>zh-CN</language>${lastBuild}
+    <atom:link href="${escapeXml(siteUrl)}/feed.xml" rel="self" type="application/rss+xml"/>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
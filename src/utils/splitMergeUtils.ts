@@ -0,0 +1,163 @@
+/**
+ * ========================================
+ * 文档拆分与合并工具函数
+ * ========================================
+ *
+ * 本文件提供按标题拆分文档正文、生成拆分后的索引，以及把多篇文档合并为一篇的正文计算
+ *
+ * 标题位置来自 buildDocumentMetadata 计算的大纲，因此代码块、引用块和列表中的 # 不会被当作标题；
+ * 同时支持 ATX（# 标题）和 Setext（标题下一行为 === 或 ---）两种标题写法
+ */
+
+import { buildDocumentMetadata } from './metadataUtils';
+import { parseFrontMatter } from './importUtils';
+
+/** 拆分出的章节没有可用标题时使用的标题 */
+const UNTITLED_SECTION = '未命名章节';
+
+/** 维基链接标题中不能出现的字符 */
+const WIKI_TITLE_RESERVED_PATTERN = /[\[\]|#\n]/g;
+
+/**
+ * 拆分出的章节
+ */
+export interface SplitSection {
+  /** 章节标题，用作新文档标题 */
+  title: string;
+
+  /** 章节标题级别 */
+  level: number;
+
+  /** 章节正文，不含章节标题本身 */
+  content: string;
+}
+
+/**
+ * 计算标题占用的行数：ATX 标题一行，Setext 标题两行（文字和下划线）
+ */
+const getHeadingLineCount = (lines: string[], index: number): number => {
+  return /^ {0,3}#/.test(lines[index]) ? 1 : 2;
+};
+
+/**
+ * 将标题文字整理为可以放入维基链接的文档标题
+ */
+const toDocumentTitle = (text: string): string => {
+  return text.replace(WIKI_TITLE_RESERVED_PATTERN, ' ').replace(/\s+/g, ' ').trim() || UNTITLED_SECTION;
+};
+
+/**
+ * 按标题拆分文档正文
+ *
+ * 每个级别不低于 level 的标题（例如 level 为 2 时的一级和二级标题）开始一个新章节，
+ * 第一个这样的标题之前的内容（包括 front matter）作为前言保留；重名的章节标题会追加序号
+ *
+ * @param content - 文档正文（Markdown）
+ * @param level - 拆分的标题级别（1-6）
+ * @returns 前言和按顺序排列的章节
+ *
+ * @example
+ * ```typescript
+ * splitContentByHeadings('简介\n\n## 安装\n步骤\n\n## 使用\n说明', 2);
+ * // { preamble: '简介', sections: [{ title: '安装', level: 2, content: '步骤' }, { title: '使用', level: 2, content: '说明' }] }
+ * ```
+ */
+export const splitContentByHeadings = (
+  content: string | null,
+  level: number
+): { preamble: string; sections: SplitSection[] } => {
+  const source = content || '';
+  const lines = source.split('\n');
+  const headings = buildDocumentMetadata(source).outline.filter(heading => heading.level <= level);
+
+  const preambleEnd = headings.length > 0 ? headings[0].line - 1 : lines.length;
+  const usedTitles = new Map<string, number>();
+
+  const sections = headings.map((heading, index) => {
+    const start = heading.line - 1 + getHeadingLineCount(lines, heading.line - 1);
+    const end = index + 1 < headings.length ? headings[index + 1].line - 1 : lines.length;
+
+    const baseTitle = toDocumentTitle(heading.text);
+    const key = baseTitle.toLowerCase();
+    const count = (usedTitles.get(key) || 0) + 1;
+    usedTitles.set(key, count);
+
+    return {
+      title: count > 1 ? `${baseTitle} (${count})` : baseTitle,
+      level: heading.level,
+      content: lines.slice(start, end).join('\n').trim()
+    };
+  });
+
+  return { preamble: lines.slice(0, preambleEnd).join('\n').trim(), sections };
+};
+
+/**
+ * 生成拆分后留在原文档中的索引
+ *
+ * @param preamble - 拆分前第一个标题之前的内容
+ * @param titles - 拆分出的文档标题
+ * @returns 前言加上指向各新文档的维基链接列表
+ */
+export const buildSplitIndex = (preamble: string, titles: string[]): string => {
+  const links = titles.map(title => `- [[${title}]]`).join('\n');
+  return preamble ? `${preamble}\n\n${links}\n` : `${links}\n`;
+};
+
+/**
+ * 调整正文中全部标题的级别，结果限制在 1 到 6 级之间
+ * Setext 标题会改写为 ATX 写法
+ */
+const shiftHeadings = (content: string, delta: number): string => {
+  if (delta === 0) return content;
+
+  const lines = content.split('\n');
+  const outline = buildDocumentMetadata(content).outline;
+
+  // 从后往前改写，Setext 标题合并为一行时不影响前面标题的行号
+  for (const heading of [...outline].reverse()) {
+    const index = heading.line - 1;
+    const marker = '#'.repeat(Math.min(6, Math.max(1, heading.level + delta)));
+
+    if (getHeadingLineCount(lines, index) === 1) {
+      lines[index] = lines[index].replace(/^( {0,3})#{1,6}/, `$1${marker}`);
+    } else {
+      lines.splice(index, 2, `${marker} ${lines[index].trim()}`);
+    }
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * 将多篇文档合并为一篇
+ *
+ * 每篇文档前生成一个以其标题为内容的 headingLevel 级标题；文档中的标题级别不低于生成的标题时，
+ * 整体降级使其位于生成的标题之下。各文档的 front matter 会被去除
+ *
+ * @param documents - 按合并顺序排列的文档标题和正文
+ * @param headingLevel - 生成的标题级别（1-6）
+ * @returns 合并后的正文
+ *
+ * @example
+ * ```typescript
+ * mergeContents([{ title: '周一', content: '# 会议\n...' }, { title: '周二', content: '...' }], 1);
+ * // '# 周一\n\n## 会议\n...\n\n# 周二\n\n...\n'
+ * ```
+ */
+export const mergeContents = (
+  documents: { title: string; content: string | null }[],
+  headingLevel: number
+): string => {
+  const parts = documents.map(document => {
+    const body = parseFrontMatter(document.content || '').body.trim();
+    const levels = buildDocumentMetadata(body).outline.map(heading => heading.level);
+    const minLevel = levels.length > 0 ? Math.min(...levels) : Infinity;
+    const shifted = minLevel <= headingLevel ? shiftHeadings(body, headingLevel - minLevel + 1) : body;
+    const heading = `${'#'.repeat(headingLevel)} ${document.title.replace(/\n/g, ' ').trim()}`;
+
+    return shifted ? `${heading}\n\n${shifted}` : heading;
+  });
+
+  return `${parts.join('\n\n')}\n`;
+};
@@ -8,7 +8,9 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { CONFIG } from '../config';
+import { CONFIG, Env } from '../config';
+import { DocumentMetadata } from './metadataUtils';
+import { PropertyValues } from './propertyUtils';
 
 /**
  * ========================================
@@ -38,6 +40,329 @@ export interface Document {
 
   /** 文档更新时间 - 可选字段，由数据库自动更新 */
   updated_at?: string;
+
+  /** 文档内容版本号 - 由数据库在标题或内容变化时自动递增 */
+  version?: number;
+
+  /** 正文字节数 - 数据库生成列 */
+  byte_size?: number;
+
+  /** 正文纯文本摘要 - 数据库生成列 */
+  excerpt?: string;
+
+  /** 由正文计算的大纲和统计信息 - 保存正文时写入 */
+  metadata?: DocumentMetadata | null;
+
+  /** 正文字数 - 数据库生成列 */
+  word_count?: number | null;
+
+  /** 属性值，键为所在文件夹属性定义中的属性键 */
+  properties?: PropertyValues;
+}
+
+/**
+ * 文档修订数据模型接口
+ * 每次保存文档时生成的不可变快照
+ */
+export interface DocumentRevision {
+  /** 修订唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 所属文档ID */
+  document_id: string;
+
+  /** 修订作者的用户ID */
+  user_id: string;
+
+  /** 文档内递增的修订序号 */
+  revision_number: number;
+
+  /** 修订时的文档标题 */
+  title: string;
+
+  /** 修订时的文档内容 */
+  content: string;
+
+  /** 内容的 UTF-8 字节数 */
+  byte_size: number;
+
+  /** 修订作者的邮箱 */
+  author_email?: string | null;
+
+  /** 由恢复操作产生时，被恢复的修订ID */
+  restored_from?: string | null;
+
+  /** 生成该修订时的文档版本号 */
+  document_version?: number | null;
+
+  /** 修订创建时间 - 由数据库自动生成 */
+  created_at?: string;
+}
+
+/**
+ * 标签数据模型接口
+ * 标签归属于用户，通过 document_tags 表与文档多对多关联
+ */
+export interface Tag {
+  /** 标签唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 所属用户ID */
+  user_id: string;
+
+  /** 标签名称 - 同一用户下唯一 */
+  name: string;
+
+  /** 标签颜色 - 十六进制格式 */
+  color: string;
+
+  /** 标签创建时间 - 由数据库自动生成 */
+  created_at?: string;
+
+  /** 标签更新时间 */
+  updated_at?: string;
+}
+
+/**
+ * 文档分享链接数据模型接口
+ * 通过随机令牌公开只读访问文档，可设置过期时间、密码和固定修订
+ */
+export interface DocumentShare {
+  /** 分享唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 被分享的文档ID */
+  document_id: string;
+
+  /** 创建分享的用户ID */
+  user_id: string;
+
+  /** 分享令牌 - 出现在公开访问地址中 */
+  token: string;
+
+  /** 访问密码哈希（PBKDF2） - 未设置密码时为 null */
+  password_hash?: string | null;
+
+  /** 访问密码盐值 */
+  password_salt?: string | null;
+
+  /** 过期时间 - 为 null 表示永不过期 */
+  expires_at?: string | null;
+
+  /** 撤销时间 - 为 null 表示分享仍然有效 */
+  revoked_at?: string | null;
+
+  /** 固定展示的修订ID - 为 null 表示始终展示最新内容 */
+  pinned_revision_id?: string | null;
+
+  /** 访问次数 */
+  view_count?: number;
+
+  /** 最后访问时间 */
+  last_viewed_at?: string | null;
+
+  /** 分享创建时间 - 由数据库自动生成 */
+  created_at?: string;
+}
+
+/**
+ * 文档评论讨论串数据模型接口
+ * 讨论串锚定到文档中的一段文本，内容变化后会重新定位锚点
+ */
+export interface CommentThread {
+  /** 讨论串唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 所属文档ID */
+  document_id: string;
+
+  /** 文档所有者ID */
+  user_id: string;
+
+  /** 锚点起始位置（字符偏移量，包含） */
+  anchor_start: number;
+
+  /** 锚点结束位置（字符偏移量，不包含） */
+  anchor_end: number;
+
+  /** 锚定的文本 */
+  anchor_text: string;
+
+  /** 锚点前的上下文文本 */
+  anchor_prefix: string;
+
+  /** 锚点后的上下文文本 */
+  anchor_suffix: string;
+
+  /** 锚点最后一次定位时的文档版本号 */
+  anchor_version?: number | null;
+
+  /** 锚点文本是否已从文档中消失 */
+  orphaned: boolean;
+
+  /** 讨论串状态 */
+  status: 'open' | 'resolved';
+
+  /** 解决时间 */
+  resolved_at?: string | null;
+
+  /** 解决讨论串的用户邮箱 */
+  resolved_by?: string | null;
+
+  /** 发起讨论串的用户邮箱 */
+  created_by?: string | null;
+
+  /** 创建时间 - 由数据库自动生成 */
+  created_at?: string;
+
+  /** 更新时间 */
+  updated_at?: string;
+}
+
+/**
+ * 文档评论数据模型接口
+ */
+export interface DocumentComment {
+  /** 评论唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 所属讨论串ID */
+  thread_id: string;
+
+  /** 所属文档ID */
+  document_id: string;
+
+  /** 评论作者ID */
+  user_id: string;
+
+  /** 评论作者邮箱 */
+  author_email?: string | null;
+
+  /** 评论内容 */
+  body: string;
+
+  /** @ 提及的协作者邮箱 */
+  mentions: string[];
+
+  /** 最后编辑时间 - 未编辑过为 null */
+  edited_at?: string | null;
+
+  /** 创建时间 - 由数据库自动生成 */
+  created_at?: string;
+}
+
+/**
+ * 文档模板数据模型接口
+ * 模板正文中的占位符在从模板创建文档时被替换
+ */
+export interface DocumentTemplate {
+  /** 模板唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 模板创建者ID */
+  user_id: string;
+
+  /** 模板名称 */
+  name: string;
+
+  /** 模板说明 */
+  description?: string | null;
+
+  /** 新文档标题模板 - 为 null 时使用模板名称 */
+  title_template?: string | null;
+
+  /** 模板正文（Markdown） */
+  content: string;
+
+  /** 自定义变量定义 */
+  variables: {
+    name: string;
+    label?: string;
+    description?: string;
+    default?: string;
+    required?: boolean;
+  }[];
+
+  /** 默认文件夹ID - 仅对模板创建者生效 */
+  default_folder_id?: string | null;
+
+  /** 默认标签名称 */
+  default_tags: string[];
+
+  /** 是否对所有用户共享 */
+  is_shared: boolean;
+
+  /** 创建时间 - 由数据库自动生成 */
+  created_at?: string;
+
+  /** 更新时间 */
+  updated_at?: string;
+}
+
+/**
+ * 文档草稿数据模型接口
+ * 自动保存的内容，发布前不影响文档正文
+ */
+export interface DocumentDraft {
+  /** 草稿唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 所属文档ID */
+  document_id: string;
+
+  /** 草稿所属用户ID */
+  user_id: string;
+
+  /** 草稿标题 - 为 null 时沿用文档标题 */
+  title?: string | null;
+
+  /** 草稿正文 */
+  content: string;
+
+  /** 草稿开始编辑时的文档版本号 */
+  base_version: number;
+
+  /** 创建时间 - 由数据库自动生成 */
+  created_at?: string;
+
+  /** 最后一次自动保存时间 */
+  updated_at?: string;
+}
+
+/**
+ * 公开站点数据模型接口
+ * 将一个文件夹子树发布为无需登录即可访问的博客
+ */
+export interface PublishedSite {
+  /** 站点唯一标识符 - 由数据库自动生成 */
+  id?: string;
+
+  /** 站点所属用户ID */
+  user_id: string;
+
+  /** 发布的根文件夹ID - 其下所有子文件夹中的文档都会发布 */
+  folder_id: string;
+
+  /** 站点标识 - 出现在公开访问地址 /blog/:slug 中，全局唯一 */
+  slug: string;
+
+  /** 站点标题 */
+  title: string;
+
+  /** 站点简介 */
+  description?: string | null;
+
+  /** 页面主题 */
+  theme: string;
+
+  /** 缓存令牌 - 站点内容变化时重新生成，旧令牌下的缓存随之失效 */
+  cache_token: string;
+
+  /** 创建时间 - 由数据库自动生成 */
+  created_at?: string;
+
+  /** 更新时间 */
+  updated_at?: string;
 }
 
 /**
@@ -61,4 +386,18 @@ export interface Document {
  */
 export const createSupabaseClient = (supabaseUrl: string, supabaseKey: string): SupabaseClient => {
   return createClient(supabaseUrl, supabaseKey);
-};
\ No newline at end of file
+};
+
+/**
+ * 创建用于公开访问的 Supabase 客户端
+ * 公开访问没有用户会话，优先使用服务角色密钥
+ *
+ * @param env - 环境变量
+ * @returns SupabaseClient 实例
+ */
+export const createPublicClient = (env: Env): SupabaseClient => {
+  return createSupabaseClient(
+    env.SUPABASE_URL,
+    env.SUPABASE_SERVICE_ROLE_KEY || env.SUPABASE_ANON_KEY
+  );
+};
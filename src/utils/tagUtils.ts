@@ -0,0 +1,280 @@
+/**
+ * ========================================
+ * 文档标签工具函数
+ * ========================================
+ *
+ * 本文件提供标签校验、文档标签关联维护和按标签过滤文档的功能
+ * 按标签过滤通过在文档查询中内连接 document_tags 完成，匹配的文档ID不经过 URL 传递
+ * 供文档路由和标签路由共同使用
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/** 默认标签颜色 */
+export const DEFAULT_TAG_COLOR = '#6b7280';
+
+/**
+ * 文档列表和详情中嵌入标签的查询片段
+ * 配合 flattenDocumentTags 使用
+ */
+export const DOCUMENT_TAGS_SELECT = 'document_tags(tags(id, name, color))';
+
+/** 按标签过滤文档时最多指定的标签数量 */
+export const MAX_FILTER_TAGS = 20;
+
+/** 按标签过滤时嵌入的 document_tags 的别名前缀 */
+const TAG_FILTER_ALIAS_PREFIX = 'tag_filter_';
+
+/** 标签ID格式 */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * 按标签过滤的一个条件：文档需要带有 tagIds 中的任一标签
+ */
+export interface TagFilter {
+  /** 查询中嵌入 document_tags 使用的别名 */
+  alias: string;
+
+  /** 标签ID列表 */
+  tagIds: string[];
+}
+
+/**
+ * 校验并规范化标签颜色
+ *
+ * @param color - 客户端提交的颜色值
+ * @returns 规范化后的小写十六进制颜色；格式无效时返回 null
+ */
+export const normalizeTagColor = (color: unknown): string | null => {
+  if (typeof color !== 'string') return null;
+  const value = color.trim().toLowerCase();
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/.test(value) ? value : null;
+};
+
+/**
+ * 解析逗号分隔的标签ID查询参数
+ *
+ * @param value - 查询参数值
+ * @param name - 查询参数名，用于错误信息
+ * @returns 去重后的标签ID列表；包含格式无效的ID时返回错误信息
+ */
+export const parseTagIdList = (value: string | undefined, name: string): { ids: string[] } | { error: string } => {
+  if (!value) return { ids: [] };
+
+  const ids = [...new Set(value.split(',').map(id => id.trim().toLowerCase()).filter(Boolean))];
+  if (ids.some(id => !UUID_PATTERN.test(id))) {
+    return { error: `${name} 包含无效的标签ID` };
+  }
+
+  return { ids };
+};
+
+/**
+ * 将查询结果中嵌套的 document_tags 展开为 tags 数组
+ *
+ * @param document - 包含 document_tags 嵌套数据的文档
+ * @returns 带 tags 字段的文档（移除 document_tags）
+ */
+export const flattenDocumentTags = <T extends { document_tags?: any[] }>(document: T) => {
+  const { document_tags, ...rest } = document;
+  return {
+    ...rest,
+    tags: (document_tags || []).map(link => link.tags).filter(Boolean)
+  };
+};
+
+/**
+ * 校验标签ID列表是否都属于当前用户
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param tagIds - 待校验的标签ID列表
+ * @returns 校验失败时返回错误信息，成功时返回 null
+ */
+export const validateTagIds = async (
+  supabase: SupabaseClient,
+  userId: string,
+  tagIds: unknown
+): Promise<string | null> => {
+  if (!Array.isArray(tagIds) || tagIds.some(id => typeof id !== 'string')) {
+    return 'tag_ids 必须是标签ID数组';
+  }
+
+  const uniqueIds = [...new Set(tagIds as string[])];
+  if (uniqueIds.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', uniqueIds);
+
+  if (error) return error.message;
+  if ((data || []).length !== uniqueIds.length) {
+    return '标签不存在或无权限访问';
+  }
+
+  return null;
+};
+
+/**
+ * 将文档的标签设置为指定列表（替换语义）
+ * 不在列表中的关联会被移除，新增的关联会被添加
+ *
+ * 调用前应先通过 validateTagIds 校验标签归属
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param documentId - 文档ID
+ * @param tagIds - 新的标签ID列表
+ * @returns 设置后的标签列表
+ */
+export const setDocumentTags = async (
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string,
+  tagIds: string[]
+): Promise<{ data: any[]; error: { message: string } | null }> => {
+  const uniqueIds = [...new Set(tagIds)];
+
+  // 移除不再需要的关联
+  let deleteQuery = supabase
+    .from('document_tags')
+    .delete()
+    .eq('document_id', documentId)
+    .eq('user_id', userId);
+
+  if (uniqueIds.length > 0) {
+    deleteQuery = deleteQuery.not('tag_id', 'in', `(${uniqueIds.join(',')})`);
+  }
+
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) return { data: [], error: deleteError };
+
+  // 添加新的关联，已存在的关联保持不变
+  if (uniqueIds.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('document_tags')
+      .upsert(
+        uniqueIds.map(tagId => ({ document_id: documentId, tag_id: tagId, user_id: userId })),
+        { onConflict: 'document_id,tag_id', ignoreDuplicates: true }
+      );
+
+    if (upsertError) return { data: [], error: upsertError };
+  }
+
+  return getDocumentTags(supabase, documentId);
+};
+
+/**
+ * 获取文档当前的标签列表
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param documentId - 文档ID
+ * @returns 标签列表
+ */
+export const getDocumentTags = async (
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<{ data: any[]; error: { message: string } | null }> => {
+  const { data, error } = await supabase
+    .from('document_tags')
+    .select('tags(id, name, color)')
+    .eq('document_id', documentId);
+
+  if (error) return { data: [], error };
+  return { data: (data || []).map((link: any) => link.tags).filter(Boolean), error: null };
+};
+
+/**
+ * 生成按标签过滤的条件
+ * tags_all 的每个标签、tags_any 的整组标签各对应一个 document_tags 内连接，多个条件取交集
+ *
+ * @param conditions - 标签条件；any 表示带有任一标签，all 表示同时带有所有标签
+ * @returns 过滤条件，配合 buildTagFilterSelect 和 applyTagFilters 使用
+ */
+export const buildTagFilters = (conditions: Array<{ ids: string[]; mode: 'any' | 'all' }>): TagFilter[] => {
+  const groups = conditions.flatMap(condition => condition.mode === 'all'
+    ? condition.ids.map(id => [id])
+    : [condition.ids]);
+
+  return groups.map((tagIds, index) => ({ alias: `${TAG_FILTER_ALIAS_PREFIX}${index}`, tagIds }));
+};
+
+/**
+ * 生成按标签过滤所需的 select 片段，追加在文档查询的 select 语句之后
+ *
+ * @param filters - buildTagFilters 返回的过滤条件
+ * @returns select 片段；没有过滤条件时为空字符串
+ */
+export const buildTagFilterSelect = (filters: TagFilter[]): string => {
+  return filters.map(filter => `${filter.alias}:document_tags!inner(tag_id)`).join(', ');
+};
+
+/**
+ * 将标签过滤条件应用到文档查询，在数据库中通过内连接过滤，不需要先取出匹配的文档ID
+ *
+ * @param query - 使用 buildTagFilterSelect 构建的文档查询
+ * @param filters - buildTagFilters 返回的过滤条件
+ * @returns 添加过滤条件后的查询
+ */
+export const applyTagFilters = <Q>(query: Q, filters: TagFilter[]): Q => {
+  let result: any = query;
+
+  for (const filter of filters) {
+    result = filter.tagIds.length === 1
+      ? result.eq(`${filter.alias}.tag_id`, filter.tagIds[0])
+      : result.in(`${filter.alias}.tag_id`, filter.tagIds);
+  }
+
+  return result;
+};
+
+/**
+ * 移除查询结果中用于标签过滤的嵌入字段
+ *
+ * @param document - 查询返回的文档
+ * @returns 不含标签过滤字段的文档
+ */
+export const omitTagFilterFields = <T extends Record<string, unknown>>(document: T): T => {
+  return Object.fromEntries(
+    Object.entries(document).filter(([key]) => !key.startsWith(TAG_FILTER_ALIAS_PREFIX))
+  ) as T;
+};
+
+/**
+ * 按名称查找标签，不存在的标签会以默认颜色创建
+ * 用于导入文档时根据 front matter 中的标签名关联标签，以及从模板创建文档时关联模板的默认标签
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 当前用户ID
+ * @param names - 标签名称列表
+ * @returns 标签ID列表
+ */
+export const findOrCreateTagsByName = async (
+  supabase: SupabaseClient,
+  userId: string,
+  names: string[]
+): Promise<{ data: string[]; error: { message: string } | null }> => {
+  const uniqueNames = [...new Set(names.map(name => name.trim()).filter(Boolean))];
+  if (uniqueNames.length === 0) return { data: [], error: null };
+
+  // 已存在的同名标签保持不变
+  const { error: upsertError } = await supabase
+    .from('tags')
+    .upsert(
+      uniqueNames.map(name => ({ name, color: DEFAULT_TAG_COLOR, user_id: userId })),
+      { onConflict: 'user_id,name', ignoreDuplicates: true }
+    );
+
+  if (upsertError) return { data: [], error: upsertError };
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id')
+    .eq('user_id', userId)
+    .in('name', uniqueNames);
+
+  if (error) return { data: [], error };
+  return { data: (data || []).map(tag => tag.id), error: null };
+};
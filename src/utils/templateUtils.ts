@@ -0,0 +1,257 @@
+/**
+ * ========================================
+ * 文档模板工具函数
+ * ========================================
+ *
+ * 本文件提供模板变量定义的校验和模板占位符的渲染功能
+ *
+ * 占位符格式为 {{name}} 或 {{name:格式}}，内置变量包括：
+ * - title：新文档标题
+ * - date / time / datetime：当前日期、时间、日期时间，可指定格式，如 {{date:YYYY年MM月DD日}}
+ * - year / month / day / weekday / week：年、月、日、星期、ISO 周数
+ * - user.name / user.email：当前用户姓名和邮箱
+ * 模板中定义的自定义变量使用请求中提交的值或默认值；未知的占位符保持原样
+ */
+
+import { User } from '../types/context';
+import { DocumentTemplate } from './supabaseClient';
+
+/** 自定义变量定义 */
+export type TemplateVariable = DocumentTemplate['variables'][number];
+
+/** 自定义变量名称格式 */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** 单个模板最多定义的自定义变量数量 */
+const MAX_TEMPLATE_VARIABLES = 50;
+
+/** 内置变量名称，自定义变量不能与之重名 */
+export const BUILTIN_TEMPLATE_VARIABLES = [
+  'title', 'date', 'time', 'datetime', 'year', 'month', 'day', 'weekday', 'week', 'user'
+];
+
+/** 占位符匹配：{{name}} 或 {{name:格式}} */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w.]*)\s*(?::([^}]*))?\}\}/g;
+
+/** 各日期变量的默认格式 */
+const DEFAULT_DATE_FORMATS: Record<string, string> = {
+  date: 'YYYY-MM-DD',
+  time: 'HH:mm',
+  datetime: 'YYYY-MM-DD HH:mm'
+};
+
+/**
+ * 模板渲染上下文
+ */
+export interface TemplateContext {
+  /** 变量名到值的映射（不含日期变量） */
+  values: Record<string, string>;
+
+  /** 渲染时刻 */
+  now: Date;
+
+  /** 日期变量使用的 IANA 时区 */
+  timeZone: string;
+}
+
+/**
+ * 校验并规范化模板的自定义变量定义
+ *
+ * @param value - 客户端提交的变量定义
+ * @returns 规范化后的变量定义；无效时返回错误信息
+ */
+export const normalizeTemplateVariables = (value: unknown): { variables: TemplateVariable[] } | { error: string } => {
+  if (value === undefined || value === null) {
+    return { variables: [] };
+  }
+  if (!Array.isArray(value) || value.length > MAX_TEMPLATE_VARIABLES) {
+    return { error: `variables 必须是不超过 ${MAX_TEMPLATE_VARIABLES} 项的数组` };
+  }
+
+  const variables: TemplateVariable[] = [];
+  const names = new Set<string>();
+
+  for (const item of value) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      return { error: `变量名称无效：${name || '(空)'}，只能包含字母、数字和下划线` };
+    }
+    if (BUILTIN_TEMPLATE_VARIABLES.includes(name)) {
+      return { error: `变量名称 ${name} 与内置变量重名` };
+    }
+    if (names.has(name)) {
+      return { error: `变量名称重复：${name}` };
+    }
+    names.add(name);
+
+    variables.push({
+      name,
+      label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : name,
+      description: typeof item.description === 'string' ? item.description : undefined,
+      default: item.default === undefined || item.default === null ? undefined : String(item.default),
+      required: item.required === true
+    });
+  }
+
+  return { variables };
+};
+
+/**
+ * 合并客户端提交的变量值和模板默认值
+ *
+ * @param variables - 模板的自定义变量定义
+ * @param provided - 客户端提交的变量值
+ * @returns 变量值映射，以及缺失的必填变量名称
+ */
+export const resolveTemplateValues = (
+  variables: TemplateVariable[],
+  provided: Record<string, unknown> | undefined
+): { values: Record<string, string>; missing: string[] } => {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const variable of variables) {
+    const raw = provided?.[variable.name];
+    const value = raw === undefined || raw === null ? (variable.default ?? '') : String(raw);
+
+    if (variable.required && value.trim() === '') {
+      missing.push(variable.name);
+    }
+    values[variable.name] = value;
+  }
+
+  return { values, missing };
+};
+
+/**
+ * 校验 IANA 时区名称
+ *
+ * @param timeZone - 时区名称，如 Asia/Shanghai
+ * @returns 是否为运行环境支持的时区
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 获取指定时区下的日期时间各部分
+ */
+const getDateParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return {
+    YYYY: get('year'),
+    MM: get('month'),
+    DD: get('day'),
+    HH: get('hour'),
+    mm: get('minute'),
+    ss: get('second')
+  };
+};
+
+/**
+ * 计算 ISO 8601 周数
+ *
+ * @param year - 年
+ * @param month - 月（1-12）
+ * @param day - 日
+ * @returns 周数（1-53）
+ */
+const getIsoWeek = (year: number, month: number, day: number): number => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // 移动到本周的星期四，其所在年份即 ISO 周所属年份
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  return Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+};
+
+/**
+ * 按格式输出指定时区的日期时间
+ * 支持的格式标记：YYYY、MM、DD、HH、mm、ss
+ *
+ * @param date - 日期
+ * @param format - 格式字符串
+ * @param timeZone - IANA 时区
+ * @returns 格式化后的字符串
+ */
+export const formatTemplateDate = (date: Date, format: string, timeZone: string): string => {
+  const parts = getDateParts(date, timeZone);
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token as keyof typeof parts]);
+};
+
+/**
+ * 构建模板渲染上下文
+ *
+ * @param options.user - 当前用户
+ * @param options.title - 新文档标题，渲染标题模板本身时为空
+ * @param options.values - 自定义变量值
+ * @param options.timeZone - IANA 时区
+ * @param options.now - 渲染时刻，默认当前时间
+ * @returns 渲染上下文
+ */
+export const buildTemplateContext = (options: {
+  user: User;
+  title?: string;
+  values: Record<string, string>;
+  timeZone: string;
+  now?: Date;
+}): TemplateContext => {
+  const now = options.now || new Date();
+  const parts = getDateParts(now, options.timeZone);
+  const weekday = new Intl.DateTimeFormat('zh-CN', { timeZone: options.timeZone, weekday: 'long' }).format(now);
+
+  const values: Record<string, string> = {
+    ...options.values,
+    year: parts.YYYY,
+    month: parts.MM,
+    day: parts.DD,
+    weekday,
+    week: String(getIsoWeek(Number(parts.YYYY), Number(parts.MM), Number(parts.DD))),
+    'user.name': options.user.user_metadata?.name || options.user.email?.split('@')[0] || 'User',
+    'user.email': options.user.email || ''
+  };
+
+  if (options.title !== undefined) {
+    values.title = options.title;
+  }
+
+  return { values, now, timeZone: options.timeZone };
+};
+
+/**
+ * 渲染模板，替换其中的占位符
+ *
+ * @param source - 模板文本
+ * @param context - 渲染上下文
+ * @returns 渲染后的文本
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('# {{title}}\n\n日期：{{date:YYYY/MM/DD}}', context);
+ * // '# 周报\n\n日期：2024/03/18'
+ * ```
+ */
+export const renderTemplate = (source: string, context: TemplateContext): string => {
+  return source.replace(PLACEHOLDER_PATTERN, (match, name: string, format: string | undefined) => {
+    if (name in DEFAULT_DATE_FORMATS) {
+      return formatTemplateDate(context.now, format?.trim() || DEFAULT_DATE_FORMATS[name], context.timeZone);
+    }
+    return Object.prototype.hasOwnProperty.call(context.values, name) ? context.values[name] : match;
+  });
+};
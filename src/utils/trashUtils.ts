@@ -0,0 +1,63 @@
+/**
+ * ========================================
+ * 回收站工具函数
+ * ========================================
+ *
+ * 本文件提供回收站保留期限计算和过期内容清理功能
+ * 清理函数由 Cloudflare Workers 的定时触发器（Cron Trigger）调用
+ */
+
+import { CONFIG, Env } from '../config';
+import { createSupabaseClient } from './supabaseClient';
+
+/**
+ * 获取回收站保留天数
+ *
+ * @param env - Cloudflare Workers 环境变量
+ * @returns 保留天数，环境变量未设置或无效时使用默认值
+ */
+export const getTrashRetentionDays = (env: Env): number => {
+  const days = parseInt(env.TRASH_RETENTION_DAYS || '');
+  return days > 0 ? days : CONFIG.TRASH_RETENTION_DAYS;
+};
+
+/**
+ * 计算回收站条目的预计永久删除时间
+ *
+ * @param deletedAt - 移入回收站的时间
+ * @param retentionDays - 保留天数
+ * @returns ISO 格式的永久删除时间
+ */
+export const getPurgeAt = (deletedAt: string, retentionDays: number): string => {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+};
+
+/**
+ * 永久删除所有用户超过保留期限的回收站内容
+ *
+ * 定时任务没有用户会话，因此使用服务角色密钥调用数据库清理函数
+ *
+ * @param env - Cloudflare Workers 环境变量
+ */
+export const purgeExpiredTrash = async (env: Env): Promise<void> => {
+  const supabase = createSupabaseClient(
+    env.SUPABASE_URL,
+    env.SUPABASE_SERVICE_ROLE_KEY || env.SUPABASE_ANON_KEY
+  );
+
+  const retentionDays = getTrashRetentionDays(env);
+  const { data, error } = await supabase.rpc('purge_expired_trash', {
+    p_retention_days: retentionDays
+  });
+
+  if (error) {
+    console.error('Trash purge failed:', error.message);
+    return;
+  }
+
+  const result = data?.[0];
+  console.log(
+    `Trash purge finished (retention ${retentionDays} days): ` +
+    `${result?.purged_documents || 0} documents, ${result?.purged_folders || 0} folders`
+  );
+};
@@ -0,0 +1,97 @@
+/**
+ * ========================================
+ * 文档版本控制工具函数
+ * ========================================
+ *
+ * 本文件提供基于文档版本号的乐观并发控制功能
+ * 文档的标题或内容每次变化时数据库触发器都会递增 version，
+ * 保存时只有所基于的版本仍是最新版本才会写入，否则返回冲突信息和三方合并建议
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { mergeText, mergeField } from './mergeUtils';
+
+/**
+ * 将文档版本号格式化为 ETag
+ *
+ * @param version - 文档版本号
+ * @returns 强校验 ETag，例如 "3"
+ */
+export const formatETag = (version: number): string => `"${version}"`;
+
+/**
+ * 解析客户端提交时所基于的文档版本号
+ * If-Match 请求头优先，其次为请求体中的 base_version 字段
+ *
+ * @param ifMatch - If-Match 请求头
+ * @param baseVersion - 请求体中的 base_version 字段
+ * @returns 版本号；未提供前置条件（或为 *）时返回 null；格式无效时返回 NaN
+ */
+export const parseBaseVersion = (ifMatch: string | undefined, baseVersion: unknown): number | null => {
+  if (ifMatch !== undefined && ifMatch.trim() !== '') {
+    const value = ifMatch.trim();
+    if (value === '*') return null;
+    const match = value.match(/^(?:W\/)?"?(\d+)"?$/);
+    return match ? parseInt(match[1]) : NaN;
+  }
+
+  if (baseVersion === undefined || baseVersion === null) return null;
+  return Number.isInteger(Number(baseVersion)) ? Number(baseVersion) : NaN;
+};
+
+/**
+ * 构建版本冲突响应数据
+ *
+ * 查找客户端所基于版本对应的修订作为共同基础，
+ * 对提交内容与服务器当前内容进行三方合并，生成合并建议
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param current - 服务器上的当前文档
+ * @param baseVersion - 客户端提交时所基于的版本号
+ * @param submitted - 客户端提交的标题和内容
+ * @returns 409 响应体
+ */
+export const buildConflictPayload = async (
+  supabase: SupabaseClient,
+  current: any,
+  baseVersion: number,
+  submitted: { title?: string; content?: string }
+) => {
+  // 基础版本之后若只有元数据变化则不会产生修订，因此取不大于基础版本的最新修订
+  const { data: baseRevision } = await supabase
+    .from('document_revisions')
+    .select('title, content, document_version')
+    .eq('document_id', current.id)
+    .lte('document_version', baseVersion)
+    .order('document_version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let merge = null;
+  if (baseRevision) {
+    const contentMerge = submitted.content !== undefined
+      ? mergeText(baseRevision.content || '', submitted.content, current.content || '')
+      : { content: current.content || '', clean: true, conflicts: 0 };
+    const titleMerge = submitted.title !== undefined
+      ? mergeField(baseRevision.title, submitted.title.trim(), current.title)
+      : { value: current.title, conflict: false };
+
+    merge = {
+      base_version: baseRevision.document_version,
+      title: titleMerge.value,
+      title_conflict: titleMerge.conflict,
+      content: contentMerge.content,
+      clean: contentMerge.clean && !titleMerge.conflict,
+      conflicts: contentMerge.conflicts
+    };
+  }
+
+  return {
+    error: '文档已在其他会话中被修改，请合并后重新提交',
+    code: 'VERSION_CONFLICT',
+    base_version: baseVersion,
+    current_version: current.version,
+    current,
+    merge
+  };
+};
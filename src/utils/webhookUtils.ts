@@ -0,0 +1,444 @@
+/**
+ * ========================================
+ * Webhook 推送工具函数
+ * ========================================
+ *
+ * 本文件提供 Webhook 事件的分发、签名推送和失败重试功能
+ *
+ * 推送流程：
+ * 1. 路由处理完成后调用 dispatchWebhookEvent，为每个订阅了该事件的 Webhook 写入一条推送记录并放入队列
+ * 2. 队列消费者（handleWebhookQueue）逐条推送，失败时按指数退避延迟重试，并更新推送记录
+ *
+ * 队列在消息重试 max_retries 次后直接丢弃消息，推送记录会一直停留在 pending。
+ * 消费者按 WEBHOOK_QUEUE_MAX_RETRIES（默认与 Cloudflare Queues 的默认值 3 相同）判断队列的最后一次投递，
+ * 此时推送失败会直接记录为 failed。要用满 MAX_WEBHOOK_ATTEMPTS 次推送，需要同时提高两处配置：
+ *
+ * ```toml
+ * [[queues.consumers]]
+ * queue = "webhook-deliveries"
+ * max_retries = 8
+ *
+ * [vars]
+ * WEBHOOK_QUEUE_MAX_RETRIES = "8"
+ * ```
+ *
+ * 推送请求头：
+ * - X-Webhook-Event: 事件类型
+ * - X-Webhook-Delivery: 推送记录ID（重试时不变，可用于去重）
+ * - X-Webhook-Timestamp: 发送时的 Unix 时间戳（秒）
+ * - X-Webhook-Signature: sha256=<HMAC-SHA256(secret, "<时间戳>.<请求体>") 的十六进制>
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CONFIG, Env } from '../config';
+import { createPublicClient } from './supabaseClient';
+import { hmacSha256Hex } from './cryptoUtils';
+
+/** 可订阅的事件类型 */
+export const WEBHOOK_EVENTS = [
+  'document.created',
+  'document.updated',
+  'document.deleted',
+  'folder.moved',
+  'file.uploaded',
+  'file.deleted'
+] as const;
+
+/** Webhook 事件类型 */
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+/** 测试推送使用的事件类型，不需要订阅 */
+export const WEBHOOK_PING_EVENT = 'ping';
+
+/**
+ * 单条推送最多尝试的次数
+ * 实际次数还受队列消费者的 max_retries 限制（见文件开头的说明）
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+/** 首次重试的延迟秒数，之后每次翻倍 */
+const WEBHOOK_BASE_RETRY_SECONDS = 30;
+
+/** 队列允许的最大延迟秒数（12 小时） */
+const MAX_WEBHOOK_RETRY_SECONDS = 12 * 60 * 60;
+
+/** 推送请求的超时时间 */
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/** 单次放入队列的最大消息数量 */
+const QUEUE_BATCH_SIZE = 100;
+
+/** 推送记录中保存的响应内容最大长度 */
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+/**
+ * Webhook 推送结果
+ */
+export interface WebhookResponse {
+  /** 接收方是否返回 2xx */
+  ok: boolean;
+
+  /** 接收方返回的 HTTP 状态码；网络错误或超时为 null */
+  status: number | null;
+
+  /** 接收方响应内容（截断） */
+  body: string | null;
+
+  /** 失败原因 */
+  error: string | null;
+}
+
+/**
+ * ========================================
+ * 参数校验
+ * ========================================
+ */
+
+/**
+ * 校验 Webhook 推送地址
+ *
+ * @param value - 用户填写的地址
+ * @returns 规范化后的地址；不是有效的 http(s) 地址或包含用户名密码时返回 null
+ */
+export const normalizeWebhookUrl = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (url.username || url.password) return null;
+
+  return url.toString();
+};
+
+/**
+ * 解析订阅的事件类型列表
+ *
+ * @param value - 用户填写的事件类型数组
+ * @returns 去重后的事件类型；不是非空数组或包含未知事件时返回 null
+ */
+export const parseWebhookEvents = (value: unknown): WebhookEvent[] | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(event => (WEBHOOK_EVENTS as readonly unknown[]).includes(event))) return null;
+  return [...new Set(value as WebhookEvent[])];
+};
+
+/**
+ * 计算第 attempts 次失败后的重试延迟
+ *
+ * @param attempts - 已尝试的次数（从 1 开始）
+ * @returns 延迟秒数：30、60、120……，不超过 12 小时
+ */
+export const getWebhookRetryDelay = (attempts: number): number => {
+  return Math.min(WEBHOOK_BASE_RETRY_SECONDS * 2 ** Math.max(0, attempts - 1), MAX_WEBHOOK_RETRY_SECONDS);
+};
+
+/**
+ * 提取文档事件中携带的字段（不包含正文）
+ *
+ * @param document - 文档记录
+ * @returns 事件数据
+ */
+export const buildDocumentEventData = (document: any) => ({
+  id: document.id,
+  title: document.title,
+  folder_id: document.folder_id ?? null,
+  version: document.version ?? null,
+  created_at: document.created_at,
+  updated_at: document.updated_at
+});
+
+/**
+ * ========================================
+ * 事件分发
+ * ========================================
+ */
+
+/**
+ * 为订阅了该事件的 Webhook 写入推送记录
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param userId - 事件所属用户ID
+ * @param webhookIds - Webhook ID 列表
+ * @param event - 事件类型
+ * @param data - 事件数据；为数组时每项作为一个事件，为每个 Webhook 各写入一条推送记录
+ * @returns 写入的推送记录
+ */
+export const createWebhookDeliveries = async (
+  supabase: SupabaseClient,
+  userId: string,
+  webhookIds: string[],
+  event: string,
+  data: Record<string, unknown> | Record<string, unknown>[]
+): Promise<{ data: any[]; error: { message: string } | null }> => {
+  const createdAt = new Date().toISOString();
+  const events = Array.isArray(data) ? data : [data];
+
+  // 推送记录ID在写入前生成，作为请求体中的 id
+  const rows = events.flatMap(eventData => webhookIds.map(webhookId => {
+    const id = crypto.randomUUID();
+    return {
+      id,
+      webhook_id: webhookId,
+      user_id: userId,
+      event,
+      payload: { id, event, created_at: createdAt, data: eventData }
+    };
+  }));
+
+  const { data: inserted, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(rows)
+    .select();
+
+  return { data: inserted || [], error };
+};
+
+/**
+ * 分发事件：为订阅了该事件的 Webhook 写入推送记录并放入推送队列
+ * 分发失败只记录日志，不影响调用方的处理结果
+ *
+ * 批量操作传入事件数据数组，只查询一次订阅并一次写入全部推送记录
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param queue - Webhook 推送队列
+ * @param userId - 事件所属用户ID
+ * @param event - 事件类型
+ * @param data - 事件数据；为数组时每项分发一个事件
+ *
+ * @example
+ * ```typescript
+ * await dispatchWebhookEvent(supabase, c.env.WEBHOOK_QUEUE, user.id, 'document.created', buildDocumentEventData(data[0]));
+ * ```
+ */
+export const dispatchWebhookEvent = async (
+  supabase: SupabaseClient,
+  queue: Env['WEBHOOK_QUEUE'],
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown> | Record<string, unknown>[]
+): Promise<void> => {
+  if (Array.isArray(data) && data.length === 0) return;
+
+  try {
+    const { data: webhooks, error } = await supabase
+      .from('webhooks')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .contains('events', [event]);
+
+    if (error) throw new Error(error.message);
+    if (!webhooks || webhooks.length === 0) return;
+
+    const { data: deliveries, error: insertError } = await createWebhookDeliveries(
+      supabase,
+      userId,
+      webhooks.map(webhook => webhook.id),
+      event,
+      data
+    );
+    if (insertError) throw new Error(insertError.message);
+
+    // 队列单次最多发送 100 条消息
+    for (let i = 0; i < deliveries.length; i += QUEUE_BATCH_SIZE) {
+      await queue.sendBatch(deliveries.slice(i, i + QUEUE_BATCH_SIZE).map(delivery => ({ body: { delivery_id: delivery.id } })));
+    }
+  } catch (error) {
+    console.error(`Failed to dispatch webhook event ${event}:`, error);
+  }
+};
+
+/**
+ * ========================================
+ * 推送与重试
+ * ========================================
+ */
+
+/**
+ * 向 Webhook 地址发送一次签名的推送请求
+ *
+ * @param webhook - 推送地址和签名密钥
+ * @param delivery - 推送记录
+ * @returns 推送结果
+ */
+export const sendWebhookRequest = async (
+  webhook: { id: string; url: string; secret: string },
+  delivery: { id: string; event: string; payload: unknown }
+): Promise<WebhookResponse> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = await hmacSha256Hex(webhook.secret, `${timestamp}.${body}`);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': `${CONFIG.APP_NAME}-Webhook/1.0`,
+        'X-Webhook-Id': webhook.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signature}`
+      },
+      body,
+      signal: controller.signal
+    });
+
+    const text = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: text,
+      error: response.ok ? null : `接收方返回 HTTP ${response.status}`
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: controller.signal.aborted
+        ? '推送超时'
+        : `推送失败：${error instanceof Error ? error.message : String(error)}`
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * 执行一次推送并更新推送记录
+ *
+ * - 成功时记录为 succeeded
+ * - 失败且未达到最大尝试次数时保持 pending，并返回建议的重试延迟
+ * - 失败且次数用尽（或不允许重试）时记录为 failed
+ * - 推送记录已结束或 Webhook 已停用时不再推送
+ *
+ * @param supabase - Supabase 客户端实例
+ * @param deliveryId - 推送记录ID
+ * @param options.retry - 失败后是否允许重试，默认为 true
+ * @param options.ignoreInactive - 是否向已停用的 Webhook 推送（测试推送使用）
+ * @returns 更新后的推送记录，以及需要重试时的延迟秒数（否则为 null）
+ */
+export const attemptWebhookDelivery = async (
+  supabase: SupabaseClient,
+  deliveryId: string,
+  options: { retry?: boolean; ignoreInactive?: boolean } = {}
+): Promise<{ delivery: any | null; retryAfter: number | null }> => {
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*, webhooks(id, url, secret, active)')
+    .eq('id', deliveryId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!delivery || delivery.status !== 'pending') {
+    return { delivery, retryAfter: null };
+  }
+
+  const { webhooks: webhook, ...record } = delivery;
+  const now = new Date().toISOString();
+
+  if (!webhook || (!webhook.active && !options.ignoreInactive)) {
+    const { data: updated } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', error: 'Webhook 已停用', next_retry_at: null, updated_at: now })
+      .eq('id', deliveryId)
+      .select()
+      .maybeSingle();
+    return { delivery: updated, retryAfter: null };
+  }
+
+  const response = await sendWebhookRequest(webhook, record);
+  const attempts = record.attempts + 1;
+  const retryAfter = !response.ok && options.retry !== false && attempts < MAX_WEBHOOK_ATTEMPTS
+    ? getWebhookRetryDelay(attempts)
+    : null;
+
+  const { data: updated, error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: response.ok ? 'succeeded' : retryAfter !== null ? 'pending' : 'failed',
+      attempts,
+      response_status: response.status,
+      response_body: response.body,
+      error: response.error,
+      next_retry_at: retryAfter !== null ? new Date(Date.now() + retryAfter * 1000).toISOString() : null,
+      delivered_at: response.ok ? now : null,
+      updated_at: now
+    })
+    .eq('id', deliveryId)
+    .select()
+    .maybeSingle();
+
+  if (updateError) throw new Error(updateError.message);
+
+  return { delivery: updated, retryAfter };
+};
+
+/**
+ * 获取队列消费者的 max_retries
+ * 优先使用 WEBHOOK_QUEUE_MAX_RETRIES 环境变量，否则使用 Cloudflare Queues 的默认值
+ */
+const getQueueMaxRetries = (env: Env): number => {
+  const retries = parseInt(env.WEBHOOK_QUEUE_MAX_RETRIES || '');
+  return retries >= 0 ? retries : CONFIG.WEBHOOK_QUEUE_MAX_RETRIES;
+};
+
+/**
+ * Webhook 推送队列消费者
+ * 逐条推送，需要重试的消息按退避延迟重新入队；处理异常（如数据库不可用）时稍后重试
+ * 队列最后一次投递消息时不再重试：推送失败或处理异常都把推送记录标记为 failed，避免消息被丢弃后记录停留在 pending
+ *
+ * @param batch - 队列消息批次
+ * @param env - 环境变量
+ */
+export const handleWebhookQueue = async (batch: MessageBatch<{ delivery_id: string }>, env: Env): Promise<void> => {
+  const supabase = createPublicClient(env);
+  const maxRetries = getQueueMaxRetries(env);
+
+  for (const message of batch.messages) {
+    // message.attempts 从 1 开始，超过 max_retries 时为队列的最后一次投递
+    const lastAttempt = message.attempts > maxRetries;
+
+    try {
+      const { retryAfter } = await attemptWebhookDelivery(supabase, message.body.delivery_id, { retry: !lastAttempt });
+      if (retryAfter !== null) {
+        message.retry({ delaySeconds: retryAfter });
+      } else {
+        message.ack();
+      }
+    } catch (error) {
+      console.error(`Failed to deliver webhook ${message.body.delivery_id}:`, error);
+      if (!lastAttempt) {
+        message.retry({ delaySeconds: WEBHOOK_BASE_RETRY_SECONDS });
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('webhook_deliveries')
+        .update({
+          status: 'failed',
+          error: `推送处理失败：${error instanceof Error ? error.message : String(error)}`,
+          next_retry_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', message.body.delivery_id)
+        .eq('status', 'pending');
+
+      if (updateError) {
+        console.error(`Failed to mark webhook delivery ${message.body.delivery_id} as failed:`, updateError);
+      }
+      message.ack();
+    }
+  }
+};
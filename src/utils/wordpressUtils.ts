@@ -0,0 +1,288 @@
+/**
+ * ========================================
+ * WordPress 发布工具函数
+ * ========================================
+ *
+ * 本文件提供 WordPress REST API（/wp-json/wp/v2）客户端和文章内容转换功能
+ * 认证使用 WordPress 5.6+ 内置的应用程序密码（HTTP Basic 认证）
+ * 站点地址允许使用 http，便于对接本地的 WordPress 或模拟 REST 服务进行测试
+ * （scripts/mockWordPress.ts，npm run wordpress:integration 使用它运行发布流程）
+ */
+
+import { renderMarkdown } from './markdownUtils';
+import { collectDocumentAssets, replaceAssetUrls } from './exportUtils';
+
+/** 调用 WordPress 接口的超时时间 */
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/** 文章状态：草稿或公开发布 */
+export const WORDPRESS_POST_STATUSES = ['draft', 'publish'] as const;
+
+/**
+ * WordPress 站点凭据
+ */
+export interface WordPressCredentials {
+  /** 站点地址，例如 https://blog.example.com */
+  siteUrl: string;
+
+  /** WordPress 用户名 */
+  username: string;
+
+  /** 应用程序密码 */
+  password: string;
+}
+
+/**
+ * 已上传到媒体库的图片
+ */
+export interface WordPressMedia {
+  id: number;
+  url: string;
+}
+
+/**
+ * WordPress 接口调用失败
+ * status 为 WordPress 返回的 HTTP 状态码（网络错误为 502，超时为 504），code 为 WordPress 错误代码
+ */
+export class WordPressError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'WordPressError';
+  }
+}
+
+/**
+ * 规范化站点地址：去除末尾的斜杠和 /wp-json 后缀
+ *
+ * @param value - 用户填写的站点地址
+ * @returns 规范化后的地址；不是有效的 http(s) 地址时返回 null
+ */
+export const normalizeSiteUrl = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const path = url.pathname.replace(/\/+$/, '').replace(/\/wp-json$/, '');
+  return `${url.origin}${path}`;
+};
+
+/**
+ * 生成 HTTP Basic 认证头（支持非 ASCII 用户名）
+ */
+const buildBasicAuth = (username: string, password: string): string => {
+  let binary = '';
+  new TextEncoder().encode(`${username}:${password}`).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `Basic ${btoa(binary)}`;
+};
+
+/**
+ * 创建 WordPress REST API 客户端
+ *
+ * @param credentials - 站点凭据
+ * @returns 客户端方法
+ */
+export const createWordPressClient = (credentials: WordPressCredentials) => {
+  const baseUrl = `${credentials.siteUrl}/wp-json/wp/v2`;
+  const authorization = buildBasicAuth(credentials.username, credentials.password);
+
+  /**
+   * 调用 WordPress 接口并解析 JSON 响应
+   */
+  const request = async (path: string, init: { method?: string; headers?: Record<string, string>; body?: BodyInit }) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: init.method || 'GET',
+        headers: { 'Authorization': authorization, 'Accept': 'application/json', ...init.headers },
+        body: init.body,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new WordPressError('WordPress 站点响应超时', 504);
+      }
+      throw new WordPressError(`无法连接 WordPress 站点：${error instanceof Error ? error.message : String(error)}`, 502);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new WordPressError(
+        data?.message || `WordPress 返回错误（HTTP ${response.status}）`,
+        response.status,
+        data?.code
+      );
+    }
+    if (!data) {
+      throw new WordPressError('WordPress 返回了无法解析的结果，请确认站点地址和 REST API 是否可用', 502);
+    }
+    return data;
+  };
+
+  return {
+    /**
+     * 获取当前认证用户，用于校验凭据
+     */
+    async getCurrentUser(): Promise<{ id: number; name: string }> {
+      const data = await request('/users/me?context=edit', {});
+      return { id: data.id, name: data.name };
+    },
+
+    /**
+     * 上传图片到媒体库
+     */
+    async uploadMedia(fileName: string, contentType: string, body: Uint8Array): Promise<WordPressMedia> {
+      const data = await request('/media', {
+        method: 'POST',
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7E]|"/g, '_')}"`
+        },
+        body
+      });
+      return { id: data.id, url: data.source_url };
+    },
+
+    /**
+     * 创建文章（postId 为 null）或更新已有文章
+     */
+    async savePost(
+      postId: number | null,
+      post: { title: string; content: string; status: string }
+    ): Promise<{ id: number; link: string; status: string }> {
+      const data = await request(postId === null ? '/posts' : `/posts/${postId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(post)
+      });
+      return { id: data.id, link: data.link, status: data.status };
+    }
+  };
+};
+
+/**
+ * WordPress REST API 客户端
+ */
+export type WordPressClient = ReturnType<typeof createWordPressClient>;
+
+/**
+ * 判断错误是否表示文章已不存在（在 WordPress 后台被永久删除）
+ *
+ * @param error - 调用 savePost 时抛出的错误
+ * @returns 是否为文章不存在
+ */
+export const isMissingPostError = (error: unknown): boolean => {
+  return error instanceof WordPressError && (error.status === 404 || error.code === 'rest_post_invalid_id');
+};
+
+/**
+ * 发布失败时返回给客户端的状态码：WordPress 超时为 504，其余错误（包括认证失败）均为 502
+ *
+ * @param error - WordPress 接口调用失败的错误
+ * @returns HTTP 状态码
+ */
+export const getPublishErrorStatus = (error: WordPressError): 502 | 504 => {
+  return error.status === 504 ? 504 : 502;
+};
+
+/**
+ * 将文档 Markdown 转换为 WordPress 文章 HTML
+ *
+ * - 文档引用的站内图片上传到 WordPress 媒体库，并替换为媒体库地址；已上传过的图片直接复用
+ * - 其余站内相对链接（如附件）转换为带域名的绝对地址
+ *
+ * @param options.bucket - R2 存储桶实例
+ * @param options.client - WordPress 客户端
+ * @param options.markdown - 文档内容
+ * @param options.media - 之前上传过的图片（R2 对象键到媒体的映射）
+ * @param options.origin - 本站地址，用于转换相对链接
+ * @returns 文章 HTML、更新后的媒体映射和本次新上传的图片数量
+ */
+export const buildWordPressContent = async (options: {
+  bucket: R2Bucket;
+  client: WordPressClient;
+  markdown: string;
+  media: Record<string, WordPressMedia>;
+  origin: string;
+}): Promise<{ html: string; media: Record<string, WordPressMedia>; uploaded: number }> => {
+  const media = new Map(Object.entries(options.media));
+  let uploaded = 0;
+
+  // 只读取尚未上传过的图片
+  const assets = await collectDocumentAssets(options.bucket, replaceAssetUrls(options.markdown, media, () => ''));
+
+  for (const asset of assets.values()) {
+    media.set(asset.key, await options.client.uploadMedia(asset.key.split('/').pop() || asset.fileName, asset.contentType, asset.data));
+    uploaded++;
+  }
+
+  const markdown = replaceAssetUrls(options.markdown, media, item => item.url)
+    .replace(/\]\(\/(?!\/)/g, `](${options.origin}/`);
+
+  return { html: renderMarkdown(markdown), media: Object.fromEntries(media), uploaded };
+};
+
+/**
+ * 将文档发布为 WordPress 文章
+ *
+ * - 转换文章内容并上传新引用的图片（见 buildWordPressContent）
+ * - 提供了之前发布的文章时更新该文章，文章已在 WordPress 中被删除时重新创建
+ *
+ * @param options.bucket - R2 存储桶实例
+ * @param options.client - WordPress 客户端
+ * @param options.title - 文章标题
+ * @param options.markdown - 文档内容
+ * @param options.status - 文章状态
+ * @param options.origin - 本站地址，用于转换相对链接
+ * @param options.previous - 之前发布的文章ID和已上传的图片，首次发布时为 null
+ * @returns 文章、更新后的媒体映射、本次新上传的图片数量和是否新建了文章
+ */
+export const publishWordPressPost = async (options: {
+  bucket: R2Bucket;
+  client: WordPressClient;
+  title: string;
+  markdown: string;
+  status: string;
+  origin: string;
+  previous: { post_id: number; media: Record<string, WordPressMedia> } | null;
+}): Promise<{
+  post: { id: number; link: string; status: string };
+  media: Record<string, WordPressMedia>;
+  uploaded: number;
+  created: boolean;
+}> => {
+  const built = await buildWordPressContent({
+    bucket: options.bucket,
+    client: options.client,
+    markdown: options.markdown,
+    media: options.previous?.media || {},
+    origin: options.origin
+  });
+
+  const postData = { title: options.title, content: built.html, status: options.status };
+
+  if (options.previous) {
+    try {
+      const post = await options.client.savePost(options.previous.post_id, postData);
+      return { post, media: built.media, uploaded: built.uploaded, created: false };
+    } catch (error) {
+      if (!isMissingPostError(error)) throw error;
+    }
+  }
+
+  const post = await options.client.savePost(null, postData);
+  return { post, media: built.media, uploaded: built.uploaded, created: true };
+};
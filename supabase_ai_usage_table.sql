@@ -0,0 +1,81 @@
+-- 创建 AI 写作助手用量表
+-- 每次调用校对、润色、扩写都会记录一条用量，用于按用户限流和统计 token 消耗
+-- 调用 AI 服务前通过 reserve_ai_usage 预留一条记录，调用结束后更新为实际用量
+CREATE TABLE ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('proofread', 'polish', 'expand')),
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('reserved', 'completed', 'failed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 为 ai_usage 表添加索引
+CREATE INDEX idx_ai_usage_user_created ON ai_usage(user_id, created_at DESC);
+
+-- 添加注释
+COMMENT ON TABLE ai_usage IS 'AI 写作助手调用记录，用于限流和 token 统计';
+COMMENT ON COLUMN ai_usage.provider IS 'AI 服务提供方：openai（OpenAI 兼容接口）或 local（本地规则实现）';
+COMMENT ON COLUMN ai_usage.status IS 'reserved：已预留，等待 AI 服务返回，token 为预估值；completed：调用成功，token 为实际用量；failed：调用失败，只计入请求次数';
+
+-- 统计用户在指定时间之后的请求次数和 token 用量
+CREATE OR REPLACE FUNCTION get_ai_usage_summary(
+    p_user_id UUID,
+    p_requests_since TIMESTAMP WITH TIME ZONE,
+    p_tokens_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+    recent_requests BIGINT,
+    period_tokens BIGINT
+) AS $$
+    SELECT
+        COUNT(*) FILTER (WHERE created_at >= p_requests_since),
+        COALESCE(SUM(total_tokens) FILTER (WHERE created_at >= p_tokens_since), 0)
+    FROM ai_usage
+    WHERE user_id = p_user_id
+      AND created_at >= LEAST(p_requests_since, p_tokens_since);
+$$ LANGUAGE sql STABLE;
+
+-- 预留一次 AI 调用的用量
+-- 同一用户的预留串行执行：检查请求次数和 token 用量与写入预留记录在同一个事务中完成，并发请求不会同时通过检查
+-- 未超出限制时写入状态为 reserved、token 为预估值的记录并返回其ID；超出限制时 usage_id 为 NULL
+CREATE OR REPLACE FUNCTION reserve_ai_usage(
+    p_user_id UUID,
+    p_operation TEXT,
+    p_provider TEXT,
+    p_model TEXT,
+    p_estimated_tokens INTEGER,
+    p_requests_per_minute INTEGER,
+    p_daily_tokens INTEGER,
+    p_requests_since TIMESTAMP WITH TIME ZONE,
+    p_tokens_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+    usage_id UUID,
+    recent_requests BIGINT,
+    period_tokens BIGINT
+) AS $$
+DECLARE
+    v_requests BIGINT;
+    v_tokens BIGINT;
+    v_id UUID;
+BEGIN
+    -- 按用户加事务级锁，事务结束时自动释放
+    PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::TEXT));
+
+    SELECT s.recent_requests, s.period_tokens INTO v_requests, v_tokens
+    FROM get_ai_usage_summary(p_user_id, p_requests_since, p_tokens_since) s;
+
+    IF v_tokens < p_daily_tokens AND v_requests < p_requests_per_minute THEN
+        INSERT INTO ai_usage (user_id, operation, provider, model, prompt_tokens, total_tokens, status)
+        VALUES (p_user_id, p_operation, p_provider, p_model, p_estimated_tokens, p_estimated_tokens, 'reserved')
+        RETURNING id INTO v_id;
+    END IF;
+
+    RETURN QUERY SELECT v_id, v_requests, v_tokens;
+END;
+$$ LANGUAGE plpgsql;
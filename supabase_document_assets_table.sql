@@ -0,0 +1,33 @@
+-- 创建文档资源引用表
+-- 每次保存文档时解析正文中的 /api/images/<键> 和 /api/files/<键> 引用，重建该文档的资源引用记录
+-- 图片和文件存放在同一个 R2 存储桶中，按对象键记录，删除图片或文件前据此判断是否仍被引用
+-- 回收站中的文档仍计入引用（恢复后需要这些资源），永久删除文档时记录随之删除
+CREATE TABLE document_assets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    asset_key TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, asset_key)
+);
+
+-- 为 document_assets 表添加索引
+CREATE INDEX idx_document_assets_asset_key ON document_assets(asset_key);
+CREATE INDEX idx_document_assets_user_id ON document_assets(user_id);
+
+-- 回填已有文档的资源引用
+-- 与应用中的解析规则近似：不排除代码块中的示例，也不解码 URL 编码的文件名，之后保存文档时会按准确规则重建
+INSERT INTO document_assets (user_id, document_id, asset_key, occurrences)
+SELECT d.user_id, d.id, m.match[2], count(*)
+FROM documents d
+CROSS JOIN LATERAL regexp_matches(d.content, '/api/(images|files)/(?:download/)?([^\s)"''<>?#]+)', 'g') AS m(match)
+GROUP BY d.user_id, d.id, m.match[2]
+ON CONFLICT (document_id, asset_key) DO NOTHING;
+
+-- 批量复制文档时一并复制资源引用记录（见 supabase_documents_bulk.sql 中的 bulk_duplicate_documents）
+
+-- 添加注释
+COMMENT ON TABLE document_assets IS '文档正文引用的图片和文件，由保存文档时解析正文生成';
+COMMENT ON COLUMN document_assets.asset_key IS 'R2 对象键，即 /api/images/ 或 /api/files/ 之后的部分';
+COMMENT ON COLUMN document_assets.occurrences IS '该资源在正文中出现的次数';
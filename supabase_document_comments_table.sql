@@ -0,0 +1,51 @@
+-- 创建文档评论讨论串表
+-- 每个讨论串锚定到文档中的一段文本，锚点随文档内容变化重新定位
+CREATE TABLE comment_threads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    anchor_start INTEGER NOT NULL,
+    anchor_end INTEGER NOT NULL,
+    anchor_text TEXT NOT NULL,
+    anchor_prefix TEXT NOT NULL DEFAULT '',
+    anchor_suffix TEXT NOT NULL DEFAULT '',
+    anchor_version INTEGER,
+    orphaned BOOLEAN NOT NULL DEFAULT FALSE,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建文档评论表
+-- 讨论串中的第一条评论为发起评论，其余为回复
+CREATE TABLE document_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    thread_id UUID NOT NULL REFERENCES comment_threads(id) ON DELETE CASCADE,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    author_email TEXT,
+    body TEXT NOT NULL,
+    mentions TEXT[] NOT NULL DEFAULT '{}',
+    edited_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 为评论相关表添加索引
+CREATE INDEX idx_comment_threads_document_id ON comment_threads(document_id, status);
+CREATE INDEX idx_comment_threads_user_id ON comment_threads(user_id);
+CREATE INDEX idx_document_comments_thread_id ON document_comments(thread_id, created_at);
+CREATE INDEX idx_document_comments_mentions ON document_comments USING GIN (mentions);
+
+-- 添加注释
+COMMENT ON TABLE comment_threads IS '文档评论讨论串表，锚定到文档中的一段文本';
+COMMENT ON COLUMN comment_threads.anchor_start IS '锚点起始位置（字符偏移量，包含）';
+COMMENT ON COLUMN comment_threads.anchor_end IS '锚点结束位置（字符偏移量，不包含）';
+COMMENT ON COLUMN comment_threads.anchor_text IS '创建评论时选中的文本，用于在内容变化后重新定位';
+COMMENT ON COLUMN comment_threads.anchor_prefix IS '锚点前的上下文文本，用于在多处匹配时消除歧义';
+COMMENT ON COLUMN comment_threads.anchor_suffix IS '锚点后的上下文文本，用于在多处匹配时消除歧义';
+COMMENT ON COLUMN comment_threads.anchor_version IS '锚点最后一次定位时的文档版本号';
+COMMENT ON COLUMN comment_threads.orphaned IS '锚点文本已不存在于文档中';
+COMMENT ON COLUMN document_comments.mentions IS '评论中 @ 提及的协作者邮箱（小写）';
@@ -0,0 +1,47 @@
+-- 创建文档草稿表
+-- 编辑器自动保存写入草稿，不修改文档正文、不递增版本号、不生成修订；
+-- 用户显式发布时草稿才会写入文档并删除。每位用户在每篇文档上最多有一份草稿
+CREATE TABLE document_drafts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    title TEXT,
+    content TEXT NOT NULL DEFAULT '',
+    base_version INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, user_id)
+);
+
+-- 为 document_drafts 表添加索引
+CREATE INDEX idx_document_drafts_user_updated ON document_drafts(user_id, updated_at DESC);
+
+-- 添加注释
+COMMENT ON TABLE document_drafts IS '文档草稿表，保存尚未发布的自动保存内容';
+COMMENT ON COLUMN document_drafts.title IS '草稿标题，为空表示沿用文档标题';
+COMMENT ON COLUMN document_drafts.base_version IS '草稿开始编辑时的文档版本号，发布时用于检测冲突';
+
+-- 保存草稿：校验文档归属后插入或更新草稿，单次往返完成
+-- p_title 为空时保留草稿原有标题；p_base_version 为空时新草稿取文档当前版本，已有草稿保持原基础版本
+-- 文档不存在、不属于该用户或已在回收站中时不返回任何行
+CREATE OR REPLACE FUNCTION save_document_draft(
+    p_user_id UUID,
+    p_document_id UUID,
+    p_content TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_base_version INTEGER DEFAULT NULL
+)
+RETURNS SETOF document_drafts AS $$
+    INSERT INTO document_drafts AS dd (document_id, user_id, title, content, base_version)
+    SELECT d.id, p_user_id, p_title, p_content, COALESCE(p_base_version, d.version)
+    FROM documents d
+    WHERE d.id = p_document_id
+      AND d.user_id = p_user_id
+      AND d.deleted_at IS NULL
+    ON CONFLICT (document_id, user_id) DO UPDATE SET
+        title = COALESCE(EXCLUDED.title, dd.title),
+        content = EXCLUDED.content,
+        base_version = COALESCE(p_base_version, dd.base_version),
+        updated_at = NOW()
+    RETURNING dd.*;
+$$ LANGUAGE sql;
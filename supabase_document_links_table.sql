@@ -0,0 +1,26 @@
+-- 创建文档链接表
+-- 每次保存文档时解析正文中的 [[文档标题]] 维基链接和 /editor?id= 链接，重建该文档的出链记录
+-- 维基链接找不到同名文档时 target_id 为空（悬空链接），之后创建或重命名出同名文档时自动关联
+CREATE TABLE document_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    source_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    target_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    target_title TEXT,
+    link_type TEXT NOT NULL CHECK (link_type IN ('wiki', 'editor')),
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 为 document_links 表添加索引
+CREATE INDEX idx_document_links_source_id ON document_links(source_id);
+CREATE INDEX idx_document_links_target_id ON document_links(target_id);
+CREATE INDEX idx_document_links_user_dangling ON document_links(user_id, lower(target_title)) WHERE target_id IS NULL;
+
+-- 批量复制文档时一并复制出链记录（见 supabase_documents_bulk.sql 中的 bulk_duplicate_documents）
+
+-- 添加注释
+COMMENT ON TABLE document_links IS '文档之间的链接关系，由保存文档时解析正文生成';
+COMMENT ON COLUMN document_links.target_id IS '链接目标文档ID，为空表示悬空链接';
+COMMENT ON COLUMN document_links.target_title IS '维基链接中书写的文档标题，/editor?id= 链接为空';
+COMMENT ON COLUMN document_links.occurrences IS '该链接在正文中出现的次数';
@@ -0,0 +1,22 @@
+-- 创建文档锁表
+-- 编辑会话签出文档后获得锁令牌，锁有效期内只有持有令牌的会话可以修改文档
+-- 锁通过心跳续期，过期的锁视为不存在，下次获取时清理
+CREATE TABLE document_locks (
+    document_id UUID PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    token TEXT NOT NULL,
+    user_email TEXT,
+    client TEXT,
+    acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    renewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- 添加索引
+CREATE INDEX idx_document_locks_user_id ON document_locks(user_id);
+
+-- 添加注释
+COMMENT ON TABLE document_locks IS '文档签出锁，锁有效期内拒绝其他会话的写入';
+COMMENT ON COLUMN document_locks.token IS '锁令牌，持有锁的会话在写入时通过 X-Lock-Token 请求头提供';
+COMMENT ON COLUMN document_locks.client IS '持有锁的客户端说明，例如设备或浏览器名称，便于其他会话识别';
+COMMENT ON COLUMN document_locks.expires_at IS '过期时间，心跳续期时延后';
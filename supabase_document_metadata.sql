@@ -0,0 +1,14 @@
+-- 文档结构化元数据
+-- 每次保存正文时由应用计算（见 metadataUtils）：标题大纲、字数、字符数、阅读时长、链接和图片数量、front matter 字段
+-- 已有文档的元数据为空，首次请求大纲或下次保存时补齐
+
+ALTER TABLE documents ADD COLUMN metadata JSONB;
+
+-- 字数作为生成列，便于统计和排序
+ALTER TABLE documents ADD COLUMN word_count INTEGER GENERATED ALWAYS AS ((metadata->>'word_count')::integer) STORED;
+
+-- 批量复制文档时一并复制元数据（见 supabase_documents_bulk.sql 中的 bulk_duplicate_documents）
+
+-- 添加注释
+COMMENT ON COLUMN documents.metadata IS '由正文计算的结构化元数据：outline、word_count、char_count、reading_minutes、link_count、image_count、code_block_count、front_matter';
+COMMENT ON COLUMN documents.word_count IS '正文字数，中日文每个字计一个词（生成列）';
@@ -0,0 +1,19 @@
+-- 文档自定义属性
+-- 文件夹定义属性（schema），直接位于该文件夹中的文档按定义填写属性值，文件夹即可作为轻量的数据库视图按属性过滤和排序
+-- 属性类型：text、number、date（YYYY-MM-DD）、select、multi_select、user（用户ID）、url
+-- 属性值的校验在应用中完成（见 propertyUtils）
+
+-- 文件夹的属性定义，形如 [{ "key": "status", "name": "状态", "type": "select", "options": ["待办", "完成"] }]
+ALTER TABLE folders ADD COLUMN property_schema JSONB NOT NULL DEFAULT '[]';
+
+-- 文档的属性值，形如 { "status": "完成", "due": "2024-07-01", "labels": ["紧急"] }
+ALTER TABLE documents ADD COLUMN properties JSONB NOT NULL DEFAULT '{}';
+
+-- 多选属性按选项过滤（properties @> '{"labels": ["紧急"]}'）使用 GIN 索引
+CREATE INDEX idx_documents_properties ON documents USING GIN (properties jsonb_path_ops);
+
+-- 批量复制文档时一并复制属性值（见 supabase_documents_bulk.sql 中的 bulk_duplicate_documents）
+
+-- 添加注释
+COMMENT ON COLUMN folders.property_schema IS '文件夹中文档的属性定义列表：key、name、type、options（单选和多选）';
+COMMENT ON COLUMN documents.properties IS '文档属性值，键为所在文件夹属性定义中的 key';
@@ -0,0 +1,37 @@
+-- 创建文档修订历史表
+-- 每次保存文档都会写入一条不可变的修订记录
+CREATE TABLE document_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    revision_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT,
+    byte_size INTEGER NOT NULL DEFAULT 0,
+    author_email TEXT,
+    restored_from UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, revision_number)
+);
+
+-- 为 document_revisions 表添加索引
+CREATE INDEX idx_document_revisions_document_id ON document_revisions(document_id, revision_number DESC);
+CREATE INDEX idx_document_revisions_user_id ON document_revisions(user_id);
+
+-- 修订记录不可修改
+CREATE OR REPLACE FUNCTION prevent_document_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'document_revisions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_document_revisions_immutable
+    BEFORE UPDATE ON document_revisions
+    FOR EACH ROW EXECUTE FUNCTION prevent_document_revision_update();
+
+-- 添加注释
+COMMENT ON TABLE document_revisions IS '文档修订历史表，每次保存生成一条不可变记录';
+COMMENT ON COLUMN document_revisions.revision_number IS '文档内递增的修订序号，从1开始';
+COMMENT ON COLUMN document_revisions.byte_size IS '修订内容的 UTF-8 字节数';
+COMMENT ON COLUMN document_revisions.restored_from IS '如果该修订由恢复操作产生，记录被恢复的修订ID';
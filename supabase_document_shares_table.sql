@@ -0,0 +1,36 @@
+-- 创建文档分享链接表
+-- 每个分享链接对应一个随机令牌，可设置过期时间、访问密码，并可随时撤销
+CREATE TABLE document_shares (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    password_hash TEXT,
+    password_salt TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    pinned_revision_id UUID REFERENCES document_revisions(id) ON DELETE SET NULL,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    last_viewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 为 document_shares 表添加索引
+CREATE INDEX idx_document_shares_document_id ON document_shares(document_id);
+CREATE INDEX idx_document_shares_user_id ON document_shares(user_id);
+
+-- 原子递增分享链接的访问次数
+CREATE OR REPLACE FUNCTION increment_share_view(p_share_id UUID)
+RETURNS INTEGER AS $$
+    UPDATE document_shares
+    SET view_count = view_count + 1,
+        last_viewed_at = NOW()
+    WHERE id = p_share_id
+    RETURNING view_count;
+$$ LANGUAGE sql;
+
+-- 添加注释
+COMMENT ON TABLE document_shares IS '文档只读分享链接表';
+COMMENT ON COLUMN document_shares.token IS '分享链接中的随机令牌';
+COMMENT ON COLUMN document_shares.password_hash IS '访问密码的 PBKDF2 哈希，为空表示无需密码';
+COMMENT ON COLUMN document_shares.pinned_revision_id IS '固定分享的修订ID，为空表示始终展示最新内容';
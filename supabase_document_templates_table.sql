@@ -0,0 +1,29 @@
+-- 创建文档模板表
+-- 模板正文为 Markdown，可包含 {{date}}、{{title}}、{{user.name}} 等占位符和自定义变量
+-- is_shared 为 TRUE 的模板对所有用户可见，但只有创建者可以修改
+CREATE TABLE document_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    title_template TEXT,
+    content TEXT NOT NULL DEFAULT '',
+    variables JSONB NOT NULL DEFAULT '[]',
+    default_folder_id UUID REFERENCES folders(id) ON DELETE SET NULL,
+    default_tags TEXT[] NOT NULL DEFAULT '{}',
+    is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 为 document_templates 表添加索引
+CREATE INDEX idx_document_templates_user_id ON document_templates(user_id);
+CREATE INDEX idx_document_templates_shared ON document_templates(is_shared) WHERE is_shared;
+
+-- 添加注释
+COMMENT ON TABLE document_templates IS '文档模板表，用于从模板创建新文档';
+COMMENT ON COLUMN document_templates.title_template IS '新文档标题模板，可包含占位符，为空时使用模板名称';
+COMMENT ON COLUMN document_templates.variables IS '自定义变量定义：[{ name, label, description, default, required }]';
+COMMENT ON COLUMN document_templates.default_folder_id IS '新文档的默认文件夹，仅对模板创建者生效';
+COMMENT ON COLUMN document_templates.default_tags IS '新文档的默认标签名称，不存在的标签会自动创建';
+COMMENT ON COLUMN document_templates.is_shared IS '是否对所有用户共享';
@@ -0,0 +1,30 @@
+-- 为文档表添加版本号字段，用于乐观并发控制
+-- 标题或内容每次变化时版本号自动加一
+ALTER TABLE documents ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- 为修订表记录对应的文档版本号，用于冲突时查找共同基础版本
+ALTER TABLE document_revisions ADD COLUMN document_version INTEGER;
+
+CREATE INDEX idx_document_revisions_version ON document_revisions(document_id, document_version DESC);
+
+-- 标题或内容变化时自动递增版本号
+-- 仅移动文件夹等元数据修改不会改变版本号
+CREATE OR REPLACE FUNCTION bump_document_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title OR NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.version := OLD.version + 1;
+    ELSE
+        NEW.version := OLD.version;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_documents_bump_version
+    BEFORE UPDATE ON documents
+    FOR EACH ROW EXECUTE FUNCTION bump_document_version();
+
+-- 添加注释
+COMMENT ON COLUMN documents.version IS '文档内容版本号，用于 ETag / If-Match 乐观并发控制';
+COMMENT ON COLUMN document_revisions.document_version IS '生成该修订时的文档版本号';
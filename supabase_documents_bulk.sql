@@ -0,0 +1,150 @@
+-- 文档批量操作
+-- 每个函数在单个事务中执行：任何一篇文档不存在、不属于该用户或已在回收站中时整体回滚
+
+-- 批量更新文档：移动文件夹、移入回收站、添加/移除/替换标签
+CREATE OR REPLACE FUNCTION bulk_update_documents(
+    p_user_id UUID,
+    p_document_ids UUID[],
+    p_set_folder BOOLEAN DEFAULT FALSE,
+    p_folder_id UUID DEFAULT NULL,
+    p_trash BOOLEAN DEFAULT FALSE,
+    p_add_tag_ids UUID[] DEFAULT '{}',
+    p_remove_tag_ids UUID[] DEFAULT '{}',
+    p_replace_tags BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF UUID AS $$
+DECLARE
+    v_ids UUID[];
+BEGIN
+    -- 锁定目标文档，防止与其他写操作交错
+    SELECT array_agg(d.id) INTO v_ids
+    FROM (
+        SELECT id FROM documents
+        WHERE id = ANY(p_document_ids)
+          AND user_id = p_user_id
+          AND deleted_at IS NULL
+        FOR UPDATE
+    ) d;
+
+    IF coalesce(cardinality(v_ids), 0) <> cardinality(p_document_ids) THEN
+        RAISE EXCEPTION 'Some documents were not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_set_folder THEN
+        UPDATE documents
+        SET folder_id = p_folder_id,
+            updated_at = NOW()
+        WHERE id = ANY(v_ids);
+    END IF;
+
+    IF p_replace_tags THEN
+        DELETE FROM document_tags
+        WHERE document_id = ANY(v_ids)
+          AND NOT (tag_id = ANY(p_add_tag_ids));
+    ELSIF cardinality(p_remove_tag_ids) > 0 THEN
+        DELETE FROM document_tags
+        WHERE document_id = ANY(v_ids)
+          AND tag_id = ANY(p_remove_tag_ids);
+    END IF;
+
+    IF cardinality(p_add_tag_ids) > 0 THEN
+        INSERT INTO document_tags (document_id, tag_id, user_id)
+        SELECT d.id, t.id, p_user_id
+        FROM unnest(v_ids) AS d(id) CROSS JOIN unnest(p_add_tag_ids) AS t(id)
+        ON CONFLICT (document_id, tag_id) DO NOTHING;
+    END IF;
+
+    IF p_trash THEN
+        UPDATE documents
+        SET deleted_at = NOW(),
+            trashed_with_folder_id = NULL
+        WHERE id = ANY(v_ids);
+    END IF;
+
+    RETURN QUERY SELECT unnest(v_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+-- 批量复制文档：复制标题、内容、元数据、属性值、标签、出链记录和资源引用记录，并为每个副本写入初始修订记录
+-- 副本的正文与原文档相同，元数据、出链和资源引用直接复制原文档的记录，删除图片或文件时副本的引用同样生效
+-- 本文件中的定义是该函数唯一的定义，其他表的脚本不再重新定义
+CREATE OR REPLACE FUNCTION bulk_duplicate_documents(
+    p_user_id UUID,
+    p_document_ids UUID[],
+    p_set_folder BOOLEAN DEFAULT FALSE,
+    p_folder_id UUID DEFAULT NULL,
+    p_title_suffix TEXT DEFAULT '',
+    p_author_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    source_id UUID,
+    document_id UUID,
+    document_title TEXT,
+    document_folder_id UUID,
+    document_version INTEGER
+) AS $$
+DECLARE
+    v_source RECORD;
+    v_new_id UUID;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_source IN
+        SELECT d.id, d.title, d.content, d.metadata, d.properties, d.folder_id
+        FROM documents d
+        JOIN unnest(p_document_ids) WITH ORDINALITY AS ids(id, position) ON ids.id = d.id
+        WHERE d.user_id = p_user_id
+          AND d.deleted_at IS NULL
+        ORDER BY ids.position
+        FOR SHARE OF d
+    LOOP
+        v_count := v_count + 1;
+        source_id := v_source.id;
+
+        INSERT INTO documents (title, content, metadata, properties, folder_id, user_id)
+        VALUES (
+            v_source.title || p_title_suffix,
+            v_source.content,
+            v_source.metadata,
+            v_source.properties,
+            CASE WHEN p_set_folder THEN p_folder_id ELSE v_source.folder_id END,
+            p_user_id
+        )
+        RETURNING id, title, folder_id, version
+        INTO v_new_id, document_title, document_folder_id, document_version;
+        document_id := v_new_id;
+
+        INSERT INTO document_tags (document_id, tag_id, user_id)
+        SELECT v_new_id, dt.tag_id, p_user_id
+        FROM document_tags dt
+        WHERE dt.document_id = v_source.id;
+
+        INSERT INTO document_links (user_id, source_id, target_id, target_title, link_type, occurrences)
+        SELECT p_user_id, v_new_id, dl.target_id, dl.target_title, dl.link_type, dl.occurrences
+        FROM document_links dl
+        WHERE dl.source_id = v_source.id;
+
+        INSERT INTO document_assets (user_id, document_id, asset_key, occurrences)
+        SELECT p_user_id, v_new_id, da.asset_key, da.occurrences
+        FROM document_assets da
+        WHERE da.document_id = v_source.id;
+
+        INSERT INTO document_revisions (
+            document_id, user_id, revision_number, title, content, byte_size, author_email, document_version
+        )
+        VALUES (
+            v_new_id, p_user_id, 1, document_title, coalesce(v_source.content, ''),
+            octet_length(coalesce(v_source.content, '')), p_author_email, document_version
+        );
+
+        RETURN NEXT;
+    END LOOP;
+
+    IF v_count <> cardinality(p_document_ids) THEN
+        RAISE EXCEPTION 'Some documents were not found' USING ERRCODE = 'P0002';
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 添加注释
+COMMENT ON FUNCTION bulk_update_documents IS '在单个事务中批量移动、删除文档或修改文档标签';
+COMMENT ON FUNCTION bulk_duplicate_documents IS '在单个事务中批量复制文档及其元数据、属性值、标签、出链记录和资源引用记录';
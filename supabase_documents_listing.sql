@@ -0,0 +1,39 @@
+-- 文档列表轻量查询
+-- 为列表页提供摘要和大小字段，避免返回完整正文；并为游标分页的各排序字段建立索引
+
+-- 从 Markdown 正文生成纯文本摘要：去掉代码块、图片、链接地址和常见标记符号，合并空白后截取前 200 个字符
+CREATE OR REPLACE FUNCTION document_excerpt(p_content TEXT)
+RETURNS TEXT AS $$
+    SELECT left(
+        btrim(
+            regexp_replace(
+                regexp_replace(
+                    regexp_replace(
+                        regexp_replace(
+                            coalesce(p_content, ''),
+                            '```[\s\S]*?```', ' ', 'g'
+                        ),
+                        '!\[[^\]]*\]\([^)]*\)', ' ', 'g'
+                    ),
+                    '\[([^\]]*)\]\([^)]*\)', '\1', 'g'
+                ),
+                '[#>*_`~|]+|\s+', ' ', 'g'
+            )
+        ),
+        200
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 正文字节数和摘要作为生成列随内容自动更新
+ALTER TABLE documents ADD COLUMN byte_size INTEGER GENERATED ALWAYS AS (octet_length(coalesce(content, ''))) STORED;
+ALTER TABLE documents ADD COLUMN excerpt TEXT GENERATED ALWAYS AS (document_excerpt(content)) STORED;
+
+-- 游标分页索引：排序字段 + id 作为唯一的次级排序键
+CREATE INDEX idx_documents_list_updated ON documents(user_id, updated_at DESC, id DESC) WHERE deleted_at IS NULL;
+CREATE INDEX idx_documents_list_created ON documents(user_id, created_at DESC, id DESC) WHERE deleted_at IS NULL;
+CREATE INDEX idx_documents_list_title ON documents(user_id, title, id) WHERE deleted_at IS NULL;
+CREATE INDEX idx_documents_list_size ON documents(user_id, byte_size DESC, id DESC) WHERE deleted_at IS NULL;
+
+-- 添加注释
+COMMENT ON COLUMN documents.byte_size IS '正文的 UTF-8 字节数（生成列）';
+COMMENT ON COLUMN documents.excerpt IS '正文纯文本摘要，用于文档列表（生成列）';
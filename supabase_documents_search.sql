@@ -0,0 +1,68 @@
+-- 文档全文检索
+-- 使用 PGroonga 扩展建立全文索引，原生支持中文、英文等多语言分词
+-- Supabase 项目可在 Database -> Extensions 中启用 pgroonga
+CREATE EXTENSION IF NOT EXISTS pgroonga;
+
+-- 对标题和内容建立联合全文索引
+CREATE INDEX idx_documents_fulltext ON documents USING pgroonga ((ARRAY[title, content]));
+
+-- 全文检索函数
+-- 返回按相关度排序的结果，附带高亮标题和正文摘要片段
+-- 标题匹配的权重为正文的 5 倍
+CREATE OR REPLACE FUNCTION search_documents(
+    p_user_id UUID,
+    p_query TEXT,
+    p_folder_ids UUID[] DEFAULT NULL,
+    p_unfiled_only BOOLEAN DEFAULT FALSE,
+    p_date_field TEXT DEFAULT 'updated_at',
+    p_date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    folder_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    score DOUBLE PRECISION,
+    title_highlight TEXT,
+    snippets TEXT[],
+    total_count BIGINT
+) AS $$
+    WITH matched AS (
+        SELECT
+            d.id,
+            d.title,
+            d.content,
+            d.folder_id,
+            d.created_at,
+            d.updated_at,
+            pgroonga_score(d.tableoid, d.ctid) AS score
+        FROM documents d
+        WHERE d.user_id = p_user_id
+          AND ARRAY[d.title, d.content] &@~ (p_query, ARRAY[5, 1], 'idx_documents_fulltext')::pgroonga_full_text_search_condition
+          AND (p_folder_ids IS NULL OR d.folder_id = ANY(p_folder_ids))
+          AND (NOT p_unfiled_only OR d.folder_id IS NULL)
+          AND (p_date_from IS NULL OR (CASE WHEN p_date_field = 'created_at' THEN d.created_at ELSE d.updated_at END) >= p_date_from)
+          AND (p_date_to IS NULL OR (CASE WHEN p_date_field = 'created_at' THEN d.created_at ELSE d.updated_at END) <= p_date_to)
+    )
+    SELECT
+        m.id,
+        m.title,
+        m.folder_id,
+        m.created_at,
+        m.updated_at,
+        m.score,
+        pgroonga_highlight_html(m.title, pgroonga_query_extract_keywords(p_query)) AS title_highlight,
+        pgroonga_snippet_html(COALESCE(m.content, ''), pgroonga_query_extract_keywords(p_query), 160) AS snippets,
+        COUNT(*) OVER () AS total_count
+    FROM matched m
+    ORDER BY m.score DESC, m.updated_at DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- 添加注释
+COMMENT ON INDEX idx_documents_fulltext IS '文档标题和内容的 PGroonga 全文索引，支持中英文检索';
+COMMENT ON FUNCTION search_documents IS '按相关度检索当前用户的文档，返回高亮标题和摘要片段';
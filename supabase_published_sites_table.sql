@@ -0,0 +1,26 @@
+-- 创建公开站点表
+-- 将一个文件夹子树发布为公开博客，访问地址为 /blog/<slug>
+-- 渲染后的页面缓存在 R2 的 sites/<站点ID>/<cache_token>/ 下，
+-- 站点中的文档变化时重新生成 cache_token，旧令牌下的缓存随之失效并被清理
+CREATE TABLE published_sites (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    folder_id UUID NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
+    slug TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    description TEXT,
+    theme TEXT NOT NULL DEFAULT 'default',
+    cache_token UUID NOT NULL DEFAULT gen_random_uuid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 添加索引
+CREATE INDEX idx_published_sites_user_id ON published_sites(user_id);
+CREATE INDEX idx_published_sites_folder_id ON published_sites(folder_id);
+
+-- 添加注释
+COMMENT ON TABLE published_sites IS '由文件夹子树发布的公开博客站点';
+COMMENT ON COLUMN published_sites.slug IS '站点标识，出现在公开访问地址中，只能包含小写字母、数字和连字符';
+COMMENT ON COLUMN published_sites.theme IS '页面主题：default、serif 或 dark';
+COMMENT ON COLUMN published_sites.cache_token IS 'R2 页面缓存的令牌，站点内容变化时重新生成';
@@ -0,0 +1,40 @@
+-- 创建查找替换操作表
+-- 每次执行替换生成一条记录，保存查找条件和替换结果，供查看历史和撤销
+CREATE TABLE replace_operations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    query TEXT NOT NULL,
+    replacement TEXT NOT NULL,
+    mode TEXT NOT NULL CHECK (mode IN ('text', 'word', 'regex')),
+    case_sensitive BOOLEAN NOT NULL DEFAULT FALSE,
+    folder_id UUID,
+    document_count INTEGER NOT NULL DEFAULT 0,
+    replacement_count INTEGER NOT NULL DEFAULT 0,
+    undone_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建查找替换文档记录表
+-- 记录每篇被修改文档替换前的正文和替换后的版本号；撤销时只恢复此后未再修改的文档
+CREATE TABLE replace_operation_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    operation_id UUID NOT NULL REFERENCES replace_operations(id) ON DELETE CASCADE,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    content_before TEXT,
+    version_after INTEGER NOT NULL,
+    replacements INTEGER NOT NULL,
+    UNIQUE(operation_id, document_id)
+);
+
+-- 添加索引
+CREATE INDEX idx_replace_operations_user_created ON replace_operations(user_id, created_at DESC);
+CREATE INDEX idx_replace_operation_documents_document_id ON replace_operation_documents(document_id);
+
+-- 添加注释
+COMMENT ON TABLE replace_operations IS '文档查找替换操作记录';
+COMMENT ON COLUMN replace_operations.mode IS '匹配方式：text 普通文本，word 全词匹配，regex 正则表达式';
+COMMENT ON COLUMN replace_operations.folder_id IS '限定的文件夹（包含子文件夹），为空时表示全部文档';
+COMMENT ON COLUMN replace_operations.undone_at IS '撤销时间，未撤销时为空';
+COMMENT ON TABLE replace_operation_documents IS '查找替换修改的文档及替换前的正文';
+COMMENT ON COLUMN replace_operation_documents.version_after IS '替换后的文档版本号，撤销时文档版本不一致说明已被再次修改';
@@ -0,0 +1,49 @@
+-- 创建标签表
+-- 标签归属于用户，同一用户下标签名称唯一
+CREATE TABLE tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL DEFAULT '#6b7280',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, name)
+);
+
+-- 创建文档与标签的多对多关联表
+CREATE TABLE document_tags (
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (document_id, tag_id)
+);
+
+-- 为标签相关表添加索引
+CREATE INDEX idx_tags_user_id ON tags(user_id);
+CREATE INDEX idx_document_tags_tag_id ON document_tags(tag_id);
+CREATE INDEX idx_document_tags_user_id ON document_tags(user_id);
+
+-- 添加注释
+COMMENT ON TABLE tags IS '用户标签表，用于对文档进行多维度分类';
+COMMENT ON TABLE document_tags IS '文档与标签的多对多关联表';
+COMMENT ON COLUMN tags.color IS '标签颜色，十六进制格式，例如 #ff8800';
+
+-- 统计每个标签关联的文档数量（不含回收站中的文档）
+-- 在数据库中分组计数，避免读取全部关联记录后受 PostgREST 返回行数上限影响
+CREATE OR REPLACE FUNCTION count_documents_by_tag(
+    p_user_id UUID,
+    p_tag_ids UUID[]
+)
+RETURNS TABLE (
+    tag_id UUID,
+    document_count BIGINT
+) AS $$
+    SELECT dt.tag_id, COUNT(*)
+    FROM document_tags dt
+    JOIN documents d ON d.id = dt.document_id
+    WHERE dt.user_id = p_user_id
+      AND dt.tag_id = ANY(p_tag_ids)
+      AND d.deleted_at IS NULL
+    GROUP BY dt.tag_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,99 @@
+-- 回收站（软删除）
+-- 删除文档和文件夹时只标记 deleted_at，保留在回收站中直到被恢复、永久删除或过期清理
+
+-- 为文档表添加软删除字段
+ALTER TABLE documents ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE documents ADD COLUMN trashed_with_folder_id UUID REFERENCES folders(id) ON DELETE SET NULL;
+
+-- 为文件夹表添加软删除字段
+ALTER TABLE folders ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE folders ADD COLUMN trashed_with_folder_id UUID REFERENCES folders(id) ON DELETE SET NULL;
+
+-- 为回收站查询添加索引
+CREATE INDEX idx_documents_user_deleted ON documents(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_folders_user_deleted ON folders(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_documents_trashed_with ON documents(trashed_with_folder_id) WHERE trashed_with_folder_id IS NOT NULL;
+CREATE INDEX idx_folders_trashed_with ON folders(trashed_with_folder_id) WHERE trashed_with_folder_id IS NOT NULL;
+
+-- 全文检索排除回收站中的文档
+CREATE OR REPLACE FUNCTION search_documents(
+    p_user_id UUID,
+    p_query TEXT,
+    p_folder_ids UUID[] DEFAULT NULL,
+    p_unfiled_only BOOLEAN DEFAULT FALSE,
+    p_date_field TEXT DEFAULT 'updated_at',
+    p_date_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_date_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    folder_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    score DOUBLE PRECISION,
+    title_highlight TEXT,
+    snippets TEXT[],
+    total_count BIGINT
+) AS $$
+    WITH matched AS (
+        SELECT
+            d.id,
+            d.title,
+            d.content,
+            d.folder_id,
+            d.created_at,
+            d.updated_at,
+            pgroonga_score(d.tableoid, d.ctid) AS score
+        FROM documents d
+        WHERE d.user_id = p_user_id
+          AND d.deleted_at IS NULL
+          AND ARRAY[d.title, d.content] &@~ (p_query, ARRAY[5, 1], 'idx_documents_fulltext')::pgroonga_full_text_search_condition
+          AND (p_folder_ids IS NULL OR d.folder_id = ANY(p_folder_ids))
+          AND (NOT p_unfiled_only OR d.folder_id IS NULL)
+          AND (p_date_from IS NULL OR (CASE WHEN p_date_field = 'created_at' THEN d.created_at ELSE d.updated_at END) >= p_date_from)
+          AND (p_date_to IS NULL OR (CASE WHEN p_date_field = 'created_at' THEN d.created_at ELSE d.updated_at END) <= p_date_to)
+    )
+    SELECT
+        m.id,
+        m.title,
+        m.folder_id,
+        m.created_at,
+        m.updated_at,
+        m.score,
+        pgroonga_highlight_html(m.title, pgroonga_query_extract_keywords(p_query)) AS title_highlight,
+        pgroonga_snippet_html(COALESCE(m.content, ''), pgroonga_query_extract_keywords(p_query), 160) AS snippets,
+        COUNT(*) OVER () AS total_count
+    FROM matched m
+    ORDER BY m.score DESC, m.updated_at DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- 清理超过保留期限的回收站内容
+-- 由定时任务使用服务角色密钥调用
+-- 先删除文档，再删除文件夹（子文件夹通过 CASCADE 一并删除）
+CREATE OR REPLACE FUNCTION purge_expired_trash(p_retention_days INTEGER)
+RETURNS TABLE (purged_documents BIGINT, purged_folders BIGINT) AS $$
+DECLARE
+    cutoff TIMESTAMP WITH TIME ZONE := NOW() - make_interval(days => p_retention_days);
+    doc_count BIGINT;
+    folder_count BIGINT;
+BEGIN
+    DELETE FROM documents WHERE deleted_at IS NOT NULL AND deleted_at < cutoff;
+    GET DIAGNOSTICS doc_count = ROW_COUNT;
+
+    DELETE FROM folders WHERE deleted_at IS NOT NULL AND deleted_at < cutoff;
+    GET DIAGNOSTICS folder_count = ROW_COUNT;
+
+    RETURN QUERY SELECT doc_count, folder_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 添加注释
+COMMENT ON COLUMN documents.deleted_at IS '移入回收站的时间，为空表示未删除';
+COMMENT ON COLUMN documents.trashed_with_folder_id IS '随文件夹一起移入回收站时，记录被删除的顶层文件夹ID';
+COMMENT ON COLUMN folders.deleted_at IS '移入回收站的时间，为空表示未删除';
+COMMENT ON COLUMN folders.trashed_with_folder_id IS '随上级文件夹一起移入回收站时，记录被删除的顶层文件夹ID';
+COMMENT ON FUNCTION purge_expired_trash IS '永久删除超过保留天数的回收站内容';
@@ -0,0 +1,46 @@
+-- 创建 Webhook 表
+-- 用户登记的外部地址，订阅的事件发生时通过 Cloudflare Queues 异步推送
+-- 密钥用于计算 HMAC-SHA256 签名，推送时需要原文，因此不做哈希
+CREATE TABLE webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT[] NOT NULL,
+    description TEXT,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建 Webhook 推送记录表
+-- 每个事件对每个订阅的 Webhook 生成一条记录，重试时更新同一条记录
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    next_retry_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 添加索引
+CREATE INDEX idx_webhooks_user_id ON webhooks(user_id);
+CREATE INDEX idx_webhooks_events ON webhooks USING GIN (events);
+CREATE INDEX idx_webhook_deliveries_webhook_created ON webhook_deliveries(webhook_id, created_at DESC);
+
+-- 添加注释
+COMMENT ON TABLE webhooks IS '用户登记的 Webhook 推送地址';
+COMMENT ON COLUMN webhooks.secret IS '签名密钥，推送请求的 X-Webhook-Signature 为 sha256=HMAC(secret, "<时间戳>.<请求体>")';
+COMMENT ON COLUMN webhooks.events IS '订阅的事件类型，例如 document.created、folder.moved、file.uploaded';
+COMMENT ON TABLE webhook_deliveries IS 'Webhook 推送记录';
+COMMENT ON COLUMN webhook_deliveries.status IS '推送状态：pending 等待推送或重试，succeeded 成功，failed 重试次数用尽';
+COMMENT ON COLUMN webhook_deliveries.response_body IS '接收方响应内容的前 1000 个字符';
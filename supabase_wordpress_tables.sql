@@ -0,0 +1,44 @@
+-- 创建 WordPress 站点表
+-- 用户可以登记多个 WordPress 站点，使用应用程序密码（Application Password）通过 REST API 发布文章
+-- 应用程序密码使用 AES-GCM 加密后保存，密钥来自 WORDPRESS_CREDENTIALS_KEY 环境变量
+CREATE TABLE wordpress_sites (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    site_url TEXT NOT NULL,
+    username TEXT NOT NULL,
+    password_encrypted TEXT NOT NULL,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 创建文档与 WordPress 文章的对应关系表
+-- 同一篇文档再次发布到同一站点时更新已有文章，而不是创建新文章
+CREATE TABLE wordpress_posts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    site_id UUID NOT NULL REFERENCES wordpress_sites(id) ON DELETE CASCADE,
+    post_id BIGINT NOT NULL,
+    post_url TEXT,
+    status TEXT NOT NULL,
+    published_version INTEGER,
+    media JSONB NOT NULL DEFAULT '{}',
+    last_published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, site_id)
+);
+
+-- 添加索引
+CREATE INDEX idx_wordpress_sites_user_id ON wordpress_sites(user_id);
+CREATE UNIQUE INDEX idx_wordpress_sites_user_default ON wordpress_sites(user_id) WHERE is_default;
+CREATE INDEX idx_wordpress_posts_site_id ON wordpress_posts(site_id);
+
+-- 添加注释
+COMMENT ON TABLE wordpress_sites IS '用户登记的 WordPress 站点';
+COMMENT ON COLUMN wordpress_sites.password_encrypted IS 'AES-GCM 加密的应用程序密码，格式为 <iv>.<密文>';
+COMMENT ON COLUMN wordpress_sites.is_default IS '未指定站点发布时使用的默认站点，每位用户最多一个';
+COMMENT ON TABLE wordpress_posts IS '文档与 WordPress 文章的对应关系';
+COMMENT ON COLUMN wordpress_posts.published_version IS '最近一次发布时的文档版本号';
+COMMENT ON COLUMN wordpress_posts.media IS '已上传到媒体库的图片：R2 对象键到 { id, url } 的映射，再次发布时复用';